@@ -1,6 +1,8 @@
 import React, { useState, createContext, useContext, useEffect } from 'react';
-import { Language, UserRole, StudentGoal, LibraryItem } from './types';
+import { Language, UserRole, StudentGoal, LibraryItem, LibraryItemType, NewLibraryItem } from './types';
 import { LOCALIZATION_STRINGS, STORAGE_LIMIT_BYTES } from './constants';
+import { AppSettings, getSettings, updateSettings } from './services/settings';
+import { deleteListeningAudio } from './services/audioStore';
 import SplashScreen from './components/SplashScreen';
 import MainLayout from './components/MainLayout';
 import RoleSelectionScreen from './components/RoleSelectionScreen';
@@ -13,9 +15,13 @@ interface AppContextType {
   t: (key: string) => string;
   handleGoHome: () => void;
   library: LibraryItem[];
-  addToLibrary: (item: Omit<LibraryItem, 'id' | 'timestamp'>) => void;
+  // Several items are saved together or not at all; returns false when storage is full.
+  addToLibrary: (item: NewLibraryItem | NewLibraryItem[]) => boolean;
+  updateLibraryItem: (item: LibraryItem) => void;
   removeFromLibrary: (id: string) => void;
   libraryUsage: { used: number; total: number };
+  settings: AppSettings;
+  changeSettings: (changes: Partial<AppSettings>) => void;
 }
 
 export const AppContext = createContext<AppContextType | null>(null);
@@ -28,6 +34,14 @@ export const useApp = (): AppContextType => {
   return context;
 };
 
+const listeningAudioIdOf = (item: LibraryItem | undefined): string | undefined => {
+  if (item?.type === LibraryItemType.EXAM_ATTEMPT) return item.content.exam.listeningAudioId;
+  if ((item?.type === LibraryItemType.EXAM || item?.type === LibraryItemType.REVIEW_EXERCISES) && typeof item.content === 'object') {
+    return item.content.listeningAudioId;
+  }
+  return undefined;
+};
+
 const App: React.FC = () => {
   const [language, setLanguage] = useState<Language | null>(null);
   const [userRole, setUserRole] = useState<UserRole | null>(null);
@@ -35,6 +49,7 @@ const App: React.FC = () => {
 
   const [library, setLibrary] = useState<LibraryItem[]>([]);
   const [libraryUsage, setLibraryUsage] = useState({ used: 0, total: STORAGE_LIMIT_BYTES });
+  const [settings, setSettings] = useState<AppSettings>(getSettings);
 
   const t = (key: string): string => {
     // Fallback to English if language is not set yet, for early components
@@ -89,17 +104,44 @@ const App: React.FC = () => {
     setStudentGoal(null);
   };
 
-  const addToLibrary = (itemData: Omit<LibraryItem, 'id' | 'timestamp'>) => {
+  const addToLibrary = (itemData: NewLibraryItem | NewLibraryItem[]): boolean => {
       const key = getLibraryStorageKey();
-      if (!key) return;
+      if (!key) return false;
+
+      const now = Date.now();
+      const newItems = (Array.isArray(itemData) ? itemData : [itemData]).map((item, index): LibraryItem => ({
+          ...item,
+          id: index === 0 ? `${now}` : `${now}-${index}`,
+          timestamp: now,
+      }));
+      
+      const updatedLibrary = [...newItems, ...library];
+      const newLibraryString = JSON.stringify(updatedLibrary);
+      const newSize = new TextEncoder().encode(newLibraryString).length;
 
-      const newItem: LibraryItem = {
-          ...itemData,
-          id: `${Date.now()}`,
-          timestamp: Date.now(),
-      };
+      if (newSize > STORAGE_LIMIT_BYTES) {
+          alert(t('storage_full'));
+          return false;
+      }
       
-      const updatedLibrary = [newItem, ...library];
+      try {
+          localStorage.setItem(key, newLibraryString);
+      } catch (e) {
+          // The browser's own quota can be smaller than ours.
+          console.error('Error saving the library:', e);
+          alert(t('storage_full'));
+          return false;
+      }
+      setLibrary(updatedLibrary);
+      setLibraryUsage({ used: newSize, total: STORAGE_LIMIT_BYTES });
+      return true;
+  };
+
+  const updateLibraryItem = (item: LibraryItem) => {
+      const key = getLibraryStorageKey();
+      if (!key) return;
+
+      const updatedLibrary = library.map(existing => existing.id === item.id ? item : existing);
       const newLibraryString = JSON.stringify(updatedLibrary);
       const newSize = new TextEncoder().encode(newLibraryString).length;
 
@@ -107,7 +149,7 @@ const App: React.FC = () => {
           alert(t('storage_full'));
           return;
       }
-      
+
       localStorage.setItem(key, newLibraryString);
       setLibrary(updatedLibrary);
       setLibraryUsage({ used: newSize, total: STORAGE_LIMIT_BYTES });
@@ -124,6 +166,17 @@ const App: React.FC = () => {
       localStorage.setItem(key, newLibraryString);
       setLibrary(updatedLibrary);
       setLibraryUsage({ used: newSize, total: STORAGE_LIMIT_BYTES });
+
+      // Other versions of the exam, and attempts at it, may share its listening audio.
+      const audioId = listeningAudioIdOf(library.find(item => item.id === id));
+      if (audioId && !updatedLibrary.some(item => listeningAudioIdOf(item) === audioId)) {
+          deleteListeningAudio(audioId).catch(e => console.error('Error deleting the listening audio:', e));
+      }
+  };
+
+
+  const changeSettings = (changes: Partial<AppSettings>) => {
+      setSettings(updateSettings(changes));
   };
 
 
@@ -141,7 +194,7 @@ const App: React.FC = () => {
 
 
   return (
-    <AppContext.Provider value={{ language, userRole, studentGoal, t, handleGoHome, library, addToLibrary, removeFromLibrary, libraryUsage }}>
+    <AppContext.Provider value={{ language, userRole, studentGoal, t, handleGoHome, library, addToLibrary, updateLibraryItem, removeFromLibrary, libraryUsage, settings, changeSettings }}>
       <MainLayout />
     </AppContext.Provider>
   );
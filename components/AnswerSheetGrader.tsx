@@ -0,0 +1,167 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { useApp } from '../App';
+import { Exam, LibraryItemType } from '../types';
+import { loadImageFile, readAnswerSheet } from '../services/answerSheetScanner';
+import { answerSheetAttempt, answerSheetNotes, matchExamVersion, renderScoreTableCsv, ScannedSheet, scoreAnswerSheet } from '../services/answerSheetGrading';
+import { createExamAnswerSheetLayout } from '../services/examPrint';
+import { downloadBlob, toFileName } from '../services/download';
+
+// Reads photos of the printed bubble answer sheets and scores them against the version filled in
+// on each. `versions` are the exam's versions, or just the exam when it has none.
+const AnswerSheetGrader: React.FC<{ versions: Exam[]; onClose: () => void }> = ({ versions, onClose }) => {
+    const { t, addToLibrary } = useApp();
+    const [sheets, setSheets] = useState<ScannedSheet[]>([]);
+    // Sheets saved as attempts so far; later sheets can be saved after them.
+    const [savedCount, setSavedCount] = useState(0);
+    const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    // All versions have the same questions, so their sheets have the same rows.
+    const layout = useMemo(() => createExamAnswerSheetLayout(versions[0]), [versions]);
+    const hasVersions = versions.length > 1;
+
+    const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+        e.target.value = '';
+        if (files.length === 0) return;
+        setProgress({ done: 0, total: files.length });
+        for (const [index, file] of files.entries()) {
+            let sheet: ScannedSheet = { fileName: file.name, studentId: '', versionCode: '' };
+            try {
+                const reading = readAnswerSheet(await loadImageFile(file), layout);
+                if (reading) {
+                    const version = matchExamVersion(versions, reading.versionCode);
+                    sheet = { ...sheet, reading, studentId: reading.studentId, versionCode: version?.versionCode ?? reading.versionCode };
+                }
+            } catch (err) {
+                console.error(`Error reading the answer sheet ${file.name}:`, err);
+            }
+            setSheets(prev => [...prev, sheet]);
+            setProgress({ done: index + 1, total: files.length });
+        }
+        setProgress(null);
+    };
+
+    const updateSheet = (index: number, changes: Partial<ScannedSheet>) => {
+        setSheets(prev => prev.map((sheet, i) => i === index ? { ...sheet, ...changes } : sheet));
+    };
+
+    // Each graded sheet becomes an attempt in the documents, which item analysis reads.
+    const handleSaveResults = () => {
+        const submittedAt = Date.now();
+        const items = sheets.slice(savedCount).flatMap(sheet => {
+            const version = matchExamVersion(versions, sheet.versionCode);
+            if (!sheet.reading || !version) return [];
+            const studentName = sheet.studentId.trim() || sheet.fileName;
+            return [{
+                name: `${t(LibraryItemType.EXAM_ATTEMPT)}: ${studentName} · ${version.topic}`,
+                type: LibraryItemType.EXAM_ATTEMPT as const,
+                content: { ...answerSheetAttempt(sheet.reading, version, submittedAt), studentName },
+            }];
+        });
+        if (items.length > 0) addToLibrary(items);
+        setSavedCount(sheets.length);
+    };
+
+    const handleDownload = () => {
+        downloadBlob(renderScoreTableCsv(sheets, versions, t), toFileName(`${versions[0].title} - ${t('score_table')}`, 'csv'));
+    };
+
+    const inputClassName = 'w-24 p-1 bg-slate-50 border border-slate-300 rounded focus:ring-2 focus:ring-indigo-500 transition text-sm';
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+            <div className="bg-white w-full max-w-5xl max-h-[90vh] rounded-2xl shadow-xl flex flex-col">
+                <div className="p-4 border-b border-slate-200 flex justify-between items-center">
+                    <div>
+                        <h3 className="text-lg font-bold">{t('grade_answer_sheets')}</h3>
+                        <p className="text-xs text-slate-500">{t('grade_answer_sheets_hint')}</p>
+                    </div>
+                    <button onClick={onClose} className="text-slate-500 hover:text-slate-800 text-3xl leading-none">&times;</button>
+                </div>
+                <div className="p-4 flex-1 overflow-y-auto custom-scrollbar">
+                    {layout.answers.length === 0 ? (
+                        <p className="text-center text-slate-500 py-12">{t('answer_sheet_no_questions')}</p>
+                    ) : sheets.length === 0 && !progress ? (
+                        <p className="text-center text-slate-500 py-12">{t('answer_sheet_photos_empty')}</p>
+                    ) : (
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-left text-slate-600 border-b border-slate-200">
+                                    <th className="p-2">#</th>
+                                    <th className="p-2">{t('student_id')}</th>
+                                    <th className="p-2">{t('version_code')}</th>
+                                    <th className="p-2">{t('outcome_correct')}</th>
+                                    <th className="p-2">{t('score')}</th>
+                                    <th className="p-2">{t('answer_sheet_notes')}</th>
+                                    <th className="p-2"></th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {sheets.map((sheet, index) => {
+                                    const version = matchExamVersion(versions, sheet.versionCode);
+                                    const score = sheet.reading && version ? scoreAnswerSheet(sheet.reading, version) : undefined;
+                                    return (
+                                        <tr key={index} className="border-b border-slate-100 align-top">
+                                            <td className="p-2 text-slate-500">{index + 1}</td>
+                                            <td className="p-2">
+                                                <input value={sheet.studentId} onChange={e => updateSheet(index, { studentId: e.target.value })} disabled={index < savedCount} className={inputClassName} />
+                                                <p className="text-xs text-slate-400 mt-1 truncate max-w-[10rem]" title={sheet.fileName}>{sheet.fileName}</p>
+                                            </td>
+                                            <td className="p-2">
+                                                {hasVersions ? (
+                                                    <select value={version?.versionCode ?? ''} onChange={e => updateSheet(index, { versionCode: e.target.value })} disabled={index < savedCount} className={inputClassName}>
+                                                        {!version && <option value="">{sheet.versionCode || '—'}</option>}
+                                                        {versions.map(candidate => <option key={candidate.versionCode} value={candidate.versionCode}>{candidate.versionCode}</option>)}
+                                                    </select>
+                                                ) : (
+                                                    <span className="text-slate-700">{sheet.versionCode || '—'}</span>
+                                                )}
+                                            </td>
+                                            <td className="p-2">{score ? `${score.correct}/${layout.answers.length}` : '—'}</td>
+                                            <td className="p-2 font-semibold">{score ? `${Math.round(score.earnedPoints * 100) / 100}/${Math.round(score.totalPoints * 100) / 100}` : '—'}</td>
+                                            <td className={`p-2 text-xs ${sheet.reading && version ? 'text-amber-700' : 'text-red-600'}`}>{answerSheetNotes(sheet, score, t)}</td>
+                                            <td className="p-2 text-right">
+                                                <button onClick={() => setSheets(prev => prev.filter((_, i) => i !== index))} disabled={index < savedCount} className="px-3 py-1 text-xs font-medium text-red-600 bg-red-100 rounded-lg hover:bg-red-200 disabled:opacity-50 transition-colors">{t('delete')}</button>
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    )}
+                    {progress && (
+                        <div className="flex items-center justify-center gap-3 py-4 text-sm text-slate-600">
+                            <div className="animate-spin rounded-full h-5 w-5 border-t-2 border-b-2 border-indigo-500"></div>
+                            {t('answer_sheet_reading')} {progress.done}/{progress.total}
+                        </div>
+                    )}
+                </div>
+                <div className="p-3 border-t border-slate-200 flex justify-end gap-2">
+                    <input ref={fileInputRef} type="file" accept="image/*" multiple onChange={handleFiles} className="hidden" />
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={!!progress || layout.answers.length === 0}
+                        className="px-4 py-2 text-sm font-medium text-indigo-600 bg-indigo-100 rounded-lg hover:bg-indigo-200 disabled:opacity-50 transition-colors">
+                        {t('answer_sheet_add_photos')}
+                    </button>
+                    <button
+                        onClick={handleSaveResults}
+                        disabled={savedCount >= sheets.length || !!progress}
+                        title={t('save_sheet_results_hint')}
+                        className="px-4 py-2 text-sm font-medium text-indigo-600 bg-indigo-100 rounded-lg hover:bg-indigo-200 disabled:opacity-50 transition-colors">
+                        {savedCount > 0 && savedCount >= sheets.length ? t('saved') : t('save_sheet_results')}
+                    </button>
+                    <button
+                        onClick={handleDownload}
+                        disabled={sheets.length === 0 || !!progress}
+                        className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors">
+                        {t('download_score_table')}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default AnswerSheetGrader;
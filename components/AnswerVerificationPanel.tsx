@@ -0,0 +1,84 @@
+import React from 'react';
+import { useApp } from '../App';
+import { AnswerCheck, suggestedOption } from '../services/answerVerification';
+import { optionLetter } from '../services/examModel';
+import MathText from './MathText';
+import ErrorMessage from './ErrorMessage';
+
+// The outcome of re-solving the questions: a summary, then each question with an issue.
+// `onApplyOption` switches a question's key to the option the second solve found.
+const AnswerVerificationPanel: React.FC<{
+    checks: AnswerCheck[] | null;
+    isLoading: boolean;
+    error: unknown;
+    onRetry: () => void;
+    onApplyOption?: (check: AnswerCheck, option: number) => void;
+}> = ({ checks, isLoading, error, onRetry, onApplyOption }) => {
+    const { t } = useApp();
+    const flagged = checks?.filter(check => check.issues.length > 0) ?? [];
+
+    if (isLoading) {
+        return (
+            <div className="p-3 border-b border-slate-200 flex items-center gap-3 text-sm text-slate-600 flex-shrink-0">
+                <div className="animate-spin rounded-full h-4 w-4 border-t-2 border-b-2 border-indigo-500"></div>
+                {t('verifying_answers')}
+            </div>
+        );
+    }
+    if (error) {
+        return <div className="border-b border-slate-200 flex-shrink-0"><ErrorMessage error={error} onRetry={onRetry} /></div>;
+    }
+    if (!checks) return null;
+
+    return (
+        <div className="p-3 border-b border-slate-200 flex-shrink-0 max-h-80 overflow-y-auto custom-scrollbar">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <p className={`text-sm font-medium ${flagged.length > 0 ? 'text-amber-700' : 'text-green-700'}`}>
+                    {t('answers_checked')}: {checks.length}
+                    {flagged.length > 0 ? ` · ${t('answers_flagged')}: ${flagged.length}` : ` · ${t('answers_all_agree')}`}
+                </p>
+                <button onClick={onRetry} className="px-3 py-1 text-xs font-medium text-indigo-600 bg-indigo-100 rounded-lg hover:bg-indigo-200 transition-colors">{t('verify_answers_again')}</button>
+            </div>
+            <div className="mt-2 space-y-2">
+                {flagged.map(check => {
+                    const suggestion = suggestedOption(check);
+                    return (
+                        <div key={check.questionId} className="border border-amber-200 bg-amber-50/50 rounded-lg p-2 text-sm">
+                            <div className="flex flex-wrap items-center gap-2">
+                                <span className="font-semibold text-slate-800">{t('question')} {check.number}</span>
+                                {check.issues.map(issue => (
+                                    <span key={issue} className="text-xs bg-amber-100 text-amber-800 px-2 py-0.5 rounded-full">{t(`answer_issue_${issue}`)}</span>
+                                ))}
+                                {check.numericallyChecked && <span className="text-xs text-slate-500">{t('numerically_checked')}</span>}
+                                {suggestion !== undefined && onApplyOption && (
+                                    <button onClick={() => onApplyOption(check, suggestion)} className="ml-auto px-3 py-1 text-xs font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 transition-colors">
+                                        {t('use_option')} {optionLetter(suggestion)}
+                                    </button>
+                                )}
+                            </div>
+                            <MathText text={check.prompt} className="block mt-1 text-slate-700 line-clamp-2" />
+                            <p className="mt-1 text-xs text-slate-600">
+                                {t('stated_answer')}: {check.statedOption !== undefined ? optionLetter(check.statedOption) : check.statedAnswer ? <MathText text={check.statedAnswer} /> : '—'}
+                                {' · '}
+                                {t('resolved_answer')}: {check.solvedOptions.length > 0 ? check.solvedOptions.map(optionLetter).join(', ') : check.finalAnswer ? <MathText text={check.finalAnswer} /> : '—'}
+                            </p>
+                            {check.duplicateOptions.length > 0 && (
+                                <p className="mt-1 text-xs text-slate-600">
+                                    {t('answer_issue_duplicate_options')}: {check.duplicateOptions.map(([a, b]) => `${optionLetter(a)} = ${optionLetter(b)}`).join(', ')}
+                                </p>
+                            )}
+                            {check.solution && (
+                                <details className="mt-1 text-xs text-slate-600">
+                                    <summary className="cursor-pointer">{t('verification_solution')}</summary>
+                                    <MathText text={check.solution} className="block mt-1 whitespace-pre-line" />
+                                </details>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+export default AnswerVerificationPanel;
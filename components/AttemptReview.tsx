@@ -0,0 +1,147 @@
+import React from 'react';
+import { useApp } from '../App';
+import { ExamAttempt, ExamQuestion, QuestionOutcome, QuestionType } from '../types';
+import { optionLetter, statementLabel } from '../services/examModel';
+import MathText from './MathText';
+import EssayGradeView from './EssayGradeView';
+
+const OUTCOME_STYLES: Record<QuestionOutcome, string> = {
+    correct: 'bg-green-100 text-green-700',
+    partial: 'bg-lime-100 text-lime-700',
+    incorrect: 'bg-red-100 text-red-700',
+    unanswered: 'bg-slate-200 text-slate-600',
+    graded: 'bg-indigo-100 text-indigo-700',
+    ungraded: 'bg-amber-100 text-amber-700',
+};
+
+const formatPoints = (points: number) => `${Number(points.toFixed(2))}`;
+
+// `mm:ss`, or `h:mm:ss` past an hour.
+export const formatClock = (ms: number): string => {
+    const totalSeconds = Math.max(0, Math.round(ms / 1000));
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = String(Math.floor((totalSeconds % 3600) / 60)).padStart(hours ? 2 : 1, '0');
+    const seconds = String(totalSeconds % 60).padStart(2, '0');
+    return hours ? `${hours}:${minutes}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+const QuestionReview: React.FC<{ question: ExamQuestion; number: number; attempt: ExamAttempt }> = ({ question, number, attempt }) => {
+    const { t } = useApp();
+    const answer = attempt.answers[question.id];
+    const result = attempt.results[question.id];
+    const essayGrade = attempt.essayGrades?.[question.id];
+
+    return (
+        <div className="p-4 border border-slate-200 rounded-xl bg-white space-y-3">
+            <div className="flex justify-between items-start gap-3">
+                <p className="text-slate-800">
+                    <span className="font-semibold">{t('question')} {number}. </span>
+                    <MathText text={question.prompt} />
+                </p>
+                <div className="flex-shrink-0 text-right">
+                    <span className={`text-xs font-semibold px-2 py-1 rounded-full ${OUTCOME_STYLES[result.outcome]}`}>{t(`outcome_${result.outcome}`)}</span>
+                    <p className="text-xs text-slate-500 mt-1">{formatPoints(result.earnedPoints)}/{formatPoints(question.points)} {t('points')}</p>
+                </div>
+            </div>
+
+            {question.type === QuestionType.MULTIPLE_CHOICE ? (
+                <div className="space-y-1.5">
+                    {question.options?.map((option, index) => {
+                        const isCorrect = index === question.correctOption;
+                        const isChosen = index === answer;
+                        const style = isCorrect
+                            ? 'border-green-400 bg-green-50'
+                            : isChosen ? 'border-red-400 bg-red-50' : 'border-slate-200';
+                        return (
+                            <div key={index} className={`flex items-start gap-2 px-3 py-2 border rounded-lg text-sm ${style}`}>
+                                <span className="font-semibold">{optionLetter(index)}.</span>
+                                <MathText text={option} className="flex-1" />
+                                {isChosen && <span className="text-xs font-medium text-slate-500">{t('your_answer')}</span>}
+                            </div>
+                        );
+                    })}
+                </div>
+            ) : question.type === QuestionType.TRUE_FALSE ? (
+                <div className="space-y-1.5">
+                    {question.statements?.map((statement, index) => {
+                        const verdict = Array.isArray(answer) ? answer[index] : undefined;
+                        const style = typeof verdict !== 'boolean'
+                            ? 'border-slate-200'
+                            : verdict === statement.isTrue ? 'border-green-400 bg-green-50' : 'border-red-400 bg-red-50';
+                        return (
+                            <div key={index} className={`flex items-start gap-2 px-3 py-2 border rounded-lg text-sm ${style}`}>
+                                <span className="font-semibold">{statementLabel(index)})</span>
+                                <MathText text={statement.text} className="flex-1" />
+                                <span className="text-xs font-medium text-slate-500">
+                                    {t('your_answer')}: {typeof verdict === 'boolean' ? t(verdict ? 'true_option' : 'false_option') : '—'}
+                                </span>
+                                <span className="text-xs font-semibold text-green-700">{t(statement.isTrue ? 'true_option' : 'false_option')}</span>
+                            </div>
+                        );
+                    })}
+                </div>
+            ) : (
+                <div className="space-y-2 text-sm">
+                    <div>
+                        <p className="font-medium text-slate-600">{t('your_answer')}</p>
+                        {typeof answer === 'object' && !Array.isArray(answer) ? (
+                            <img src={`data:${answer.mimeType};base64,${answer.base64Data}`} alt={t('your_answer')} className="max-h-96 rounded-lg border border-slate-200" />
+                        ) : (
+                            <p className="p-2 bg-slate-50 rounded-lg text-slate-800">{typeof answer === 'string' && answer.trim() ? <MathText text={answer} /> : '—'}</p>
+                        )}
+                    </div>
+                    {essayGrade && <EssayGradeView question={question} grade={essayGrade} />}
+                    {question.answer && (
+                        <div>
+                            <p className="font-medium text-green-700">{t('correct_answer')}</p>
+                            <p className="p-2 bg-green-50 rounded-lg text-slate-800"><MathText text={question.answer} /></p>
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {question.explanation && (
+                <div className="text-sm border-l-4 border-indigo-300 pl-3 text-slate-700">
+                    <span className="font-medium text-indigo-700">{t('explanation')}: </span>
+                    <MathText text={question.explanation} />
+                </div>
+            )}
+        </div>
+    );
+};
+
+// Score and per-question feedback of a submitted attempt.
+const AttemptReview: React.FC<{ attempt: ExamAttempt }> = ({ attempt }) => {
+    const { t } = useApp();
+    const { exam } = attempt;
+    const ungradedPoints = attempt.totalPoints - attempt.gradedPoints;
+    let number = 0;
+
+    return (
+        <div className="space-y-6 p-4">
+            <div className="bg-gradient-to-r from-indigo-50 to-purple-50 border border-indigo-200 rounded-xl p-4 flex flex-wrap justify-between items-center gap-4">
+                <div>
+                    <h3 className="text-lg font-bold text-slate-800">{exam.title}</h3>
+                    {attempt.studentName && <p className="text-sm font-medium text-slate-700">{t('student_name')}: {attempt.studentName}</p>}
+                    {attempt.submittedAt > attempt.startedAt && <p className="text-sm text-slate-500">{t('time_taken')}: {formatClock(attempt.submittedAt - attempt.startedAt)}</p>}
+                    {attempt.timedOut && <p className="text-sm font-medium text-amber-700">{t('time_up')}</p>}
+                </div>
+                <div className="text-right">
+                    <p className="text-sm font-medium text-slate-600">{t('score')}</p>
+                    <p className="text-3xl font-bold text-indigo-600">{formatPoints(attempt.earnedPoints)}<span className="text-base font-medium text-slate-500"> / {formatPoints(attempt.totalPoints)}</span></p>
+                    {ungradedPoints > 0 && <p className="text-xs text-amber-700">{formatPoints(ungradedPoints)} {t('points')} {t('awaiting_grading')}</p>}
+                </div>
+            </div>
+
+            {exam.sections.map(section => (
+                <div key={section.id} className="space-y-3">
+                    <h4 className="text-lg font-semibold text-sky-700">{section.title}</h4>
+                    {section.passage && <p className="p-3 bg-slate-50 rounded-lg text-sm text-slate-700"><MathText text={section.passage} /></p>}
+                    {section.questions.map(question => <QuestionReview key={question.id} question={question} number={++number} attempt={attempt} />)}
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default AttemptReview;
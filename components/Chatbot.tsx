@@ -1,10 +1,12 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { GoogleGenAI, Chat, GenerateContentResponse, Part } from '@google/genai';
+import { Part } from '@google/genai';
 import { useApp } from '../App';
+import { createChat, fileToGenerativePart, isCancelledError, getErrorMessageKey, ChatSession } from '../services/aiService';
 import { ChatMessage, ChatFile, Dialect, Language } from '../types';
 import MarkdownRenderer from './MarkdownRenderer';
 import { TEXTBOOKS } from '../constants';
+import { renderPrompt } from '../services/prompts';
 
 // Add this interface for compatibility
 declare global {
@@ -29,17 +31,21 @@ interface SpeechRecognition {
 }
 
 const Chatbot: React.FC = () => {
-    const { t, language } = useApp();
-    const [chat, setChat] = useState<Chat | null>(null);
+    const { t, language, settings } = useApp();
+    const [chat, setChat] = useState<ChatSession | null>(null);
     const [messages, setMessages] = useState<ChatMessage[]>([]);
     const [input, setInput] = useState('');
-    const [textbook, setTextbook] = useState('none');
+    const [textbook, setTextbook] = useState(settings.defaultTextbook);
     const [manualTextbook, setManualTextbook] = useState('');
     const [isLoading, setIsLoading] = useState(false);
+    const [streamingReply, setStreamingReply] = useState<string | null>(null);
+    // The parts of the last message that failed, so it can be re-sent without retyping.
+    const [failedParts, setFailedParts] = useState<Part[] | null>(null);
     const [attachedFile, setAttachedFile] = useState<File | null>(null);
     const [dialect, setDialect] = useState<Dialect>(Dialect.NORTH);
     const messagesEndRef = useRef<HTMLDivElement>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
 
     // New state for voice input
     const [isRecording, setIsRecording] = useState(false);
@@ -49,50 +55,12 @@ const Chatbot: React.FC = () => {
 
     // Initialize or re-initialize chat when dialect or language changes
     useEffect(() => {
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        
-        let dialectInstruction = '';
-        if (language === Language.VI) {
-            switch (dialect) {
-                case Dialect.NORTH:
-                    dialectInstruction = 'Your Vietnamese responses should use a natural Northern accent.';
-                    break;
-                case Dialect.CENTRAL:
-                    dialectInstruction = 'Your Vietnamese responses should use a natural Central accent, including characteristic regional words.';
-                    break;
-                case Dialect.SOUTH:
-                    dialectInstruction = 'Your Vietnamese responses should use a friendly and natural Southern accent.';
-                    break;
-            }
-        }
-
-        const systemInstruction = `
-            You are an expert AI assistant for teachers. Your primary goal is to be friendly, creative, fast, and accurate in helping with lesson planning, creating materials, and brainstorming ideas.
-            
-            **CRITICAL LANGUAGE RULE (MUST FOLLOW):**
-            The user has explicitly selected **${language}** as their interface language.
-            - You MUST respond exclusively in **${language}**.
-            - **Do not use any other language unless specifically asked to translate.** 
-            - Even if the user's input is in a different language (e.g., English), your response MUST be in **${language}**.
-            ${dialectInstruction}
-
-            **LaTeX for Math**: This is your most critical formatting rule. When the conversation involves mathematics, physics, or any scientific formula, you MUST use LaTeX for ALL mathematical expressions, variables, and symbols.
-                - Use \`$...$\` for inline math.
-                - Use \`$$...$$\` for block equations.
-                - **Example**: \`$x^2 + y^2 = z^2$\`, NOT \`x^2 + y^2 = z^2\`.
-                - For all other subjects and general conversation, you MUST respond in plain, natural language and SHOULD NOT use LaTeX.
-            
-            - Base your answers on the textbook specified by the user. If no textbook is provided, use your knowledge of standard curriculum.
-            - Analyze any files (images, audio, video) provided by the user in the context of their request.
-        `;
-
-
-        const newChat = ai.chats.create({
-            model: 'gemini-2.5-flash',
-            config: {
-                systemInstruction,
-            },
+        const { text: systemInstruction } = renderPrompt('chat', {
+            language,
+            dialect: language === Language.VI ? dialect : undefined,
         });
+
+        const newChat = createChat({ feature: 'chat', systemInstruction });
         setChat(newChat);
 
         const initialMessage: ChatMessage = {
@@ -152,21 +120,7 @@ const Chatbot: React.FC = () => {
 
     useEffect(() => {
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-    }, [messages]);
-
-    const fileToGenerativePart = async (file: File) => {
-        const base64EncodedDataPromise = new Promise<string>((resolve) => {
-            const reader = new FileReader();
-            reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
-            reader.readAsDataURL(file);
-        });
-        return {
-            inlineData: {
-                data: await base64EncodedDataPromise,
-                mimeType: file.type,
-            },
-        };
-    };
+    }, [messages, streamingReply]);
 
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
@@ -182,7 +136,13 @@ const Chatbot: React.FC = () => {
         let userMessageFile: ChatFile | undefined = undefined;
         
         if (attachedFile) {
-            const filePart = await fileToGenerativePart(attachedFile);
+            let filePart;
+            try {
+                filePart = await fileToGenerativePart(attachedFile);
+            } catch (error) {
+                setMessages(prev => [...prev, { role: 'model', text: t(getErrorMessageKey(error)), isError: true }]);
+                return;
+            }
             parts.push(filePart);
              userMessageFile = {
                 base64Data: filePart.inlineData.data,
@@ -209,20 +169,55 @@ const Chatbot: React.FC = () => {
         
         setInput('');
         setAttachedFile(null);
+        await sendParts(parts);
+    };
+
+    const sendParts = async (parts: Part[]) => {
+        if (!chat) return;
+        setFailedParts(null);
         setIsLoading(true);
 
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        let partialReply = '';
+
         try {
-            const result: GenerateContentResponse = await chat.sendMessage({ message: parts });
-            const modelMessage: ChatMessage = { role: 'model', text: result.text || "Sorry, I couldn't process that." };
+            const replyText = await chat.sendMessageStream(parts, {
+                signal: controller.signal,
+                onPartial: (text) => {
+                    partialReply = text;
+                    setStreamingReply(text);
+                },
+            });
+            const modelMessage: ChatMessage = { role: 'model', text: replyText || "Sorry, I couldn't process that." };
             setMessages(prev => [...prev, modelMessage]);
         } catch (error) {
-            console.error("Chat error:", error);
-            const errorMessage: ChatMessage = { role: 'model', text: "Sorry, an error occurred. Please try again." };
-            setMessages(prev => [...prev, errorMessage]);
+            if (isCancelledError(error)) {
+                // Keep whatever had arrived before the user pressed stop.
+                const cancelledMessage: ChatMessage = { role: 'model', text: partialReply || t('generation_cancelled') };
+                setMessages(prev => [...prev, cancelledMessage]);
+            } else {
+                console.error("Chat error:", error);
+                const errorMessage: ChatMessage = { role: 'model', text: t(getErrorMessageKey(error)), isError: true };
+                setMessages(prev => [...prev, errorMessage]);
+                setFailedParts(parts);
+            }
         } finally {
+            abortControllerRef.current = null;
+            setStreamingReply(null);
             setIsLoading(false);
         }
     };
+
+    const handleCancel = () => {
+        abortControllerRef.current?.abort();
+    };
+
+    const handleRetry = () => {
+        if (!failedParts || isLoading) return;
+        setMessages(prev => (prev[prev.length - 1]?.isError ? prev.slice(0, -1) : prev));
+        sendParts(failedParts);
+    };
     
     const handleKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
         if (e.key === 'Enter' && !e.shiftKey) {
@@ -264,9 +259,9 @@ const Chatbot: React.FC = () => {
                 </div>
             )}
             <div className="flex-1 p-4 overflow-y-auto custom-scrollbar">
-                {messages.map((msg, index) => (
+                {[...messages, ...(streamingReply !== null ? [{ role: 'model', text: streamingReply } as ChatMessage] : [])].map((msg, index) => (
                     <div key={index} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'} mb-4`}>
-                        <div className={`max-w-xl p-3 rounded-xl ${msg.role === 'user' ? 'bg-white shadow-sm border border-slate-200' : 'bg-slate-200'}`}>
+                        <div className={`max-w-xl p-3 rounded-xl ${msg.role === 'user' ? 'bg-white shadow-sm border border-slate-200' : msg.isError ? 'bg-red-100 text-red-700' : 'bg-slate-200'}`}>
                              {msg.file && (
                                 <div className="mb-2">
                                     {msg.file.mimeType.startsWith('image/') && (
@@ -281,11 +276,16 @@ const Chatbot: React.FC = () => {
                                     <p className="text-xs italic mt-1 text-slate-500 opacity-80">{msg.file.name}</p>
                                 </div>
                             )}
-                             <MarkdownRenderer markdown={msg.text} placeholder="" />
+                             <MarkdownRenderer markdown={msg.text} placeholder="" isStreaming={index === messages.length} />
+                             {msg.isError && failedParts && index === messages.length - 1 && !isLoading && (
+                                <button onClick={handleRetry} className="mt-2 px-4 py-1.5 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 transition-colors">
+                                    {t('retry')}
+                                </button>
+                             )}
                         </div>
                     </div>
                 ))}
-                 {isLoading && (
+                 {isLoading && streamingReply === null && (
                     <div className="flex justify-start mb-4">
                         <div className="max-w-xl p-3 rounded-xl bg-slate-200">
                            <div className="flex items-center space-x-2">
@@ -358,9 +358,15 @@ const Chatbot: React.FC = () => {
                           <path strokeLinecap="round" strokeLinejoin="round" d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
                         </svg>
                     </button>
-                    <button onClick={handleSend} disabled={isLoading || (!input.trim() && !attachedFile)} className="bg-indigo-600 text-white p-3 rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors">
-                        <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" /></svg>
-                    </button>
+                    {isLoading ? (
+                        <button onClick={handleCancel} title={t('cancel')} className="bg-red-600 text-white p-3 rounded-lg hover:bg-red-700 transition-colors">
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" viewBox="0 0 24 24" fill="currentColor"><rect x="6" y="6" width="12" height="12" rx="2" /></svg>
+                        </button>
+                    ) : (
+                        <button onClick={handleSend} disabled={!input.trim() && !attachedFile} className="bg-indigo-600 text-white p-3 rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors">
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" /></svg>
+                        </button>
+                    )}
                 </div>
             </div>
         </div>
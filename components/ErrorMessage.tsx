@@ -0,0 +1,45 @@
+import React, { useState } from 'react';
+import { useApp } from '../App';
+import { getErrorMessageKey, InvalidResponseError } from '../services/aiService';
+
+interface ErrorMessageProps {
+    error: unknown;
+    // Re-runs the failed request with whatever the user has entered in the form.
+    onRetry?: () => void;
+}
+
+const ErrorMessage: React.FC<ErrorMessageProps> = ({ error, onRetry }) => {
+    const { t } = useApp();
+    const [showDetails, setShowDetails] = useState(false);
+
+    return (
+        <div className="flex flex-col items-center justify-center gap-4 h-full text-red-600 p-4 text-center">
+            <p>{t(getErrorMessageKey(error))}</p>
+            <div className="flex gap-2">
+                {onRetry && (
+                    <button onClick={onRetry} className="px-6 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 transition-colors">
+                        {t('retry')}
+                    </button>
+                )}
+                {error instanceof InvalidResponseError && (
+                    <button onClick={() => setShowDetails(prev => !prev)} className="px-6 py-2 text-sm font-medium text-slate-700 bg-slate-200 rounded-lg hover:bg-slate-300 transition-colors">
+                        {showDetails ? t('hide_details') : t('show_details')}
+                    </button>
+                )}
+            </div>
+            {/* Diagnostics: what the model actually returned and why it was rejected. */}
+            {showDetails && error instanceof InvalidResponseError && (
+                <div className="w-full text-left text-slate-700 space-y-2">
+                    <h4 className="text-sm font-semibold">{t('validation_problems')}</h4>
+                    <ul className="list-disc ml-6 text-xs font-mono">
+                        {error.issues.map((issue, index) => <li key={index}>{issue}</li>)}
+                    </ul>
+                    <h4 className="text-sm font-semibold">{t('raw_ai_output')}</h4>
+                    <pre className="text-xs p-3 bg-slate-100 border border-slate-200 rounded-lg max-h-64 overflow-auto whitespace-pre-wrap break-words custom-scrollbar">{error.rawOutput}</pre>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ErrorMessage;
@@ -0,0 +1,88 @@
+import React from 'react';
+import { useApp } from '../App';
+import { EssayGrade, ExamQuestion } from '../types';
+import { computeEssayPoints } from '../services/essayGrading';
+import MathText from './MathText';
+
+// Per-criterion scores and feedback of a graded essay. Editable when `onChange` is given, which
+// marks the grade as reviewed by a teacher.
+const EssayGradeView: React.FC<{
+    question: ExamQuestion;
+    grade: EssayGrade;
+    onChange?: (grade: EssayGrade) => void;
+}> = ({ question, grade, onChange }) => {
+    const { t } = useApp();
+    const criteria = question.rubric?.criteria ?? [];
+
+    const update = (changes: Partial<EssayGrade>) => {
+        const next = { ...grade, ...changes, reviewedByTeacher: true };
+        onChange?.({ ...next, earnedPoints: computeEssayPoints(question, next.scores) });
+    };
+
+    const updateScore = (criterionId: string, changes: { points?: number; feedback?: string }) => {
+        update({ scores: grade.scores.map(score => score.criterionId === criterionId ? { ...score, ...changes } : score) });
+    };
+
+    return (
+        <div className="border border-indigo-200 rounded-lg p-3 space-y-3 text-sm">
+            <div className="flex justify-between items-center gap-2">
+                <p className="font-medium text-indigo-700">{t('rubric_scores')}</p>
+                <span className={`text-xs font-semibold px-2 py-1 rounded-full ${grade.reviewedByTeacher ? 'bg-green-100 text-green-700' : 'bg-amber-100 text-amber-700'}`}>
+                    {t(grade.reviewedByTeacher ? 'reviewed_by_teacher' : 'ai_graded_provisional')}
+                </span>
+            </div>
+            {criteria.map(criterion => {
+                const score = grade.scores.find(item => item.criterionId === criterion.id);
+                if (!score) return null;
+                return (
+                    <div key={criterion.id} className="space-y-1">
+                        <div className="flex justify-between items-center gap-2">
+                            <span className="font-medium text-slate-700">{criterion.name}</span>
+                            {onChange ? (
+                                <span className="flex items-center gap-1 text-slate-500">
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        max={criterion.maxPoints}
+                                        step={0.25}
+                                        value={score.points}
+                                        onChange={e => updateScore(criterion.id, { points: Math.min(criterion.maxPoints, Math.max(0, Number(e.target.value))) })}
+                                        className="w-16 p-1 bg-slate-50 border border-slate-300 rounded text-right"
+                                    />
+                                    / {criterion.maxPoints}
+                                </span>
+                            ) : (
+                                <span className="text-slate-500">{score.points}/{criterion.maxPoints}</span>
+                            )}
+                        </div>
+                        {onChange ? (
+                            <textarea
+                                value={score.feedback}
+                                onChange={e => updateScore(criterion.id, { feedback: e.target.value })}
+                                rows={2}
+                                className="w-full p-2 bg-slate-50 border border-slate-300 rounded-lg"
+                            />
+                        ) : (
+                            score.feedback && <p className="text-slate-600"><MathText text={score.feedback} /></p>
+                        )}
+                    </div>
+                );
+            })}
+            <div>
+                <p className="font-medium text-slate-700">{t('overall_feedback')}</p>
+                {onChange ? (
+                    <textarea
+                        value={grade.feedback}
+                        onChange={e => update({ feedback: e.target.value })}
+                        rows={3}
+                        className="w-full p-2 bg-slate-50 border border-slate-300 rounded-lg"
+                    />
+                ) : (
+                    <p className="text-slate-600"><MathText text={grade.feedback} /></p>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default EssayGradeView;
@@ -0,0 +1,255 @@
+import React, { useState } from 'react';
+import { useApp } from '../App';
+import { AnswerImage, EssayGrade, EssayRubric, Exam, LibraryItem, LibraryItemType } from '../types';
+import { getExamQuestions } from '../services/examModel';
+import { gradeAttempt, isAnswered } from '../services/examGrading';
+import { generateRubrics, gradeEssay, isEssay, readAnswerImage, reconcileEssayGrade } from '../services/essayGrading';
+import RubricEditor from './RubricEditor';
+import EssayGradeView from './EssayGradeView';
+import MathText from './MathText';
+import ErrorMessage from './ErrorMessage';
+
+// Teachers grade one student's paper answers to the essays of a saved exam: the AI scores each
+// answer against the (editable) rubric, the teacher reviews the scores and releases the result,
+// which is saved as an attempt. Rubric edits are saved back to the exam.
+const EssayGrader: React.FC<{ item: LibraryItem & { content: Exam }; onClose: () => void }> = ({ item, onClose }) => {
+    const { t, language, addToLibrary, updateLibraryItem } = useApp();
+    const [exam, setExam] = useState<Exam>(item.content);
+    const [studentName, setStudentName] = useState('');
+    const [answers, setAnswers] = useState<Record<string, string | AnswerImage>>({});
+    const [grades, setGrades] = useState<Record<string, EssayGrade>>({});
+    const [busy, setBusy] = useState<string | null>(null);
+    const [error, setError] = useState<unknown>(null);
+    const [isReleased, setIsReleased] = useState(false);
+
+    const essays = getExamQuestions(exam).filter(isEssay);
+    const answeredEssays = essays.filter(question => isAnswered(answers[question.id]));
+    const canRelease = !!studentName.trim() && answeredEssays.length > 0 && answeredEssays.every(question => grades[question.id]);
+
+    const saveExam = (nextExam: Exam) => {
+        if (nextExam !== item.content) {
+            updateLibraryItem({ ...item, content: nextExam } as LibraryItem);
+        }
+    };
+
+    const handleGenerateRubrics = async () => {
+        setBusy('rubrics');
+        setError(null);
+        try {
+            const missing = essays.filter(question => !question.rubric).map(question => question.id);
+            const nextExam = await generateRubrics({ exam, language, subject: t(exam.subject), questionIds: missing });
+            setExam(nextExam);
+            saveExam(nextExam);
+        } catch (e) {
+            console.error('Error generating rubrics:', e);
+            setError(e);
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handleRubricChange = (questionId: string, rubric: EssayRubric) => {
+        const nextExam = {
+            ...exam,
+            sections: exam.sections.map(section => ({
+                ...section,
+                questions: section.questions.map(question => question.id === questionId ? { ...question, rubric } : question),
+            })),
+        };
+        setExam(nextExam);
+        const grade = grades[questionId];
+        const question = getExamQuestions(nextExam).find(item => item.id === questionId);
+        if (grade && question) {
+            setGrades(prev => ({ ...prev, [questionId]: reconcileEssayGrade(question, grade) }));
+        }
+    };
+
+    const handleGrade = async (questionId: string) => {
+        const question = essays.find(item => item.id === questionId);
+        const answer = answers[questionId];
+        if (!question || !isAnswered(answer)) return;
+        setBusy(questionId);
+        setError(null);
+        try {
+            const grade = await gradeEssay({ question, answer, language, subject: t(exam.subject), grade: exam.grade });
+            setGrades(prev => ({ ...prev, [questionId]: grade }));
+        } catch (e) {
+            console.error('Error grading essay:', e);
+            setError(e);
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handlePhotoChange = async (questionId: string, e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const image = await readAnswerImage(file);
+            setAnswers(prev => ({ ...prev, [questionId]: image }));
+        } catch (e) {
+            console.error('Error reading answer photo:', e);
+            alert(t('photo_read_failed'));
+        }
+    };
+
+    const handleRelease = () => {
+        const essayExam: Exam = {
+            ...exam,
+            sections: exam.sections
+                .map(section => ({ ...section, questions: section.questions.filter(isEssay) }))
+                .filter(section => section.questions.length > 0),
+        };
+        const releasedAt = Date.now();
+        const reviewedGrades: Record<string, EssayGrade> = {};
+        for (const question of answeredEssays) {
+            reviewedGrades[question.id] = { ...grades[question.id], reviewedByTeacher: true };
+        }
+        const attempt = gradeAttempt(essayExam, answers, { startedAt: releasedAt, submittedAt: releasedAt, timedOut: false }, reviewedGrades);
+        addToLibrary({
+            name: `${t(LibraryItemType.EXAM_ATTEMPT)}: ${studentName.trim()} · ${exam.topic}`,
+            type: LibraryItemType.EXAM_ATTEMPT,
+            content: { ...attempt, studentName: studentName.trim(), releasedAt },
+        });
+        saveExam(exam);
+        setIsReleased(true);
+    };
+
+    const handleNextStudent = () => {
+        setStudentName('');
+        setAnswers({});
+        setGrades({});
+        setIsReleased(false);
+    };
+
+    const handleClose = () => {
+        if (!isReleased) {
+            saveExam(exam);
+        }
+        onClose();
+    };
+
+    let number = 0;
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+            <div className="bg-white w-full max-w-4xl max-h-[90vh] rounded-2xl shadow-xl flex flex-col">
+                <div className="p-4 border-b border-slate-200 flex justify-between items-center flex-shrink-0">
+                    <h3 className="text-lg font-bold truncate">{t('grade_essays')}: {exam.title}</h3>
+                    <button onClick={handleClose} className="text-slate-500 hover:text-slate-800 text-3xl leading-none">&times;</button>
+                </div>
+
+                <div className="flex-grow overflow-auto p-4 space-y-6 custom-scrollbar">
+                    <div className="flex flex-wrap items-end gap-4">
+                        <div className="flex-1 min-w-[200px]">
+                            <label className="block text-sm font-medium text-slate-700 mb-1">{t('student_name')}</label>
+                            <input
+                                value={studentName}
+                                onChange={e => setStudentName(e.target.value)}
+                                disabled={isReleased}
+                                className="w-full p-2.5 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 transition text-sm"
+                            />
+                        </div>
+                        {essays.some(question => !question.rubric) && (
+                            <button
+                                onClick={handleGenerateRubrics}
+                                disabled={!!busy}
+                                className="px-4 py-2.5 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 transition-colors disabled:bg-slate-400"
+                            >
+                                {busy === 'rubrics' ? t('generating') : t('generate_rubrics')}
+                            </button>
+                        )}
+                    </div>
+
+                    {error && <ErrorMessage error={error} />}
+
+                    {essays.map(question => {
+                        const answer = answers[question.id];
+                        const grade = grades[question.id];
+                        return (
+                            <div key={question.id} className="p-4 border border-slate-200 rounded-xl space-y-4">
+                                <p className="text-slate-800">
+                                    <span className="font-semibold">{t('question')} {++number}. </span>
+                                    <MathText text={question.prompt} />
+                                    <span className="text-sm text-slate-500"> ({question.points} {t('points')})</span>
+                                </p>
+
+                                {question.rubric ? (
+                                    <details>
+                                        <summary className="cursor-pointer text-sm font-medium text-indigo-700">{t('rubric')}</summary>
+                                        <div className="mt-3">
+                                            <RubricEditor question={question} rubric={question.rubric} onChange={rubric => handleRubricChange(question.id, rubric)} />
+                                        </div>
+                                    </details>
+                                ) : (
+                                    <p className="text-sm text-amber-700">{t('no_rubric_yet')}</p>
+                                )}
+
+                                <div className="space-y-2">
+                                    <p className="text-sm font-medium text-slate-600">{t('student_answer')}</p>
+                                    {typeof answer === 'object' ? (
+                                        <div className="space-y-2">
+                                            <img src={`data:${answer.mimeType};base64,${answer.base64Data}`} alt={t('student_answer')} className="max-h-96 rounded-lg border border-slate-200" />
+                                            {!isReleased && <button onClick={() => setAnswers(prev => ({ ...prev, [question.id]: '' }))} className="text-sm font-medium text-red-600 hover:underline">{t('remove_photo')}</button>}
+                                        </div>
+                                    ) : (
+                                        <>
+                                            <textarea
+                                                value={answer ?? ''}
+                                                onChange={e => setAnswers(prev => ({ ...prev, [question.id]: e.target.value }))}
+                                                disabled={isReleased}
+                                                rows={5}
+                                                placeholder={t('answer_placeholder')}
+                                                className="w-full p-2.5 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 transition text-sm"
+                                            />
+                                            {!isReleased && (
+                                                <label className="inline-block text-sm font-medium text-indigo-600 hover:underline cursor-pointer">
+                                                    {t('attach_photo')}
+                                                    <input type="file" accept="image/*" onChange={e => handlePhotoChange(question.id, e)} className="hidden" />
+                                                </label>
+                                            )}
+                                        </>
+                                    )}
+                                </div>
+
+                                {!isReleased && (
+                                    <button
+                                        onClick={() => handleGrade(question.id)}
+                                        disabled={!!busy || !question.rubric || !isAnswered(answer)}
+                                        className="px-4 py-2 text-sm font-medium text-indigo-600 bg-indigo-100 rounded-lg hover:bg-indigo-200 transition-colors disabled:opacity-50"
+                                    >
+                                        {busy === question.id ? t('grading_essays') : grade ? t('regrade_with_ai') : t('grade_with_ai')}
+                                    </button>
+                                )}
+
+                                {grade && (
+                                    <EssayGradeView
+                                        question={question}
+                                        grade={grade}
+                                        onChange={isReleased ? undefined : next => setGrades(prev => ({ ...prev, [question.id]: next }))}
+                                    />
+                                )}
+                                {grade && <p className="text-sm font-semibold text-indigo-600 text-right">{t('score')}: {grade.earnedPoints}/{question.points}</p>}
+                            </div>
+                        );
+                    })}
+                </div>
+
+                <div className="p-3 border-t border-slate-200 flex justify-between items-center gap-3 flex-shrink-0">
+                    {isReleased ? <p className="text-sm text-green-700">{t('results_released')}</p> : <p className="text-xs text-slate-500">{t('release_results_hint')}</p>}
+                    <div className="flex gap-2">
+                        {isReleased ? (
+                            <button onClick={handleNextStudent} className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 transition-colors">{t('next_student')}</button>
+                        ) : (
+                            <button onClick={handleRelease} disabled={!canRelease || !!busy} className="px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-lg hover:bg-green-700 transition-colors disabled:bg-slate-400">{t('release_results')}</button>
+                        )}
+                        <button onClick={handleClose} className="px-4 py-2 text-sm font-medium text-slate-700 bg-slate-200 rounded-lg hover:bg-slate-300 transition-colors">{t('close')}</button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default EssayGrader;
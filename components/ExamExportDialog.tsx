@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { useApp } from '../App';
+import { Exam, QuestionType } from '../types';
+import { getExamQuestions } from '../services/examModel';
+import { createDocx, examToDocxBlocks } from '../services/docxExport';
+import { printHtml, renderExamPrintHtml } from '../services/examPrint';
+import { ANSWER_SHEET_MAX_QUESTIONS } from '../services/answerSheetLayout';
+import { downloadBlob, toFileName } from '../services/download';
+
+export type ExamExportFormat = 'docx' | 'pdf';
+
+// Asks for the header fields of the printed exam, then downloads it as a .docx file or opens the
+// print dialog (where it can be saved as PDF). The school is remembered in the settings.
+const ExamExportDialog: React.FC<{ exam: Exam; format: ExamExportFormat; onClose: () => void }> = ({ exam, format, onClose }) => {
+    const { t, settings, changeSettings } = useApp();
+    const [school, setSchool] = useState(settings.schoolName);
+    const [className, setClassName] = useState('');
+    // Printed copies usually go to students, so only the Word file has the key by default.
+    const [includeAnswerKey, setIncludeAnswerKey] = useState(format === 'docx');
+    const [includeAnswerSheet, setIncludeAnswerSheet] = useState(false);
+
+    const multipleChoiceCount = getExamQuestions(exam).filter(question => question.type === QuestionType.MULTIPLE_CHOICE).length;
+    const hasTooManyForSheet = format === 'pdf' && includeAnswerSheet && multipleChoiceCount > ANSWER_SHEET_MAX_QUESTIONS;
+
+    const handleExport = async () => {
+        const name = exam.versionCode ? `${exam.title} - ${t('version_code')} ${exam.versionCode}` : exam.title;
+        try {
+            if (format === 'docx') {
+                downloadBlob(createDocx(examToDocxBlocks(exam, t, { school, className, includeAnswerKey })), toFileName(name, 'docx'));
+            } else {
+                await printHtml(renderExamPrintHtml(exam, t, { school, className, includeAnswerKey, includeAnswerSheet }));
+            }
+            if (school.trim() !== settings.schoolName) {
+                changeSettings({ schoolName: school.trim() });
+            }
+            onClose();
+        } catch (e) {
+            console.error(`Error exporting the exam as ${format}:`, e);
+            alert(t(format === 'docx' ? 'docx_export_failed' : 'print_failed'));
+        }
+    };
+
+    const inputClassName = 'mt-1 w-full p-2.5 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 transition text-sm';
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+            <div className="bg-white w-full max-w-md rounded-2xl shadow-xl flex flex-col">
+                <div className="p-4 border-b border-slate-200 flex justify-between items-center">
+                    <h3 className="text-lg font-bold">{t(format === 'docx' ? 'docx_export' : 'pdf_export')}</h3>
+                    <button onClick={onClose} className="text-slate-500 hover:text-slate-800 text-3xl leading-none">&times;</button>
+                </div>
+                <div className="p-4 space-y-4">
+                    <div>
+                        <label className="block text-sm font-medium text-slate-600">{t('school_name')}</label>
+                        <input value={school} onChange={e => setSchool(e.target.value)} className={inputClassName} />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-slate-600">{t('class_name')}</label>
+                        <input value={className} onChange={e => setClassName(e.target.value)} className={inputClassName} />
+                    </div>
+                    <label className="flex items-center gap-2 text-sm text-slate-700">
+                        <input
+                            type="checkbox"
+                            checked={includeAnswerKey}
+                            onChange={e => setIncludeAnswerKey(e.target.checked)}
+                            className="h-4 w-4 accent-indigo-600"
+                        />
+                        {t('include_answer_key')}
+                    </label>
+                    {format === 'pdf' && multipleChoiceCount > 0 && (
+                        <label className="flex items-center gap-2 text-sm text-slate-700">
+                            <input
+                                type="checkbox"
+                                checked={includeAnswerSheet}
+                                onChange={e => setIncludeAnswerSheet(e.target.checked)}
+                                className="h-4 w-4 accent-indigo-600"
+                            />
+                            {t('include_answer_sheet')}
+                        </label>
+                    )}
+                    {hasTooManyForSheet && <p className="text-xs text-amber-700">{t('answer_sheet_too_many')}</p>}
+                    <p className="text-xs text-slate-500">{t(format === 'docx' ? 'docx_export_hint' : 'pdf_export_hint')}</p>
+                </div>
+                <div className="p-3 border-t border-slate-200 flex justify-end gap-2">
+                    <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-slate-700 bg-slate-200 rounded-lg hover:bg-slate-300 transition-colors">{t('cancel')}</button>
+                    <button onClick={handleExport} className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 transition-colors">
+                        {t(format === 'docx' ? 'download_docx' : 'print_pdf')}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ExamExportDialog;
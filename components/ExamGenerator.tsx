@@ -1,40 +1,41 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { GoogleGenAI, Part, Type, Modality } from '@google/genai';
+import { Part } from '@google/genai';
 import { useApp } from '../App';
+import { generateJsonStream, fileToGenerativePart, isCancelledError, SpeakerVoice, TTS_VOICES } from '../services/aiService';
+import { englishExamResponse, examResponse } from '../services/responseValidators';
+import { renderPrompt } from '../services/prompts';
+import { buildExamSchema, ExamMeta, getExamQuestions, normalizeExam, replaceExamQuestion } from '../services/examModel';
+import { renderExamMarkdown, renderExamWord } from '../services/examRenderer';
+import { createExamVersions, MAX_EXAM_VERSIONS, renderAnswerKeyTable, replaceQuestionInVersions } from '../services/examVersions';
+import { buildMatrixBlueprint, loadExamMatrix, saveExamMatrix, sumMatrix } from '../services/examMatrix';
+import {
+    addQuestionsToBank,
+    bankEntriesFromExam,
+    fillMatrixFromBank,
+    getQuestionBank,
+    markBankQuestionsUsed,
+    mergeBankPicks,
+    subscribeToQuestionBank,
+} from '../services/questionBank';
+import ErrorMessage from './ErrorMessage';
 import { GRADES, SUBJECTS, DIFFICULTY_LEVELS, TEXTBOOKS } from '../constants';
-import { Subject, UserRole, DifficultyLevel, LibraryItemType } from '../types';
+import { Subject, UserRole, DifficultyLevel, Exam, ExamQuestion, LibraryItemType } from '../types';
 import MarkdownRenderer from './MarkdownRenderer';
-
-// Audio decoding helper functions
-function decode(base64: string) {
-  const binaryString = atob(base64);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return bytes;
-}
-
-async function decodeAudioData(
-  data: Uint8Array,
-  ctx: AudioContext,
-  sampleRate: number,
-  numChannels: number,
-): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-    }
-  }
-  return buffer;
-}
+import ExamTaker from './ExamTaker';
+import ExamMatrixEditor from './ExamMatrixEditor';
+import ExamExportDialog, { ExamExportFormat } from './ExamExportDialog';
+import LmsExportDialog from './LmsExportDialog';
+import AnswerSheetGrader from './AnswerSheetGrader';
+import ItemAnalysisReport from './ItemAnalysisReport';
+import ExamQuestionsEditor from './ExamQuestionsEditor';
+import AnswerVerificationPanel from './AnswerVerificationPanel';
+import { AnswerCheck, isVerifiedSubject, verifyExamAnswers } from '../services/answerVerification';
+import { createDocx, markdownToDocxBlocks } from '../services/docxExport';
+import { downloadBlob, toFileName } from '../services/download';
+import { assignVoices, generateListeningAudio, getScriptSpeakers } from '../services/listeningAudio';
+import { deleteListeningAudio, isAudioStoreAvailable, saveListeningAudio } from '../services/audioStore';
+import ListeningAudioPlayer from './ListeningAudioPlayer';
 
 const copyToClipboard = async (text: string) => {
     try {
@@ -79,41 +80,88 @@ const examGeneratorSubjects = [
 const naturalScienceSubSubjects = [Subject.PHYSICS, Subject.CHEMISTRY, Subject.BIOLOGY];
 
 const ExamGenerator: React.FC = () => {
-    const { t, language, userRole, addToLibrary } = useApp();
+    const { t, language, userRole, addToLibrary, settings } = useApp();
+    // Physics, chemistry and biology are only offered here as parts of natural sciences.
+    const isDefaultSubSubject = naturalScienceSubSubjects.includes(settings.defaultSubject);
     const [config, setConfig] = useState({
-        grade: 10,
-        subject: Subject.NATURAL_SCIENCES,
+        grade: settings.defaultGrade,
+        subject: isDefaultSubSubject ? Subject.NATURAL_SCIENCES : settings.defaultSubject,
         topic: '',
-        textbook: 'none',
+        textbook: settings.defaultTextbook,
         duration: 45,
         numMultipleChoice: 8,
         mcCounts: {
             [DifficultyLevel.RECOGNITION]: 4,
             [DifficultyLevel.COMPREHENSION]: 4,
             [DifficultyLevel.APPLICATION]: 0,
+            [DifficultyLevel.HIGH_APPLICATION]: 0,
+        },
+        // True/false clusters and numeric short answers of the national exam format (since 2025).
+        tfCounts: {
+            [DifficultyLevel.RECOGNITION]: 0,
+            [DifficultyLevel.COMPREHENSION]: 0,
+            [DifficultyLevel.APPLICATION]: 0,
+            [DifficultyLevel.HIGH_APPLICATION]: 0,
+        },
+        shortAnswerCounts: {
+            [DifficultyLevel.RECOGNITION]: 0,
+            [DifficultyLevel.COMPREHENSION]: 0,
+            [DifficultyLevel.APPLICATION]: 0,
+            [DifficultyLevel.HIGH_APPLICATION]: 0,
         },
         essayCounts: {
             [DifficultyLevel.RECOGNITION]: 1,
             [DifficultyLevel.COMPREHENSION]: 1,
             [DifficultyLevel.APPLICATION]: 0,
+            [DifficultyLevel.HIGH_APPLICATION]: 0,
         },
     });
     const [manualTextbook, setManualTextbook] = useState('');
-    const [selectedNaturalSciences, setSelectedNaturalSciences] = useState<Subject[]>([Subject.PHYSICS]);
+    const [selectedNaturalSciences, setSelectedNaturalSciences] = useState<Subject[]>([isDefaultSubSubject ? settings.defaultSubject : Subject.PHYSICS]);
     const [matrixFile, setMatrixFile] = useState<File | null>(null);
     const [matrixFileName, setMatrixFileName] = useState('');
-    const [generatedExam, setGeneratedExam] = useState('');
-    const [wordContent, setWordContent] = useState('');
+    // Teachers can build the exam from an in-app matrix instead of the per-level counts.
+    const [useMatrix, setUseMatrix] = useState(false);
+    const [matrix, setMatrix] = useState(loadExamMatrix);
+    const [isMatrixEditorOpen, setIsMatrixEditorOpen] = useState(false);
+    // Matrix cells are filled with matching bank questions first; only the rest is generated.
+    const [useBank, setUseBank] = useState(false);
+    const [bank, setBank] = useState(getQuestionBank);
+    const [bankNotice, setBankNotice] = useState('');
+    // Template version of the prompt behind the exam on screen; saved with it to the library.
+    const [promptVersion, setPromptVersion] = useState('');
+    const [exam, setExam] = useState<Exam | null>(null);
+    // Shuffled versions of the exam (mã đề), and which of them is on screen: '' for the original
+    // exam, a version code, or 'answer_key' for the consolidated answer-key table.
+    const [versionCount, setVersionCount] = useState(4);
+    const [versions, setVersions] = useState<Exam[]>([]);
+    const [selectedView, setSelectedView] = useState('');
+    const [isTakingExam, setIsTakingExam] = useState(false);
+    const [exportFormat, setExportFormat] = useState<ExamExportFormat | null>(null);
+    const [isLmsExportOpen, setIsLmsExportOpen] = useState(false);
+    const [isSheetGraderOpen, setIsSheetGraderOpen] = useState(false);
+    const [isItemAnalysisOpen, setIsItemAnalysisOpen] = useState(false);
+    const [isEditingQuestions, setIsEditingQuestions] = useState(false);
+    // Second solve of the generated answers; null until it has run.
+    const [answerChecks, setAnswerChecks] = useState<AnswerCheck[] | null>(null);
+    const [isVerifying, setIsVerifying] = useState(false);
+    const [verificationError, setVerificationError] = useState<unknown>(null);
     const [isLoading, setIsLoading] = useState(false);
-    const [error, setError] = useState<string | null>(null);
+    const [error, setError] = useState<unknown>(null);
     const [copyAsTextButtonText, setCopyAsTextButtonText] = useState(t('copy_as_text'));
     const [copyForWordButtonText, setCopyForWordButtonText] = useState(t('copy_for_word'));
     const [saveButtonText, setSaveButtonText] = useState(t(userRole === UserRole.TEACHER ? 'save_to_documents' : 'save_to_library'));
 
     const [generatedAudio, setGeneratedAudio] = useState<string | null>(null);
+    const [isAudioFailed, setIsAudioFailed] = useState(false);
     const [isAudioLoading, setIsAudioLoading] = useState(false);
-    const [isSpeaking, setIsSpeaking] = useState(false);
+    const [speakerVoices, setSpeakerVoices] = useState<SpeakerVoice[]>([]);
+    // Audio store key of the current audio once an exam was saved with it; new audio gets a new key.
+    const savedAudioIdRef = useRef<string | null>(null);
     const matrixInputRef = useRef<HTMLInputElement>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+    // Counts verification runs, so a run for an exam that has since been replaced is dropped.
+    const verificationRunRef = useRef(0);
 
 
     const resetSaveButton = () => {
@@ -124,8 +172,18 @@ const ExamGenerator: React.FC = () => {
         setCopyAsTextButtonText(t('copy_as_text'));
         setCopyForWordButtonText(t('copy_for_word'));
         resetSaveButton();
-    }, [generatedExam, t, userRole]);
+    }, [exam, selectedView, t, userRole]);
+
 
+    useEffect(() => {
+        saveExamMatrix(matrix);
+    }, [matrix]);
+
+    useEffect(() => subscribeToQuestionBank(() => setBank(getQuestionBank())), []);
+
+    useEffect(() => {
+        setBankNotice('');
+    }, [exam]);
 
     const handleConfigChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
         const { name, value } = e.target;
@@ -165,14 +223,14 @@ const ExamGenerator: React.FC = () => {
         }));
     };
     
-    const handleEssayCountChange = (level: DifficultyLevel, value: string) => {
+    const handleTypeCountChange = (field: 'tfCounts' | 'shortAnswerCounts' | 'essayCounts', level: DifficultyLevel, value: string) => {
         const count = parseInt(value, 10);
         if (isNaN(count) || count < 0) return;
         
         setConfig(prev => ({
             ...prev,
-            essayCounts: {
-                ...prev.essayCounts,
+            [field]: {
+                ...prev[field],
                 [level]: count,
             }
         }));
@@ -191,17 +249,26 @@ const ExamGenerator: React.FC = () => {
     };
 
     const handleGenerate = async () => {
-        const totalEssay = Object.values(config.essayCounts).reduce((sum: number, count: number) => sum + count, 0);
-        if (!config.topic.trim() || (config.numMultipleChoice === 0 && totalEssay === 0) || isMcCountMismatch) return;
+        if (!config.topic.trim() || !hasQuestionsToGenerate) return;
 
         setIsLoading(true);
-        setGeneratedExam('');
-        setWordContent('');
+        setExam(null);
+        setVersions([]);
+        setSelectedView('');
+        setIsTakingExam(false);
+        setIsEditingQuestions(false);
+        verificationRunRef.current++;
+        setAnswerChecks(null);
+        setIsVerifying(false);
+        setVerificationError(null);
         setError(null);
         resetSaveButton();
         setGeneratedAudio(null);
+        setIsAudioFailed(false);
         setIsAudioLoading(false);
-        setIsSpeaking(false);
+        setSpeakerVoices([]);
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
         
         const textbookName = config.textbook === 'other' ? manualTextbook : (config.textbook !== 'none' ? t(config.textbook) : '');
 
@@ -213,152 +280,51 @@ const ExamGenerator: React.FC = () => {
              config.topic.toLowerCase().includes('final exam') ||
              config.topic.toLowerCase().includes('end-of-term'));
 
+        const examMeta: ExamMeta = {
+            subject: config.subject,
+            grade: config.grade,
+            topic: config.topic,
+            durationMinutes: config.duration,
+        };
+
         try {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-            
             if (isSpecialEnglishExam) {
-                 const prompt = `
-                    Act as an expert English teacher creating a final exam for a grade ${config.grade} student.
-                    The exam must be based on the curriculum from the specified textbook: "${textbookName}".
-                    The exam MUST have three sections: LISTENING, READING, and WRITING.
-
-                    **LANGUAGE RULE:** 
-                    - The listening script and reading passages should be in English.
-                    - However, the **questions, instructions, headers, and answer key explanations** must be in ${language} (if it is the standard instruction language for this region).
-
-                    **INSTRUCTIONS:**
-                    1.  **LISTENING SECTION:**
-                        - First, create a short, clear audio script suitable for a grade ${config.grade} student.
-                        - Then, based on the script, create a mix of multiple-choice, true/false, and short-answer questions.
-                    2.  **READING SECTION:**
-                        - Write a reading passage appropriate for the grade level, drawing from topics in the textbook.
-                        - Create a mix of multiple-choice, true/false, and short-answer questions based on the passage.
-                    3.  **WRITING SECTION:**
-                        - Create tasks that test vocabulary and grammar from the textbook.
-                    4.  **ANSWERS:** Provide a clear answer key at the very end of the exam.
-
-                    **CRITICAL OUTPUT FORMAT:**
-                    Your entire response MUST be a single, valid JSON object.
-                    This object must have three keys:
-                    1.  \`listeningScript\`: A string containing ONLY the text for the audio passage.
-                    2.  \`examMarkdown\`: A string containing the full exam in Markdown format.
-                    3.  \`examWordContent\`: A string containing the same exam content as examMarkdown.
-
-                    Do not include any text, explanations, or markdown formatting (like \`\`\`json\`) outside of this single JSON object.
-                `;
-                
-                const responseSchema = {
-                    type: Type.OBJECT,
-                    properties: {
-                        listeningScript: { type: Type.STRING },
-                        examMarkdown: { type: Type.STRING },
-                        examWordContent: { type: Type.STRING }
-                    },
-                    required: ['listeningScript', 'examMarkdown', 'examWordContent']
-                };
-                
-                const response = await ai.models.generateContent({
-                    model: 'gemini-2.5-pro',
+                const { text: prompt, version } = renderPrompt('english_exam', {
+                    language,
+                    grade: config.grade,
+                    textbook: textbookName,
+                });
+                setPromptVersion(version);
+
+                const result = await generateJsonStream({
+                    feature: 'english_exam',
+                    validate: englishExamResponse,
                     contents: prompt,
-                    config: {
-                        responseMimeType: 'application/json',
-                        responseSchema: responseSchema,
-                    },
+                    schema: buildExamSchema({ withListeningScript: true }),
+                    signal: controller.signal,
+                    onPartial: partial => setExam(normalizeExam(partial, examMeta)),
                 });
 
-                const jsonString = (response.text || '').trim();
-                if (!jsonString) {
-                    throw new Error("Received an empty response from the API.");
-                }
-                const result = JSON.parse(jsonString);
-                
-                setGeneratedExam(result.examMarkdown || 'Failed to generate exam content.');
-                setWordContent(result.examWordContent || '');
+                setExam(normalizeExam(result, examMeta));
                 setIsLoading(false);
 
                 if (result.listeningScript) {
-                    setIsAudioLoading(true);
-                    try {
-                        const ttsResponse = await ai.models.generateContent({
-                            model: "gemini-2.5-flash-preview-tts",
-                            contents: [{ parts: [{ text: result.listeningScript }] }],
-                            config: {
-                                responseModalities: [Modality.AUDIO],
-                                speechConfig: {
-                                    voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } },
-                                },
-                            },
-                        });
-                        const base64Audio = ttsResponse.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-                        if (base64Audio) {
-                            setGeneratedAudio(base64Audio);
-                        } else {
-                            throw new Error("No audio data received from TTS API.");
-                        }
-                    } catch (ttsError) {
-                        console.error("TTS Error:", ttsError);
-                        setGeneratedExam(prev => `**[NOTE: Audio generation failed. Please use the listening script below for the questions.]**\n\n**Listening Script:**\n*${result.listeningScript}*\n\n---\n\n${prev}`);
-                    } finally {
-                        setIsAudioLoading(false);
-                    }
+                    const voices = assignVoices(getScriptSpeakers(result.listeningScript), settings.listeningVoice);
+                    setSpeakerVoices(voices);
+                    await voiceListeningScript(result.listeningScript, voices);
                 }
                 return; // Exit here for the special case
             }
 
 
             // Existing Logic for other subjects/topics
-            const fileToGenerativePart = async (file: File) => {
-                const base64EncodedDataPromise = new Promise<string>((resolve) => {
-                    const reader = new FileReader();
-                    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
-                    reader.readAsDataURL(file);
-                });
-                return {
-                    inlineData: {
-                        data: await base64EncodedDataPromise,
-                        mimeType: file.type,
-                    },
-                };
-            };
-            
             const parts: Part[] = [];
 
-            const totalMC = config.numMultipleChoice;
-
-            let mcPromptPart = '';
-            if (Number(totalMC) > 0) {
-                mcPromptPart = `
-**Multiple Choice Section Details:**
--   Total Questions: ${totalMC}
--   Breakdown by Difficulty:
-    -   ${t('recognition')}: ${config.mcCounts.recognition} questions
-    -   ${t('comprehension')}: ${config.mcCounts.comprehension} questions
-    -   ${t('application')}: ${config.mcCounts.application} questions
-`;
-            }
-    
-            let essayPromptPart = '';
-            if (Number(totalEssay) > 0) {
-                essayPromptPart = `
-**Essay Section Details:**
--   Total Questions: ${totalEssay}
--   Breakdown by Difficulty:
-    -   ${t('recognition')}: ${config.essayCounts.recognition} questions
-    -   ${t('comprehension')}: ${config.essayCounts.comprehension} questions
-    -   ${t('application')}: ${config.essayCounts.application} questions
-`;
-            }
-    
-            let structureInstruction = '';
-            const sections = [];
-            if (Number(totalMC) > 0) sections.push(`"I. ${t('multiple_choice').toUpperCase()}"`);
-            if (Number(totalEssay) > 0) sections.push(`"${Number(totalMC) > 0 ? 'II' : 'I'}. ${t('essay').toUpperCase()}"`);
-    
-            if (sections.length > 0) {
-                structureInstruction = `**Structure:** Create the following distinct section(s): ${sections.join(' and ')}.`;
-            } else {
-                structureInstruction = `**Structure:** Format the output as a clean document.`;
-            }
+            const difficultyBreakdown = (title: string, total: number, counts: Record<DifficultyLevel, number>) => ({
+                title,
+                total,
+                levels: DIFFICULTY_LEVELS.map(level => ({ label: t(level), count: counts[level] })),
+            });
 
             let subjectForPrompt = t(config.subject);
             if (config.subject === Subject.NATURAL_SCIENCES && selectedNaturalSciences.length > 0) {
@@ -366,139 +332,202 @@ const ExamGenerator: React.FC = () => {
                 subjectForPrompt = `${t(Subject.NATURAL_SCIENCES)} (focusing on: ${subSubjects})`;
             }
 
-            let prompt = '';
-            
-            const basePrompt = `
-                **CRITICAL LANGUAGE RULE (MUST FOLLOW):**
-                The user has explicitly selected **${language}** as their interface language.
-                - Your entire response, including all questions, options, instructions, headers (like 'Solution', 'Part I'), and answers, **MUST be in ${language}**. 
-                - **Do not output English text unless ${language} is explicitly English.**
-                - If the topic or input is in another language, you MUST translate everything to **${language}**.
-
-                **LaTeX for Math**: This is your most important formatting rule. You MUST use LaTeX for ALL mathematical content.
-                    - Use \`$...$\` for inline math (e.g., \`$x^2 + 5 = 10$\`).
-                    - Use \`$$...$$\` for block-level equations.
-                    - **DO NOT** output math as plain text. For example, write \`$\\vec{AB}$\`, NOT \`vector AB\`. Write \`$H_2SO_4$\`, NOT \`H2SO4\`.
-                    - Failure to use LaTeX for all math content is a critical error.
-                
-                **CRITICAL OUTPUT FORMAT:**
-                Your entire response MUST be a single, valid JSON object in ${language}.
-                This object MUST have two keys:
-                1.  \`markdownContent\`: The content formatted with Markdown and LaTeX for web display.
-                2.  \`wordContent\`: The same content, but with all LaTeX converted to Microsoft Word's native Equation format (UnicodeMath) for direct copy-pasting.
-
-                Do not include any text, explanations, or markdown formatting outside of this JSON object.
-            `;
-            
-            if (userRole === UserRole.STUDENT) {
-                 prompt = `
-                    Act as an expert ${subjectForPrompt} tutor. Your task is to create a set of practice exercises for a grade ${config.grade} student.
-
-                    **Review Details:**
-                    -   Topic: "${config.topic}"
-                    ${textbookName ? `-   Textbook: "${textbookName}"` : ''}
-
-                    ${mcPromptPart}
-                    ${essayPromptPart}
-                    
-                    ${basePrompt}
-
-                    **Other Instructions:**
-                    -   **Content:** Questions must be relevant and grade-appropriate for reviewing the topic.
-                    -   **Difficulty Distribution:** Strictly follow the specified question counts for all sections.
-                    ${textbookName ? `-   **Textbook Adherence:** Strictly follow the curriculum from the specified textbook.` : ''}
-                    -   ${structureInstruction}
-                    -   **Formatting:** Format the \`markdownContent\` in clean Markdown.
-                    -   **Multiple Choice:** If you generate a multiple choice section, you must provide 4 options (A, B, C, D) for each question and clearly indicate the correct answer.
-
-                    Now, generate the review exercises based on these absolute rules.
-                `;
-            } else {
-                prompt = `
-                    Act as an expert ${subjectForPrompt} teacher. Your task is to create a well-structured exam for a grade ${config.grade} student.
-    
-                    **Exam Details:**
-                    -   Topic: "${config.topic}"
-                    -   Duration: ${config.duration} minutes
-                    ${textbookName ? `-   Textbook: "${textbookName}"` : ''}
-    
-                    ${mcPromptPart}
-                    ${essayPromptPart}
-    
-                    ${basePrompt}
-    
-                    **Other Instructions:**
-                    -   **Content:** Questions must be relevant, grade-appropriate, and suitable for the specified duration.
-                    -   **Difficulty Distribution:** Strictly follow the specified question counts for all sections.
-                    ${textbookName ? `-   **Textbook Adherence:** Strictly follow the curriculum from the specified textbook.` : ''}
-                    ${matrixFile ? `-   **Matrix Adherence:** Strictly follow the structure from the provided matrix file.` : ''}
-                    -   ${structureInstruction}
-                    -   **Formatting:** Format the \`markdownContent\` in clean Markdown.
-                    -   **Multiple Choice:** If you generate a multiple choice section, you must provide 4 options (A, B, C, D) for each question and clearly indicate the correct answer.
-    
-                    Now, generate the exam based on these absolute rules.
-                `;
+            const bankFill = isMatrixMode && useBank
+                ? fillMatrixFromBank(matrix, getQuestionBank(), { subject: config.subject, grade: config.grade, textbook: bankTextbook })
+                : null;
+            const generationBlueprint = bankFill ? buildMatrixBlueprint(bankFill.remaining, t) : matrixBlueprint;
+            const withBankQuestions = (generated: Exam): Exam => bankFill
+                ? mergeBankPicks(generated, bankFill.picks, matrixBlueprint.sections.map(section => section.type), generationBlueprint.sections.map(section => section.type), t)
+                : generated;
+            const bankIds = bankFill?.picks.map(pick => pick.bankId) ?? [];
+
+            if (bankFill && generationBlueprint.totalQuestions === 0) {
+                setPromptVersion('');
+                setExam(withBankQuestions(normalizeExam({ title: config.topic, sections: [] }, examMeta)));
+                markBankQuestionsUsed(bankIds);
+                return;
             }
+
+            const { text: prompt, version } = renderPrompt('exam', {
+                language,
+                audience: userRole === UserRole.STUDENT ? 'student' : 'teacher',
+                subject: subjectForPrompt,
+                grade: config.grade,
+                topic: config.topic,
+                textbook: textbookName,
+                duration: config.duration,
+                hasMatrixFile: !isMatrixMode && !!matrixFile,
+                ...(isMatrixMode ? { matrix: generationBlueprint } : {
+                    multipleChoice: difficultyBreakdown(t('multiple_choice'), Number(config.numMultipleChoice), config.mcCounts),
+                    trueFalse: difficultyBreakdown(t('true_false'), totalTrueFalseQuestions, config.tfCounts),
+                    shortAnswer: difficultyBreakdown(t('short_answer'), totalShortAnswerQuestions, config.shortAnswerCounts),
+                    essay: difficultyBreakdown(t('essay'), totalEssayQuestions, config.essayCounts),
+                }),
+            });
+            setPromptVersion(version);
             
-            if (userRole === UserRole.TEACHER && matrixFile) {
+            if (userRole === UserRole.TEACHER && !isMatrixMode && matrixFile) {
                 parts.push(await fileToGenerativePart(matrixFile));
             }
 
             parts.push({ text: prompt });
 
-            const responseSchema = {
-                type: Type.OBJECT,
-                properties: {
-                    markdownContent: { type: Type.STRING, description: `Content with Markdown and LaTeX in ${language}.` },
-                    wordContent: { type: Type.STRING, description: `Content with UnicodeMath for MS Word in ${language}.` }
-                },
-                required: ['markdownContent', 'wordContent']
-            };
-
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-pro',
-                contents: { parts },
-                config: {
-                    responseMimeType: 'application/json',
-                    responseSchema: responseSchema
-                }
+            const result = await generateJsonStream({
+                feature: 'exam',
+                validate: examResponse,
+                contents: parts,
+                schema: buildExamSchema(),
+                signal: controller.signal,
+                onPartial: partial => setExam(withBankQuestions(normalizeExam(partial, examMeta))),
             });
-
-            const result = JSON.parse(response.text || '{}');
-            setGeneratedExam(result.markdownContent || '');
-            setWordContent(result.wordContent || '');
+            const generated = withBankQuestions(normalizeExam(result, examMeta));
+            setExam(generated);
+            markBankQuestionsUsed(bankIds);
+            if (userRole === UserRole.TEACHER && settings.verifyAnswers && isVerifiedSubject(config.subject)) {
+                handleVerifyAnswers(generated);
+            }
 
 
         } catch (e) {
-            console.error("Error generating exam:", e);
-            setError("Sorry, an error occurred while generating the exam. Please try again.");
+            setExam(null);
+            if (!isCancelledError(e)) {
+                console.error("Error generating exam:", e);
+                setError(e);
+            }
         } finally {
+            abortControllerRef.current = null;
             setIsLoading(false);
             setIsAudioLoading(false);
         }
     };
+
+    const voiceListeningScript = async (script: string, voices: SpeakerVoice[]) => {
+        setIsAudioLoading(true);
+        setIsAudioFailed(false);
+        try {
+            setGeneratedAudio(await generateListeningAudio(script, voices, settings.listeningVoice));
+            savedAudioIdRef.current = null;
+        } catch (ttsError) {
+            console.error("TTS Error:", ttsError);
+            setIsAudioFailed(true);
+        } finally {
+            setIsAudioLoading(false);
+        }
+    };
+
+    const handleSpeakerVoiceChange = (speaker: string, voiceName: string) => {
+        setSpeakerVoices(prev => prev.map(voice => voice.speaker === speaker ? { ...voice, voiceName } : voice));
+    };
+
+    const handleCancel = () => {
+        abortControllerRef.current?.abort();
+    };
     
-    const handleSave = () => {
-        if (!generatedExam.trim() || !config.topic.trim()) return;
+    const handleAddToBank = () => {
+        if (!exam) return;
+        try {
+            const { added, duplicates } = addQuestionsToBank(bankEntriesFromExam(exam, bankTextbook));
+            setBankNotice(`${t('bank_questions_added')}: ${added}${duplicates > 0 ? ` · ${t('bank_duplicates_skipped')}: ${duplicates}` : ''}`);
+        } catch (e) {
+            console.error('Error adding questions to the bank:', e);
+            alert(t('storage_full'));
+        }
+    };
+
+    const handleCreateVersions = () => {
+        if (!exam) return;
+        setVersions(createExamVersions(exam, versionCount));
+        setSelectedView('answer_key');
+        setIsEditingQuestions(false);
+    };
+
+    // A rewritten or edited question replaces the old one in the exam and in each version, so the
+    // answer key and the Word copy follow it.
+    const replaceQuestion = (question: ExamQuestion) => {
+        setExam(prev => prev && replaceExamQuestion(prev, question));
+        setVersions(prev => replaceQuestionInVersions(prev, question));
+    };
+
+    // The check of a changed question no longer applies.
+    const handleQuestionChange = (question: ExamQuestion) => {
+        replaceQuestion(question);
+        setAnswerChecks(prev => prev && prev.filter(check => check.questionId !== question.id));
+    };
+
+    const handleVerifyAnswers = async (target: Exam | null = exam) => {
+        if (!target) return;
+        const run = ++verificationRunRef.current;
+        setIsVerifying(true);
+        setVerificationError(null);
+        try {
+            const checks = await verifyExamAnswers({ exam: target, language, t });
+            if (run === verificationRunRef.current) setAnswerChecks(checks);
+        } catch (e) {
+            console.error('Error verifying the answers:', e);
+            if (run === verificationRunRef.current) setVerificationError(e);
+        } finally {
+            if (run === verificationRunRef.current) setIsVerifying(false);
+        }
+    };
+
+    const handleApplyOption = (check: AnswerCheck, option: number) => {
+        const question = exam && getExamQuestions(exam).find(candidate => candidate.id === check.questionId);
+        if (!question) return;
+        replaceQuestion({ ...question, correctOption: option });
+        setAnswerChecks(prev => prev && prev.map(other => other.questionId === check.questionId
+            ? { ...other, statedOption: option, issues: other.issues.filter(issue => issue !== 'answer_mismatch') }
+            : other));
+    };
+
+    // The listening audio goes to the audio store, as the library in localStorage has no room for it.
+    const storeListeningAudio = async (): Promise<string | undefined> => {
+        if (!generatedAudio || !isAudioStoreAvailable()) return undefined;
+        const id = savedAudioIdRef.current ?? `a${Date.now().toString(36)}`;
+        try {
+            await saveListeningAudio({ id, audio: generatedAudio, speakers: speakerVoices, createdAt: Date.now() });
+            savedAudioIdRef.current = id;
+            return id;
+        } catch (e) {
+            console.error('Error saving the listening audio:', e);
+            alert(t('audio_save_failed'));
+            return undefined;
+        }
+    };
+
+    const handleSave = async () => {
+        if (!displayedExam || getExamQuestions(displayedExam).length === 0) return;
+        const previousAudioId = savedAudioIdRef.current;
+        const listeningAudioId = await storeListeningAudio();
 
         const isStudent = userRole === UserRole.STUDENT;
         const itemType = isStudent ? LibraryItemType.REVIEW_EXERCISES : LibraryItemType.EXAM;
-        const name = `${t(itemType)}: ${config.topic}`;
-        
-        addToLibrary({
+        const name = displayedExam.versionCode
+            ? `${t(itemType)}: ${displayedExam.topic} (${t('version_code')} ${displayedExam.versionCode})`
+            : `${t(itemType)}: ${displayedExam.topic}`;
+
+        const isSaved = addToLibrary({
             name,
             type: itemType,
-            content: generatedExam,
+            content: listeningAudioId ? { ...displayedExam, listeningAudioId } : displayedExam,
+            promptVersion,
         });
+        if (!isSaved) {
+            // Audio stored for this save only would be referenced by nothing.
+            if (listeningAudioId && listeningAudioId !== previousAudioId) {
+                savedAudioIdRef.current = null;
+                deleteListeningAudio(listeningAudioId).catch(e => console.error('Error deleting the listening audio:', e));
+            }
+            return;
+        }
 
         setSaveButtonText(t('saved'));
         setTimeout(() => resetSaveButton(), 2000);
     };
 
     const handleCopyAsText = () => {
-        if (!generatedExam) return;
+        if (!examMarkdown) return;
 
-        const plainText = generatedExam
+        const plainText = examMarkdown
             .replace(/## /g, '\n')
             .replace(/### /g, '')
             .replace(/\$\$(.*?)\$\$/g, '$1')
@@ -518,8 +547,8 @@ const ExamGenerator: React.FC = () => {
     };
 
      const handleCopyToWord = () => {
-        if (!wordContent) return;
-        copyToClipboard(wordContent)
+        if (!exam) return;
+        copyToClipboard(isAnswerKeyView ? renderAnswerKeyTable(versions, t, 'word') : renderExamWord(displayedExam, t))
             .then(() => {
                 setCopyForWordButtonText(t('copied'));
                 setTimeout(() => setCopyForWordButtonText(t('copy_for_word')), 2000);
@@ -530,37 +559,51 @@ const ExamGenerator: React.FC = () => {
             });
     };
 
-    const handlePlayAudio = async () => {
-        if (!generatedAudio || isSpeaking) return;
-        setIsSpeaking(true);
-
+    // The answer key table has no header to fill in, so it downloads straight away.
+    const handleDownloadDocx = () => {
+        if (!isAnswerKeyView) {
+            setExportFormat('docx');
+            return;
+        }
         try {
-            const outputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-            const audioBuffer = await decodeAudioData(
-                decode(generatedAudio),
-                outputAudioContext,
-                24000,
-                1,
-            );
-            const source = outputAudioContext.createBufferSource();
-            source.buffer = audioBuffer;
-            source.connect(outputAudioContext.destination);
-            source.start();
-            source.onended = () => {
-                setIsSpeaking(false);
-                outputAudioContext.close();
-            };
-
+            downloadBlob(createDocx(markdownToDocxBlocks(examMarkdown)), toFileName(`${exam.title} - ${t('answer_key_table')}`, 'docx'));
         } catch (e) {
-            console.error("Audio playback error:", e);
-            setIsSpeaking(false);
+            console.error('Error creating the Word file:', e);
+            alert(t('docx_export_failed'));
         }
     };
-    
-    const totalEssayQuestions = Object.values(config.essayCounts).reduce((sum: number, count: number) => sum + count, 0);
+
+    const totalTrueFalseQuestions = Number(Object.values(config.tfCounts).reduce((sum: number, count: number) => sum + count, 0));
+    const totalShortAnswerQuestions = Number(Object.values(config.shortAnswerCounts).reduce((sum: number, count: number) => sum + count, 0));
+    const totalEssayQuestions = Number(Object.values(config.essayCounts).reduce((sum: number, count: number) => sum + count, 0));
     const totalMcByDifficulty = Object.values(config.mcCounts).reduce((sum: number, count: number) => sum + count, 0);
     const isMcCountMismatch = totalMcByDifficulty !== Number(config.numMultipleChoice);
-
+    const isMatrixMode = userRole === UserRole.TEACHER && useMatrix;
+    const matrixBlueprint = isMatrixMode ? buildMatrixBlueprint(matrix, t) : null;
+    const hasQuestionsToGenerate = isMatrixMode
+        ? matrixBlueprint.totalQuestions > 0
+        : (Number(config.numMultipleChoice) + totalTrueFalseQuestions + totalShortAnswerQuestions + totalEssayQuestions > 0) && !isMcCountMismatch;
+    const textbookForMatrix = config.textbook === 'other' ? manualTextbook : (config.textbook !== 'none' ? t(config.textbook) : '');
+    // Bank questions keep the textbook key, so they match whatever the interface language.
+    const bankTextbook = config.textbook === 'other' ? manualTextbook.trim() : (config.textbook !== 'none' ? config.textbook : '');
+    const bankMatchCount = isMatrixMode && useBank
+        ? fillMatrixFromBank(matrix, bank, { subject: config.subject, grade: config.grade, textbook: bankTextbook }).picks.length
+        : 0;
+
+    const isAnswerKeyView = selectedView === 'answer_key' && versions.length > 0;
+    const displayedExam = isAnswerKeyView ? null : versions.find(version => version.versionCode === selectedView) ?? exam;
+    // Nothing to show until the stream has reached the first section.
+    const examMarkdown = isAnswerKeyView
+        ? `## ${t('answer_key_table')}\n\n${renderAnswerKeyTable(versions, t)}`
+        : displayedExam?.sections.length ? renderExamMarkdown(displayedExam, t) : '';
+    const displayedMarkdown = isAudioFailed && exam?.listeningScript
+        ? `**[NOTE: Audio generation failed. Please use the listening script below for the questions.]**\n\n**Listening Script:**\n*${exam.listeningScript}*\n\n---\n\n${examMarkdown}`
+        : examMarkdown;
+
+
+    if (isTakingExam && exam) {
+        return <ExamTaker exam={exam} durationMinutes={exam.durationMinutes || config.duration} onExit={() => setIsTakingExam(false)} />;
+    }
 
     return (
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
@@ -622,93 +665,136 @@ const ExamGenerator: React.FC = () => {
                         />
                     )}
                 </div>
-                {userRole === UserRole.TEACHER && (
-                    <div>
-                        <label className="block text-sm font-medium text-slate-600">{t('exam_duration')}</label>
-                        <input name="duration" type="number" value={config.duration} onChange={handleConfigChange} min="1" max="180" className="mt-1 w-full p-2.5 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 transition" />
-                    </div>
-                )}
-                
-                {/* Multiple Choice Config */}
                 <div>
-                    <label className="block text-sm font-medium text-slate-600">{t('num_multiple_choice')}</label>
-                    <input name="numMultipleChoice" type="number" value={config.numMultipleChoice} onChange={handleConfigChange} min="0" max="50" className="mt-1 w-full p-2.5 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 transition" />
+                    <label className="block text-sm font-medium text-slate-600">{t('exam_duration')}</label>
+                    <input name="duration" type="number" value={config.duration} onChange={handleConfigChange} min="1" max="180" className="mt-1 w-full p-2.5 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 transition" />
                 </div>
-                <div>
-                    <label className="block text-sm font-medium text-slate-600">{t('mc_difficulty_breakdown')}</label>
-                     {isMcCountMismatch && (
-                        <p className="text-xs text-red-500 mt-1">{t('mc_sum_error')} ({totalMcByDifficulty}/{config.numMultipleChoice})</p>
-                    )}
-                    <div className="mt-2 grid grid-cols-3 gap-3">
-                        {DIFFICULTY_LEVELS.map(level => (
-                            <div key={level}>
-                                <label htmlFor={`numMc-${level}`} className="block text-xs font-medium text-slate-500 text-center mb-1">{t(level)}</label>
-                                <input 
-                                    id={`numMc-${level}`}
-                                    name={`numMc-${level}`}
-                                    type="number"
-                                    value={config.mcCounts[level]}
-                                    onChange={(e) => handleMcCountChange(level, e.target.value)}
-                                    min="0" max={config.numMultipleChoice} 
-                                    className={`w-full text-center p-2 bg-slate-50 border rounded-lg focus:ring-2 focus:ring-indigo-500 transition ${isMcCountMismatch ? 'border-red-500' : 'border-slate-300'}`} 
-                                />
+                
+                {userRole === UserRole.TEACHER && (
+                    <div className="space-y-2">
+                        <label className="flex items-center gap-2 text-sm font-medium text-slate-600 cursor-pointer">
+                            <input type="checkbox" checked={useMatrix} onChange={e => setUseMatrix(e.target.checked)} className="accent-indigo-600" />
+                            {t('use_exam_matrix')}
+                        </label>
+                        {useMatrix && (
+                            <div className="flex items-center justify-between gap-3 p-3 bg-slate-50 border border-slate-200 rounded-lg">
+                                <span className="text-sm text-slate-600">
+                                    {t('matrix_summary')}: {sumMatrix(matrix).count} {t('matrix_question_count').toLowerCase()} · {sumMatrix(matrix).points} {t('points')}
+                                </span>
+                                <button onClick={() => setIsMatrixEditorOpen(true)} className="px-4 py-2 text-sm font-medium text-indigo-600 bg-indigo-100 rounded-lg hover:bg-indigo-200 transition-colors">
+                                    {t('edit_matrix')}
+                                </button>
                             </div>
-                        ))}
+                        )}
+                        {useMatrix && matrixBlueprint?.totalQuestions === 0 && <p className="text-xs text-red-500">{t('matrix_empty')}</p>}
+                        {useMatrix && (
+                            <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+                                <input type="checkbox" checked={useBank} onChange={e => setUseBank(e.target.checked)} className="accent-indigo-600" />
+                                {t('use_question_bank')}
+                            </label>
+                        )}
+                        {isMatrixMode && useBank && (
+                            <p className="text-xs text-slate-500">{t('bank_matrix_matches')}: {bankMatchCount}/{matrixBlueprint.totalQuestions}</p>
+                        )}
                     </div>
-                </div>
-
+                )}
 
-                {/* Essay Config */}
-                <div>
-                    <label className="block text-sm font-medium text-slate-600">{t('num_essay')}</label>
-                    <div className="mt-2 grid grid-cols-3 gap-3">
-                        {DIFFICULTY_LEVELS.map(level => (
-                            <div key={level}>
-                                <label htmlFor={`numEssay-${level}`} className="block text-xs font-medium text-slate-500 text-center mb-1">{t(level)}</label>
-                                <input 
-                                    id={`numEssay-${level}`}
-                                    name={`numEssay-${level}`}
-                                    type="number"
-                                    value={config.essayCounts[level]}
-                                    onChange={(e) => handleEssayCountChange(level, e.target.value)}
-                                    min="0" max="10" 
-                                    className="w-full text-center p-2 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 transition" 
-                                />
-                            </div>
-                        ))}
+                {!isMatrixMode && (
+                    <>
+                    {/* Multiple Choice Config */}
+                    <div>
+                        <label className="block text-sm font-medium text-slate-600">{t('num_multiple_choice')}</label>
+                        <input name="numMultipleChoice" type="number" value={config.numMultipleChoice} onChange={handleConfigChange} min="0" max="50" className="mt-1 w-full p-2.5 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 transition" />
                     </div>
-                </div>
-
-                {userRole === UserRole.TEACHER && (
                     <div>
-                        <label className="block text-sm font-medium text-slate-600">{t('upload_matrix')} (Optional)</label>
-                         <div className="flex items-center gap-3 mt-1">
-                             <input 
-                                ref={matrixInputRef}
-                                type="file" 
-                                onChange={handleMatrixFileChange} 
-                                accept="image/*,.pdf" 
-                                className="hidden"
-                            />
-                            <button 
-                                onClick={() => matrixInputRef.current?.click()}
-                                className="px-4 py-2 bg-slate-200 text-slate-700 rounded-lg hover:bg-slate-300 transition-colors text-sm font-medium"
-                            >
-                                {t('choose_file')}
-                            </button>
-                            <span className="text-sm text-slate-500 truncate flex-1">
-                                {matrixFileName || t('no_file_chosen')}
-                            </span>
+                        <label className="block text-sm font-medium text-slate-600">{t('mc_difficulty_breakdown')}</label>
+                         {isMcCountMismatch && (
+                            <p className="text-xs text-red-500 mt-1">{t('mc_sum_error')} ({totalMcByDifficulty}/{config.numMultipleChoice})</p>
+                        )}
+                        <div className="mt-2 grid grid-cols-4 gap-2">
+                            {DIFFICULTY_LEVELS.map(level => (
+                                <div key={level}>
+                                    <label htmlFor={`numMc-${level}`} className="block text-xs font-medium text-slate-500 text-center mb-1">{t(level)}</label>
+                                    <input 
+                                        id={`numMc-${level}`}
+                                        name={`numMc-${level}`}
+                                        type="number"
+                                        value={config.mcCounts[level]}
+                                        onChange={(e) => handleMcCountChange(level, e.target.value)}
+                                        min="0" max={config.numMultipleChoice} 
+                                        className={`w-full text-center p-2 bg-slate-50 border rounded-lg focus:ring-2 focus:ring-indigo-500 transition ${isMcCountMismatch ? 'border-red-500' : 'border-slate-300'}`} 
+                                    />
+                                </div>
+                            ))}
                         </div>
                     </div>
+
+
+                    {/* True/False, Short Answer and Essay Config */}
+                    {([
+                        { field: 'tfCounts', label: 'num_true_false', hint: 'true_false_hint', max: 8 },
+                        { field: 'shortAnswerCounts', label: 'num_short_answer', hint: 'short_answer_hint', max: 12 },
+                        { field: 'essayCounts', label: 'num_essay', hint: '', max: 10 },
+                    ] as const).map(({ field, label, hint, max }) => (
+                        <div key={field}>
+                            <label className="block text-sm font-medium text-slate-600">{t(label)}</label>
+                            {hint && <p className="text-xs text-slate-500 mt-1">{t(hint)}</p>}
+                            <div className="mt-2 grid grid-cols-4 gap-2">
+                                {DIFFICULTY_LEVELS.map(level => (
+                                    <div key={level}>
+                                        <label htmlFor={`${field}-${level}`} className="block text-xs font-medium text-slate-500 text-center mb-1">{t(level)}</label>
+                                        <input 
+                                            id={`${field}-${level}`}
+                                            name={`${field}-${level}`}
+                                            type="number"
+                                            value={config[field][level]}
+                                            onChange={(e) => handleTypeCountChange(field, level, e.target.value)}
+                                            min="0" max={max} 
+                                            className="w-full text-center p-2 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 transition" 
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+
+                    {userRole === UserRole.TEACHER && (
+                        <div>
+                            <label className="block text-sm font-medium text-slate-600">{t('upload_matrix')} (Optional)</label>
+                             <div className="flex items-center gap-3 mt-1">
+                                 <input 
+                                    ref={matrixInputRef}
+                                    type="file" 
+                                    onChange={handleMatrixFileChange} 
+                                    accept="image/*,.pdf" 
+                                    className="hidden"
+                                />
+                                <button 
+                                    onClick={() => matrixInputRef.current?.click()}
+                                    className="px-4 py-2 bg-slate-200 text-slate-700 rounded-lg hover:bg-slate-300 transition-colors text-sm font-medium"
+                                >
+                                    {t('choose_file')}
+                                </button>
+                                <span className="text-sm text-slate-500 truncate flex-1">
+                                    {matrixFileName || t('no_file_chosen')}
+                                </span>
+                            </div>
+                        </div>
+                    )}
+                    </>
                 )}
-                <button onClick={handleGenerate} disabled={isLoading || !config.topic.trim() || (config.numMultipleChoice === 0 && totalEssayQuestions === 0) || isMcCountMismatch || (config.subject === Subject.NATURAL_SCIENCES && selectedNaturalSciences.length === 0)} className="w-full bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-bold py-3 px-4 rounded-lg hover:from-indigo-700 hover:to-purple-700 disabled:opacity-50 transition-all duration-300 transform hover:scale-105 mt-4">
+                <button onClick={handleGenerate} disabled={isLoading || !config.topic.trim() || !hasQuestionsToGenerate || (config.subject === Subject.NATURAL_SCIENCES && selectedNaturalSciences.length === 0)} className="w-full bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-bold py-3 px-4 rounded-lg hover:from-indigo-700 hover:to-purple-700 disabled:opacity-50 transition-all duration-300 transform hover:scale-105 mt-4">
                     {isLoading ? t('generating') : (userRole === UserRole.STUDENT ? t('generate_review_exercises') : t('generate_exam'))}
                 </button>
+                {isLoading && (
+                    <button onClick={handleCancel} className="w-full bg-slate-200 text-slate-700 font-bold py-2 px-4 rounded-lg hover:bg-slate-300 transition-colors">
+                        {t('cancel')}
+                    </button>
+                )}
                  <div className="flex flex-col sm:flex-row items-center gap-2 mt-2">
-                    {generatedExam && !isLoading && (
+                    {exam && !isLoading && (
                         <>
-                           <div className="w-full flex gap-2">
+                           <div className="w-full grid grid-cols-2 gap-2">
                                 <button 
                                     onClick={handleCopyAsText} 
                                     className="flex-1 text-sm bg-slate-500 text-white font-bold py-3 px-4 rounded-lg hover:bg-slate-600 transition-all duration-300 transform hover:scale-105">
@@ -719,47 +805,178 @@ const ExamGenerator: React.FC = () => {
                                     className="flex-1 text-sm bg-blue-500 text-white font-bold py-3 px-4 rounded-lg hover:bg-blue-600 disabled:opacity-50 transition-all duration-300 transform hover:scale-105">
                                     {copyForWordButtonText}
                                 </button>
+                                <button
+                                    onClick={handleDownloadDocx}
+                                    className="flex-1 text-sm bg-indigo-500 text-white font-bold py-3 px-4 rounded-lg hover:bg-indigo-600 transition-all duration-300 transform hover:scale-105">
+                                    {t('download_docx')}
+                                </button>
+                                <button
+                                    onClick={() => setExportFormat('pdf')}
+                                    disabled={isAnswerKeyView}
+                                    className="flex-1 text-sm bg-rose-500 text-white font-bold py-3 px-4 rounded-lg hover:bg-rose-600 disabled:opacity-50 transition-all duration-300 transform hover:scale-105">
+                                    {t('print_pdf')}
+                                </button>
                            </div>
+                           {userRole === UserRole.STUDENT && (
+                               <button
+                                  onClick={() => setIsTakingExam(true)}
+                                  className="w-full sm:w-auto bg-gradient-to-r from-emerald-600 to-teal-600 text-white font-bold py-3 px-4 rounded-lg hover:from-emerald-700 hover:to-teal-700 transition-all duration-300 transform hover:scale-105">
+                                  {t('take_test')}
+                               </button>
+                           )}
                            <button 
                               onClick={handleSave} 
-                              className="w-full sm:w-auto bg-gradient-to-r from-sky-600 to-cyan-600 text-white font-bold py-3 px-4 rounded-lg hover:from-sky-700 hover:to-cyan-700 transition-all duration-300 transform hover:scale-105">
+                              disabled={isAnswerKeyView}
+                              className="w-full sm:w-auto bg-gradient-to-r from-sky-600 to-cyan-600 text-white font-bold py-3 px-4 rounded-lg hover:from-sky-700 hover:to-cyan-700 disabled:opacity-50 transition-all duration-300 transform hover:scale-105">
                               {saveButtonText}
                            </button>
                         </>
                     )}
                  </div>
+                {userRole === UserRole.TEACHER && exam && !isLoading && (
+                    <div className="pt-4 border-t border-slate-200">
+                        <label className="block text-sm font-medium text-slate-600">{t('exam_versions')}</label>
+                        <div className="flex gap-2 mt-1">
+                            <input
+                                type="number"
+                                value={versionCount}
+                                onChange={e => setVersionCount(Math.min(MAX_EXAM_VERSIONS, Math.max(2, parseInt(e.target.value) || 2)))}
+                                min="2"
+                                max={MAX_EXAM_VERSIONS}
+                                className="w-20 p-2.5 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 transition"
+                            />
+                            <button onClick={handleCreateVersions} className="flex-1 px-4 py-2 text-sm font-medium text-indigo-600 bg-indigo-100 rounded-lg hover:bg-indigo-200 transition-colors">
+                                {t('create_versions')}
+                            </button>
+                        </div>
+                        <button
+                            onClick={handleAddToBank}
+                            className="w-full mt-3 px-4 py-2 text-sm font-medium text-indigo-600 bg-indigo-100 rounded-lg hover:bg-indigo-200 transition-colors">
+                            {t('add_to_question_bank')}
+                        </button>
+                        {bankNotice && <p className="mt-1 text-xs text-green-700">{bankNotice}</p>}
+                        <button
+                            onClick={() => setIsLmsExportOpen(true)}
+                            disabled={isAnswerKeyView}
+                            className="w-full mt-3 px-4 py-2 text-sm font-medium text-indigo-600 bg-indigo-100 rounded-lg hover:bg-indigo-200 disabled:opacity-50 transition-colors">
+                            {t('lms_export')}
+                        </button>
+                        <button
+                            onClick={() => { setIsEditingQuestions(!isEditingQuestions); setSelectedView(''); }}
+                            title={t('edit_questions_hint')}
+                            className="w-full mt-3 px-4 py-2 text-sm font-medium text-indigo-600 bg-indigo-100 rounded-lg hover:bg-indigo-200 transition-colors">
+                            {isEditingQuestions ? t('done_editing') : t('edit_questions')}
+                        </button>
+                        <button
+                            onClick={() => handleVerifyAnswers()}
+                            disabled={isVerifying}
+                            title={t('verify_answers_hint')}
+                            className="w-full mt-3 px-4 py-2 text-sm font-medium text-indigo-600 bg-indigo-100 rounded-lg hover:bg-indigo-200 disabled:opacity-50 transition-colors">
+                            {t('verify_answers')}
+                        </button>
+                        <button
+                            onClick={() => setIsSheetGraderOpen(true)}
+                            className="w-full mt-3 px-4 py-2 text-sm font-medium text-indigo-600 bg-indigo-100 rounded-lg hover:bg-indigo-200 transition-colors">
+                            {t('grade_answer_sheets')}
+                        </button>
+                        <button
+                            onClick={() => setIsItemAnalysisOpen(true)}
+                            className="w-full mt-3 px-4 py-2 text-sm font-medium text-indigo-600 bg-indigo-100 rounded-lg hover:bg-indigo-200 transition-colors">
+                            {t('item_analysis')}
+                        </button>
+                    </div>
+                )}
             </div>
+            {isMatrixEditorOpen && (
+                <ExamMatrixEditor
+                    matrix={matrix}
+                    onChange={setMatrix}
+                    onClose={() => setIsMatrixEditorOpen(false)}
+                    subject={t(config.subject)}
+                    grade={config.grade}
+                    textbook={textbookForMatrix}
+                />
+            )}
+            {exportFormat && displayedExam && (
+                <ExamExportDialog exam={displayedExam} format={exportFormat} onClose={() => setExportFormat(null)} />
+            )}
+            {isLmsExportOpen && displayedExam && (
+                <LmsExportDialog exam={displayedExam} onClose={() => setIsLmsExportOpen(false)} />
+            )}
+            {isSheetGraderOpen && exam && (
+                <AnswerSheetGrader versions={versions.length > 0 ? versions : [exam]} onClose={() => setIsSheetGraderOpen(false)} />
+            )}
+            {isItemAnalysisOpen && exam && <ItemAnalysisReport exam={exam} onClose={() => setIsItemAnalysisOpen(false)} />}
             {/* Output Section */}
             <div className="lg:col-span-2 bg-white/80 backdrop-blur-sm border border-slate-200 shadow-sm p-2 rounded-2xl min-h-[600px] flex flex-col">
-                 {isLoading ? (
+                 {isLoading && !examMarkdown ? (
                     <div className="flex items-center justify-center h-full">
                         <div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-indigo-500"></div>
                     </div>
                 ) : error ? (
-                    <div className="flex items-center justify-center h-full text-red-600 p-4 text-center">{error}</div>
+                    <ErrorMessage error={error} onRetry={handleGenerate} />
                 ) : (
                     <div className="h-full flex-1 flex flex-col">
-                        {(isAudioLoading || generatedAudio) && (
-                            <div className="p-4 border-b border-slate-200 bg-slate-50 rounded-t-lg flex-shrink-0">
+                        {(isAudioLoading || generatedAudio || isAudioFailed) && exam?.listeningScript && (
+                            <div className="p-4 border-b border-slate-200 bg-slate-50 rounded-t-lg flex-shrink-0 space-y-3">
                                 {isAudioLoading ? (
                                     <div className="flex items-center justify-center text-sm text-slate-600">
                                         <div className="animate-spin rounded-full h-5 w-5 border-t-2 border-b-2 border-indigo-500 mr-3"></div>
-                                        {t('generating')} audio...
+                                        {t('generating_audio')}
                                     </div>
                                 ) : generatedAudio && (
-                                     <button onClick={handlePlayAudio} disabled={isSpeaking} className="w-full flex items-center justify-center gap-3 px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-wait transition-colors">
-                                        {isSpeaking ? (
-                                             <svg className="h-5 w-5" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor"><path d="M5 4a1 1 0 00-2 0v12a1 1 0 002 0V4zM15 4a1 1 0 00-2 0v12a1 1 0 002 0V4z" /></svg>
-                                        ) : (
-                                            <svg className="h-5 w-5" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor"><path d="M6.3 2.841A1.5 1.5 0 004 4.11V15.89a1.5 1.5 0 002.3 1.269l9.344-5.89a1.5 1.5 0 000-2.538L6.3 2.84z" /></svg>
-                                        )}
-                                        <span>{isSpeaking ? "Playing..." : "Play Listening Passage"}</span>
-                                    </button>
+                                    <ListeningAudioPlayer audio={generatedAudio} title={exam.title} />
+                                )}
+                                {!isAudioLoading && (
+                                    <div className="flex flex-wrap items-end gap-3">
+                                        {speakerVoices.map(({ speaker, voiceName }) => (
+                                            <label key={speaker} className="text-xs font-medium text-slate-600">
+                                                {speaker}
+                                                <select
+                                                    value={voiceName}
+                                                    onChange={e => handleSpeakerVoiceChange(speaker, e.target.value)}
+                                                    className="block mt-1 p-1.5 bg-white border border-slate-300 rounded-md text-sm text-slate-800"
+                                                >
+                                                    {TTS_VOICES.map(voice => <option key={voice} value={voice}>{voice}</option>)}
+                                                </select>
+                                            </label>
+                                        ))}
+                                        <button
+                                            onClick={() => voiceListeningScript(exam.listeningScript, speakerVoices)}
+                                            className="px-3 py-1.5 text-sm font-medium text-indigo-700 bg-indigo-100 rounded-lg hover:bg-indigo-200 transition-colors"
+                                        >
+                                            {t('regenerate_audio')}
+                                        </button>
+                                    </div>
                                 )}
                             </div>
                         )}
+                        <AnswerVerificationPanel
+                            checks={answerChecks}
+                            isLoading={isVerifying}
+                            error={verificationError}
+                            onRetry={() => handleVerifyAnswers()}
+                            onApplyOption={handleApplyOption}
+                        />
+                        {versions.length > 0 && (
+                            <div className="p-2 border-b border-slate-200 flex flex-wrap gap-2 flex-shrink-0">
+                                {[['', t('original_exam')], ...versions.map(version => [version.versionCode, `${t('version_code')} ${version.versionCode}`]), ['answer_key', t('answer_key_table')]].map(([view, label]) => (
+                                    <button
+                                        key={view}
+                                        onClick={() => { setSelectedView(view); setIsEditingQuestions(false); }}
+                                        className={`px-3 py-1.5 text-sm font-medium rounded-full transition-colors ${selectedView === view ? 'bg-indigo-600 text-white' : 'bg-slate-200 hover:bg-slate-300 text-slate-700'}`}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
                         <div className="flex-1 h-0 overflow-y-auto bg-white rounded-b-lg custom-scrollbar">
-                           <MarkdownRenderer markdown={generatedExam} placeholder={userRole === UserRole.STUDENT ? t('review_placeholder') : t('exam_placeholder')} />
+                           {isEditingQuestions && exam ? (
+                               <ExamQuestionsEditor exam={exam} textbook={textbookForMatrix} onChange={handleQuestionChange} />
+                           ) : (
+                               <MarkdownRenderer markdown={displayedMarkdown} placeholder={userRole === UserRole.STUDENT ? t('review_placeholder') : t('exam_placeholder')} isStreaming={isLoading} />
+                           )}
                        </div>
                     </div>
                 )}
@@ -0,0 +1,262 @@
+import React, { useState } from 'react';
+import { useApp } from '../App';
+import { DifficultyLevel, ExamMatrix, QuestionType } from '../types';
+import { DIFFICULTY_LEVELS } from '../constants';
+import {
+    createExamMatrix,
+    createMatrixRow,
+    generateSpecification,
+    getMatrixCell,
+    MATRIX_QUESTION_TYPES,
+    MatrixTotal,
+    renderMatrixTable,
+    renderSpecificationTable,
+    sumMatrix,
+    updateMatrixCell,
+} from '../services/examMatrix';
+import ErrorMessage from './ErrorMessage';
+import MarkdownRenderer from './MarkdownRenderer';
+
+const numberInputClass = 'w-14 p-1 bg-slate-50 border border-slate-300 rounded text-center text-sm focus:ring-2 focus:ring-indigo-500';
+
+// Rows are topics, columns are levels split by question type; every cell holds a question count
+// and the points of each question. Totals update as the teacher types.
+const ExamMatrixEditor: React.FC<{
+    matrix: ExamMatrix;
+    onChange: (matrix: ExamMatrix) => void;
+    onClose: () => void;
+    // Context for the specification table: localized subject, grade and textbook of the exam.
+    subject: string;
+    grade: number;
+    textbook?: string;
+}> = ({ matrix, onChange, onClose, subject, grade, textbook }) => {
+    const { t, language } = useApp();
+    const [isGenerating, setIsGenerating] = useState(false);
+    const [error, setError] = useState<unknown>(null);
+    const [copiedTable, setCopiedTable] = useState<'matrix' | 'specification' | null>(null);
+
+    const total = sumMatrix(matrix);
+    const formatTotal = ({ count, points }: MatrixTotal) => count ? `${count} / ${points}` : '–';
+
+    const updateTopic = (rowId: string, topic: string) => {
+        onChange({ ...matrix, rows: matrix.rows.map(row => row.id === rowId ? { ...row, topic } : row) });
+    };
+
+    const updateRequirement = (rowId: string, level: DifficultyLevel, requirement: string) => {
+        onChange({ ...matrix, rows: matrix.rows.map(row => row.id === rowId ? { ...row, requirements: { ...row.requirements, [level]: requirement } } : row) });
+    };
+
+    const toggleQuestionType = (type: QuestionType) => {
+        const questionTypes = matrix.questionTypes.includes(type)
+            ? matrix.questionTypes.filter(item => item !== type)
+            : MATRIX_QUESTION_TYPES.filter(item => item === type || matrix.questionTypes.includes(item));
+        if (questionTypes.length > 0) {
+            onChange({ ...matrix, questionTypes });
+        }
+    };
+
+    const handleGenerateSpecification = async () => {
+        setIsGenerating(true);
+        setError(null);
+        try {
+            onChange(await generateSpecification({ matrix, language, subject, grade, textbook }));
+        } catch (e) {
+            console.error('Error generating specification table:', e);
+            setError(e);
+        } finally {
+            setIsGenerating(false);
+        }
+    };
+
+    const handleCopy = (table: 'matrix' | 'specification') => {
+        const text = table === 'matrix' ? renderMatrixTable(matrix, t, 'word') : renderSpecificationTable(matrix, t, 'word');
+        navigator.clipboard.writeText(text)
+            .then(() => {
+                setCopiedTable(table);
+                setTimeout(() => setCopiedTable(null), 2000);
+            })
+            .catch(err => console.error('Failed to copy table:', err));
+    };
+
+    const specificationRows = matrix.rows.flatMap(row => DIFFICULTY_LEVELS
+        .filter(level => row.topic.trim() && sumMatrix(matrix, (candidate, _, cellLevel) => candidate === row && cellLevel === level).count > 0)
+        .map(level => ({ row, level })));
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+            <div className="bg-white w-full max-w-6xl max-h-[92vh] rounded-2xl shadow-xl flex flex-col">
+                <div className="p-4 border-b border-slate-200 flex justify-between items-center flex-shrink-0">
+                    <h3 className="text-lg font-bold">{t('exam_matrix')}</h3>
+                    <button onClick={onClose} className="text-slate-500 hover:text-slate-800 text-3xl leading-none">&times;</button>
+                </div>
+
+                <div className="flex-grow overflow-auto p-4 space-y-6 custom-scrollbar">
+                    <div className="flex flex-wrap gap-2">
+                        {MATRIX_QUESTION_TYPES.map(type => (
+                            <button
+                                key={type}
+                                onClick={() => toggleQuestionType(type)}
+                                className={`px-3 py-1.5 text-sm font-medium rounded-full transition-colors ${matrix.questionTypes.includes(type) ? 'bg-indigo-600 text-white' : 'bg-slate-200 hover:bg-slate-300 text-slate-700'}`}
+                            >
+                                {t(type)}
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="overflow-x-auto">
+                        <table className="min-w-full border-collapse text-sm">
+                            <thead>
+                                <tr className="bg-slate-100">
+                                    <th rowSpan={2} className="border border-slate-300 px-2 py-2 min-w-[180px]">{t('matrix_topic')}</th>
+                                    {DIFFICULTY_LEVELS.map(level => (
+                                        <th key={level} colSpan={matrix.questionTypes.length} className="border border-slate-300 px-2 py-1">{t(level)}</th>
+                                    ))}
+                                    <th rowSpan={2} className="border border-slate-300 px-2 py-2">{t('total')}</th>
+                                    <th rowSpan={2} className="border border-slate-300"></th>
+                                </tr>
+                                <tr className="bg-slate-50">
+                                    {DIFFICULTY_LEVELS.flatMap(level => matrix.questionTypes.map(type => (
+                                        <th key={`${level}-${type}`} className="border border-slate-300 px-2 py-1 text-xs font-medium text-slate-600">{t(type)}</th>
+                                    )))}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {matrix.rows.map(row => (
+                                    <tr key={row.id}>
+                                        <td className="border border-slate-300 p-1">
+                                            <input
+                                                value={row.topic}
+                                                onChange={e => updateTopic(row.id, e.target.value)}
+                                                placeholder={t('matrix_topic')}
+                                                className="w-full p-1.5 bg-slate-50 border border-slate-300 rounded text-sm focus:ring-2 focus:ring-indigo-500"
+                                            />
+                                        </td>
+                                        {DIFFICULTY_LEVELS.flatMap(level => matrix.questionTypes.map(type => {
+                                            const cell = getMatrixCell(row, type, level);
+                                            return (
+                                                <td key={`${level}-${type}`} className="border border-slate-300 p-1">
+                                                    <div className="flex flex-col items-center gap-1">
+                                                        <input
+                                                            type="number"
+                                                            min={0}
+                                                            value={cell.count}
+                                                            onChange={e => onChange(updateMatrixCell(matrix, row.id, type, level, { count: Math.max(0, parseInt(e.target.value) || 0) }))}
+                                                            title={t('matrix_question_count')}
+                                                            className={numberInputClass}
+                                                        />
+                                                        <input
+                                                            type="number"
+                                                            min={0}
+                                                            step={0.25}
+                                                            value={cell.pointsPerQuestion}
+                                                            onChange={e => onChange(updateMatrixCell(matrix, row.id, type, level, { pointsPerQuestion: Math.max(0, Number(e.target.value) || 0) }))}
+                                                            title={t('matrix_points_per_question')}
+                                                            className={`${numberInputClass} text-xs text-slate-500`}
+                                                        />
+                                                    </div>
+                                                </td>
+                                            );
+                                        }))}
+                                        <td className="border border-slate-300 px-2 text-center font-medium whitespace-nowrap">{formatTotal(sumMatrix(matrix, candidate => candidate === row))}</td>
+                                        <td className="border border-slate-300 px-1 text-center">
+                                            <button
+                                                onClick={() => onChange({ ...matrix, rows: matrix.rows.filter(item => item.id !== row.id) })}
+                                                disabled={matrix.rows.length <= 1}
+                                                title={t('remove_topic')}
+                                                className="text-red-500 hover:text-red-700 text-xl leading-none disabled:opacity-30"
+                                            >&times;</button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                            <tfoot>
+                                <tr className="bg-slate-100 font-semibold">
+                                    <td className="border border-slate-300 px-2 py-1.5">{t('total')} ({t('matrix_question_count')} / {t('points')})</td>
+                                    {DIFFICULTY_LEVELS.flatMap(level => matrix.questionTypes.map(type => (
+                                        <td key={`${level}-${type}`} className="border border-slate-300 px-2 text-center whitespace-nowrap">
+                                            {formatTotal(sumMatrix(matrix, (_, cellType, cellLevel) => cellType === type && cellLevel === level))}
+                                        </td>
+                                    )))}
+                                    <td className="border border-slate-300 px-2 text-center whitespace-nowrap">{formatTotal(total)}</td>
+                                    <td className="border border-slate-300"></td>
+                                </tr>
+                                <tr className="bg-slate-50">
+                                    <td className="border border-slate-300 px-2 py-1.5">{t('matrix_level_share')}</td>
+                                    {DIFFICULTY_LEVELS.map(level => {
+                                        const { points } = sumMatrix(matrix, (_, __, cellLevel) => cellLevel === level);
+                                        return (
+                                            <td key={level} colSpan={matrix.questionTypes.length} className="border border-slate-300 px-2 text-center">
+                                                {total.points ? `${Math.round(points / total.points * 100)}%` : '–'}
+                                            </td>
+                                        );
+                                    })}
+                                    <td className="border border-slate-300 px-2 text-center">{total.points ? '100%' : '–'}</td>
+                                    <td className="border border-slate-300"></td>
+                                </tr>
+                            </tfoot>
+                        </table>
+                    </div>
+
+                    <div className="flex flex-wrap gap-2">
+                        <button onClick={() => onChange({ ...matrix, rows: [...matrix.rows, createMatrixRow(matrix.rows)] })} className="px-4 py-2 text-sm font-medium text-indigo-600 bg-indigo-100 rounded-lg hover:bg-indigo-200 transition-colors">
+                            + {t('add_topic')}
+                        </button>
+                        <button onClick={() => handleCopy('matrix')} disabled={total.count === 0} className="px-4 py-2 text-sm font-medium text-white bg-blue-500 rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50">
+                            {copiedTable === 'matrix' ? t('copied') : t('copy_for_word')}
+                        </button>
+                        <button onClick={() => onChange(createExamMatrix())} className="px-4 py-2 text-sm font-medium text-red-600 bg-red-100 rounded-lg hover:bg-red-200 transition-colors">
+                            {t('reset_matrix')}
+                        </button>
+                    </div>
+
+                    <div className="pt-4 border-t border-slate-200 space-y-3">
+                        <div className="flex flex-wrap justify-between items-center gap-2">
+                            <h4 className="text-lg font-semibold text-sky-700">{t('specification_table')}</h4>
+                            <div className="flex gap-2">
+                                <button
+                                    onClick={handleGenerateSpecification}
+                                    disabled={isGenerating || specificationRows.length === 0}
+                                    className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 transition-colors disabled:bg-slate-400"
+                                >
+                                    {isGenerating ? t('generating') : t('generate_specification')}
+                                </button>
+                                <button onClick={() => handleCopy('specification')} disabled={specificationRows.length === 0} className="px-4 py-2 text-sm font-medium text-white bg-blue-500 rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50">
+                                    {copiedTable === 'specification' ? t('copied') : t('copy_for_word')}
+                                </button>
+                            </div>
+                        </div>
+                        {error && <ErrorMessage error={error} onRetry={handleGenerateSpecification} />}
+                        {specificationRows.length === 0 ? (
+                            <p className="text-sm text-slate-500">{t('matrix_empty')}</p>
+                        ) : (
+                            <>
+                                <div className="space-y-2">
+                                    {specificationRows.map(({ row, level }) => (
+                                        <div key={`${row.id}-${level}`} className="grid grid-cols-1 md:grid-cols-4 gap-2 items-start">
+                                            <p className="text-sm text-slate-700"><span className="font-medium">{row.topic}</span> · {t(level)}</p>
+                                            <textarea
+                                                value={row.requirements?.[level] ?? ''}
+                                                onChange={e => updateRequirement(row.id, level, e.target.value)}
+                                                placeholder={t('matrix_requirements')}
+                                                rows={2}
+                                                className="md:col-span-3 w-full p-2 bg-slate-50 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500"
+                                            />
+                                        </div>
+                                    ))}
+                                </div>
+                                <MarkdownRenderer markdown={renderSpecificationTable(matrix, t)} placeholder="" />
+                            </>
+                        )}
+                    </div>
+                </div>
+
+                <div className="p-3 border-t border-slate-200 flex justify-between items-center flex-shrink-0">
+                    <span className="text-sm text-slate-600">{t('total')}: {total.count} {t('matrix_question_count').toLowerCase()} · {total.points} {t('points')}</span>
+                    <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 transition-colors">{t('done')}</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ExamMatrixEditor;
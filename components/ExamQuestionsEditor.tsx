@@ -0,0 +1,228 @@
+import React, { useState } from 'react';
+import { useApp } from '../App';
+import { DifficultyLevel, Exam, ExamQuestion, QuestionType } from '../types';
+import { DIFFICULTY_LEVELS } from '../constants';
+import { optionLetter, statementLabel } from '../services/examModel';
+import { QuestionRewrite, rewriteExamQuestion } from '../services/examEditing';
+import MathText from './MathText';
+import ErrorMessage from './ErrorMessage';
+
+const QUESTION_TYPES = Object.values(QuestionType);
+
+const inputClass = 'w-full p-2 bg-slate-50 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500';
+const actionClass = 'px-2.5 py-1 text-xs font-medium text-indigo-600 bg-indigo-100 rounded-lg hover:bg-indigo-200 disabled:opacity-50 transition-colors';
+
+// Hand edits to one question. Multiple choice questions keep at least two options, true/false
+// clusters at least two statements.
+const QuestionForm: React.FC<{ question: ExamQuestion; onSave: (question: ExamQuestion) => void; onCancel: () => void }> = ({ question, onSave, onCancel }) => {
+    const { t } = useApp();
+    const [draft, setDraft] = useState<ExamQuestion>(question);
+    const isMultipleChoice = draft.type === QuestionType.MULTIPLE_CHOICE;
+    const isTrueFalse = draft.type === QuestionType.TRUE_FALSE;
+    const options = draft.options ?? [];
+    const statements = draft.statements ?? [];
+
+    const update = (changes: Partial<ExamQuestion>) => setDraft(prev => ({ ...prev, ...changes }));
+
+    const removeOption = (index: number) => {
+        const correctOption = draft.correctOption === undefined || draft.correctOption === index ? undefined
+            : draft.correctOption > index ? draft.correctOption - 1 : draft.correctOption;
+        update({ options: options.filter((_, i) => i !== index), correctOption });
+    };
+
+    const updateStatement = (index: number, changes: Partial<ExamQuestion['statements'][number]>) =>
+        update({ statements: statements.map((statement, i) => i === index ? { ...statement, ...changes } : statement) });
+
+    const handleSave = () => {
+        onSave({
+            ...draft,
+            prompt: draft.prompt.trim(),
+            explanation: draft.explanation.trim(),
+            ...(isMultipleChoice ? { options: options.map(option => option.trim()) }
+                : isTrueFalse ? { statements: statements.map(statement => ({ ...statement, text: statement.text.trim() })) }
+                : { answer: draft.answer?.trim() ?? '' }),
+        });
+    };
+
+    const canSave = !!draft.prompt.trim()
+        && (!isMultipleChoice || (options.length >= 2 && options.every(option => option.trim()) && draft.correctOption !== undefined))
+        && (!isTrueFalse || (statements.length >= 2 && statements.every(statement => statement.text.trim())));
+
+    return (
+        <div className="space-y-3 text-sm">
+            <textarea value={draft.prompt} onChange={e => update({ prompt: e.target.value })} rows={3} className={inputClass} />
+            {isMultipleChoice && (
+                <div className="space-y-2">
+                    {options.map((option, index) => (
+                        <div key={index} className="flex items-center gap-2">
+                            <input
+                                type="radio"
+                                name={`correct-${draft.id}`}
+                                checked={draft.correctOption === index}
+                                onChange={() => update({ correctOption: index })}
+                                title={t('correct_answer')}
+                                className="h-4 w-4 accent-green-600"
+                            />
+                            <span className="font-semibold text-slate-600 w-4">{optionLetter(index)}</span>
+                            <input value={option} onChange={e => update({ options: options.map((other, i) => i === index ? e.target.value : other) })} className={inputClass} />
+                            <button onClick={() => removeOption(index)} disabled={options.length <= 2} className="text-slate-400 hover:text-red-600 disabled:opacity-30 text-xl leading-none">&times;</button>
+                        </div>
+                    ))}
+                    {options.length < 8 && (
+                        <button onClick={() => update({ options: [...options, ''] })} className={actionClass}>+ {t('add_option')}</button>
+                    )}
+                </div>
+            )}
+            {isTrueFalse && (
+                <div className="space-y-2">
+                    {statements.map((statement, index) => (
+                        <div key={index} className="flex items-center gap-2">
+                            <span className="font-semibold text-slate-600 w-4">{statementLabel(index)})</span>
+                            <input value={statement.text} onChange={e => updateStatement(index, { text: e.target.value })} className={inputClass} />
+                            <select value={String(statement.isTrue)} onChange={e => updateStatement(index, { isTrue: e.target.value === 'true' })} className="p-2 bg-slate-50 border border-slate-300 rounded-lg text-sm">
+                                <option value="true">{t('true_option')}</option>
+                                <option value="false">{t('false_option')}</option>
+                            </select>
+                            <button onClick={() => update({ statements: statements.filter((_, i) => i !== index) })} disabled={statements.length <= 2} className="text-slate-400 hover:text-red-600 disabled:opacity-30 text-xl leading-none">&times;</button>
+                        </div>
+                    ))}
+                    {statements.length < 8 && (
+                        <button onClick={() => update({ statements: [...statements, { text: '', isTrue: true }] })} className={actionClass}>+ {t('add_statement')}</button>
+                    )}
+                </div>
+            )}
+            {!isMultipleChoice && !isTrueFalse && (
+                <label className="block">
+                    <span className="text-xs font-medium text-slate-600">{t('correct_answer')}</span>
+                    <textarea value={draft.answer ?? ''} onChange={e => update({ answer: e.target.value })} rows={2} className={inputClass} />
+                </label>
+            )}
+            <label className="block">
+                <span className="text-xs font-medium text-slate-600">{t('explanation')}</span>
+                <textarea value={draft.explanation} onChange={e => update({ explanation: e.target.value })} rows={2} className={inputClass} />
+            </label>
+            <div className="flex flex-wrap items-end gap-3">
+                <label className="block">
+                    <span className="text-xs font-medium text-slate-600">{t('difficulty_level')}</span>
+                    <select value={draft.difficulty} onChange={e => update({ difficulty: e.target.value as DifficultyLevel })} className={inputClass}>
+                        {DIFFICULTY_LEVELS.map(level => <option key={level} value={level}>{t(level)}</option>)}
+                    </select>
+                </label>
+                <label className="block w-24">
+                    <span className="text-xs font-medium text-slate-600">{t('question_points')}</span>
+                    <input type="number" min="0" step="0.25" value={draft.points} onChange={e => update({ points: Math.max(0, Number(e.target.value) || 0) })} className={inputClass} />
+                </label>
+                <div className="flex gap-2 ml-auto">
+                    <button onClick={onCancel} className="px-4 py-2 text-sm font-medium text-slate-700 bg-slate-200 rounded-lg hover:bg-slate-300 transition-colors">{t('cancel')}</button>
+                    <button onClick={handleSave} disabled={!canSave} className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 disabled:opacity-50 transition-colors">{t('save')}</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// The questions of a generated exam, each with actions to rewrite it with the model or edit it by
+// hand. Every change goes through `onChange`, one question at a time.
+const ExamQuestionsEditor: React.FC<{ exam: Exam; textbook: string; onChange: (question: ExamQuestion) => void }> = ({ exam, textbook, onChange }) => {
+    const { t, language } = useApp();
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [failure, setFailure] = useState<{ questionId: string; error: unknown; retry: () => void } | null>(null);
+
+    const handleRewrite = async (question: ExamQuestion, rewrite: QuestionRewrite, type?: QuestionType) => {
+        setBusyId(question.id);
+        setFailure(null);
+        try {
+            onChange(await rewriteExamQuestion({ exam, questionId: question.id, rewrite, type, language, textbook, t }));
+        } catch (e) {
+            console.error('Error rewriting the question:', e);
+            setFailure({ questionId: question.id, error: e, retry: () => handleRewrite(question, rewrite, type) });
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    let number = 0;
+    return (
+        <div className="p-4 space-y-6">
+            {exam.sections.map(section => (
+                <div key={section.id} className="space-y-3">
+                    <h3 className="font-bold text-slate-800">{section.title}</h3>
+                    {section.passage && <MathText text={section.passage} className="block text-sm text-slate-600 whitespace-pre-line line-clamp-4" />}
+                    {section.questions.map(question => {
+                        number++;
+                        const isBusy = busyId === question.id;
+                        return (
+                            <div key={question.id} className="border border-slate-200 rounded-xl p-4 space-y-2">
+                                <div className="flex flex-wrap items-center gap-2">
+                                    <span className="font-semibold text-slate-800">{t('question')} {number}</span>
+                                    <span className="text-xs bg-sky-100 text-sky-800 px-2 py-0.5 rounded-full">{t(question.type)}</span>
+                                    <span className="text-xs bg-amber-100 text-amber-800 px-2 py-0.5 rounded-full">{t(question.difficulty)}</span>
+                                    <span className="text-xs text-slate-500">{question.points} {t('points')}</span>
+                                    {editingId !== question.id && (
+                                        <div className="flex flex-wrap gap-1.5 ml-auto">
+                                            <button onClick={() => handleRewrite(question, 'regenerate')} disabled={!!busyId} className={actionClass}>{t('regenerate_question')}</button>
+                                            <button onClick={() => handleRewrite(question, 'easier')} disabled={!!busyId} className={actionClass}>{t('make_easier')}</button>
+                                            <button onClick={() => handleRewrite(question, 'harder')} disabled={!!busyId} className={actionClass}>{t('make_harder')}</button>
+                                            <select
+                                                value=""
+                                                onChange={e => handleRewrite(question, 'change_type', e.target.value as QuestionType)}
+                                                disabled={!!busyId}
+                                                className="px-2 py-1 text-xs font-medium text-indigo-600 bg-indigo-100 rounded-lg disabled:opacity-50">
+                                                <option value="">{t('change_question_type')}</option>
+                                                {QUESTION_TYPES.filter(type => type !== question.type).map(type => <option key={type} value={type}>{t(type)}</option>)}
+                                            </select>
+                                            <button onClick={() => setEditingId(question.id)} disabled={!!busyId} className={actionClass}>{t('edit')}</button>
+                                        </div>
+                                    )}
+                                </div>
+                                {isBusy ? (
+                                    <div className="flex items-center gap-3 py-4 text-sm text-slate-600">
+                                        <div className="animate-spin rounded-full h-5 w-5 border-t-2 border-b-2 border-indigo-500"></div>
+                                        {t('generating')}
+                                    </div>
+                                ) : editingId === question.id ? (
+                                    <QuestionForm
+                                        question={question}
+                                        onSave={edited => { onChange(edited); setEditingId(null); }}
+                                        onCancel={() => setEditingId(null)}
+                                    />
+                                ) : (
+                                    <>
+                                        <MathText text={question.prompt} className="block text-slate-800" />
+                                        {question.options && (
+                                            <ul className="grid sm:grid-cols-2 gap-1 text-sm">
+                                                {question.options.map((option, index) => (
+                                                    <li key={index} className={index === question.correctOption ? 'font-semibold text-green-700' : 'text-slate-700'}>
+                                                        {optionLetter(index)}. <MathText text={option} />
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        )}
+                                        {question.statements && (
+                                            <ul className="space-y-1 text-sm">
+                                                {question.statements.map((statement, index) => (
+                                                    <li key={index} className="text-slate-700">
+                                                        {statementLabel(index)}) <MathText text={statement.text} />
+                                                        <span className={`ml-2 font-semibold ${statement.isTrue ? 'text-green-700' : 'text-red-600'}`}>{t(statement.isTrue ? 'true_option' : 'false_option')}</span>
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        )}
+                                        {!question.options && question.answer && (
+                                            <p className="text-sm text-green-700">{t('correct_answer')}: <MathText text={question.answer} /></p>
+                                        )}
+                                        {question.explanation && <p className="text-xs text-slate-500">{t('explanation')}: <MathText text={question.explanation} /></p>}
+                                    </>
+                                )}
+                                {failure?.questionId === question.id && <ErrorMessage error={failure.error} onRetry={failure.retry} />}
+                            </div>
+                        );
+                    })}
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export default ExamQuestionsEditor;
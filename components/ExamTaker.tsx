@@ -0,0 +1,272 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useApp } from '../App';
+import { EssayGrade, Exam, ExamAnswers, ExamAttempt, ExamQuestion, LibraryItemType, QuestionType } from '../types';
+import { getExamQuestions, optionLetter, statementLabel } from '../services/examModel';
+import { gradeAttempt, isAnswered } from '../services/examGrading';
+import { generateRubrics, gradeEssay, isEssay, readAnswerImage } from '../services/essayGrading';
+import AttemptReview, { formatClock } from './AttemptReview';
+import MathText from './MathText';
+
+// The timer turns red for the last five minutes.
+const TIME_WARNING_MS = 5 * 60 * 1000;
+
+const QuestionInput: React.FC<{
+    question: ExamQuestion;
+    number: number;
+    answer: ExamAnswers[string] | undefined;
+    onAnswer: (answer: ExamAnswers[string]) => void;
+}> = ({ question, number, answer, onAnswer }) => {
+    const { t } = useApp();
+    const [photoError, setPhotoError] = useState(false);
+
+    const handlePhotoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            onAnswer(await readAnswerImage(file));
+            setPhotoError(false);
+        } catch (error) {
+            console.error('Error reading answer photo:', error);
+            setPhotoError(true);
+        }
+    };
+
+    return (
+        <div className="p-4 border border-slate-200 rounded-xl bg-white space-y-3">
+            <p className="text-slate-800">
+                <span className="font-semibold">{t('question')} {number}. </span>
+                <MathText text={question.prompt} />
+                {question.points > 0 && <span className="text-sm text-slate-500"> ({Number(question.points.toFixed(2))} {t('points')})</span>}
+            </p>
+            {question.type === QuestionType.MULTIPLE_CHOICE ? (
+                <div className="space-y-1.5">
+                    {question.options?.map((option, index) => (
+                        <label
+                            key={index}
+                            className={`flex items-start gap-2 px-3 py-2 border rounded-lg text-sm cursor-pointer transition-colors ${answer === index ? 'border-indigo-500 bg-indigo-50' : 'border-slate-200 hover:bg-slate-50'}`}
+                        >
+                            <input
+                                type="radio"
+                                name={question.id}
+                                checked={answer === index}
+                                onChange={() => onAnswer(index)}
+                                className="mt-0.5 accent-indigo-600"
+                            />
+                            <span className="font-semibold">{optionLetter(index)}.</span>
+                            <MathText text={option} className="flex-1" />
+                        </label>
+                    ))}
+                </div>
+            ) : question.type === QuestionType.TRUE_FALSE ? (
+                <div className="space-y-1.5">
+                    {question.statements?.map((statement, index) => {
+                        const verdicts = Array.isArray(answer) ? answer : [];
+                        const choose = (verdict: boolean) => onAnswer(question.statements.map((_, i) => i === index ? verdict : verdicts[i] ?? null));
+                        return (
+                            <div key={index} className="flex items-start gap-2 px-3 py-2 border border-slate-200 rounded-lg text-sm">
+                                <span className="font-semibold">{statementLabel(index)})</span>
+                                <MathText text={statement.text} className="flex-1" />
+                                {[true, false].map(verdict => (
+                                    <label key={String(verdict)} className={`flex items-center gap-1 px-2 py-0.5 rounded-lg cursor-pointer ${verdicts[index] === verdict ? 'bg-indigo-100 text-indigo-700' : 'hover:bg-slate-50'}`}>
+                                        <input
+                                            type="radio"
+                                            name={`${question.id}-${index}`}
+                                            checked={verdicts[index] === verdict}
+                                            onChange={() => choose(verdict)}
+                                            className="accent-indigo-600"
+                                        />
+                                        {t(verdict ? 'true_option' : 'false_option')}
+                                    </label>
+                                ))}
+                            </div>
+                        );
+                    })}
+                </div>
+            ) : typeof answer === 'object' && !Array.isArray(answer) ? (
+                <div className="space-y-2">
+                    <img src={`data:${answer.mimeType};base64,${answer.base64Data}`} alt={t('your_answer')} className="max-h-96 rounded-lg border border-slate-200" />
+                    <button onClick={() => onAnswer('')} className="text-sm font-medium text-red-600 hover:underline">{t('remove_photo')}</button>
+                </div>
+            ) : (
+                <>
+                    <textarea
+                        value={typeof answer === 'string' ? answer : ''}
+                        onChange={e => onAnswer(e.target.value)}
+                        rows={question.type === QuestionType.ESSAY ? 6 : 2}
+                        placeholder={t('answer_placeholder')}
+                        className="w-full p-2.5 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 transition text-sm"
+                    />
+                    {isEssay(question) && (
+                        <label className="inline-block text-sm font-medium text-indigo-600 hover:underline cursor-pointer">
+                            {t('attach_photo')}
+                            <input type="file" accept="image/*" capture="environment" onChange={handlePhotoChange} className="hidden" />
+                        </label>
+                    )}
+                    {photoError && <p className="text-sm text-red-600">{t('photo_read_failed')}</p>}
+                </>
+            )}
+        </div>
+    );
+};
+
+// Answers are hidden until submission; the attempt is graded and saved to the library on submit,
+// or automatically when the time runs out. Answered essays are graded by the AI against their
+// rubric, generated first if the exam has none; the grade is provisional until a teacher reviews it.
+const ExamTaker: React.FC<{ exam: Exam; durationMinutes: number; onExit: () => void }> = ({ exam, durationMinutes, onExit }) => {
+    const { t, language, addToLibrary } = useApp();
+    const startedAtRef = useRef(Date.now());
+    const [now, setNow] = useState(Date.now());
+    const [answers, setAnswers] = useState<ExamAnswers>({});
+    const [attempt, setAttempt] = useState<ExamAttempt | null>(null);
+    const [isConfirmingSubmit, setIsConfirmingSubmit] = useState(false);
+    const [isGrading, setIsGrading] = useState(false);
+    const [essayGradingFailed, setEssayGradingFailed] = useState(false);
+    const isSubmittingRef = useRef(false);
+
+    const questions = getExamQuestions(exam);
+    const answeredCount = questions.filter(question => isAnswered(answers[question.id])).length;
+    const remainingMs = Math.max(0, startedAtRef.current + durationMinutes * 60 * 1000 - now);
+
+    const gradeEssays = async (): Promise<{ gradedExam: Exam; essayGrades: Record<string, EssayGrade> }> => {
+        const answeredEssays = questions.filter(question => isEssay(question) && isAnswered(answers[question.id]));
+        if (answeredEssays.length === 0) {
+            return { gradedExam: exam, essayGrades: {} };
+        }
+        const subject = t(exam.subject);
+        const missingRubrics = answeredEssays.filter(question => !question.rubric).map(question => question.id);
+        const gradedExam = missingRubrics.length
+            ? await generateRubrics({ exam, language, subject, questionIds: missingRubrics })
+            : exam;
+        const essayGrades: Record<string, EssayGrade> = {};
+        for (const question of getExamQuestions(gradedExam)) {
+            const answer = answers[question.id];
+            if (!question.rubric || !answeredEssays.some(essay => essay.id === question.id) || typeof answer === 'number') continue;
+            essayGrades[question.id] = await gradeEssay({ question, answer, language, subject, grade: exam.grade });
+        }
+        return { gradedExam, essayGrades };
+    };
+
+    const handleSubmit = async (timedOut: boolean) => {
+        if (attempt || isSubmittingRef.current) return;
+        isSubmittingRef.current = true;
+        const submittedAt = Date.now();
+        setIsConfirmingSubmit(false);
+        setIsGrading(true);
+        let gradedExam = exam;
+        let essayGrades: Record<string, EssayGrade> = {};
+        try {
+            ({ gradedExam, essayGrades } = await gradeEssays());
+        } catch (error) {
+            // The rest of the attempt is still graded; the essays wait for a teacher.
+            console.error('Error grading essays:', error);
+            setEssayGradingFailed(true);
+        }
+        setIsGrading(false);
+        const result = gradeAttempt(gradedExam, answers, { startedAt: startedAtRef.current, submittedAt, timedOut }, essayGrades);
+        setAttempt(result);
+        addToLibrary({
+            name: `${t(LibraryItemType.EXAM_ATTEMPT)}: ${exam.topic}`,
+            type: LibraryItemType.EXAM_ATTEMPT,
+            content: result,
+        });
+    };
+
+    useEffect(() => {
+        if (attempt || isGrading) return;
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [attempt, isGrading]);
+
+    useEffect(() => {
+        if (remainingMs === 0) {
+            handleSubmit(true);
+        }
+    }, [remainingMs]);
+
+    const handleAnswer = (questionId: string, answer: ExamAnswers[string]) => {
+        setAnswers(prev => ({ ...prev, [questionId]: answer }));
+    };
+
+    const handleSubmitClick = () => {
+        if (answeredCount < questions.length) {
+            setIsConfirmingSubmit(true);
+        } else {
+            handleSubmit(false);
+        }
+    };
+
+    let number = 0;
+
+    return (
+        <div className="bg-white/80 backdrop-blur-sm border border-slate-200 shadow-sm rounded-2xl flex flex-col min-h-[600px]">
+            <div className="sticky top-0 z-10 p-4 border-b border-slate-200 bg-white/95 rounded-t-2xl flex flex-wrap justify-between items-center gap-3">
+                <div>
+                    <h3 className="text-lg font-bold text-slate-900">{exam.title}</h3>
+                    {!attempt && <p className="text-sm text-slate-500">{answeredCount}/{questions.length} {t('answered')}</p>}
+                </div>
+                <div className="flex items-center gap-3">
+                    {!attempt && !isGrading && (
+                        <>
+                            <div className={`px-3 py-1.5 rounded-lg font-mono text-lg font-semibold ${remainingMs <= TIME_WARNING_MS ? 'bg-red-100 text-red-700' : 'bg-slate-100 text-slate-700'}`} title={t('time_left')}>
+                                {formatClock(remainingMs)}
+                            </div>
+                            <button onClick={handleSubmitClick} className="px-4 py-2 text-sm font-bold text-white bg-gradient-to-r from-indigo-600 to-purple-600 rounded-lg hover:from-indigo-700 hover:to-purple-700 transition-colors">
+                                {t('submit_exam')}
+                            </button>
+                        </>
+                    )}
+                    <button onClick={onExit} className="px-4 py-2 text-sm font-medium text-slate-700 bg-slate-200 rounded-lg hover:bg-slate-300 transition-colors">
+                        {t('exit_test')}
+                    </button>
+                </div>
+            </div>
+
+            {isGrading ? (
+                <div className="flex-1 flex flex-col items-center justify-center gap-3 p-8 text-slate-600">
+                    <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-indigo-500"></div>
+                    <p>{t('grading_essays')}</p>
+                </div>
+            ) : attempt ? (
+                <>
+                    <p className="px-4 pt-4 text-sm text-green-700">{t('attempt_saved')}</p>
+                    {essayGradingFailed && <p className="px-4 text-sm text-amber-700">{t('essay_grading_failed')}</p>}
+                    <AttemptReview attempt={attempt} />
+                </>
+            ) : (
+                <div className="p-4 space-y-6">
+                    {exam.sections.map(section => (
+                        <div key={section.id} className="space-y-3">
+                            <h4 className="text-lg font-semibold text-sky-700">{section.title}</h4>
+                            {section.passage && <p className="p-3 bg-slate-50 rounded-lg text-sm text-slate-700"><MathText text={section.passage} /></p>}
+                            {section.questions.map(question => (
+                                <QuestionInput
+                                    key={question.id}
+                                    question={question}
+                                    number={++number}
+                                    answer={answers[question.id]}
+                                    onAnswer={answer => handleAnswer(question.id, answer)}
+                                />
+                            ))}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {isConfirmingSubmit && (
+                <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+                    <div className="bg-white w-full max-w-sm rounded-2xl shadow-xl p-6 text-center">
+                        <h3 className="text-lg font-bold text-slate-900">{t('confirm_submit_title')}</h3>
+                        <p className="text-slate-600 my-4">{t('confirm_submit_unanswered')} {questions.length - answeredCount}</p>
+                        <div className="flex justify-center space-x-4">
+                            <button onClick={() => setIsConfirmingSubmit(false)} className="px-6 py-2 text-sm font-medium text-slate-700 bg-slate-200 rounded-lg hover:bg-slate-300 transition-colors">{t('keep_working')}</button>
+                            <button onClick={() => handleSubmit(false)} className="px-6 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 transition-colors">{t('submit_exam')}</button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ExamTaker;
@@ -0,0 +1,123 @@
+import React, { useMemo, useState } from 'react';
+import { useApp } from '../App';
+import { Exam, QuestionType } from '../types';
+import { analyzeItems, findExamAttempts } from '../services/itemAnalysis';
+import { recordItemStatistics } from '../services/questionBank';
+import { optionLetter } from '../services/examModel';
+import MathText from './MathText';
+
+// Statistics of each question of an exam over the attempts recorded on it (and its versions).
+const ItemAnalysisReport: React.FC<{ exam: Exam; onClose: () => void }> = ({ exam, onClose }) => {
+    const { t, library } = useApp();
+    const [notice, setNotice] = useState('');
+
+    const analysis = useMemo(() => analyzeItems(exam, findExamAttempts(library, exam)), [exam, library]);
+    const { distribution } = analysis;
+    const largestBin = Math.max(1, ...distribution.bins);
+
+    const handleUpdateBank = () => {
+        try {
+            setNotice(`${t('bank_questions_updated')}: ${recordItemStatistics(analysis.items)}`);
+        } catch (e) {
+            console.error('Error updating the question bank:', e);
+            alert(t('storage_full'));
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+            <div className="bg-white w-full max-w-5xl max-h-[90vh] rounded-2xl shadow-xl flex flex-col">
+                <div className="p-4 border-b border-slate-200 flex justify-between items-center">
+                    <div>
+                        <h3 className="text-lg font-bold">{t('item_analysis')}</h3>
+                        <p className="text-xs text-slate-500">{exam.title} · {t('item_attempts')}: {analysis.attempts}</p>
+                    </div>
+                    <button onClick={onClose} className="text-slate-500 hover:text-slate-800 text-3xl leading-none">&times;</button>
+                </div>
+                <div className="p-4 flex-1 overflow-y-auto custom-scrollbar space-y-6">
+                    {analysis.attempts === 0 ? (
+                        <p className="text-center text-slate-500 py-12">{t('item_analysis_empty')}</p>
+                    ) : (
+                        <>
+                            <div>
+                                <h4 className="font-semibold text-slate-800 mb-2">{t('score_distribution')}</h4>
+                                <div className="flex flex-wrap gap-4 text-sm text-slate-600 mb-3">
+                                    <span>{t('score_mean')}: <strong>{distribution.mean}</strong></span>
+                                    <span>{t('score_median')}: <strong>{distribution.median}</strong></span>
+                                    <span>{t('score_standard_deviation')}: <strong>{distribution.standardDeviation}</strong></span>
+                                    <span>{t('score_range')}: <strong>{distribution.min}–{distribution.max}</strong></span>
+                                </div>
+                                <div className="flex items-end gap-1 h-32">
+                                    {distribution.bins.map((count, bin) => (
+                                        <div key={bin} className="flex-1 flex flex-col items-center justify-end h-full">
+                                            <span className="text-xs text-slate-500">{count > 0 ? count : ''}</span>
+                                            <div className="w-full bg-indigo-400 rounded-t" style={{ height: `${(count / largestBin) * 100}%` }}></div>
+                                            <span className="text-xs text-slate-500 mt-1">{bin}–{bin + 1}</span>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+
+                            <div>
+                                <div className="flex justify-between items-center mb-2 gap-4">
+                                    <h4 className="font-semibold text-slate-800">{t('item_statistics')}</h4>
+                                    <button onClick={handleUpdateBank} title={t('update_question_bank_hint')} className="px-4 py-2 text-sm font-medium text-indigo-600 bg-indigo-100 rounded-lg hover:bg-indigo-200 transition-colors">
+                                        {t('update_question_bank')}
+                                    </button>
+                                </div>
+                                {notice && <p className="text-sm text-green-700 bg-green-50 border border-green-200 rounded-lg p-2 mb-2">{notice}</p>}
+                                <p className="text-xs text-slate-500 mb-3">{t('item_analysis_legend')}</p>
+                                <div className="space-y-3">
+                                    {analysis.items.map(({ question, number, statistics, options }) => (
+                                        <div key={question.id} className={`border rounded-xl p-3 ${statistics.flags.length > 0 ? 'border-red-200 bg-red-50/40' : 'border-slate-200'}`}>
+                                            <div className="flex flex-wrap items-center gap-2 text-sm">
+                                                <span className="font-semibold text-slate-800">{t('question')} {number}</span>
+                                                <span className="text-slate-500">{t(question.type)}</span>
+                                                <span className="text-slate-600">{t('item_responses')}: {statistics.responses}</span>
+                                                <span className="text-slate-600">{t('difficulty_index')}: <strong>{statistics.difficultyIndex}</strong></span>
+                                                <span className="text-slate-600">{t('discrimination_index')}: <strong>{statistics.discriminationIndex ?? '—'}</strong></span>
+                                                {statistics.flags.map(flag => (
+                                                    <span key={flag} className="text-xs bg-red-100 text-red-700 px-2 py-0.5 rounded-full">{t(`item_flag_${flag}`)}</span>
+                                                ))}
+                                            </div>
+                                            <MathText text={question.prompt} className="block mt-1 text-sm text-slate-700 line-clamp-2" />
+                                            {question.type === QuestionType.MULTIPLE_CHOICE && options && (
+                                                <table className="mt-2 text-xs text-slate-600">
+                                                    <thead>
+                                                        <tr>
+                                                            <th className="pr-4 text-left font-medium">{t('item_option')}</th>
+                                                            <th className="pr-4 text-right font-medium">{t('item_chosen')}</th>
+                                                            <th className="pr-4 text-right font-medium">{t('item_upper_group')}</th>
+                                                            <th className="pr-4 text-right font-medium">{t('item_lower_group')}</th>
+                                                            <th></th>
+                                                        </tr>
+                                                    </thead>
+                                                    <tbody>
+                                                        {options.map((option, index) => (
+                                                            <tr key={index} className={option.isCorrect ? 'font-semibold text-green-700' : ''}>
+                                                                <td className="pr-4">{optionLetter(index)}{option.isCorrect ? ' ✓' : ''}</td>
+                                                                <td className="pr-4 text-right">{option.count} ({statistics.responses > 0 ? Math.round(100 * option.count / statistics.responses) : 0}%)</td>
+                                                                <td className="pr-4 text-right">{option.upperCount}</td>
+                                                                <td className="pr-4 text-right">{option.lowerCount}</td>
+                                                                <td className="text-red-600">{option.flag ? t(`item_flag_${option.flag}`) : ''}</td>
+                                                            </tr>
+                                                        ))}
+                                                    </tbody>
+                                                </table>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        </>
+                    )}
+                </div>
+                <div className="p-3 border-t border-slate-200 flex justify-end">
+                    <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 transition-colors">{t('close')}</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ItemAnalysisReport;
@@ -1,10 +1,16 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { GoogleGenAI, Type, Modality } from '@google/genai';
+import { Type } from '@google/genai';
 import { useApp } from '../App';
+import { generateJson, generateJsonStream, generateImage, isCancelledError } from '../services/aiService';
+import { planResponse, lessonResponse } from '../services/responseValidators';
+import { renderPrompt } from '../services/prompts';
 import { GRADES, SUBJECTS } from '../constants';
 import { Subject, Lesson, LibraryItemType } from '../types';
 import MarkdownRenderer from './MarkdownRenderer';
+import ErrorMessage from './ErrorMessage';
+import { createDocx, markdownToDocxBlocks } from '../services/docxExport';
+import { downloadBlob, toFileName } from '../services/download';
 
 // Make sure KaTeX is available on the window object
 declare global {
@@ -73,19 +79,25 @@ const learningPathSubjects = SUBJECTS.filter(s => s !== Subject.NATURAL_SCIENCES
 
 
 const LearningPath: React.FC = () => {
-    const { t, language, studentGoal } = useApp();
-    const [config, setConfig] = useState({ grade: 10, subject: Subject.MATH });
+    const { t, language, studentGoal, settings } = useApp();
+    const [config, setConfig] = useState({
+        grade: settings.defaultGrade,
+        subject: settings.defaultSubject === Subject.NATURAL_SCIENCES ? Subject.MATH : settings.defaultSubject,
+    });
     const [plan, setPlan] = useState<Lesson[]>([]);
     const [currentLessonIndex, setCurrentLessonIndex] = useState(0);
     const [markdownContent, setMarkdownContent] = useState('');
     const [wordContent, setWordContent] = useState('');
     const [isLoading, setIsLoading] = useState<'plan' | 'lesson' | false>(false);
-    const [error, setError] = useState<string | null>(null);
+    const [error, setError] = useState<unknown>(null);
     const [images, setImages] = useState<Record<string, string>>({}); // Maps placeholder to base64 data
     const [imageLoadingStates, setImageLoadingStates] = useState<Record<string, 'loading' | 'error'>>({});
     const [copyAsTextButtonText, setCopyAsTextButtonText] = useState(t('copy_as_text'));
     const [copyForWordButtonText, setCopyForWordButtonText] = useState(t('copy_for_word'));
     const [isReviewSessionActive, setIsReviewSessionActive] = useState(false);
+    const abortControllerRef = useRef<AbortController | null>(null);
+    // The request behind the current error, re-run by the retry button.
+    const failedRequestRef = useRef<(() => void) | null>(null);
 
 
     useEffect(() => {
@@ -167,51 +179,35 @@ const LearningPath: React.FC = () => {
         setImageLoadingStates({});
         
         try {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-            const prompt = `
-                Create a structured learning plan for a grade ${config.grade} student in ${t(config.subject)}. The student's learning goal is "${t(studentGoal!)}".
-                The plan must consist of 5 to 7 logically ordered, distinct lesson topics.
-                
-                **CRITICAL LANGUAGE RULE (MUST FOLLOW):**
-                The user has explicitly selected **${language}** as their interface language.
-                - The lesson topics in the JSON output **MUST be exclusively in ${language}**.
-                - If the subject name or standard curriculum terms are in English, you **MUST translate** them to **${language}**.
-                - Do NOT output English unless **${language}** is explicitly English.
-
-                **LaTeX for Math**: If any lesson topic contains mathematical formulas, variables, or symbols, you MUST use LaTeX for them (e.g., "Hệ phương trình bậc nhất hai ẩn $ax + by = c$"). This is mandatory. Failure to do so is a critical error.
+            const { text: prompt } = renderPrompt('learning_plan', {
+                language,
+                grade: config.grade,
+                subject: t(config.subject),
+                goal: t(studentGoal!),
+            });
 
-                Your entire response MUST be a single JSON object with a key "plan" which is an array of strings. Each string is a lesson topic.
-                Do not include any other text or formatting.
-            `;
-            
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash',
+            const result = await generateJson({
+                feature: 'learning_plan',
+                validate: planResponse,
                 contents: prompt,
-                 config: {
-                    responseMimeType: 'application/json',
-                    responseSchema: {
-                        type: Type.OBJECT,
-                        properties: {
-                            plan: {
-                                type: Type.ARRAY,
-                                items: { type: Type.STRING }
-                            }
-                        },
-                        required: ['plan']
-                    }
+                schema: {
+                    type: Type.OBJECT,
+                    properties: {
+                        plan: {
+                            type: Type.ARRAY,
+                            items: { type: Type.STRING }
+                        }
+                    },
+                    required: ['plan']
                 }
             });
 
-            const result = JSON.parse(response.text || '{}');
-            if (result.plan && result.plan.length > 0) {
-                setPlan(result.plan.map((topic: string) => ({ topic, completed: false })));
-                setCurrentLessonIndex(0);
-            } else {
-                throw new Error("Failed to generate a valid plan.");
-            }
+            setPlan(result.plan.map(topic => ({ topic, completed: false })));
+            setCurrentLessonIndex(0);
         } catch (e) {
             console.error("Error generating plan:", e);
-            setError("Sorry, an error occurred while generating the learning plan.");
+            failedRequestRef.current = generatePlan;
+            setError(e);
         } finally {
             setIsLoading(false);
         }
@@ -229,8 +225,6 @@ const LearningPath: React.FC = () => {
         imageTags.forEach(tag => { initialLoadingStates[tag] = 'loading'; });
         setImageLoadingStates(initialLoadingStates);
 
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
         // Process images one by one to handle errors gracefully
         for (let i = 0; i < imageTags.length; i++) {
             const tag = imageTags[i];
@@ -242,34 +236,13 @@ const LearningPath: React.FC = () => {
             }
 
             try {
-                const response = await ai.models.generateContent({
-                    model: 'gemini-2.5-flash-image',
-                    contents: { parts: [{ text: prompt }] },
-                    config: { responseModalities: [Modality.IMAGE] },
+                const imageData = await generateImage(prompt);
+                setImages(prev => ({ ...prev, [tag]: imageData }));
+                setImageLoadingStates(prev => {
+                    const newStates = { ...prev };
+                    delete newStates[tag];
+                    return newStates;
                 });
-
-                let base64ImageBytes = '';
-                const parts = response.candidates?.[0]?.content?.parts;
-                
-                if (parts) {
-                    for (const part of parts) {
-                        if (part.inlineData) {
-                            base64ImageBytes = part.inlineData.data;
-                            break;
-                        }
-                    }
-                }
-                
-                if (base64ImageBytes) {
-                    setImages(prev => ({ ...prev, [tag]: `data:image/png;base64,${base64ImageBytes}` }));
-                    setImageLoadingStates(prev => {
-                        const newStates = { ...prev };
-                        delete newStates[tag];
-                        return newStates;
-                    });
-                } else {
-                     throw new Error('No image data found in response.');
-                }
             } catch (e) {
                 console.error(`Failed to generate image for tag "${tag}":`, e);
                 setImageLoadingStates(prev => ({ ...prev, [tag]: 'error' }));
@@ -284,73 +257,61 @@ const LearningPath: React.FC = () => {
         setWordContent('');
         setImages({});
         setImageLoadingStates({});
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
         try {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-            
             const responseSchema = {
                 type: Type.OBJECT,
                 properties: {
                     markdownContent: { type: Type.STRING, description: `Content with Markdown and LaTeX in ${language}.` },
                     wordContent: { type: Type.STRING, description: `Content with UnicodeMath for MS Word in ${language}.` }
                 },
-                required: ['markdownContent', 'wordContent']
+                required: ['markdownContent', 'wordContent'],
+                propertyOrdering: ['markdownContent', 'wordContent'],
             };
             
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-pro',
+            const result = await generateJsonStream({
+                feature: 'lesson',
+                validate: lessonResponse,
                 contents: prompt,
-                 config: {
-                    responseMimeType: 'application/json',
-                    responseSchema: responseSchema
-                }
+                schema: responseSchema,
+                signal: controller.signal,
+                onPartial: partial => setMarkdownContent(partial.markdownContent || ''),
             });
-            const result = JSON.parse(response.text || '{}');
-            const lessonText = result.markdownContent || 'No content generated.';
+            const lessonText = result.markdownContent;
             
             setMarkdownContent(lessonText);
-            setWordContent(result.wordContent || '');
+            setWordContent(result.wordContent);
             
             if (!isReviewSessionActive) {
                 generateImagesForLesson(lessonText);
             }
 
         } catch (e) {
-            console.error("Error generating lesson:", e);
-            setError("Sorry, an error occurred while generating the lesson content.");
+            setMarkdownContent('');
+            if (!isCancelledError(e)) {
+                console.error("Error generating lesson:", e);
+                failedRequestRef.current = () => baseGenerationLogic(prompt);
+                setError(e);
+            }
         } finally {
+            abortControllerRef.current = null;
             setIsLoading(false);
         }
     };
 
+    const handleCancel = () => {
+        abortControllerRef.current?.abort();
+    };
 
-    const generateLesson = async (topic: string) => {
-        const prompt = `
-            You are an AI Tutor. Create a comprehensive lesson for a grade ${config.grade} student about the topic: "${topic}".
-            The student's learning goal is "${t(studentGoal!)}".
-
-            **CRITICAL LANGUAGE RULE (MUST FOLLOW):**
-            The user has explicitly selected **${language}** as their interface language.
-            - The entire lesson, including all explanations, questions, options, image prompts, and headers (like 'Introduction', 'Exercises'), **MUST be in ${language}**.
-            - **Do not output English unless ${language} is explicitly English.**
-            - Even if the topic is technical, translate explanations to **${language}**.
 
-            **LaTeX for Math**: You MUST use LaTeX for ALL mathematical content if the subject is Math or involves formulas. Use \`$...$\` for inline and \`$$...$$\` for block. This is a critical rule.
-            
-            **CRITICAL OUTPUT FORMAT:**
-            Your entire response MUST be a single, valid JSON object.
-            This object MUST have two keys:
-            1.  \`markdownContent\`: The lesson formatted with Markdown and LaTeX for web display. Include image placeholders like \`[IMAGE: a descriptive prompt in ${language}]\`.
-            2.  \`wordContent\`: The same lesson, but with LaTeX converted to Microsoft Word's native Equation format (UnicodeMath) for direct copy-pasting.
-
-            **Lesson Structure for \`markdownContent\`:**
-            -   **Explanation:** A clear explanation of the main concepts.
-            -   **Visual Aids:** Insert 1-2 image placeholders: \`[IMAGE: A concise prompt in ${language}.]\`.
-            -   **Multiple Choice Questions:** 3-5 MCQs with 4 options (A, B, C, D).
-            -   **Essay Question:** 1 critical thinking question.
-            -   **Formatting:** Use Markdown headers (##) for structure.
-
-            Now, generate the lesson content based on these absolute rules.
-        `;
+    const generateLesson = async (topic: string) => {
+        const { text: prompt } = renderPrompt('lesson', {
+            language,
+            grade: config.grade,
+            topic,
+            goal: t(studentGoal!),
+        });
         await baseGenerationLogic(prompt);
     };
 
@@ -363,40 +324,14 @@ const LearningPath: React.FC = () => {
         };
         const topic = reviewTopicMap[reviewType];
         
-        let topicFocusInstruction = '';
-        if (reviewType === 'numbers') {
-            topicFocusInstruction = "The lesson MUST focus exclusively on Numbers and Algebra. DO NOT include any Geometry topics.";
-        } else if (reviewType === 'geometry') {
-            topicFocusInstruction = "The lesson MUST focus exclusively on Geometry. DO NOT include any Numbers and Algebra topics.";
-        } else { // 'both'
-            topicFocusInstruction = "The lesson should provide a balanced review of both Numbers & Algebra and Geometry.";
-        }
-
-        const prompt = `
-            You are an AI Tutor specializing in ${t(config.subject)}. Create a comprehensive review lesson for a grade ${config.grade} student.
-            The student's learning goal is "${t(studentGoal!)}".
-            The review topic is: **${topic}**.
-
-            **Topic Focus:** ${topicFocusInstruction}
-            
-            **CRITICAL LANGUAGE RULE (MUST FOLLOW):**
-            The user has explicitly selected **${language}** as their interface language.
-            - The entire lesson, including all explanations, exercises, and headers, **MUST be in ${language}**.
-            - **Do not output English unless ${language} is explicitly English.**
-
-            **LaTeX for Math**: You MUST use LaTeX for ALL mathematical content. Use \`$...$\` for inline and \`$$...$$\` for block.
-            
-            **CRITICAL OUTPUT FORMAT:**
-            Your entire response MUST be a single, valid JSON object with two keys: \`markdownContent\` and \`wordContent\`, following the same formatting rules as a standard lesson.
-
-            **Lesson Structure for \`markdownContent\`:**
-            1.  **Explanation of Key Concepts:** A clear summary of the core theories and formulas.
-            2.  **Worked Examples:** Provide 2-3 step-by-step examples.
-            3.  **Practice Exercises:** Provide 5-7 practice exercises of varying difficulty, including their solutions.
-            4.  **Formatting:** Use Markdown headers (##, ###) for structure.
-
-            Now, generate the review lesson content based on these absolute rules.
-        `;
+        const { text: prompt } = renderPrompt('review_lesson', {
+            language,
+            grade: config.grade,
+            subject: t(config.subject),
+            goal: t(studentGoal!),
+            topic,
+            focus: reviewType,
+        });
         await baseGenerationLogic(prompt);
     };
 
@@ -447,6 +382,17 @@ const LearningPath: React.FC = () => {
             });
     };
 
+    const handleDownloadDocx = () => {
+        if (!markdownContent) return;
+        try {
+            const title = markdownContent.match(/^#\s+(.*)$/m)?.[1] ?? (plan[currentLessonIndex]?.topic ?? t('learning_path'));
+            downloadBlob(createDocx(markdownToDocxBlocks(markdownContent, images)), toFileName(title.replace(/[*$]/g, ''), 'docx'));
+        } catch (e) {
+            console.error('Error creating the Word file:', e);
+            alert(t('docx_export_failed'));
+        }
+    };
+
     const handleCopyToWord = () => {
         if (!wordContent) return;
         copyToClipboard(wordContent)
@@ -528,10 +474,10 @@ const LearningPath: React.FC = () => {
             </div>
             {/* Right Panel: Lesson Content */}
             <div className="lg:col-span-2 bg-white/80 backdrop-blur-sm border border-slate-200 shadow-sm p-2 rounded-2xl min-h-[600px] flex flex-col">
-                {isLoading === 'lesson' || isLoading === 'plan' ? (
+                {isLoading === 'plan' || (isLoading === 'lesson' && !markdownContent) ? (
                     <div className="flex items-center justify-center h-full"><div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-indigo-500"></div></div>
                 ) : error ? (
-                    <div className="flex items-center justify-center h-full text-red-600 p-4 text-center">{error}</div>
+                    <ErrorMessage error={error} onRetry={() => failedRequestRef.current?.()} />
                 ) : (
                     <div className="flex-1 h-full overflow-y-auto bg-white rounded-lg custom-scrollbar">
                         <MarkdownRenderer
@@ -539,8 +485,16 @@ const LearningPath: React.FC = () => {
                             placeholder={plan.length > 0 ? t('lesson_placeholder') : t('plan_placeholder')}
                             images={images}
                             imageLoadingStates={imageLoadingStates}
+                            isStreaming={isLoading === 'lesson'}
                         />
                     </div>
+                )}
+                {isLoading === 'lesson' && (
+                    <div className="p-4 border-t border-slate-200">
+                        <button onClick={handleCancel} className="w-full bg-slate-200 text-slate-700 font-bold py-3 rounded-lg hover:bg-slate-300 transition-colors">
+                            {t('cancel')}
+                        </button>
+                    </div>
                 )}
                  {markdownContent && !isLoading && (
                     <div className="p-4 border-t border-slate-200 flex flex-col sm:flex-row gap-4">
@@ -560,6 +514,11 @@ const LearningPath: React.FC = () => {
                                 className="flex-1 bg-blue-500 text-white font-bold py-3 rounded-lg hover:bg-blue-600 disabled:opacity-50 transition-all transform hover:scale-105">
                                 {copyForWordButtonText}
                             </button>
+                             <button
+                                onClick={handleDownloadDocx}
+                                className="flex-1 bg-indigo-500 text-white font-bold py-3 rounded-lg hover:bg-indigo-600 transition-all transform hover:scale-105">
+                                {t('download_docx')}
+                            </button>
                         </div>
                     </div>
                 )}
@@ -1,8 +1,22 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { useApp } from '../App';
-import { LibraryItem, LibraryItemType, UserRole } from '../types';
+import { Exam, LibraryItem, LibraryItemType, UserRole } from '../types';
+import { renderExamMarkdown } from '../services/examRenderer';
+import { getExamQuestions } from '../services/examModel';
+import { isEssay } from '../services/essayGrading';
 import MarkdownRenderer from './MarkdownRenderer';
 import MindMapComponent from './MindMap';
+import AttemptReview from './AttemptReview';
+import EssayGrader from './EssayGrader';
+import ExamExportDialog from './ExamExportDialog';
+import LmsExportDialog from './LmsExportDialog';
+import AnswerSheetGrader from './AnswerSheetGrader';
+import ItemAnalysisReport from './ItemAnalysisReport';
+import { createDocx, markdownToDocxBlocks } from '../services/docxExport';
+import { addQuestionsToBank, bankEntriesFromExam } from '../services/questionBank';
+import { downloadBlob, toFileName } from '../services/download';
+import { loadListeningAudio } from '../services/audioStore';
+import ListeningAudioPlayer from './ListeningAudioPlayer';
 
 const scrollbarHideStyle = `
 .hide-scrollbars::-webkit-scrollbar {
@@ -14,10 +28,44 @@ const scrollbarHideStyle = `
 }
 `;
 
+// Listening audio saved with an exam, loaded from the audio store when the exam is opened.
+const SavedListeningAudio: React.FC<{ audioId: string; title: string }> = ({ audioId, title }) => {
+    const { t } = useApp();
+    const [audio, setAudio] = useState<string | null>(null);
+    const [isMissing, setIsMissing] = useState(false);
+
+    useEffect(() => {
+        let isCurrent = true;
+        setAudio(null);
+        setIsMissing(false);
+        loadListeningAudio(audioId)
+            .then(entry => {
+                if (!isCurrent) return;
+                if (entry) setAudio(entry.audio);
+                else setIsMissing(true);
+            })
+            .catch(e => {
+                console.error('Error loading the listening audio:', e);
+                if (isCurrent) setIsMissing(true);
+            });
+        return () => { isCurrent = false; };
+    }, [audioId]);
+
+    if (isMissing) {
+        return <p className="p-3 border-b border-slate-200 text-sm text-amber-700 flex-shrink-0">{t('listening_audio_missing')}</p>;
+    }
+    return audio ? <div className="p-3 border-b border-slate-200 flex-shrink-0"><ListeningAudioPlayer audio={audio} title={title} /></div> : null;
+};
+
 const Library: React.FC = () => {
     const { t, userRole, library, removeFromLibrary, libraryUsage } = useApp();
     const [selectedItem, setSelectedItem] = useState<LibraryItem | null>(null);
     const [isDeleteConfirmVisible, setIsDeleteConfirmVisible] = useState<LibraryItem | null>(null);
+    const [gradingItem, setGradingItem] = useState<(LibraryItem & { content: Exam }) | null>(null);
+    const [exportingExam, setExportingExam] = useState<Exam | null>(null);
+    const [lmsExportingExam, setLmsExportingExam] = useState<Exam | null>(null);
+    const [sheetGradingVersions, setSheetGradingVersions] = useState<Exam[] | null>(null);
+    const [analyzedExam, setAnalyzedExam] = useState<Exam | null>(null);
     const [zoom, setZoom] = useState(1);
     
     // Refs for panning functionality
@@ -42,6 +90,43 @@ const Library: React.FC = () => {
         setSelectedItem(null);
     };
 
+    const isStructuredExam = (item: LibraryItem): item is LibraryItem & { content: Exam } =>
+        (item.type === LibraryItemType.EXAM || item.type === LibraryItemType.REVIEW_EXERCISES) && typeof item.content !== 'string';
+
+    // Structured exams ask for their header first; text content downloads straight away.
+    const handleDownloadDocx = (item: LibraryItem) => {
+        if (isStructuredExam(item)) {
+            setExportingExam(item.content);
+            return;
+        }
+        if (typeof item.content !== 'string') return;
+        try {
+            downloadBlob(createDocx(markdownToDocxBlocks(item.content)), toFileName(item.name, 'docx'));
+        } catch (e) {
+            console.error('Error creating the Word file:', e);
+            alert(t('docx_export_failed'));
+        }
+    };
+
+    // Saved exams do not record their textbook, so their questions are banked without one.
+    const handleAddToBank = (exam: Exam) => {
+        try {
+            const { added, duplicates } = addQuestionsToBank(bankEntriesFromExam(exam, ''));
+            alert(`${t('bank_questions_added')}: ${added}${duplicates > 0 ? ` · ${t('bank_duplicates_skipped')}: ${duplicates}` : ''}`);
+        } catch (e) {
+            console.error('Error adding questions to the bank:', e);
+            alert(t('storage_full'));
+        }
+    };
+
+    // Versions of one exam are saved one by one, each with its code and the exam's title.
+    const handleGradeAnswerSheets = (exam: Exam) => {
+        const versions = exam.versionCode
+            ? library.filter(isStructuredExam).map(item => item.content).filter(content => content.versionCode && content.title === exam.title)
+            : [];
+        setSheetGradingVersions(versions.length > 0 ? versions : [exam]);
+    };
+
     const handleDelete = () => {
         if (isDeleteConfirmVisible) {
             removeFromLibrary(isDeleteConfirmVisible.id);
@@ -84,15 +169,24 @@ const Library: React.FC = () => {
 
     const ItemCard: React.FC<{ item: LibraryItem }> = ({ item }) => {
         const date = new Date(item.timestamp).toLocaleDateString();
+        const canGradeEssays = userRole === UserRole.TEACHER
+            && item.type === LibraryItemType.EXAM
+            && typeof item.content !== 'string'
+            && getExamQuestions(item.content).some(isEssay);
 
         return (
             <div className="bg-white/80 backdrop-blur-sm border border-slate-200 shadow-sm p-4 rounded-xl flex flex-col justify-between transition-transform transform hover:scale-105 hover:shadow-lg">
                 <div>
                     <span className="text-xs font-semibold bg-indigo-100 text-indigo-700 px-2 py-1 rounded-full">{t(item.type)}</span>
                     <h4 className="font-bold text-slate-800 mt-2 mb-1 truncate">{item.name}</h4>
-                    <p className="text-xs text-slate-500 mb-4">{date}</p>
+                    <p className="text-xs text-slate-500 mb-4">
+                        {date}
+                        {item.promptVersion && <span className="ml-2 font-mono" title={t('prompt_version')}>{item.promptVersion}</span>}
+                        {item.type === LibraryItemType.EXAM_ATTEMPT && <span className="ml-2 font-semibold text-indigo-600">{t('score')}: {Number(item.content.earnedPoints.toFixed(2))}/{Number(item.content.totalPoints.toFixed(2))}</span>}
+                    </p>
                 </div>
                 <div className="flex items-center justify-end space-x-2">
+                    {canGradeEssays && <button onClick={() => setGradingItem(item as LibraryItem & { content: Exam })} className="px-3 py-1.5 text-sm font-medium text-green-700 bg-green-100 rounded-lg hover:bg-green-200 transition-colors">{t('grade_essays')}</button>}
                     <button onClick={() => handleViewItem(item)} className="px-3 py-1.5 text-sm font-medium text-indigo-600 bg-indigo-100 rounded-lg hover:bg-indigo-200 transition-colors">{t('view')}</button>
                     <button onClick={() => setIsDeleteConfirmVisible(item)} className="px-3 py-1.5 text-sm font-medium text-red-600 bg-red-100 rounded-lg hover:bg-red-200 transition-colors">{t('delete')}</button>
                 </div>
@@ -104,6 +198,12 @@ const Library: React.FC = () => {
         if (item.type === LibraryItemType.SUMMARY && item.content.mindMap) {
             return <MindMapComponent data={item.content.mindMap} />;
         }
+        if (isStructuredExam(item)) {
+            return <MarkdownRenderer markdown={renderExamMarkdown(item.content, t)} placeholder='' />;
+        }
+        if (item.type === LibraryItemType.EXAM_ATTEMPT) {
+            return <AttemptReview attempt={item.content} />;
+        }
         if (typeof item.content === 'string') {
             return <MarkdownRenderer markdown={item.content} placeholder='' />;
         }
@@ -144,6 +244,9 @@ const Library: React.FC = () => {
                             <h3 className="text-lg font-bold truncate">{selectedItem.name}</h3>
                             <button onClick={handleCloseModal} className="text-slate-500 hover:text-slate-800 text-3xl leading-none">&times;</button>
                         </div>
+                        {isStructuredExam(selectedItem) && selectedItem.content.listeningAudioId && (
+                            <SavedListeningAudio audioId={selectedItem.content.listeningAudioId} title={selectedItem.content.title} />
+                        )}
                         <div 
                             ref={scrollContainerRef}
                             className="flex-grow p-2 overflow-auto hide-scrollbars bg-slate-50/50 cursor-grab"
@@ -171,12 +274,35 @@ const Library: React.FC = () => {
                                     <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M10 3a1 1 0 011 1v5h5a1 1 0 110 2h-5v5a1 1 0 11-2 0v-5H4a1 1 0 110-2h5V4a1 1 0 011-1z" clipRule="evenodd" /></svg>
                                 </button>
                             </div>
-                             <button onClick={handleCloseModal} className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 transition-colors">{t('close')}</button>
+                             <div className="flex flex-wrap justify-end gap-2">
+                                {(isStructuredExam(selectedItem) || typeof selectedItem.content === 'string') && (
+                                    <button onClick={() => handleDownloadDocx(selectedItem)} className="px-4 py-2 text-sm font-medium text-indigo-600 bg-indigo-100 rounded-lg hover:bg-indigo-200 transition-colors">{t('download_docx')}</button>
+                                )}
+                                {userRole === UserRole.TEACHER && isStructuredExam(selectedItem) && (
+                                    <button onClick={() => handleAddToBank(selectedItem.content)} className="px-4 py-2 text-sm font-medium text-indigo-600 bg-indigo-100 rounded-lg hover:bg-indigo-200 transition-colors">{t('add_to_question_bank')}</button>
+                                )}
+                                {userRole === UserRole.TEACHER && isStructuredExam(selectedItem) && (
+                                    <button onClick={() => setLmsExportingExam(selectedItem.content)} className="px-4 py-2 text-sm font-medium text-indigo-600 bg-indigo-100 rounded-lg hover:bg-indigo-200 transition-colors">{t('lms_export')}</button>
+                                )}
+                                {userRole === UserRole.TEACHER && isStructuredExam(selectedItem) && (
+                                    <button onClick={() => handleGradeAnswerSheets(selectedItem.content)} className="px-4 py-2 text-sm font-medium text-indigo-600 bg-indigo-100 rounded-lg hover:bg-indigo-200 transition-colors">{t('grade_answer_sheets')}</button>
+                                )}
+                                {userRole === UserRole.TEACHER && isStructuredExam(selectedItem) && (
+                                    <button onClick={() => setAnalyzedExam(selectedItem.content)} className="px-4 py-2 text-sm font-medium text-indigo-600 bg-indigo-100 rounded-lg hover:bg-indigo-200 transition-colors">{t('item_analysis')}</button>
+                                )}
+                                <button onClick={handleCloseModal} className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 transition-colors">{t('close')}</button>
+                             </div>
                          </div>
                     </div>
                 </div>
             )}
 
+            {gradingItem && <EssayGrader item={gradingItem} onClose={() => setGradingItem(null)} />}
+            {exportingExam && <ExamExportDialog exam={exportingExam} format="docx" onClose={() => setExportingExam(null)} />}
+            {lmsExportingExam && <LmsExportDialog exam={lmsExportingExam} onClose={() => setLmsExportingExam(null)} />}
+            {sheetGradingVersions && <AnswerSheetGrader versions={sheetGradingVersions} onClose={() => setSheetGradingVersions(null)} />}
+            {analyzedExam && <ItemAnalysisReport exam={analyzedExam} onClose={() => setAnalyzedExam(null)} />}
+
              {/* Delete Confirmation Modal */}
             {isDeleteConfirmVisible && (
                 <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
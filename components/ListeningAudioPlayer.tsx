@@ -0,0 +1,75 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useApp } from '../App';
+import { encodeMp3, encodeWav, pcmToAudioBuffer, SAMPLE_RATE, withReplays } from '../services/listeningAudio';
+import { downloadBlob, toFileName } from '../services/download';
+
+// Plays a listening recording as many times as the settings ask, with the pause between plays, and
+// saves the same sequence as a WAV or MP3 file.
+const ListeningAudioPlayer: React.FC<{ audio: string; title: string }> = ({ audio, title }) => {
+    const { t, settings } = useApp();
+    const [isPlaying, setIsPlaying] = useState(false);
+    const contextRef = useRef<AudioContext | null>(null);
+    const replays = { plays: settings.listeningPlays, pauseSeconds: settings.listeningPauseSeconds };
+
+    const stop = () => {
+        contextRef.current?.close();
+        contextRef.current = null;
+        setIsPlaying(false);
+    };
+
+    useEffect(() => stop, [audio]);
+
+    const handlePlay = () => {
+        if (isPlaying) {
+            stop();
+            return;
+        }
+        try {
+            const context = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: SAMPLE_RATE });
+            const source = context.createBufferSource();
+            source.buffer = pcmToAudioBuffer(withReplays(audio, replays), context);
+            source.connect(context.destination);
+            source.onended = () => {
+                if (contextRef.current === context) stop();
+            };
+            contextRef.current = context;
+            source.start();
+            setIsPlaying(true);
+        } catch (e) {
+            console.error('Audio playback error:', e);
+            stop();
+        }
+    };
+
+    const handleDownload = (format: 'wav' | 'mp3') => {
+        try {
+            const pcm = withReplays(audio, replays);
+            downloadBlob(format === 'mp3' ? encodeMp3(pcm) : encodeWav(pcm), toFileName(`${title} - ${t('listening_audio')}`, format));
+        } catch (e) {
+            console.error('Error exporting the listening audio:', e);
+            alert(t('audio_export_failed'));
+        }
+    };
+
+    return (
+        <div className="flex flex-col sm:flex-row gap-2">
+            <button onClick={handlePlay} className="flex-1 flex items-center justify-center gap-3 px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 transition-colors">
+                {isPlaying ? (
+                    <svg className="h-5 w-5" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor"><path d="M5 4a1 1 0 00-2 0v12a1 1 0 002 0V4zM15 4a1 1 0 00-2 0v12a1 1 0 002 0V4z" /></svg>
+                ) : (
+                    <svg className="h-5 w-5" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor"><path d="M6.3 2.841A1.5 1.5 0 004 4.11V15.89a1.5 1.5 0 002.3 1.269l9.344-5.89a1.5 1.5 0 000-2.538L6.3 2.84z" /></svg>
+                )}
+                <span>{isPlaying ? t('stop_audio') : t('play_listening')}</span>
+                {settings.listeningPlays > 1 && <span className="text-xs text-indigo-100">(×{settings.listeningPlays})</span>}
+            </button>
+            <button onClick={() => handleDownload('wav')} className="px-4 py-2 text-sm font-medium text-indigo-700 bg-indigo-100 rounded-lg hover:bg-indigo-200 transition-colors">
+                {t('download_wav')}
+            </button>
+            <button onClick={() => handleDownload('mp3')} className="px-4 py-2 text-sm font-medium text-indigo-700 bg-indigo-100 rounded-lg hover:bg-indigo-200 transition-colors">
+                {t('download_mp3')}
+            </button>
+        </div>
+    );
+};
+
+export default ListeningAudioPlayer;
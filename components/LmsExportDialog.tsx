@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { useApp } from '../App';
+import { Exam } from '../types';
+import { exportExamToLms, LMS_FILE_EXTENSIONS, LMS_FORMATS, LmsFormat } from '../services/lms';
+import { downloadBlob, toFileName } from '../services/download';
+
+// Downloads the exam as a question file for Moodle, Canvas and other LMSs.
+const LmsExportDialog: React.FC<{ exam: Exam; onClose: () => void }> = ({ exam, onClose }) => {
+    const { t } = useApp();
+    const [format, setFormat] = useState<LmsFormat>('moodle_xml');
+
+    const handleExport = () => {
+        const name = exam.versionCode ? `${exam.title} - ${t('version_code')} ${exam.versionCode}` : exam.title;
+        try {
+            downloadBlob(exportExamToLms(exam, format, t), toFileName(name, LMS_FILE_EXTENSIONS[format]));
+            onClose();
+        } catch (e) {
+            console.error(`Error exporting the exam as ${format}:`, e);
+            alert(t('lms_export_failed'));
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+            <div className="bg-white w-full max-w-md rounded-2xl shadow-xl flex flex-col">
+                <div className="p-4 border-b border-slate-200 flex justify-between items-center">
+                    <h3 className="text-lg font-bold">{t('lms_export')}</h3>
+                    <button onClick={onClose} className="text-slate-500 hover:text-slate-800 text-3xl leading-none">&times;</button>
+                </div>
+                <div className="p-4 space-y-3">
+                    {LMS_FORMATS.map(option => (
+                        <label key={option} className={`flex items-start gap-3 p-3 border rounded-lg cursor-pointer transition-colors ${format === option ? 'border-indigo-500 bg-indigo-50' : 'border-slate-200 hover:bg-slate-50'}`}>
+                            <input
+                                type="radio"
+                                name="lms-format"
+                                checked={format === option}
+                                onChange={() => setFormat(option)}
+                                className="mt-1 h-4 w-4 accent-indigo-600"
+                            />
+                            <span>
+                                <span className="block text-sm font-semibold text-slate-800">{t(`lms_format_${option}`)}</span>
+                                <span className="block text-xs text-slate-500">{t(`lms_format_${option}_hint`)}</span>
+                            </span>
+                        </label>
+                    ))}
+                </div>
+                <div className="p-3 border-t border-slate-200 flex justify-end gap-2">
+                    <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-slate-700 bg-slate-200 rounded-lg hover:bg-slate-300 transition-colors">{t('cancel')}</button>
+                    <button onClick={handleExport} className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 transition-colors">{t('download')}</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default LmsExportDialog;
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useApp } from '../App';
 import { UserRole } from '../types';
 import Summarizer from './Summarizer';
@@ -9,17 +9,33 @@ import SlideGenerator from './SlideGenerator';
 import LearningPath from './LearningPath';
 import QuestionAnalysis from './QuestionAnalysis';
 import Library from './Library';
+import QuestionBank from './QuestionBank';
+import SettingsPanel from './SettingsPanel';
+import UsageDashboard from './UsageDashboard';
+import { getBudgetStatus, subscribeToUsage, BudgetLevel } from '../services/usageTracker';
 
 
 const MainLayout: React.FC = () => {
-    const { t, userRole, studentGoal, handleGoHome } = useApp();
+    const { t, userRole, studentGoal, handleGoHome, settings } = useApp();
 
-    const studentFeatures = ['learning_path', 'summarizer', 'exam_generator', 'question_analysis', 'translator', 'library'];
-    const teacherFeatures = ['ai_assistant', 'exam_generator', 'slide_generator', 'summarizer', 'question_analysis', 'translator', 'library'];
+    const studentFeatures = ['learning_path', 'summarizer', 'exam_generator', 'question_analysis', 'translator', 'library', 'usage'];
+    const teacherFeatures = ['ai_assistant', 'exam_generator', 'question_bank', 'slide_generator', 'summarizer', 'question_analysis', 'translator', 'library', 'usage'];
 
     const availableFeatures = userRole === UserRole.STUDENT ? studentFeatures : teacherFeatures;
     
     const [activeTab, setActiveTab] = useState(availableFeatures[0]);
+    const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+    const [budgetLevel, setBudgetLevel] = useState<BudgetLevel>(() => getBudgetStatus(settings).level);
+    // The level the user last dismissed the banner at; it comes back when the level gets worse.
+    const [dismissedBudgetLevel, setDismissedBudgetLevel] = useState<BudgetLevel | null>(null);
+
+    useEffect(() => {
+        const refresh = () => setBudgetLevel(getBudgetStatus(settings).level);
+        refresh();
+        return subscribeToUsage(refresh);
+    }, [settings]);
+
+    const showBudgetBanner = (budgetLevel === 'warning' || budgetLevel === 'exceeded') && dismissedBudgetLevel !== budgetLevel;
 
     const renderContent = () => {
         switch (activeTab) {
@@ -31,6 +47,8 @@ const MainLayout: React.FC = () => {
             case 'learning_path': return <LearningPath />;
             case 'question_analysis': return <QuestionAnalysis />;
             case 'library': return <Library />;
+            case 'question_bank': return <QuestionBank />;
+            case 'usage': return <UsageDashboard />;
             default: return null;
         }
     };
@@ -73,6 +91,17 @@ const MainLayout: React.FC = () => {
                             <path strokeLinecap="round" strokeLinejoin="round" d="M3 12l2-2m0 0l7-7 7 7M5 10v10a1 1 0 001 1h3m10-11l2 2m-2-2v10a1 1 0 01-1 1h-3m-6 0a1 1 0 001-1v-4a1 1 0 011-1h2a1 1 0 011 1v4a1 1 0 001 1m-6 0h6" />
                         </svg>
                     </button>
+                    <button
+                        onClick={() => setIsSettingsOpen(true)}
+                        title={t('settings')}
+                        aria-label={t('settings')}
+                        className="p-2 rounded-full text-slate-500 hover:bg-slate-200 hover:text-slate-800 transition-colors"
+                    >
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2">
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                        </svg>
+                    </button>
                 </div>
                  <div className="text-right text-slate-600 text-sm">
                     <p>{t(userRole)}</p>
@@ -80,6 +109,15 @@ const MainLayout: React.FC = () => {
                 </div>
             </header>
             
+            {showBudgetBanner && (
+                <div className={`mb-4 p-3 rounded-lg flex justify-between items-center gap-4 text-sm ${budgetLevel === 'exceeded' ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-800'}`}>
+                    <button onClick={() => setActiveTab('usage')} className="text-left hover:underline">
+                        {t(budgetLevel === 'exceeded' ? 'budget_exceeded' : 'budget_warning')}
+                    </button>
+                    <button onClick={() => setDismissedBudgetLevel(budgetLevel)} aria-label={t('close')} className="text-xl leading-none">&times;</button>
+                </div>
+            )}
+
             <nav className="border-b border-slate-200 mb-6 -mx-4 sm:-mx-6 lg:-mx-8 px-4 sm:px-6 lg:px-8">
                 <div className="flex flex-wrap -mb-px">
                    {availableFeatures.map(tab => <NavButton key={tab} tab={tab} />)}
@@ -89,6 +127,8 @@ const MainLayout: React.FC = () => {
             <main className="flex-grow">
                 {renderContent()}
             </main>
+
+            {isSettingsOpen && <SettingsPanel onClose={() => setIsSettingsOpen(false)} />}
         </div>
     );
 };
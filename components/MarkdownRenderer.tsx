@@ -18,16 +18,28 @@ const parseInlineFormatting = (text: string): React.ReactNode[] => {
     });
 };
 
+const TABLE_SEPARATOR = /^\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?$/;
+
+// Cells of a `| a | b |` row; `\|` is a literal pipe inside a cell.
+const splitTableRow = (line: string): string[] => line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/(?<!\\)\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map(cell => cell.trim().replace(/\\\|/g, '|'));
+
 interface MarkdownRendererProps {
     markdown: string;
     placeholder: string;
     images?: Record<string, string>;
     imageLoadingStates?: Record<string, 'loading' | 'error'>;
+    // While true, math is left as raw LaTeX: KaTeX rewrites the DOM that React is still updating.
+    isStreaming?: boolean;
 }
 
 
 // Helper component to render Markdown, LaTeX, and image placeholders
-const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({ markdown, placeholder, images, imageLoadingStates }) => {
+const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({ markdown, placeholder, images, imageLoadingStates, isStreaming }) => {
     const { t } = useApp();
     const contentRef = useRef<HTMLDivElement>(null);
 
@@ -35,7 +47,7 @@ const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({ markdown, placehold
         // Robustness check: Ensure both the katex library and the auto-render extension are fully loaded
         // before attempting to render math. The error "Cannot read properties of undefined (reading 'ParseError')"
         // occurs when `renderMathInElement` is called but the global `katex` object it depends on is not yet available.
-        if (contentRef.current && (window as any).renderMathInElement && (window as any).katex) {
+        if (!isStreaming && contentRef.current && (window as any).renderMathInElement && (window as any).katex) {
             try {
                 (window as any).renderMathInElement(contentRef.current, {
                     delimiters: [
@@ -51,7 +63,7 @@ const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({ markdown, placehold
                 console.error("KaTeX rendering error:", error);
             }
         }
-    }, [markdown]);
+    }, [markdown, isStreaming]);
 
     if (!markdown) {
         return <div className="flex items-center justify-center h-full text-slate-500 text-center p-4">{placeholder}</div>;
@@ -141,9 +153,44 @@ const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({ markdown, placehold
         return <p key={index} className="text-slate-700">{parseInlineFormatting(trimmedLine)}</p>;
     };
 
+    const renderTable = (rows: string[], index: number) => {
+        const [header, ...body] = rows.map(splitTableRow);
+        return (
+            <div key={index} className="overflow-x-auto my-4">
+                <table className="min-w-full border-collapse text-sm">
+                    <thead>
+                        <tr>{header.map((cell, i) => <th key={i} className="border border-slate-300 bg-slate-100 px-3 py-2 font-semibold text-slate-800">{parseInlineFormatting(cell)}</th>)}</tr>
+                    </thead>
+                    <tbody>
+                        {body.map((row, rowIndex) => (
+                            <tr key={rowIndex}>{row.map((cell, i) => <td key={i} className="border border-slate-300 px-3 py-1.5 text-slate-700 text-center">{parseInlineFormatting(cell)}</td>)}</tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        );
+    };
+
+    // A run of `|` lines whose second line is a `| --- |` separator is a table.
+    const blocks: React.ReactNode[] = [];
+    const lines = markdown.split('\n');
+    for (let index = 0; index < lines.length; index++) {
+        if (lines[index].trim().startsWith('|') && TABLE_SEPARATOR.test(lines[index + 1]?.trim() ?? '')) {
+            const rows = [lines[index]];
+            let next = index + 2;
+            while (next < lines.length && lines[next].trim().startsWith('|')) {
+                rows.push(lines[next++]);
+            }
+            blocks.push(renderTable(rows, index));
+            index = next - 1;
+        } else {
+            blocks.push(renderLine(lines[index], index));
+        }
+    }
+
     return (
         <div ref={contentRef} className="prose prose-sm sm:prose-base max-w-none h-full p-4 sm:p-6 space-y-2">
-            {markdown.split('\n').map(renderLine)}
+            {blocks}
         </div>
     );
 };
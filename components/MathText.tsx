@@ -0,0 +1,31 @@
+import React, { useEffect, useRef } from 'react';
+
+// Plain text with inline and display LaTeX, for short pieces of generated content (questions,
+// options, answers) that don't need the full MarkdownRenderer.
+const MathText: React.FC<{ text: string; className?: string }> = ({ text, className }) => {
+    const ref = useRef<HTMLSpanElement>(null);
+
+    useEffect(() => {
+        if (!ref.current) return;
+        ref.current.textContent = text;
+        if ((window as any).renderMathInElement && (window as any).katex) {
+            try {
+                (window as any).renderMathInElement(ref.current, {
+                    delimiters: [
+                        {left: '$$', right: '$$', display: true},
+                        {left: '$', right: '$', display: false},
+                        {left: '\\(', right: '\\)', display: false},
+                        {left: '\\[', right: '\\]', display: true}
+                    ],
+                    throwOnError: false
+                });
+            } catch (error) {
+                console.error("KaTeX rendering error:", error);
+            }
+        }
+    }, [text]);
+
+    return <span ref={ref} className={`whitespace-pre-line ${className || ''}`}>{text}</span>;
+};
+
+export default MathText;
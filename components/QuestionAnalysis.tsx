@@ -1,8 +1,14 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { GoogleGenAI, Part, Type } from '@google/genai';
+import { Type } from '@google/genai';
 import { useApp } from '../App';
+import { generateJson, fileToGenerativePart } from '../services/aiService';
+import { renderPrompt } from '../services/prompts';
+import { questionAnalysisResponse } from '../services/responseValidators';
+import ErrorMessage from './ErrorMessage';
 import MarkdownRenderer from './MarkdownRenderer';
+import AnswerVerificationPanel from './AnswerVerificationPanel';
+import { AnswerCheck, verifyDocumentAnswers } from '../services/answerVerification';
 import { LibraryItemType, UserRole } from '../types';
 
 // Make sure KaTeX is available on the window object
@@ -41,17 +47,23 @@ const copyToClipboard = async (text: string) => {
 };
 
 const QuestionAnalysis: React.FC = () => {
-    const { t, language, userRole, addToLibrary } = useApp();
+    const { t, language, userRole, addToLibrary, settings } = useApp();
     const [file, setFile] = useState<File | null>(null);
     const [fileName, setFileName] = useState('');
     const [markdownContent, setMarkdownContent] = useState('');
     const [wordContent, setWordContent] = useState('');
+    const [promptVersion, setPromptVersion] = useState('');
     const [isLoading, setIsLoading] = useState(false);
-    const [error, setError] = useState<string | null>(null);
+    const [error, setError] = useState<unknown>(null);
+    const [answerChecks, setAnswerChecks] = useState<AnswerCheck[] | null>(null);
+    const [isVerifying, setIsVerifying] = useState(false);
+    const [verificationError, setVerificationError] = useState<unknown>(null);
     const [copyAsTextButtonText, setCopyAsTextButtonText] = useState(t('copy_as_text'));
     const [copyForWordButtonText, setCopyForWordButtonText] = useState(t('copy_for_word'));
     const [saveButtonText, setSaveButtonText] = useState(t(userRole === UserRole.TEACHER ? 'save_to_documents' : 'save_to_library'));
     const fileInputRef = useRef<HTMLInputElement>(null);
+    // Counts verification runs, so a run for a document that has since been replaced is dropped.
+    const verificationRunRef = useRef(0);
 
 
     const resetSaveButton = () => {
@@ -72,6 +84,10 @@ const QuestionAnalysis: React.FC = () => {
             setFileName(selectedFile.name);
             setMarkdownContent(''); // Clear previous results on new file selection
             setWordContent('');
+            verificationRunRef.current++;
+            setAnswerChecks(null);
+            setIsVerifying(false);
+            setVerificationError(null);
             setError(null);
             resetSaveButton();
         }
@@ -82,67 +98,23 @@ const QuestionAnalysis: React.FC = () => {
         setIsLoading(true);
         setMarkdownContent('');
         setWordContent('');
+        verificationRunRef.current++;
+        setAnswerChecks(null);
+        setIsVerifying(false);
+        setVerificationError(null);
         setError(null);
         resetSaveButton();
 
         try {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-            
-            const fileToGenerativePart = async (file: File): Promise<Part> => {
-                const base64EncodedDataPromise = new Promise<string>((resolve) => {
-                    const reader = new FileReader();
-                    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
-                    reader.readAsDataURL(file);
-                });
-                return {
-                    inlineData: {
-                        data: await base64EncodedDataPromise,
-                        mimeType: file.type,
-                    },
-                };
-            };
-            
             const uploadedFilePart = await fileToGenerativePart(file);
             
-            const prompt = `
-                Act as an expert teacher who speaks **${language}**. I have provided a file containing a question. Your task is to generate a response in two distinct parts.
-                
-                **Input Context:** The filename is "${file.name}".
-                **WEIGHTING RULE (90/10):** 
-                1.  **10% Weight:** Use the filename only as a weak context clue.
-                2.  **90% Weight:** You MUST analyze the **actual visual/textual content** of the provided file to determine the question.
-                3.  **Conflict Resolution:** If the filename contradicts the actual content (e.g., file says "Physics" but image shows a "Math" equation), **IGNORE the filename**.
-
-                **CRITICAL LANGUAGE RULE (MUST FOLLOW):**
-                The user has explicitly selected **${language}** as their interface language.
-                - Your entire response, including all analysis, new exercises, explanations, and headers (like 'Analysis', 'Part 1'), **MUST be in ${language}**. 
-                - **Do not output English unless ${language} is explicitly English.**
-                - Even if the question in the image is in English or another language, you **MUST TRANSLATE** your analysis and the similar exercises into **${language}**.
-
-                **LaTeX Formatting**: ALL mathematical content in both Part 1 and Part 2 MUST be enclosed in LaTeX delimiters.
-                    - Inline Math: Use \`$...$\`.
-                    - Block Math: Use \`$$...$$\`.
-
-                **CRITICAL OUTPUT FORMAT:**
-                Your entire response MUST be a single, valid JSON object.
-                This object MUST have two keys:
-                1.  \`markdownContent\`: The full response formatted with Markdown and LaTeX for web display in ${language}.
-                2.  \`wordContent\`: The same response, but with LaTeX converted to Microsoft Word's native Equation format (UnicodeMath) for direct copy-pasting.
-                
-                **RESPONSE STRUCTURE (for both markdownContent and wordContent):**
-
-                **PART 1: ${t('analysis_of_original_question')}**
-                -   Start with the Markdown heading: \`## ${t('analysis_of_original_question')}\`.
-                -   Explain the core concept being tested in **${language}**.
-                -   Identify the key steps to solve it in **${language}**.
-                -   State the difficulty level in **${language}**.
-
-                **PART 2: ${t('similar_practice_exercises')}**
-                -   Start with the Markdown heading: \`## ${t('similar_practice_exercises')}\`.
-                -   Generate 3 to 5 new questions that test the exact same concepts but use different numbers and scenarios. Ensure these questions are in **${language}**.
-
-                Now, generate the complete response following this two-part structure and these absolute rules.
-            `;
+            const { text: prompt, version } = renderPrompt('question_analysis', {
+                language,
+                fileName: file.name,
+                analysisHeading: t('analysis_of_original_question'),
+                exercisesHeading: t('similar_practice_exercises'),
+            });
+            setPromptVersion(version);
             
             const responseSchema = {
                 type: Type.OBJECT,
@@ -153,33 +125,49 @@ const QuestionAnalysis: React.FC = () => {
                 required: ['markdownContent', 'wordContent']
             };
 
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-pro', // Using pro for better image analysis and reasoning
-                contents: { parts: [uploadedFilePart, { text: prompt }] },
-                config: {
-                    responseMimeType: 'application/json',
-                    responseSchema: responseSchema
-                }
+            const result = await generateJson({
+                feature: 'question_analysis',
+                validate: questionAnalysisResponse,
+                contents: [uploadedFilePart, { text: prompt }],
+                schema: responseSchema,
             });
-
-            const result = JSON.parse(response.text || '{}');
-            setMarkdownContent(result.markdownContent || '');
-            setWordContent(result.wordContent || '');
+            setMarkdownContent(result.markdownContent);
+            setWordContent(result.wordContent);
+            if (settings.verifyAnswers) {
+                handleVerifyAnswers(result.markdownContent);
+            }
 
         } catch (e) {
             console.error("Error generating exercises:", e);
-            setError("Sorry, an error occurred while generating the exercises. The uploaded file might be unsupported or an API error occurred. Please try again.");
+            setError(e);
         } finally {
             setIsLoading(false);
         }
     };
 
+    const handleVerifyAnswers = async (content: string = markdownContent) => {
+        if (!content.trim()) return;
+        const run = ++verificationRunRef.current;
+        setIsVerifying(true);
+        setVerificationError(null);
+        try {
+            const checks = await verifyDocumentAnswers({ document: content, language });
+            if (run === verificationRunRef.current) setAnswerChecks(checks);
+        } catch (e) {
+            console.error('Error verifying the answers:', e);
+            if (run === verificationRunRef.current) setVerificationError(e);
+        } finally {
+            if (run === verificationRunRef.current) setIsVerifying(false);
+        }
+    };
+
     const handleSave = () => {
         if (!markdownContent.trim() || !fileName.trim()) return;
         addToLibrary({
             name: `${t('similar_exercises')}: ${fileName}`,
             type: LibraryItemType.SIMILAR_EXERCISES,
             content: markdownContent,
+            promptVersion,
         });
         setSaveButtonText(t('saved'));
         setTimeout(() => resetSaveButton(), 2000);
@@ -266,6 +254,14 @@ const QuestionAnalysis: React.FC = () => {
                                         {copyForWordButtonText}
                                     </button>
                                 </div>
+                                {!answerChecks && !isVerifying && !verificationError && (
+                                    <button
+                                        onClick={() => handleVerifyAnswers()}
+                                        title={t('verify_answers_hint')}
+                                        className="w-full sm:w-auto text-sm bg-indigo-100 text-indigo-700 font-bold py-3 px-4 rounded-lg hover:bg-indigo-200 transition-colors">
+                                        {t('verify_answers')}
+                                    </button>
+                                )}
                                 <button 
                                     onClick={handleSave} 
                                     className="w-full sm:w-auto bg-gradient-to-r from-sky-600 to-cyan-600 text-white font-bold py-3 px-4 rounded-lg hover:from-sky-700 hover:to-cyan-700 transition-all duration-300 transform hover:scale-105">
@@ -283,9 +279,10 @@ const QuestionAnalysis: React.FC = () => {
                         <div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-indigo-500"></div>
                     </div>
                 ) : error ? (
-                    <div className="flex items-center justify-center h-full text-red-600 p-4 text-center">{error}</div>
+                    <ErrorMessage error={error} onRetry={handleGenerate} />
                 ) : (
                      <div className="h-full overflow-y-auto bg-white rounded-lg custom-scrollbar">
+                        <AnswerVerificationPanel checks={answerChecks} isLoading={isVerifying} error={verificationError} onRetry={() => handleVerifyAnswers()} />
                         <MarkdownRenderer markdown={markdownContent} placeholder={t('similar_exercises_placeholder')} />
                     </div>
                 )}
@@ -0,0 +1,212 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useApp } from '../App';
+import { BankQuestion, DifficultyLevel, QuestionType, Subject } from '../types';
+import { DIFFICULTY_LEVELS, GRADES, SUBJECTS, TEXTBOOKS } from '../constants';
+import { optionLetter, statementLabel } from '../services/examModel';
+import {
+    addQuestionsToBank,
+    bankEntriesFromExam,
+    BankFilter,
+    filterBank,
+    getBankTextbooks,
+    getBankTopics,
+    getQuestionBank,
+    removeBankDuplicates,
+    removeFromBank,
+    subscribeToQuestionBank,
+} from '../services/questionBank';
+import { importLmsFile, LMS_IMPORT_ACCEPT } from '../services/lms';
+import MathText from './MathText';
+
+// Long lists are cut off; filtering narrows them down.
+const MAX_SHOWN = 100;
+
+const QUESTION_TYPES = Object.values(QuestionType);
+
+const QuestionBank: React.FC = () => {
+    const { t, settings } = useApp();
+    const [bank, setBank] = useState<BankQuestion[]>(getQuestionBank);
+    const [filter, setFilter] = useState<BankFilter>({ query: '' });
+    const [isImporting, setIsImporting] = useState(false);
+    const [notice, setNotice] = useState('');
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => subscribeToQuestionBank(() => setBank(getQuestionBank())), []);
+
+    const results = useMemo(() => filterBank(bank, filter), [bank, filter]);
+    const topics = useMemo(() => getBankTopics(bank), [bank]);
+    const textbooks = useMemo(() => getBankTextbooks(bank), [bank]);
+
+    const textbookName = (textbook: string) => TEXTBOOKS.includes(textbook) ? t(textbook) : textbook;
+
+    const updateFilter = (changes: Partial<BankFilter>) => setFilter(prev => ({ ...prev, ...changes }));
+
+    // Imported questions are tagged with the grade and subject filtered on, or the defaults.
+    const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setIsImporting(true);
+        setNotice('');
+        try {
+            const meta = {
+                subject: filter.subject ?? settings.defaultSubject,
+                grade: filter.grade ?? settings.defaultGrade,
+                topic: file.name.replace(/(\.gift)?\.[^.]+$/i, ''),
+            };
+            const { exam, skipped } = await importLmsFile(file, meta, t);
+            const { added, duplicates } = addQuestionsToBank(bankEntriesFromExam(exam, filter.textbook ?? ''));
+            setNotice([
+                `${t('bank_questions_added')}: ${added}`,
+                duplicates > 0 ? `${t('bank_duplicates_skipped')}: ${duplicates}` : '',
+                skipped > 0 ? `${t('import_skipped_questions')}: ${skipped}` : '',
+            ].filter(Boolean).join(' · '));
+        } catch (err) {
+            console.error('Error importing questions:', err);
+            alert(t(err instanceof DOMException && err.name === 'QuotaExceededError' ? 'storage_full' : 'import_failed'));
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    const handleRemoveDuplicates = () => {
+        setNotice(`${t('bank_duplicates_removed')}: ${removeBankDuplicates()}`);
+    };
+
+    const selectClassName = 'p-2 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 transition text-sm';
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap justify-between items-center gap-4">
+                <div>
+                    <h3 className="text-2xl font-bold text-slate-900">{t('question_bank')}</h3>
+                    <p className="text-sm text-slate-500">{t('bank_question_count')}: {bank.length}</p>
+                </div>
+                <div className="flex gap-2">
+                    <input ref={importInputRef} type="file" accept={LMS_IMPORT_ACCEPT} onChange={handleImportFile} className="hidden" />
+                    <button
+                        onClick={() => importInputRef.current?.click()}
+                        disabled={isImporting}
+                        title={t('import_questions_hint')}
+                        className="px-4 py-2 text-sm font-medium text-indigo-600 bg-indigo-100 rounded-lg hover:bg-indigo-200 disabled:opacity-50 transition-colors">
+                        {isImporting ? t('importing') : t('import_questions')}
+                    </button>
+                    <button
+                        onClick={handleRemoveDuplicates}
+                        disabled={bank.length < 2}
+                        className="px-4 py-2 text-sm font-medium text-slate-700 bg-slate-200 rounded-lg hover:bg-slate-300 disabled:opacity-50 transition-colors">
+                        {t('bank_remove_duplicates')}
+                    </button>
+                </div>
+            </div>
+            {notice && <p className="text-sm text-green-700 bg-green-50 border border-green-200 rounded-lg p-2">{notice}</p>}
+
+            <div className="bg-white/80 backdrop-blur-sm border border-slate-200 shadow-sm p-4 rounded-2xl space-y-3">
+                <input
+                    type="search"
+                    value={filter.query}
+                    onChange={e => updateFilter({ query: e.target.value })}
+                    placeholder={t('bank_search_placeholder')}
+                    className="w-full p-2.5 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 transition"
+                />
+                <div className="flex flex-wrap gap-2">
+                    <select value={filter.grade ?? ''} onChange={e => updateFilter({ grade: e.target.value ? Number(e.target.value) : undefined })} className={selectClassName}>
+                        <option value="">{t('grade')}: {t('all')}</option>
+                        {GRADES.map(grade => <option key={grade} value={grade}>{t('grade')} {grade}</option>)}
+                    </select>
+                    <select value={filter.subject ?? ''} onChange={e => updateFilter({ subject: (e.target.value || undefined) as Subject })} className={selectClassName}>
+                        <option value="">{t('subject')}: {t('all')}</option>
+                        {SUBJECTS.map(subject => <option key={subject} value={subject}>{t(subject)}</option>)}
+                    </select>
+                    <select value={filter.textbook ?? ''} onChange={e => updateFilter({ textbook: e.target.value || undefined })} className={selectClassName}>
+                        <option value="">{t('textbook')}: {t('all')}</option>
+                        {textbooks.map(textbook => <option key={textbook} value={textbook}>{textbookName(textbook)}</option>)}
+                    </select>
+                    <select value={filter.topic ?? ''} onChange={e => updateFilter({ topic: e.target.value || undefined })} className={`${selectClassName} max-w-[14rem]`}>
+                        <option value="">{t('matrix_topic')}: {t('all')}</option>
+                        {topics.map(topic => <option key={topic} value={topic}>{topic}</option>)}
+                    </select>
+                    <select value={filter.difficulty ?? ''} onChange={e => updateFilter({ difficulty: (e.target.value || undefined) as DifficultyLevel })} className={selectClassName}>
+                        <option value="">{t('difficulty_level')}: {t('all')}</option>
+                        {DIFFICULTY_LEVELS.map(level => <option key={level} value={level}>{t(level)}</option>)}
+                    </select>
+                    <select value={filter.type ?? ''} onChange={e => updateFilter({ type: (e.target.value || undefined) as QuestionType })} className={selectClassName}>
+                        <option value="">{t('question_type')}: {t('all')}</option>
+                        {QUESTION_TYPES.map(type => <option key={type} value={type}>{t(type)}</option>)}
+                    </select>
+                    <label className="flex items-center gap-2 px-2 text-sm text-slate-700">
+                        <input
+                            type="checkbox"
+                            checked={!!filter.flagged}
+                            onChange={e => updateFilter({ flagged: e.target.checked || undefined })}
+                            className="h-4 w-4 accent-indigo-600"
+                        />
+                        {t('bank_flagged_only')}
+                    </label>
+                </div>
+            </div>
+
+            {bank.length === 0 ? (
+                <p className="text-center text-slate-500 py-12">{t('bank_empty')}</p>
+            ) : (
+                <>
+                    <p className="text-sm text-slate-500">
+                        {t('bank_results')}: {results.length}{results.length > MAX_SHOWN ? ` (${t('bank_showing_first')} ${MAX_SHOWN})` : ''}
+                    </p>
+                    <div className="space-y-3">
+                        {results.slice(0, MAX_SHOWN).map(item => (
+                            <div key={item.id} className="bg-white/80 border border-slate-200 rounded-xl p-4 shadow-sm">
+                                <div className="flex justify-between items-start gap-4">
+                                    <div className="flex flex-wrap gap-1.5 text-xs">
+                                        <span className="bg-indigo-100 text-indigo-700 px-2 py-0.5 rounded-full">{t(item.subject)} · {t('grade')} {item.grade}</span>
+                                        {item.textbook && <span className="bg-slate-100 text-slate-700 px-2 py-0.5 rounded-full">{textbookName(item.textbook)}</span>}
+                                        {item.topic && <span className="bg-slate-100 text-slate-700 px-2 py-0.5 rounded-full">{item.topic}</span>}
+                                        <span className="bg-amber-100 text-amber-800 px-2 py-0.5 rounded-full">{t(item.question.difficulty)}</span>
+                                        <span className="bg-sky-100 text-sky-800 px-2 py-0.5 rounded-full">{t(item.question.type)}</span>
+                                        {item.usedCount > 0 && <span className="text-slate-500 px-1">{t('bank_used_count')}: {item.usedCount}</span>}
+                                        {item.analysis && (
+                                            <span className="text-slate-500 px-1" title={`${t('item_responses')}: ${item.analysis.responses}`}>
+                                                {t('difficulty_index')} {item.analysis.difficultyIndex}
+                                                {item.analysis.discriminationIndex !== undefined && ` · ${t('discrimination_index')} ${item.analysis.discriminationIndex}`}
+                                            </span>
+                                        )}
+                                        {item.analysis?.flags.map(flag => (
+                                            <span key={flag} className="bg-red-100 text-red-700 px-2 py-0.5 rounded-full">{t(`item_flag_${flag}`)}</span>
+                                        ))}
+                                    </div>
+                                    <button onClick={() => removeFromBank([item.id])} className="px-3 py-1 text-xs font-medium text-red-600 bg-red-100 rounded-lg hover:bg-red-200 transition-colors">{t('delete')}</button>
+                                </div>
+                                {item.passage && <p className="mt-2 text-xs text-slate-500 line-clamp-2">{item.passage}</p>}
+                                <MathText text={item.question.prompt} className="block mt-2 text-slate-800" />
+                                {item.question.options && (
+                                    <ul className="mt-2 grid sm:grid-cols-2 gap-1 text-sm">
+                                        {item.question.options.map((option, index) => (
+                                            <li key={index} className={index === item.question.correctOption ? 'font-semibold text-green-700' : 'text-slate-700'}>
+                                                {optionLetter(index)}. <MathText text={option} />
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                                {item.question.statements && (
+                                    <ul className="mt-2 space-y-1 text-sm">
+                                        {item.question.statements.map((statement, index) => (
+                                            <li key={index} className="text-slate-700">
+                                                {statementLabel(index)}) <MathText text={statement.text} />
+                                                <span className={`ml-2 font-semibold ${statement.isTrue ? 'text-green-700' : 'text-red-600'}`}>{t(statement.isTrue ? 'true_option' : 'false_option')}</span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                                {!item.question.options && item.question.answer && (
+                                    <p className="mt-2 text-sm text-green-700">{t('correct_answer')}: <MathText text={item.question.answer} /></p>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default QuestionBank;
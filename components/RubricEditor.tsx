@@ -0,0 +1,112 @@
+import React from 'react';
+import { useApp } from '../App';
+import { EssayRubric, ExamQuestion, RubricCriterion } from '../types';
+import { getRubricTotal } from '../services/essayGrading';
+
+const inputClass = 'p-1.5 bg-slate-50 border border-slate-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500';
+
+const nextCriterionId = (criteria: RubricCriterion[]): string =>
+    `c${criteria.reduce((max, criterion) => Math.max(max, Number(criterion.id.slice(1)) || 0), 0) + 1}`;
+
+// Teachers adjust the generated rubric of an essay before grading with it.
+const RubricEditor: React.FC<{ question: ExamQuestion; rubric: EssayRubric; onChange: (rubric: EssayRubric) => void }> = ({ question, rubric, onChange }) => {
+    const { t } = useApp();
+    const total = getRubricTotal(rubric);
+
+    const updateCriterion = (id: string, changes: Partial<RubricCriterion>) => {
+        onChange({ ...rubric, criteria: rubric.criteria.map(criterion => criterion.id === id ? { ...criterion, ...changes } : criterion) });
+    };
+
+    const addCriterion = () => {
+        onChange({
+            ...rubric,
+            criteria: [...rubric.criteria, { id: nextCriterionId(rubric.criteria), name: '', maxPoints: 1, levels: [{ points: 1, description: '' }, { points: 0, description: '' }] }],
+        });
+    };
+
+    const updateSampleAnswer = (index: number, value: string) => {
+        onChange({ ...rubric, sampleAnswers: rubric.sampleAnswers.map((sample, i) => i === index ? value : sample) });
+    };
+
+    return (
+        <div className="space-y-3 text-sm">
+            {rubric.criteria.map(criterion => (
+                <div key={criterion.id} className="p-3 border border-slate-200 rounded-lg bg-slate-50/50 space-y-2">
+                    <div className="flex items-center gap-2">
+                        <input
+                            value={criterion.name}
+                            onChange={e => updateCriterion(criterion.id, { name: e.target.value })}
+                            placeholder={t('criterion_name')}
+                            className={`flex-1 font-medium ${inputClass}`}
+                        />
+                        <input
+                            type="number"
+                            min={0}
+                            step={0.25}
+                            value={criterion.maxPoints}
+                            onChange={e => updateCriterion(criterion.id, { maxPoints: Math.max(0, Number(e.target.value)) })}
+                            title={t('max_points')}
+                            className={`w-20 text-right ${inputClass}`}
+                        />
+                        <button
+                            onClick={() => onChange({ ...rubric, criteria: rubric.criteria.filter(item => item.id !== criterion.id) })}
+                            disabled={rubric.criteria.length <= 1}
+                            title={t('remove_criterion')}
+                            className="text-red-500 hover:text-red-700 text-xl leading-none disabled:opacity-30"
+                        >&times;</button>
+                    </div>
+                    {criterion.levels.map((level, levelIndex) => (
+                        <div key={levelIndex} className="flex items-start gap-2 pl-4">
+                            <input
+                                type="number"
+                                min={0}
+                                step={0.25}
+                                value={level.points}
+                                onChange={e => updateCriterion(criterion.id, { levels: criterion.levels.map((item, i) => i === levelIndex ? { ...item, points: Math.max(0, Number(e.target.value)) } : item) })}
+                                className={`w-16 text-right ${inputClass}`}
+                            />
+                            <textarea
+                                value={level.description}
+                                onChange={e => updateCriterion(criterion.id, { levels: criterion.levels.map((item, i) => i === levelIndex ? { ...item, description: e.target.value } : item) })}
+                                rows={1}
+                                className={`flex-1 ${inputClass}`}
+                            />
+                            <button
+                                onClick={() => updateCriterion(criterion.id, { levels: criterion.levels.filter((_, i) => i !== levelIndex) })}
+                                disabled={criterion.levels.length <= 1}
+                                className="text-slate-400 hover:text-red-600 text-lg leading-none disabled:opacity-30"
+                            >&times;</button>
+                        </div>
+                    ))}
+                    <button
+                        onClick={() => updateCriterion(criterion.id, { levels: [...criterion.levels, { points: 0, description: '' }] })}
+                        className="pl-4 text-xs font-medium text-indigo-600 hover:underline"
+                    >+ {t('add_level')}</button>
+                </div>
+            ))}
+            <div className="flex justify-between items-center">
+                <button onClick={addCriterion} className="text-sm font-medium text-indigo-600 hover:underline">+ {t('add_criterion')}</button>
+                <span className={total === question.points ? 'text-slate-500' : 'font-medium text-amber-700'}>
+                    {t('rubric_total')}: {total}/{question.points} {t('points')}
+                </span>
+            </div>
+            {total !== question.points && <p className="text-xs text-amber-700">{t('rubric_total_mismatch')}</p>}
+
+            <div className="space-y-2">
+                <p className="font-medium text-slate-700">{t('sample_answers')}</p>
+                {rubric.sampleAnswers.map((sample, index) => (
+                    <div key={index} className="flex items-start gap-2">
+                        <textarea value={sample} onChange={e => updateSampleAnswer(index, e.target.value)} rows={3} className={`flex-1 ${inputClass}`} />
+                        <button
+                            onClick={() => onChange({ ...rubric, sampleAnswers: rubric.sampleAnswers.filter((_, i) => i !== index) })}
+                            className="text-slate-400 hover:text-red-600 text-lg leading-none"
+                        >&times;</button>
+                    </div>
+                ))}
+                <button onClick={() => onChange({ ...rubric, sampleAnswers: [...rubric.sampleAnswers, ''] })} className="text-sm font-medium text-indigo-600 hover:underline">+ {t('add_sample_answer')}</button>
+            </div>
+        </div>
+    );
+};
+
+export default RubricEditor;
@@ -0,0 +1,279 @@
+import React, { useState, useEffect } from 'react';
+import { useApp } from '../App';
+import { clearCache, getCacheStats, CacheStats } from '../services/responseCache';
+import { AiFeature, FEATURE_MODELS, TTS_VOICES, getModelOptions } from '../services/models';
+import { DEFAULT_PROXY_URL } from '../services/providers/proxyProvider';
+import { ConnectionMode } from '../services/settings';
+import { GRADES, SUBJECTS, TEXTBOOKS } from '../constants';
+import { Subject } from '../types';
+
+const CACHE_TTL_OPTIONS = [1, 7, 30, 90];
+const CACHE_SIZE_OPTIONS = [10, 50, 100, 250];
+const CONNECTION_MODES: ConnectionMode[] = ['proxy', 'local_key'];
+const CONFIGURABLE_FEATURES = Object.keys(FEATURE_MODELS) as AiFeature[];
+
+const inputClassName = 'mt-1 w-full p-2.5 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 transition';
+
+const SettingsSection: React.FC<{ title: string; description?: string; children: React.ReactNode }> = ({ title, description, children }) => (
+    <section className="space-y-4 pb-6 border-b border-slate-200 last:border-0 last:pb-0">
+        <div>
+            <h4 className="text-md font-semibold text-slate-700">{title}</h4>
+            {description && <p className="text-sm text-slate-500">{description}</p>}
+        </div>
+        {children}
+    </section>
+);
+
+const SettingsPanel: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+    const { t, settings, changeSettings } = useApp();
+    const [cacheStats, setCacheStats] = useState<CacheStats | null>(null);
+    const [isClearing, setIsClearing] = useState(false);
+
+    const refreshCacheStats = () => {
+        getCacheStats()
+            .then(setCacheStats)
+            .catch(e => {
+                console.error('Failed to read cache size', e);
+                setCacheStats({ entries: 0, bytes: 0 });
+            });
+    };
+
+    useEffect(refreshCacheStats, []);
+
+    const handleClearCache = async () => {
+        setIsClearing(true);
+        try {
+            await clearCache();
+        } catch (e) {
+            console.error('Failed to clear cache', e);
+        } finally {
+            setIsClearing(false);
+            refreshCacheStats();
+        }
+    };
+
+    // Only overrides are stored, so a later change to a feature's default model still applies.
+    const handleModelChange = (feature: AiFeature, model: string) => {
+        const featureModels = { ...settings.featureModels };
+        if (model === FEATURE_MODELS[feature]) {
+            delete featureModels[feature];
+        } else {
+            featureModels[feature] = model;
+        }
+        changeSettings({ featureModels });
+    };
+
+    const maxBytes = settings.cacheMaxMb * 1024 * 1024;
+    const usagePercentage = cacheStats ? Math.min(100, (cacheStats.bytes / maxBytes) * 100) : 0;
+
+    return (
+        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={onClose}>
+            <div className="bg-white w-full max-w-2xl max-h-[90vh] rounded-2xl shadow-xl flex flex-col" onClick={e => e.stopPropagation()}>
+                <div className="p-4 border-b border-slate-200 flex justify-between items-center flex-shrink-0">
+                    <h3 className="text-lg font-bold">{t('settings')}</h3>
+                    <button onClick={onClose} className="text-slate-500 hover:text-slate-800 text-3xl leading-none">&times;</button>
+                </div>
+                <div className="p-6 overflow-y-auto custom-scrollbar space-y-6">
+                    <SettingsSection title={t('connection')}>
+                        <div className="flex gap-4">
+                            {CONNECTION_MODES.map(mode => (
+                                <label key={mode} className="flex items-center gap-2 text-sm text-slate-700">
+                                    <input
+                                        type="radio"
+                                        name="connectionMode"
+                                        checked={settings.connectionMode === mode}
+                                        onChange={() => changeSettings({ connectionMode: mode })}
+                                        className="accent-indigo-600"
+                                    />
+                                    {t(`connection_${mode}`)}
+                                </label>
+                            ))}
+                        </div>
+                        {settings.connectionMode === 'proxy' ? (
+                            <div>
+                                <label className="block text-sm font-medium text-slate-600">{t('proxy_url')}</label>
+                                <input
+                                    type="url"
+                                    value={settings.proxyUrl}
+                                    placeholder={process.env.AI_PROXY_URL || DEFAULT_PROXY_URL}
+                                    onChange={e => changeSettings({ proxyUrl: e.target.value })}
+                                    className={inputClassName}
+                                />
+                            </div>
+                        ) : (
+                            <div>
+                                <label className="block text-sm font-medium text-slate-600">{t('api_key')}</label>
+                                <input
+                                    type="password"
+                                    autoComplete="off"
+                                    value={settings.apiKey}
+                                    onChange={e => changeSettings({ apiKey: e.target.value })}
+                                    className={inputClassName}
+                                />
+                                <p className="mt-1 text-xs text-amber-700">{t('api_key_warning')}</p>
+                            </div>
+                        )}
+                    </SettingsSection>
+
+                    <SettingsSection title={t('ai_models')} description={t('ai_models_description')}>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                            {CONFIGURABLE_FEATURES.map(feature => (
+                                <div key={feature}>
+                                    <label className="block text-sm font-medium text-slate-600">{t(`feature_${feature}`)}</label>
+                                    <select
+                                        value={settings.featureModels[feature] || FEATURE_MODELS[feature]}
+                                        onChange={e => handleModelChange(feature, e.target.value)}
+                                        className={inputClassName}
+                                    >
+                                        {getModelOptions(feature).map(model => <option key={model} value={model}>{model}</option>)}
+                                    </select>
+                                </div>
+                            ))}
+                        </div>
+                    </SettingsSection>
+
+                    <SettingsSection title={t('voices')}>
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label className="block text-sm font-medium text-slate-600">{t('translation_voice')}</label>
+                                <select value={settings.translationVoice} onChange={e => changeSettings({ translationVoice: e.target.value })} className={inputClassName}>
+                                    {TTS_VOICES.map(voice => <option key={voice} value={voice}>{voice}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-slate-600">{t('listening_voice')}</label>
+                                <select value={settings.listeningVoice} onChange={e => changeSettings({ listeningVoice: e.target.value })} className={inputClassName}>
+                                    {TTS_VOICES.map(voice => <option key={voice} value={voice}>{voice}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-slate-600">{t('listening_plays')}</label>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={5}
+                                    value={settings.listeningPlays}
+                                    onChange={e => changeSettings({ listeningPlays: Math.min(5, Math.max(1, Number(e.target.value) || 1)) })}
+                                    className={inputClassName}
+                                />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-slate-600">{t('listening_pause_seconds')}</label>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    max={120}
+                                    value={settings.listeningPauseSeconds}
+                                    onChange={e => changeSettings({ listeningPauseSeconds: Math.min(120, Math.max(0, Number(e.target.value) || 0)) })}
+                                    className={inputClassName}
+                                />
+                            </div>
+                        </div>
+                    </SettingsSection>
+
+                    <SettingsSection title={t('defaults')} description={t('defaults_description')}>
+                        <div className="grid grid-cols-3 gap-4">
+                            <div>
+                                <label className="block text-sm font-medium text-slate-600">{t('grade')}</label>
+                                <select value={settings.defaultGrade} onChange={e => changeSettings({ defaultGrade: Number(e.target.value) })} className={inputClassName}>
+                                    {GRADES.map(g => <option key={g} value={g}>{g}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-slate-600">{t('subject')}</label>
+                                <select value={settings.defaultSubject} onChange={e => changeSettings({ defaultSubject: e.target.value as Subject })} className={inputClassName}>
+                                    {SUBJECTS.map(s => <option key={s} value={s}>{t(s)}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-slate-600">{t('textbook')}</label>
+                                <select value={settings.defaultTextbook} onChange={e => changeSettings({ defaultTextbook: e.target.value })} className={inputClassName}>
+                                    {TEXTBOOKS.filter(tb => tb !== 'other').map(tb => <option key={tb} value={tb}>{t(tb)}</option>)}
+                                </select>
+                            </div>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-slate-600">{t('school_name')}</label>
+                            <input
+                                value={settings.schoolName}
+                                onChange={e => changeSettings({ schoolName: e.target.value })}
+                                className={inputClassName}
+                            />
+                            <p className="mt-1 text-xs text-slate-500">{t('school_name_description')}</p>
+                        </div>
+                        <div>
+                            <label className="flex items-center justify-between gap-4 text-sm text-slate-700">
+                                <span>{t('verify_answers_setting')}</span>
+                                <input
+                                    type="checkbox"
+                                    checked={settings.verifyAnswers}
+                                    onChange={e => changeSettings({ verifyAnswers: e.target.checked })}
+                                    className="h-4 w-4 accent-indigo-600"
+                                />
+                            </label>
+                            <p className="mt-1 text-xs text-slate-500">{t('verify_answers_setting_description')}</p>
+                        </div>
+                    </SettingsSection>
+
+                    <SettingsSection title={t('response_cache')} description={t('response_cache_description')}>
+                        <label className="flex items-center justify-between gap-4 text-sm text-slate-700">
+                            <span>{t('always_regenerate')}</span>
+                            <input
+                                type="checkbox"
+                                checked={settings.alwaysRegenerate}
+                                onChange={e => changeSettings({ alwaysRegenerate: e.target.checked })}
+                                className="h-4 w-4 accent-indigo-600"
+                            />
+                        </label>
+
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label className="block text-sm font-medium text-slate-600">{t('cache_ttl')}</label>
+                                <select
+                                    value={settings.cacheTtlDays}
+                                    onChange={e => changeSettings({ cacheTtlDays: Number(e.target.value) })}
+                                    className={inputClassName}
+                                >
+                                    {CACHE_TTL_OPTIONS.map(days => <option key={days} value={days}>{days} {t('days')}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-slate-600">{t('cache_max_size')}</label>
+                                <select
+                                    value={settings.cacheMaxMb}
+                                    onChange={e => changeSettings({ cacheMaxMb: Number(e.target.value) })}
+                                    className={inputClassName}
+                                >
+                                    {CACHE_SIZE_OPTIONS.map(mb => <option key={mb} value={mb}>{mb} MB</option>)}
+                                </select>
+                            </div>
+                        </div>
+
+                        <div>
+                            <div className="flex justify-between items-center text-sm text-slate-600 mb-1">
+                                <span>{t('cache_usage')}{cacheStats && ` (${cacheStats.entries} ${t('cached_responses')})`}</span>
+                                <span>{cacheStats ? `${(cacheStats.bytes / (1024 * 1024)).toFixed(2)} MB / ${settings.cacheMaxMb} MB` : '...'}</span>
+                            </div>
+                            <div className="w-full bg-slate-200 rounded-full h-2.5">
+                                <div className="bg-gradient-to-r from-indigo-500 to-purple-500 h-2.5 rounded-full" style={{ width: `${usagePercentage}%` }}></div>
+                            </div>
+                        </div>
+
+                        <button
+                            onClick={handleClearCache}
+                            disabled={isClearing || !cacheStats?.entries}
+                            className="w-full px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-lg hover:bg-red-700 disabled:opacity-50 transition-colors"
+                        >
+                            {t('clear_cache')}
+                        </button>
+                    </SettingsSection>
+                </div>
+                <div className="p-3 border-t border-slate-200 flex justify-end flex-shrink-0">
+                    <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 transition-colors">{t('close')}</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SettingsPanel;
@@ -1,7 +1,13 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { GoogleGenAI, Type } from "@google/genai";
+import { Type, Part } from "@google/genai";
 import { useApp } from '../App';
+import { generateJson, fileToGenerativePart } from '../services/aiService';
+import { renderPrompt } from '../services/prompts';
+import { slidesResponse } from '../services/responseValidators';
+import ErrorMessage from './ErrorMessage';
+import { createDocx, markdownToDocxBlocks } from '../services/docxExport';
+import { downloadBlob, toFileName } from '../services/download';
 import { LibraryItemType, UserRole } from '../types';
 
 // Make sure KaTeX is available on the window object
@@ -109,7 +115,7 @@ const SlideGenerator: React.FC = () => {
     const [markdownContent, setMarkdownContent] = useState('');
     const [wordContent, setWordContent] = useState('');
     const [isLoading, setIsLoading] = useState(false);
-    const [error, setError] = useState<string | null>(null);
+    const [error, setError] = useState<unknown>(null);
     const [copyAsTextButtonText, setCopyAsTextButtonText] = useState(t('copy_as_text'));
     const [copyForWordButtonText, setCopyForWordButtonText] = useState(t('copy_for_word'));
     const fileInputRef = useRef<HTMLInputElement>(null);
@@ -139,51 +145,13 @@ const SlideGenerator: React.FC = () => {
         setError(null);
 
         try {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-            const fileToGenerativePart = async (file: File) => {
-                const base64EncodedDataPromise = new Promise<string>((resolve) => {
-                    const reader = new FileReader();
-                    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
-                    reader.readAsDataURL(file);
-                });
-                return {
-                    inlineData: {
-                        data: await base64EncodedDataPromise,
-                        mimeType: file.type,
-                    },
-                };
-            };
+            const parts: Part[] = [];
             
-            const parts: any[] = [];
-            
-            let prompt = `
-                Act as an expert instructional designer. Create a slide presentation outline based on the provided topic.
-                Topic: "${topic}"
-
-                ${file ? "The user has provided a template image file. Analyze its layout, style, and structure to inform your output, but do not simply copy it. Prioritize creating informative content." : ""}
-
-                **CRITICAL LANGUAGE RULE (MUST FOLLOW):**
-                The user has explicitly selected **${language}** as their interface language.
-                - Your entire response, including all titles, content, bullet points, speaker notes, and visual suggestions MUST be in **${language}**.
-                - **EVEN IF** the input topic or template is in English, you **MUST TRANSLATE** the generated content to **${language}**.
-                - Do NOT output English unless **${language}** is explicitly English.
-
-                **Structure & Formatting**:
-                    - You MUST provide: a concise **Title**, key **Content** points as a bulleted list (3-5 points), and detailed **Speaker Notes**.
-                    - Create a logical flow for 5-10 slides.
-                    - For visuals, use the tag: \`[VISUAL: A clear, concise description in ${language}.]\`.
-                    - You MUST use Markdown strictly: \`# Slide [Number]: [Title]\`, \`## Content\`, \`## Speaker Notes\`, \`---\` to separate slides.
-                    - Use LaTeX for math: \`$...$\` (inline), \`$$...$$\` (block).
-                
-                **CRITICAL OUTPUT FORMAT:**
-                Your entire response MUST be a single, valid JSON object in ${language}.
-                This object MUST have two keys:
-                1.  \`markdownContent\`: The content formatted with Markdown and LaTeX for web display.
-                2.  \`wordContent\`: The same content, but with LaTeX converted to Microsoft Word's native Equation format (UnicodeMath) for direct copy-pasting.
-
-                Do not include any text, explanations, or markdown formatting outside of this JSON object.
-            `;
+            const { text: prompt } = renderPrompt('slides', {
+                language,
+                topic,
+                hasTemplateFile: !!file,
+            });
 
             parts.push({text: prompt});
             if(file) {
@@ -199,22 +167,18 @@ const SlideGenerator: React.FC = () => {
                 required: ['markdownContent', 'wordContent']
             };
 
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-pro',
-                contents: { parts },
-                config: {
-                    responseMimeType: 'application/json',
-                    responseSchema: responseSchema
-                }
+            const result = await generateJson({
+                feature: 'slides',
+                validate: slidesResponse,
+                contents: parts,
+                schema: responseSchema,
             });
-
-            const result = JSON.parse(response.text || '{}');
-            setMarkdownContent(result.markdownContent || '');
-            setWordContent(result.wordContent || '');
+            setMarkdownContent(result.markdownContent);
+            setWordContent(result.wordContent);
 
         } catch (e) {
             console.error("Error generating slides:", e);
-            setError("Sorry, an error occurred while generating the slides. Please try again.");
+            setError(e);
         } finally {
             setIsLoading(false);
         }
@@ -244,6 +208,17 @@ const SlideGenerator: React.FC = () => {
             });
     };
 
+    const handleDownloadDocx = () => {
+        if (!markdownContent) return;
+        try {
+            const title = markdownContent.match(/^#\s+(.*)$/m)?.[1] ?? topic;
+            downloadBlob(createDocx(markdownToDocxBlocks(markdownContent)), toFileName(title.replace(/[*$]/g, ''), 'docx'));
+        } catch (e) {
+            console.error('Error creating the Word file:', e);
+            alert(t('docx_export_failed'));
+        }
+    };
+
     const handleCopyToWord = () => {
         if (!wordContent) return;
         copyToClipboard(wordContent)
@@ -310,6 +285,11 @@ const SlideGenerator: React.FC = () => {
                                     className="flex-1 text-sm bg-blue-500 text-white font-bold py-3 px-4 rounded-lg hover:bg-blue-600 disabled:opacity-50 transition-all duration-300 transform hover:scale-105">
                                     {copyForWordButtonText}
                                 </button>
+                                <button
+                                    onClick={handleDownloadDocx}
+                                    className="flex-1 text-sm bg-indigo-500 text-white font-bold py-3 px-4 rounded-lg hover:bg-indigo-600 transition-all duration-300 transform hover:scale-105">
+                                    {t('download_docx')}
+                                </button>
                            </div>
                     )}
                 </div>
@@ -321,7 +301,7 @@ const SlideGenerator: React.FC = () => {
                         <div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-indigo-500"></div>
                     </div>
                 ) : error ? (
-                    <div className="flex items-center justify-center h-full text-red-600 p-4 text-center">{error}</div>
+                    <ErrorMessage error={error} onRetry={handleGenerate} />
                 ) : (
                      <div className="h-full overflow-y-auto bg-white rounded-lg custom-scrollbar">
                         <SlideContentRenderer markdown={markdownContent} placeholder={t('slide_placeholder')} />
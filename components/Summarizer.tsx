@@ -1,7 +1,11 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { GoogleGenAI, Type, Part } from "@google/genai";
+import { Type, Part } from "@google/genai";
 import { useApp } from '../App';
+import { generateJson, fileToGenerativePart } from '../services/aiService';
+import { renderPrompt } from '../services/prompts';
+import { summaryResponse } from '../services/responseValidators';
+import ErrorMessage from './ErrorMessage';
 import { Flashcard, MindMapNode, LibraryItemType, UserRole } from '../types';
 import MindMapComponent from './MindMap';
 
@@ -59,8 +63,9 @@ const Summarizer: React.FC = () => {
     const [isLoading, setIsLoading] = useState(false);
     const [outputTab, setOutputTab] = useState<'mind_map' | 'flashcards'>('mind_map');
     const [fileName, setFileName] = useState('');
+    const [promptVersion, setPromptVersion] = useState('');
     const [file, setFile] = useState<File | null>(null);
-    const [error, setError] = useState<string | null>(null);
+    const [error, setError] = useState<unknown>(null);
     const [saveButtonText, setSaveButtonText] = useState(t(userRole === UserRole.TEACHER ? 'save_to_documents' : 'save_to_library'));
     const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -92,7 +97,8 @@ const Summarizer: React.FC = () => {
         addToLibrary({
             name,
             type: LibraryItemType.SUMMARY,
-            content: { mindMap }
+            content: { mindMap },
+            promptVersion,
         });
         setSaveButtonText(t('saved'));
         setTimeout(() => resetSaveButton(), 2000);
@@ -110,54 +116,15 @@ const Summarizer: React.FC = () => {
         resetSaveButton();
 
         try {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-            const fileToGenerativePart = async (file: File) => {
-                const base64EncodedDataPromise = new Promise<string>((resolve) => {
-                    const reader = new FileReader();
-                    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
-                    reader.readAsDataURL(file);
-                });
-                return {
-                    inlineData: {
-                        data: await base64EncodedDataPromise,
-                        mimeType: file.type,
-                    },
-                };
-            };
-
             const parts: Part[] = [];
 
-            const basePrompt = `
-                You are a highly precise AI content analyzer. Your task is to process the provided content and generate a mind map and flashcards.
-
-                **CRITICAL LANGUAGE RULE (MUST FOLLOW):**
-                The user has explicitly selected **${language}** as their interface language.
-                - You MUST generate ALL output (titles, questions, answers, nodes) in **${language}**.
-                - **EVEN IF** the input file is in English, Chinese, or any other language, you **MUST TRANSLATE** the extracted information into **${language}**.
-                - Do NOT output English unless **${language}** is explicitly English.
-
-                **Formatting Rules:**
-                1.  **Handling Mathematical Content**: If the content contains mathematical formulas or equations, you MUST represent them using proper LaTeX. Use \`$...$\` for inline math and \`$$...$$\` for block-level equations. For example, represent the quadratic formula as \`$$x = \\frac{-b \\pm \\sqrt{b^2-4ac}}{2a}$$\`.
-                2.  **JSON Output**: Return ONLY a valid JSON object.
-
-                **Process:**
-                1.  **Core Topic Identification:** Identify the main topic.
-                2.  **Information Extraction & Translation:** Extract key facts and IMMEDIATELY translate them to **${language}**.
-                3.  **Structure:** Create a mind map and flashcards from this translated content.
-            `;
-
             parts.push(await fileToGenerativePart(file));
-            
-            const prompt = `
-                **Input Context:** The filename is "${file.name}".
-                **WEIGHTING RULE (90/10):** 
-                1.  **10% Weight:** Use the filename only as a weak context clue.
-                2.  **90% Weight:** You MUST derive the topic and summary content primarily from the **actual file content** (text, images, audio) provided in the user input.
-                3.  **Conflict Resolution:** If the filename is generic (e.g., "untitled", "doc", "image", "download") or if it contradicts the actual content of the file, **IGNORE the filename** and trust the content completely.
 
-                ${basePrompt}
-            `;
+            const { text: prompt, version } = renderPrompt('summary', {
+                language,
+                fileName: file.name,
+            });
+            setPromptVersion(version);
             
             parts.push({ text: prompt });
             
@@ -210,27 +177,19 @@ const Summarizer: React.FC = () => {
                 required: ['mindMap', 'flashcards']
             };
 
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-pro',
-                contents: { parts },
-                config: {
-                    responseMimeType: 'application/json',
-                    responseSchema: responseSchema,
-                },
+            const result = await generateJson({
+                feature: 'summary',
+                validate: summaryResponse,
+                contents: parts,
+                schema: responseSchema,
             });
 
-            const jsonString = (response.text || '').trim();
-            if (!jsonString) {
-                throw new Error("Received an empty response from the API.");
-            }
-            const result = JSON.parse(jsonString);
-
             setMindMap(result.mindMap);
             setFlashcards(result.flashcards);
 
         } catch (e) {
             console.error("Error generating summary:", e);
-            setError("Sorry, an error occurred while generating the summary. The content might be unsupported or an API error occurred. Please try again.");
+            setError(e);
         } finally {
             setIsLoading(false);
         }
@@ -276,7 +235,7 @@ const Summarizer: React.FC = () => {
                         <div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-indigo-500"></div>
                     </div>
                 ) : error ? (
-                    <div className="flex items-center justify-center h-full text-red-600 p-4 text-center">{error}</div>
+                    <ErrorMessage error={error} onRetry={handleSummarize} />
                 ) : !mindMap && !flashcards.length ? (
                     <div className="flex items-center justify-center h-full text-slate-500">
                         {t('summary_placeholder')}
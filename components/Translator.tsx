@@ -1,6 +1,10 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { GoogleGenAI, Modality, Type } from '@google/genai';
+import { Type } from '@google/genai';
 import { useApp } from '../App';
+import { generateJson, generateSpeech } from '../services/aiService';
+import { renderPrompt } from '../services/prompts';
+import { translationResponse } from '../services/responseValidators';
+import ErrorMessage from './ErrorMessage';
 import { Language } from '../types';
 import { LANGUAGES } from '../constants';
 
@@ -62,10 +66,6 @@ const copyToClipboard = async (text: string) => {
     }
 };
 
-
-// Initialize the AI client once at the module level for efficiency.
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
 const Translator: React.FC = () => {
   const { t, language } = useApp();
   const [sourceLang, setSourceLang] = useState<Language>(language);
@@ -76,7 +76,7 @@ const Translator: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [copyAsTextButtonText, setCopyAsTextButtonText] = useState(t('copy_as_text'));
   const [copyForWordButtonText, setCopyForWordButtonText] = useState(t('copy_for_word'));
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<unknown>(null);
   const [isSpeaking, setIsSpeaking] = useState(false);
   const translatedOutputRef = useRef<HTMLDivElement>(null);
 
@@ -112,23 +112,7 @@ const Translator: React.FC = () => {
     setIsSpeaking(true);
 
     try {
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash-preview-tts",
-            contents: [{ parts: [{ text: translatedText }] }],
-            config: {
-                responseModalities: [Modality.AUDIO],
-                speechConfig: {
-                    voiceConfig: {
-                        prebuiltVoiceConfig: { voiceName: 'Kore' },
-                    },
-                },
-            },
-        });
-
-        const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-        if (!base64Audio) {
-            throw new Error("No audio data received from API.");
-        }
+        const base64Audio = await generateSpeech(translatedText);
 
         const outputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
         const audioBuffer = await decodeAudioData(
@@ -160,35 +144,11 @@ const Translator: React.FC = () => {
     setError(null); // Clear previous error
 
     try {
-        const prompt = `
-            Translate the following text from ${sourceLang} to ${targetLang}.
-            Your primary task is to provide a grammatically correct and natural-sounding translation in ${targetLang}.
-
-            **CRITICAL RULE FOR MATH: IDENTIFY AND FORMAT**
-            1.  **Identify Math**: First, analyze the source text to identify any mathematical concepts, variables, formulas, or symbols, even if they are written as plain text (e.g., "x^2", "tam giác ABC").
-            2.  **Format with LaTeX**: In your translated output, you MUST enclose all identified mathematical content in proper LaTeX delimiters (\`$...$\` or \`$$...$$\`).
-            3.  **Preserve Existing LaTeX**: If the source text already contains LaTeX, you MUST preserve it exactly as it is.
-            4.  **Translate Text Only**: You MUST translate ONLY the text *outside* the LaTeX delimiters.
-
-            **Example Walkthrough:**
-            -   **Source Input:** \`Cho tam giác ABC vuông tại A. Tính x^2.\`
-            -   **Your Internal Process:** Identify "tam giác ABC", "A", and "x^2" as math.
-            -   **Target Language:** English
-            -   **Correct Output:** \`For the right triangle $ABC$ at $A$. Calculate $x^2$.\`
-
-            **CRITICAL OUTPUT FORMAT:**
-            Your entire response MUST be a single, valid JSON object in ${targetLang}.
-            This object MUST have two keys:
-            1.  \`markdownContent\`: The translated text with mathematical content correctly formatted in LaTeX.
-            2.  \`wordContent\`: The translated text with LaTeX converted to Microsoft Word's native Equation format (UnicodeMath).
-
-            Provide only the final JSON object, without any additional explanations.
-
-            Text to translate:
-            ---
-            ${sourceText}
-            ---
-        `;
+        const { text: prompt } = renderPrompt('translation', {
+            sourceLanguage: sourceLang,
+            targetLanguage: targetLang,
+            text: sourceText,
+        });
         
         const responseSchema = {
             type: Type.OBJECT,
@@ -199,22 +159,18 @@ const Translator: React.FC = () => {
             required: ['markdownContent', 'wordContent']
         };
 
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
+        const result = await generateJson({
+            feature: 'translation',
+            validate: translationResponse,
             contents: prompt,
-            config: {
-                responseMimeType: 'application/json',
-                responseSchema: responseSchema,
-            }
+            schema: responseSchema,
         });
-
-        const result = JSON.parse(response.text || '{}');
-        setTranslatedText(result.markdownContent || '');
-        setWordContent(result.wordContent || '');
+        setTranslatedText(result.markdownContent);
+        setWordContent(result.wordContent);
 
     } catch (e) {
         console.error("Translation error:", e);
-        setError("Sorry, an error occurred during translation. Please try again.");
+        setError(e);
     } finally {
         setIsLoading(false);
     }
@@ -293,7 +249,7 @@ const Translator: React.FC = () => {
                 <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-indigo-500"></div>
             </div>
           ) : error ? (
-            <div className="flex items-center justify-center h-full text-red-600 p-2 text-center">{error}</div>
+            <ErrorMessage error={error} onRetry={handleTranslate} />
           ) : (
             <div ref={translatedOutputRef} className="whitespace-pre-wrap text-slate-700 h-full overflow-y-auto"></div>
           )}
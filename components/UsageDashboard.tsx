@@ -0,0 +1,177 @@
+import React, { useState, useEffect } from 'react';
+import { useApp } from '../App';
+import {
+    clearUsage,
+    getBudgetStatus,
+    getDayKey,
+    getUsageRecords,
+    subscribeToUsage,
+    summarizeUsage,
+    UsageRecord,
+    UsageSummary,
+} from '../services/usageTracker';
+
+const RANGE_OPTIONS = [7, 30, 90];
+const WARNING_PERCENT_OPTIONS = [50, 75, 80, 90];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatCost = (cost: number) => `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+const formatTokens = (tokens: number) => tokens.toLocaleString();
+
+const BUDGET_LEVEL_STYLES = {
+    none: 'from-indigo-500 to-purple-500',
+    ok: 'from-indigo-500 to-purple-500',
+    warning: 'from-amber-400 to-amber-500',
+    exceeded: 'from-red-500 to-red-600',
+};
+
+const UsageTable: React.FC<{ title: string; rows: UsageSummary[]; labelOf: (key: string) => string }> = ({ title, rows, labelOf }) => {
+    const { t } = useApp();
+    return (
+        <div className="bg-white/80 backdrop-blur-sm border border-slate-200 rounded-xl p-4">
+            <h4 className="text-md font-semibold text-slate-700 mb-3">{title}</h4>
+            {rows.length === 0 ? (
+                <p className="text-sm text-slate-500">{t('no_usage_yet')}</p>
+            ) : (
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-left text-slate-500 border-b border-slate-200">
+                            <th className="py-1 font-medium"></th>
+                            <th className="py-1 font-medium text-right">{t('calls')}</th>
+                            <th className="py-1 font-medium text-right">{t('input_tokens')}</th>
+                            <th className="py-1 font-medium text-right">{t('output_tokens')}</th>
+                            <th className="py-1 font-medium text-right">{t('estimated_cost')}</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map(row => (
+                            <tr key={row.key} className="border-b border-slate-100 last:border-0">
+                                <td className="py-1.5 text-slate-700">{labelOf(row.key)}</td>
+                                <td className="py-1.5 text-right">{row.calls}</td>
+                                <td className="py-1.5 text-right">{formatTokens(row.inputTokens)}</td>
+                                <td className="py-1.5 text-right">{formatTokens(row.outputTokens)}</td>
+                                <td className="py-1.5 text-right font-medium">{formatCost(row.cost)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+};
+
+const UsageDashboard: React.FC = () => {
+    const { t, settings, changeSettings } = useApp();
+    const [records, setRecords] = useState<UsageRecord[]>(getUsageRecords);
+    const [rangeDays, setRangeDays] = useState(30);
+
+    useEffect(() => subscribeToUsage(() => setRecords(getUsageRecords())), []);
+
+    const since = Date.now() - rangeDays * DAY_MS;
+    const inRange = records.filter(record => record.timestamp >= since);
+    const byDay = summarizeUsage(inRange, record => getDayKey(record.timestamp)).sort((a, b) => a.key.localeCompare(b.key));
+    const byFeature = summarizeUsage(inRange, record => record.feature);
+    const byModel = summarizeUsage(inRange, record => record.model);
+    const maxDayCost = Math.max(...byDay.map(day => day.cost), 0);
+
+    const budget = getBudgetStatus(settings, records);
+    const budgetPercentage = budget.budget ? Math.min(100, (budget.spent / budget.budget) * 100) : 0;
+
+    return (
+        <div className="space-y-6">
+            <div className="bg-white/80 backdrop-blur-sm border border-slate-200 rounded-xl p-4 space-y-4">
+                <div className="flex flex-wrap justify-between items-end gap-4">
+                    <div>
+                        <h3 className="text-lg font-bold text-slate-800">{t('this_month_cost')}</h3>
+                        <p className="text-3xl font-bold text-indigo-600">
+                            {formatCost(budget.spent)}
+                            {budget.budget > 0 && <span className="text-base font-medium text-slate-500"> / {formatCost(budget.budget)}</span>}
+                        </p>
+                        <p className="text-xs text-slate-500">{t('cost_estimate_note')}</p>
+                    </div>
+                    <div className="flex gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-slate-600">{t('monthly_budget')}</label>
+                            <input
+                                type="number"
+                                min={0}
+                                step={1}
+                                value={settings.monthlyBudgetUsd || ''}
+                                placeholder={t('no_budget')}
+                                onChange={e => changeSettings({ monthlyBudgetUsd: Math.max(0, Number(e.target.value) || 0) })}
+                                className="mt-1 w-32 p-2.5 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 transition"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-slate-600">{t('budget_warning_at')}</label>
+                            <select
+                                value={settings.budgetWarningPercent}
+                                onChange={e => changeSettings({ budgetWarningPercent: Number(e.target.value) })}
+                                disabled={!settings.monthlyBudgetUsd}
+                                className="mt-1 p-2.5 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 transition disabled:opacity-50"
+                            >
+                                {WARNING_PERCENT_OPTIONS.map(percent => <option key={percent} value={percent}>{percent}%</option>)}
+                            </select>
+                        </div>
+                    </div>
+                </div>
+                {budget.budget > 0 && (
+                    <div className="w-full bg-slate-200 rounded-full h-2.5">
+                        <div className={`bg-gradient-to-r ${BUDGET_LEVEL_STYLES[budget.level]} h-2.5 rounded-full`} style={{ width: `${budgetPercentage}%` }}></div>
+                    </div>
+                )}
+                {(budget.level === 'warning' || budget.level === 'exceeded') && (
+                    <p className={`text-sm font-medium ${budget.level === 'exceeded' ? 'text-red-600' : 'text-amber-600'}`}>
+                        {t(budget.level === 'exceeded' ? 'budget_exceeded' : 'budget_warning')}
+                    </p>
+                )}
+            </div>
+
+            <div className="flex justify-between items-center">
+                <label className="flex items-center gap-2 text-sm font-medium text-slate-600">
+                    {t('time_range')}
+                    <select
+                        value={rangeDays}
+                        onChange={e => setRangeDays(Number(e.target.value))}
+                        className="p-2.5 bg-slate-50 border border-slate-300 rounded-lg focus:ring-2 focus:ring-indigo-500 transition"
+                    >
+                        {RANGE_OPTIONS.map(days => <option key={days} value={days}>{days} {t('days')}</option>)}
+                    </select>
+                </label>
+                <button
+                    onClick={clearUsage}
+                    disabled={records.length === 0}
+                    className="px-4 py-2 text-sm font-medium text-red-600 bg-red-100 rounded-lg hover:bg-red-200 disabled:opacity-50 transition-colors"
+                >
+                    {t('clear_usage')}
+                </button>
+            </div>
+
+            <div className="bg-white/80 backdrop-blur-sm border border-slate-200 rounded-xl p-4">
+                <h4 className="text-md font-semibold text-slate-700 mb-3">{t('usage_by_day')}</h4>
+                {byDay.length === 0 ? (
+                    <p className="text-sm text-slate-500">{t('no_usage_yet')}</p>
+                ) : (
+                    <div className="flex items-end gap-1 h-40 overflow-x-auto custom-scrollbar">
+                        {byDay.map(day => (
+                            <div key={day.key} className="flex flex-col items-center justify-end h-full min-w-[2rem] flex-1" title={`${day.key}: ${formatCost(day.cost)}, ${day.calls} ${t('calls')}`}>
+                                <div
+                                    className="w-full bg-gradient-to-t from-indigo-500 to-purple-500 rounded-t"
+                                    style={{ height: `${maxDayCost ? Math.max(2, (day.cost / maxDayCost) * 100) : 2}%` }}
+                                ></div>
+                                <span className="text-[10px] text-slate-500 mt-1">{day.key.slice(5)}</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <UsageTable title={t('usage_by_feature')} rows={byFeature} labelOf={feature => t(`feature_${feature}`)} />
+                <UsageTable title={t('usage_by_model')} rows={byModel} labelOf={model => model} />
+            </div>
+        </div>
+    );
+};
+
+export default UsageDashboard;
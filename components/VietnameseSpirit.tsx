@@ -1,7 +1,9 @@
 
 import React, { useState } from 'react';
-import { GoogleGenAI } from '@google/genai';
 import { useApp } from '../App';
+import { generateText } from '../services/aiService';
+import { renderPrompt } from '../services/prompts';
+import ErrorMessage from './ErrorMessage';
 import MarkdownRenderer from './MarkdownRenderer';
 
 type Category = 'history_heroes' | 'culture_intellect';
@@ -12,7 +14,7 @@ const VietnameseSpirit: React.FC = () => {
     const [topic, setTopic] = useState('');
     const [content, setContent] = useState('');
     const [isLoading, setIsLoading] = useState(false);
-    const [error, setError] = useState<string | null>(null);
+    const [error, setError] = useState<unknown>(null);
 
     const handleExplore = async () => {
         if (!topic.trim() || !category) return;
@@ -21,41 +23,18 @@ const VietnameseSpirit: React.FC = () => {
         setError(null);
 
         try {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-            
-            const categoryPrompt = category === 'history_heroes' 
-                ? 'Focus on the indomitable spirit, resilience, key events, heroic figures, and their significance in the nation\'s history of defending its sovereignty.' 
-                : 'Focus on cultural achievements, intellectual figures, philosophical ideas, literary works, and their impact on the nation\'s identity and development.';
-
-            const prompt = `
-                Act as an expert historian and culturalist. Generate an inspiring and informative article about the topic: "${topic}".
-                The article should fall under the category: "${t(category)}".
-                
-                **Analysis Focus:**
-                ${categoryPrompt}
-                
-                **CRITICAL LANGUAGE RULE (MUST FOLLOW):**
-                The user has explicitly selected **${language}** as their interface language.
-                - The entire article, including all headings and explanations, **MUST be written in ${language}**.
-                - **Do not output English unless ${language} is explicitly English.**
-                - If the topic is related to another culture, you MUST still write the article in **${language}**.
-
-                **Tone:** Engaging, respectful, and inspiring.
-                **Structure:** Use Markdown headings (##, ###) for clear structure.
-                **Depth:** Provide accurate, in-depth information.
-                **Significance:** Conclude by summarizing the lasting impact.
-            `;
-
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-pro',
-                contents: prompt,
+            const { text: prompt } = renderPrompt('vietnamese_spirit', {
+                language,
+                topic,
+                category,
+                categoryLabel: t(category),
             });
 
-            setContent(response.text || '');
+            setContent(await generateText({ feature: 'vietnamese_spirit', contents: prompt }));
 
         } catch (e) {
             console.error("Error exploring topic:", e);
-            setError("Sorry, an error occurred while exploring the topic. Please try again.");
+            setError(e);
         } finally {
             setIsLoading(false);
         }
@@ -133,7 +112,7 @@ const VietnameseSpirit: React.FC = () => {
                             <div className="animate-spin rounded-full h-16 w-16 border-t-2 border-b-2 border-indigo-500"></div>
                         </div>
                     ) : error ? (
-                        <div className="flex items-center justify-center h-full text-red-600 p-4 text-center">{error}</div>
+                        <ErrorMessage error={error} onRetry={handleExplore} />
                     ) : (
                         <div className="h-full overflow-y-auto bg-white rounded-lg custom-scrollbar">
                             <MarkdownRenderer markdown={content} placeholder={t('spirit_placeholder')} />
@@ -27,7 +27,8 @@ export const SUBJECTS = [
 export const DIFFICULTY_LEVELS = [
     DifficultyLevel.RECOGNITION,
     DifficultyLevel.COMPREHENSION,
-    DifficultyLevel.APPLICATION
+    DifficultyLevel.APPLICATION,
+    DifficultyLevel.HIGH_APPLICATION,
 ];
 
 export const TEXTBOOKS = [
@@ -125,6 +126,7 @@ export const LOCALIZATION_STRINGS: { [key in Language]: { [key: string]: string
     recognition: 'Recognition',
     comprehension: 'Comprehension',
     application: 'Application',
+    high_application: 'High application',
     mc_difficulty_breakdown: 'MC Qs by Difficulty',
     mc_sum_error: 'Sum of MC counts must equal total.',
     review_topic: 'Review Topic',
@@ -161,6 +163,307 @@ export const LOCALIZATION_STRINGS: { [key in Language]: { [key: string]: string
     ket_noi_tri_thuc: 'Kết nối tri thức với cuộc sống',
     other: 'Other (manual input)',
     image_generation_error: 'Image generation failed',
+    cancel: 'Cancel',
+    generation_cancelled: 'Generation cancelled.',
+    settings: 'Settings',
+    response_cache: 'Response cache',
+    response_cache_description: 'Lessons, plans, summaries and translations you have already generated are reused instead of calling the AI again.',
+    always_regenerate: 'Always regenerate (ignore cache)',
+    cache_ttl: 'Keep responses for',
+    days: 'days',
+    cache_max_size: 'Maximum cache size',
+    cache_usage: 'Cache usage',
+    cached_responses: 'responses',
+    clear_cache: 'Clear cache',
+    retry: 'Try again',
+    error_quota_exceeded: 'The AI usage limit has been reached. Please wait a minute and try again.',
+    error_safety_block: 'The AI declined this request because of its safety filters. Please rephrase the topic or use different material.',
+    error_malformed_json: 'The AI returned an answer in an unexpected format. Please try again.',
+    error_empty_response: 'The AI returned an empty answer. Please try again.',
+    error_network: 'Could not reach the server. Please check your internet connection and try again.',
+    error_file_too_large: 'The file is too large. Please choose a file under 15 MB.',
+    error_timeout: 'The AI took too long to answer. Please try again.',
+    error_cancelled: 'Generation cancelled.',
+    error_server_error: 'The AI service is temporarily unavailable. Please try again in a few minutes.',
+    error_no_audio: 'No audio could be generated. Please try again.',
+    error_no_image: 'No image could be generated. Please try again.',
+    error_api_error: 'Sorry, an error occurred. Please try again.',
+    show_details: 'Show details',
+    hide_details: 'Hide details',
+    validation_problems: 'Problems found',
+    raw_ai_output: 'Raw AI output',
+    prompt_version: 'Prompt template version',
+    usage: 'Usage & Cost',
+    this_month_cost: 'Estimated cost this month',
+    cost_estimate_note: 'Estimated from token counts and list prices. Cached answers are free.',
+    monthly_budget: 'Monthly budget (USD)',
+    no_budget: 'No budget',
+    budget_warning_at: 'Warn at',
+    budget_warning: 'AI usage is approaching this month\'s budget.',
+    budget_exceeded: 'AI usage has exceeded this month\'s budget.',
+    time_range: 'Period',
+    clear_usage: 'Clear usage history',
+    usage_by_day: 'Cost by day',
+    usage_by_feature: 'Usage by feature',
+    usage_by_model: 'Usage by model',
+    no_usage_yet: 'No AI calls recorded in this period.',
+    calls: 'Calls',
+    input_tokens: 'Input tokens',
+    output_tokens: 'Output tokens',
+    estimated_cost: 'Est. cost',
+    feature_exam: 'Exam generator',
+    feature_english_exam: 'English exam',
+    feature_exam_specification: 'Exam specification tables',
+    feature_learning_plan: 'Learning plan',
+    feature_lesson: 'Lessons',
+    feature_chat: 'AI assistant',
+    feature_summary: 'Summaries',
+    feature_slides: 'Slides',
+    feature_question_analysis: 'Question analysis',
+    feature_translation: 'Translation',
+    feature_vietnamese_spirit: 'Vietnamese spirit',
+    feature_essay_rubric: 'Essay rubrics',
+    feature_essay_grading: 'Essay grading',
+    feature_tts: 'Text to speech',
+    feature_image: 'Images',
+    connection: 'Connection',
+    connection_proxy: 'Server proxy',
+    connection_local_key: 'My own API key',
+    proxy_url: 'Proxy URL',
+    api_key: 'Gemini API key',
+    api_key_warning: 'The key is saved in this browser only and is sent directly to Google. Do not use this on shared computers.',
+    ai_models: 'AI models',
+    ai_models_description: 'Choose the model used by each feature. Pro models are more accurate but cost more.',
+    voices: 'Voices',
+    translation_voice: 'Translator voice',
+    listening_voice: 'Listening test voice',
+    defaults: 'Defaults',
+    defaults_description: 'Pre-filled in the exam generator, learning path and AI assistant.',
+    question: 'Question',
+    points: 'pts',
+    answer_key: 'Answer key',
+    minutes: 'minutes',
+    take_test: 'Take the test',
+    submit_exam: 'Submit',
+    exit_test: 'Exit',
+    time_left: 'Time left',
+    answered: 'answered',
+    answer_placeholder: 'Type your answer...',
+    confirm_submit_title: 'Submit your answers?',
+    confirm_submit_unanswered: 'Unanswered questions:',
+    keep_working: 'Keep working',
+    attempt_saved: 'Your attempt was saved to the library.',
+    score: 'Score',
+    time_taken: 'Time taken',
+    time_up: 'Time ran out, so the answers were submitted automatically.',
+    awaiting_grading: 'not graded automatically',
+    outcome_correct: 'Correct',
+    outcome_incorrect: 'Incorrect',
+    outcome_unanswered: 'Not answered',
+    outcome_ungraded: 'Needs grading',
+    your_answer: 'Your answer',
+    correct_answer: 'Correct answer',
+    explanation: 'Explanation',
+    outcome_graded: 'Graded',
+    rubric: 'Rubric',
+    rubric_scores: 'Rubric scores',
+    ai_graded_provisional: 'AI-graded (provisional)',
+    reviewed_by_teacher: 'Reviewed by teacher',
+    overall_feedback: 'Overall feedback',
+    attach_photo: 'Attach a photo of the answer',
+    remove_photo: 'Remove photo',
+    photo_read_failed: 'This photo could not be read. Please try another image.',
+    grading_essays: 'Grading essays...',
+    essay_grading_failed: 'The essays could not be graded automatically. They will be graded by your teacher.',
+    student_name: 'Student name',
+    student_answer: 'Student\'s answer',
+    criterion_name: 'Criterion',
+    max_points: 'Maximum points',
+    remove_criterion: 'Remove criterion',
+    add_criterion: 'Add criterion',
+    add_level: 'Add level',
+    rubric_total: 'Rubric total',
+    rubric_total_mismatch: 'The rubric total differs from the question\'s points; scores will be scaled to the question\'s points.',
+    sample_answers: 'Sample answers',
+    add_sample_answer: 'Add sample answer',
+    grade_essays: 'Grade essays',
+    generate_rubrics: 'Generate rubrics',
+    no_rubric_yet: 'No rubric yet. Generate one to grade this question.',
+    grade_with_ai: 'Grade with AI',
+    regrade_with_ai: 'Regrade with AI',
+    release_results: 'Release results',
+    release_results_hint: 'Review the AI\'s scores, then release the result to save it for the student.',
+    results_released: 'Results released and saved.',
+    next_student: 'Next student',
+    version_code: 'Version',
+    exam_versions: 'Exam versions',
+    create_versions: 'Create versions',
+    original_exam: 'Original',
+    answer_key_table: 'Answer key table',
+    short_answer: 'Short answer',
+    exam_matrix: 'Exam matrix',
+    use_exam_matrix: 'Build from an exam matrix',
+    edit_matrix: 'Edit matrix',
+    matrix_topic: 'Topic / lesson unit',
+    matrix_requirements: 'Knowledge and skills assessed',
+    matrix_level_share: 'Share of points',
+    matrix_question_count: 'Questions',
+    matrix_points_per_question: 'Points each',
+    matrix_summary: 'Matrix',
+    matrix_empty: 'Add topics and question counts to the matrix first.',
+    add_topic: 'Add topic',
+    remove_topic: 'Remove topic',
+    total: 'Total',
+    specification_table: 'Specification table',
+    generate_specification: 'Generate specification table',
+    reset_matrix: 'Clear matrix',
+    done: 'Done',
+    download_docx: 'Download .docx',
+    docx_export: 'Word export',
+    docx_export_hint: 'Formulas are exported as native Word equations.',
+    docx_export_failed: 'Could not create the Word file.',
+    school_name: 'School',
+    class_name: 'Class',
+    time_allowed: 'Time allowed',
+    end_of_exam: 'END',
+    include_answer_key: 'Include the answer key on a separate page',
+    school_name_description: 'Printed in the header of exported exams.',
+    print_pdf: 'Print / PDF',
+    pdf_export: 'Print or save as PDF',
+    pdf_export_hint: 'Choose "Save as PDF" as the printer to get a PDF file.',
+    print_failed: 'Could not open the print view.',
+    include_answer_sheet: 'Add a bubble answer sheet',
+    answer_sheet: 'Answer sheet',
+    answer_sheet_instructions: 'Fill in one bubble per question completely with a dark pen or pencil.',
+    student_id: 'Student number',
+    answer_sheet_too_many: 'Only the first 100 multiple-choice questions fit on the answer sheet.',
+    download: 'Download',
+    lms_export: 'Export to LMS',
+    lms_export_failed: 'Could not export the questions.',
+    lms_format_moodle_xml: 'Moodle XML (.xml)',
+    lms_format_moodle_xml_hint: 'Keeps points, feedback, essay rubrics and difficulty tags. Import it in Moodle\'s question bank.',
+    lms_format_gift: 'GIFT (.txt)',
+    lms_format_gift_hint: 'Plain text that is easy to edit. Points are not included.',
+    lms_format_qti: 'IMS QTI 2.1 (.zip)',
+    lms_format_qti_hint: 'A standard package for Canvas, Blackboard, TAO and other LMSs. Math is included as MathML.',
+    import_questions: 'Import questions',
+    import_questions_hint: 'Moodle XML, GIFT or QTI 2.1 files',
+    importing: 'Importing...',
+    import_failed: 'No questions could be read from this file. Use a Moodle XML, GIFT or QTI 2.1 file.',
+    import_skipped_questions: 'Questions of unsupported types were skipped',
+    true_option: 'True',
+    false_option: 'False',
+    question_bank: 'Question Bank',
+    bank_question_count: 'Questions in the bank',
+    bank_questions_added: 'Questions added to the bank',
+    bank_duplicates_skipped: 'near-identical questions skipped',
+    bank_duplicates_removed: 'Near-identical questions removed',
+    bank_remove_duplicates: 'Remove duplicates',
+    bank_search_placeholder: 'Search questions, answers or topics...',
+    all: 'All',
+    question_type: 'Question type',
+    bank_empty: 'The question bank is empty. Add questions from a generated or saved exam, or import a Moodle XML, GIFT or QTI file.',
+    bank_results: 'Matching questions',
+    bank_showing_first: 'showing the first',
+    bank_used_count: 'Used in exams',
+    add_to_question_bank: 'Add to question bank',
+    use_question_bank: 'Use questions from the bank first',
+    bank_matrix_matches: 'Matrix questions available in the bank',
+    grade_answer_sheets: 'Grade answer sheets',
+    grade_answer_sheets_hint: 'Add photos of the filled-in bubble sheets. Each photo must show the four black corner squares. Photos are read on this device.',
+    answer_sheet_add_photos: 'Add photos',
+    answer_sheet_reading: 'Reading answer sheets…',
+    answer_sheet_photos_empty: 'No answer sheets yet. Add photos to grade them.',
+    answer_sheet_no_questions: 'This exam has no multiple-choice questions to grade from an answer sheet.',
+    answer_sheet_notes: 'Notes',
+    answer_sheet_photo: 'Photo',
+    answer_sheet_not_found: 'No answer sheet found in the photo',
+    answer_sheet_unknown_version: 'Version not recognised: choose it',
+    answer_sheet_multiple_marks: 'Several bubbles filled',
+    answer_sheet_check_marks: 'Faint or erased marks: check the sheet',
+    score_table: 'Score table',
+    download_score_table: 'Download score table (CSV)',
+    item_analysis: 'Item analysis',
+    item_analysis_empty: 'No attempts have been recorded on this exam yet. Attempts students submit and answer sheets saved from grading appear here.',
+    item_analysis_legend: 'Difficulty index: share of the points students earned (low = hard). Discrimination index: difficulty index of the top 27% minus that of the bottom 27% (below 0.2 = does not separate strong from weak students).',
+    item_attempts: 'Attempts',
+    item_statistics: 'Questions',
+    item_responses: 'Responses',
+    item_option: 'Option',
+    item_chosen: 'Chosen by',
+    item_upper_group: 'Top group',
+    item_lower_group: 'Bottom group',
+    difficulty_index: 'Difficulty',
+    discrimination_index: 'Discrimination',
+    score_distribution: 'Score distribution (out of 10)',
+    score_mean: 'Mean',
+    score_median: 'Median',
+    score_standard_deviation: 'Standard deviation',
+    score_range: 'Range',
+    item_flag_too_hard: 'Too hard',
+    item_flag_too_easy: 'Too easy',
+    item_flag_low_discrimination: 'Low discrimination',
+    item_flag_negative_discrimination: 'Negative discrimination: check the key',
+    item_flag_unused_distractor: 'Distractor nobody chooses',
+    item_flag_misleading_distractor: 'Distractor chosen by strong students: may be ambiguous',
+    update_question_bank: 'Save to question bank',
+    update_question_bank_hint: 'Stores these statistics and flags on the matching questions in the question bank.',
+    bank_questions_updated: 'Question bank questions updated',
+    bank_flagged_only: 'Flagged only',
+    save_sheet_results: 'Save as attempts',
+    save_sheet_results_hint: 'Saves each graded sheet to your documents, for item analysis.',
+    feature_exam_question: 'Single exam questions',
+    edit_questions: 'Edit questions',
+    edit_questions_hint: 'Regenerate, rewrite or edit single questions; the answer key and versions follow',
+    done_editing: 'Done',
+    regenerate_question: 'Regenerate',
+    make_easier: 'Easier',
+    make_harder: 'Harder',
+    change_question_type: 'Change type…',
+    edit: 'Edit',
+    add_option: 'Add option',
+    question_points: 'Points',
+    feature_answer_verification: 'Answer verification',
+    verify_answers: 'Verify answers',
+    verify_answers_hint: 'Solve the questions again and flag answers that disagree, several correct options or duplicate options',
+    verify_answers_again: 'Check again',
+    verify_answers_setting: 'Verify answers after generating',
+    verify_answers_setting_description: 'Math and science questions are solved again and answers that look wrong are flagged. This is one more AI request per exam.',
+    verifying_answers: 'Checking the answers…',
+    answers_checked: 'Answers checked',
+    answers_flagged: 'flagged',
+    answers_all_agree: 'all answers agree',
+    answer_issue_answer_mismatch: 'Key disagrees',
+    answer_issue_multiple_correct: 'Several correct options',
+    answer_issue_no_correct_option: 'No correct option',
+    answer_issue_duplicate_options: 'Duplicate options',
+    answer_issue_numeric_disagreement: 'Numbers disagree with the solve',
+    numerically_checked: 'checked numerically',
+    use_option: 'Use option',
+    stated_answer: 'Key',
+    resolved_answer: 'Re-solved',
+    verification_solution: 'Solution',
+    true_false: 'True/False',
+    true_short: 'T',
+    false_short: 'F',
+    outcome_partial: 'Partly correct',
+    num_true_false: 'True/False Qs by Difficulty',
+    true_false_hint: 'Each question has 4 statements a–d; 1, 2, 3 or 4 right earn 10%, 25%, 50% or all of its points.',
+    num_short_answer: 'Short Answer Qs by Difficulty',
+    short_answer_hint: 'In math and the sciences, the answer is a number of at most 4 characters.',
+    add_statement: 'Add statement',
+    listening_plays: 'Times the listening audio is played',
+    listening_pause_seconds: 'Pause between plays (seconds)',
+    generating_audio: 'Generating audio...',
+    regenerate_audio: 'Regenerate audio',
+    audio_save_failed: 'The listening audio could not be saved; the exam is saved without it.',
+    listening_audio_missing: 'The listening audio of this exam is no longer stored in this browser.',
+    stop_audio: 'Stop',
+    play_listening: 'Play listening passage',
+    download_wav: 'Download WAV',
+    download_mp3: 'Download MP3',
+    audio_export_failed: 'The audio file could not be created.',
+    listening_audio: 'Listening audio',
     [Subject.MATH]: 'Math',
     [Subject.LITERATURE]: 'Literature',
     [Subject.PHYSICS]: 'Physics',
@@ -177,6 +480,7 @@ export const LOCALIZATION_STRINGS: { [key in Language]: { [key: string]: string
     [LibraryItemType.EXAM]: 'Exam',
     [LibraryItemType.REVIEW_EXERCISES]: 'Review Exercises',
     [LibraryItemType.SIMILAR_EXERCISES]: 'Similar Exercises',
+    [LibraryItemType.EXAM_ATTEMPT]: 'Test Attempt',
   },
   [Language.VI]: {
     slogan: 'Khai mở tri thức, định hình tương lai.',
@@ -262,6 +566,7 @@ export const LOCALIZATION_STRINGS: { [key in Language]: { [key: string]: string
     recognition: 'Nhận biết',
     comprehension: 'Thông hiểu',
     application: 'Vận dụng',
+    high_application: 'Vận dụng cao',
     mc_difficulty_breakdown: 'Số câu TN theo độ khó',
     mc_sum_error: 'Tổng số câu theo độ khó phải bằng tổng số câu TN.',
     review_topic: 'Chủ đề ôn tập',
@@ -298,6 +603,307 @@ export const LOCALIZATION_STRINGS: { [key in Language]: { [key: string]: string
     ket_noi_tri_thuc: 'Kết nối tri thức với cuộc sống',
     other: 'Khác (tự nhập)',
     image_generation_error: 'Tạo ảnh thất bại',
+    cancel: 'Hủy',
+    generation_cancelled: 'Đã hủy tạo nội dung.',
+    settings: 'Cài đặt',
+    response_cache: 'Bộ nhớ đệm phản hồi',
+    response_cache_description: 'Bài học, lộ trình, tóm tắt và bản dịch đã tạo sẽ được dùng lại thay vì gọi AI lần nữa.',
+    always_regenerate: 'Luôn tạo mới (bỏ qua bộ nhớ đệm)',
+    cache_ttl: 'Giữ phản hồi trong',
+    days: 'ngày',
+    cache_max_size: 'Dung lượng tối đa',
+    cache_usage: 'Dung lượng đã dùng',
+    cached_responses: 'phản hồi',
+    clear_cache: 'Xóa bộ nhớ đệm',
+    retry: 'Thử lại',
+    error_quota_exceeded: 'Đã đạt giới hạn sử dụng AI. Vui lòng đợi một phút rồi thử lại.',
+    error_safety_block: 'AI đã từ chối yêu cầu này do bộ lọc an toàn. Vui lòng diễn đạt lại chủ đề hoặc dùng tài liệu khác.',
+    error_malformed_json: 'AI trả về kết quả sai định dạng. Vui lòng thử lại.',
+    error_empty_response: 'AI không trả về nội dung nào. Vui lòng thử lại.',
+    error_network: 'Không thể kết nối tới máy chủ. Vui lòng kiểm tra kết nối mạng rồi thử lại.',
+    error_file_too_large: 'Tệp quá lớn. Vui lòng chọn tệp nhỏ hơn 15 MB.',
+    error_timeout: 'AI phản hồi quá lâu. Vui lòng thử lại.',
+    error_cancelled: 'Đã hủy tạo nội dung.',
+    error_server_error: 'Dịch vụ AI tạm thời không khả dụng. Vui lòng thử lại sau vài phút.',
+    error_no_audio: 'Không thể tạo âm thanh. Vui lòng thử lại.',
+    error_no_image: 'Không thể tạo hình ảnh. Vui lòng thử lại.',
+    error_api_error: 'Xin lỗi, đã xảy ra lỗi. Vui lòng thử lại.',
+    show_details: 'Xem chi tiết',
+    hide_details: 'Ẩn chi tiết',
+    validation_problems: 'Các lỗi phát hiện',
+    raw_ai_output: 'Kết quả gốc từ AI',
+    prompt_version: 'Phiên bản mẫu lời nhắc',
+    usage: 'Sử dụng & Chi phí',
+    this_month_cost: 'Chi phí ước tính tháng này',
+    cost_estimate_note: 'Ước tính từ số token và giá niêm yết. Câu trả lời lấy từ bộ nhớ đệm không tính phí.',
+    monthly_budget: 'Ngân sách hằng tháng (USD)',
+    no_budget: 'Không giới hạn',
+    budget_warning_at: 'Cảnh báo khi đạt',
+    budget_warning: 'Mức sử dụng AI sắp chạm ngân sách tháng này.',
+    budget_exceeded: 'Mức sử dụng AI đã vượt ngân sách tháng này.',
+    time_range: 'Khoảng thời gian',
+    clear_usage: 'Xóa lịch sử sử dụng',
+    usage_by_day: 'Chi phí theo ngày',
+    usage_by_feature: 'Sử dụng theo tính năng',
+    usage_by_model: 'Sử dụng theo mô hình',
+    no_usage_yet: 'Chưa có lượt gọi AI nào trong khoảng thời gian này.',
+    calls: 'Lượt gọi',
+    input_tokens: 'Token đầu vào',
+    output_tokens: 'Token đầu ra',
+    estimated_cost: 'Chi phí ước tính',
+    feature_exam: 'Tạo đề thi',
+    feature_english_exam: 'Đề thi tiếng Anh',
+    feature_exam_specification: 'Bản đặc tả đề thi',
+    feature_learning_plan: 'Lộ trình học',
+    feature_lesson: 'Bài học',
+    feature_chat: 'Trợ lý AI',
+    feature_summary: 'Tóm tắt',
+    feature_slides: 'Trình chiếu',
+    feature_question_analysis: 'Phân tích câu hỏi',
+    feature_translation: 'Dịch thuật',
+    feature_vietnamese_spirit: 'Tinh thần Việt',
+    feature_essay_rubric: 'Tiêu chí chấm tự luận',
+    feature_essay_grading: 'Chấm tự luận',
+    feature_tts: 'Chuyển văn bản thành giọng nói',
+    feature_image: 'Hình ảnh',
+    connection: 'Kết nối',
+    connection_proxy: 'Máy chủ trung gian',
+    connection_local_key: 'Khóa API của tôi',
+    proxy_url: 'Địa chỉ máy chủ trung gian',
+    api_key: 'Khóa API Gemini',
+    api_key_warning: 'Khóa chỉ được lưu trong trình duyệt này và gửi trực tiếp tới Google. Không dùng trên máy tính dùng chung.',
+    ai_models: 'Mô hình AI',
+    ai_models_description: 'Chọn mô hình cho từng tính năng. Mô hình Pro chính xác hơn nhưng tốn chi phí hơn.',
+    voices: 'Giọng đọc',
+    translation_voice: 'Giọng đọc bản dịch',
+    listening_voice: 'Giọng đọc bài nghe',
+    defaults: 'Giá trị mặc định',
+    defaults_description: 'Được điền sẵn trong phần tạo đề, lộ trình học và trợ lý AI.',
+    question: 'Câu',
+    points: 'điểm',
+    answer_key: 'Đáp án',
+    minutes: 'phút',
+    take_test: 'Làm bài',
+    submit_exam: 'Nộp bài',
+    exit_test: 'Thoát',
+    time_left: 'Thời gian còn lại',
+    answered: 'câu đã làm',
+    answer_placeholder: 'Nhập câu trả lời...',
+    confirm_submit_title: 'Nộp bài?',
+    confirm_submit_unanswered: 'Số câu chưa làm:',
+    keep_working: 'Làm tiếp',
+    attempt_saved: 'Bài làm đã được lưu vào thư viện.',
+    score: 'Điểm',
+    time_taken: 'Thời gian làm bài',
+    time_up: 'Hết giờ, bài làm đã được nộp tự động.',
+    awaiting_grading: 'chưa được chấm tự động',
+    outcome_correct: 'Đúng',
+    outcome_incorrect: 'Sai',
+    outcome_unanswered: 'Chưa làm',
+    outcome_ungraded: 'Cần chấm',
+    your_answer: 'Bài làm',
+    correct_answer: 'Đáp án',
+    explanation: 'Lời giải',
+    outcome_graded: 'Đã chấm',
+    rubric: 'Hướng dẫn chấm',
+    rubric_scores: 'Điểm theo tiêu chí',
+    ai_graded_provisional: 'AI chấm (tạm thời)',
+    reviewed_by_teacher: 'Giáo viên đã duyệt',
+    overall_feedback: 'Nhận xét chung',
+    attach_photo: 'Đính kèm ảnh bài làm',
+    remove_photo: 'Xóa ảnh',
+    photo_read_failed: 'Không đọc được ảnh này. Vui lòng thử ảnh khác.',
+    grading_essays: 'Đang chấm bài tự luận...',
+    essay_grading_failed: 'Không thể tự động chấm bài tự luận. Giáo viên sẽ chấm các câu này.',
+    student_name: 'Tên học sinh',
+    student_answer: 'Bài làm của học sinh',
+    criterion_name: 'Tiêu chí',
+    max_points: 'Điểm tối đa',
+    remove_criterion: 'Xóa tiêu chí',
+    add_criterion: 'Thêm tiêu chí',
+    add_level: 'Thêm mức điểm',
+    rubric_total: 'Tổng điểm hướng dẫn chấm',
+    rubric_total_mismatch: 'Tổng điểm hướng dẫn chấm khác điểm của câu hỏi; điểm sẽ được quy đổi theo điểm của câu hỏi.',
+    sample_answers: 'Bài làm mẫu',
+    add_sample_answer: 'Thêm bài làm mẫu',
+    grade_essays: 'Chấm tự luận',
+    generate_rubrics: 'Tạo hướng dẫn chấm',
+    no_rubric_yet: 'Chưa có hướng dẫn chấm. Hãy tạo để chấm câu này.',
+    grade_with_ai: 'Chấm bằng AI',
+    regrade_with_ai: 'Chấm lại bằng AI',
+    release_results: 'Trả kết quả',
+    release_results_hint: 'Kiểm tra điểm AI chấm, rồi trả kết quả để lưu cho học sinh.',
+    results_released: 'Đã trả và lưu kết quả.',
+    next_student: 'Học sinh tiếp theo',
+    version_code: 'Mã đề',
+    exam_versions: 'Số mã đề',
+    create_versions: 'Tạo mã đề',
+    original_exam: 'Đề gốc',
+    answer_key_table: 'Bảng đáp án',
+    short_answer: 'Trả lời ngắn',
+    exam_matrix: 'Ma trận đề',
+    use_exam_matrix: 'Tạo đề theo ma trận',
+    edit_matrix: 'Chỉnh sửa ma trận',
+    matrix_topic: 'Chủ đề / Đơn vị kiến thức',
+    matrix_requirements: 'Mức độ kiến thức, kĩ năng cần kiểm tra, đánh giá',
+    matrix_level_share: 'Tỉ lệ điểm',
+    matrix_question_count: 'Số câu',
+    matrix_points_per_question: 'Điểm mỗi câu',
+    matrix_summary: 'Ma trận',
+    matrix_empty: 'Hãy thêm chủ đề và số câu hỏi vào ma trận trước.',
+    add_topic: 'Thêm chủ đề',
+    remove_topic: 'Xóa chủ đề',
+    total: 'Tổng',
+    specification_table: 'Bản đặc tả',
+    generate_specification: 'Tạo bản đặc tả',
+    reset_matrix: 'Xóa ma trận',
+    done: 'Xong',
+    download_docx: 'Tải file .docx',
+    docx_export: 'Xuất file Word',
+    docx_export_hint: 'Công thức được xuất thành phương trình Word gốc.',
+    docx_export_failed: 'Không thể tạo file Word.',
+    school_name: 'Trường',
+    class_name: 'Lớp',
+    time_allowed: 'Thời gian làm bài',
+    end_of_exam: 'HẾT',
+    include_answer_key: 'Kèm đáp án ở trang riêng',
+    school_name_description: 'In ở đầu đề thi khi xuất file.',
+    print_pdf: 'In / PDF',
+    pdf_export: 'In hoặc lưu PDF',
+    pdf_export_hint: 'Chọn máy in "Lưu dưới dạng PDF" để lấy file PDF.',
+    print_failed: 'Không thể mở bản in.',
+    include_answer_sheet: 'Kèm phiếu trả lời trắc nghiệm',
+    answer_sheet: 'Phiếu trả lời trắc nghiệm',
+    answer_sheet_instructions: 'Tô kín một ô tròn cho mỗi câu bằng bút chì hoặc bút mực đậm.',
+    student_id: 'Số báo danh',
+    answer_sheet_too_many: 'Phiếu trả lời chỉ chứa được 100 câu trắc nghiệm đầu tiên.',
+    download: 'Tải xuống',
+    lms_export: 'Xuất sang LMS',
+    lms_export_failed: 'Không thể xuất câu hỏi.',
+    lms_format_moodle_xml: 'Moodle XML (.xml)',
+    lms_format_moodle_xml_hint: 'Giữ điểm, lời giải, hướng dẫn chấm tự luận và thẻ mức độ. Nhập vào ngân hàng câu hỏi của Moodle.',
+    lms_format_gift: 'GIFT (.txt)',
+    lms_format_gift_hint: 'Văn bản thuần, dễ chỉnh sửa. Không kèm điểm.',
+    lms_format_qti: 'IMS QTI 2.1 (.zip)',
+    lms_format_qti_hint: 'Gói chuẩn cho Canvas, Blackboard, TAO và các LMS khác. Công thức được lưu dưới dạng MathML.',
+    import_questions: 'Nhập câu hỏi',
+    import_questions_hint: 'Tệp Moodle XML, GIFT hoặc QTI 2.1',
+    importing: 'Đang nhập...',
+    import_failed: 'Không đọc được câu hỏi nào từ tệp này. Hãy dùng tệp Moodle XML, GIFT hoặc QTI 2.1.',
+    import_skipped_questions: 'Đã bỏ qua các câu hỏi thuộc dạng không hỗ trợ',
+    true_option: 'Đúng',
+    false_option: 'Sai',
+    question_bank: 'Ngân hàng câu hỏi',
+    bank_question_count: 'Số câu hỏi trong ngân hàng',
+    bank_questions_added: 'Đã thêm vào ngân hàng',
+    bank_duplicates_skipped: 'câu gần trùng lặp bị bỏ qua',
+    bank_duplicates_removed: 'Đã xóa các câu gần trùng lặp',
+    bank_remove_duplicates: 'Xóa câu trùng lặp',
+    bank_search_placeholder: 'Tìm câu hỏi, đáp án hoặc chủ đề...',
+    all: 'Tất cả',
+    question_type: 'Dạng câu hỏi',
+    bank_empty: 'Ngân hàng câu hỏi đang trống. Hãy thêm câu hỏi từ đề đã tạo hoặc đã lưu, hoặc nhập tệp Moodle XML, GIFT hay QTI.',
+    bank_results: 'Câu hỏi phù hợp',
+    bank_showing_first: 'hiển thị',
+    bank_used_count: 'Đã dùng trong đề',
+    add_to_question_bank: 'Thêm vào ngân hàng câu hỏi',
+    use_question_bank: 'Ưu tiên dùng câu hỏi từ ngân hàng',
+    bank_matrix_matches: 'Số câu của ma trận có sẵn trong ngân hàng',
+    grade_answer_sheets: 'Chấm phiếu trả lời',
+    grade_answer_sheets_hint: 'Thêm ảnh chụp các phiếu trả lời đã tô. Mỗi ảnh phải thấy đủ bốn ô vuông đen ở góc. Ảnh được đọc ngay trên thiết bị này.',
+    answer_sheet_add_photos: 'Thêm ảnh',
+    answer_sheet_reading: 'Đang đọc phiếu…',
+    answer_sheet_photos_empty: 'Chưa có phiếu nào. Thêm ảnh để chấm.',
+    answer_sheet_no_questions: 'Đề này không có câu trắc nghiệm để chấm bằng phiếu.',
+    answer_sheet_notes: 'Ghi chú',
+    answer_sheet_photo: 'Ảnh',
+    answer_sheet_not_found: 'Không tìm thấy phiếu trong ảnh',
+    answer_sheet_unknown_version: 'Không nhận ra mã đề: hãy chọn',
+    answer_sheet_multiple_marks: 'Tô nhiều ô',
+    answer_sheet_check_marks: 'Có ô tô mờ hoặc đã tẩy: kiểm tra lại phiếu',
+    score_table: 'Bảng điểm',
+    download_score_table: 'Tải bảng điểm (CSV)',
+    item_analysis: 'Phân tích câu hỏi',
+    item_analysis_empty: 'Chưa có bài làm nào của đề này. Bài làm học sinh nộp và phiếu trả lời đã lưu sau khi chấm sẽ xuất hiện ở đây.',
+    item_analysis_legend: 'Độ khó: tỉ lệ điểm học sinh đạt được (thấp = khó). Độ phân biệt: độ khó của nhóm 27% cao nhất trừ nhóm 27% thấp nhất (dưới 0,2 = không phân biệt được học sinh giỏi và yếu).',
+    item_attempts: 'Số bài làm',
+    item_statistics: 'Thống kê từng câu',
+    item_responses: 'Lượt trả lời',
+    item_option: 'Phương án',
+    item_chosen: 'Số lượt chọn',
+    item_upper_group: 'Nhóm cao',
+    item_lower_group: 'Nhóm thấp',
+    difficulty_index: 'Độ khó',
+    discrimination_index: 'Độ phân biệt',
+    score_distribution: 'Phổ điểm (thang 10)',
+    score_mean: 'Trung bình',
+    score_median: 'Trung vị',
+    score_standard_deviation: 'Độ lệch chuẩn',
+    score_range: 'Khoảng điểm',
+    item_flag_too_hard: 'Quá khó',
+    item_flag_too_easy: 'Quá dễ',
+    item_flag_low_discrimination: 'Phân biệt kém',
+    item_flag_negative_discrimination: 'Phân biệt âm: kiểm tra đáp án',
+    item_flag_unused_distractor: 'Phương án nhiễu không ai chọn',
+    item_flag_misleading_distractor: 'Phương án nhiễu thu hút học sinh giỏi: có thể gây hiểu nhầm',
+    update_question_bank: 'Lưu vào ngân hàng câu hỏi',
+    update_question_bank_hint: 'Lưu các chỉ số và cảnh báo này vào những câu tương ứng trong ngân hàng câu hỏi.',
+    bank_questions_updated: 'Số câu đã cập nhật trong ngân hàng',
+    bank_flagged_only: 'Chỉ câu có cảnh báo',
+    save_sheet_results: 'Lưu thành bài làm',
+    save_sheet_results_hint: 'Lưu từng phiếu đã chấm vào tài liệu, để phân tích câu hỏi.',
+    feature_exam_question: 'Sửa từng câu hỏi đề thi',
+    edit_questions: 'Sửa câu hỏi',
+    edit_questions_hint: 'Tạo lại, viết lại hoặc sửa từng câu; đáp án và các mã đề được cập nhật theo',
+    done_editing: 'Xong',
+    regenerate_question: 'Tạo lại',
+    make_easier: 'Dễ hơn',
+    make_harder: 'Khó hơn',
+    change_question_type: 'Đổi dạng câu…',
+    edit: 'Sửa',
+    add_option: 'Thêm phương án',
+    question_points: 'Điểm',
+    feature_answer_verification: 'Kiểm tra đáp án',
+    verify_answers: 'Kiểm tra đáp án',
+    verify_answers_hint: 'Giải lại các câu hỏi và đánh dấu đáp án sai lệch, nhiều phương án đúng hoặc phương án trùng nhau',
+    verify_answers_again: 'Kiểm tra lại',
+    verify_answers_setting: 'Kiểm tra đáp án sau khi tạo',
+    verify_answers_setting_description: 'Câu hỏi Toán và khoa học tự nhiên được giải lại để đánh dấu đáp án có thể sai. Mỗi đề tốn thêm một yêu cầu AI.',
+    verifying_answers: 'Đang kiểm tra đáp án…',
+    answers_checked: 'Số câu đã kiểm tra',
+    answers_flagged: 'cần xem lại',
+    answers_all_agree: 'tất cả đáp án đều khớp',
+    answer_issue_answer_mismatch: 'Đáp án không khớp',
+    answer_issue_multiple_correct: 'Nhiều phương án đúng',
+    answer_issue_no_correct_option: 'Không có phương án đúng',
+    answer_issue_duplicate_options: 'Phương án trùng nhau',
+    answer_issue_numeric_disagreement: 'Giá trị số không khớp với lời giải',
+    numerically_checked: 'đã kiểm tra bằng tính toán',
+    use_option: 'Chọn phương án',
+    stated_answer: 'Đáp án đề',
+    resolved_answer: 'Giải lại',
+    verification_solution: 'Lời giải',
+    true_false: 'Đúng/Sai',
+    true_short: 'Đ',
+    false_short: 'S',
+    outcome_partial: 'Đúng một phần',
+    num_true_false: 'Số câu Đúng/Sai theo độ khó',
+    true_false_hint: 'Mỗi câu có 4 ý a–d; đúng 1, 2, 3 hoặc 4 ý được 10%, 25%, 50% hoặc toàn bộ điểm của câu.',
+    num_short_answer: 'Số câu trả lời ngắn theo độ khó',
+    short_answer_hint: 'Với Toán và các môn KHTN, đáp án là một số có tối đa 4 kí tự.',
+    add_statement: 'Thêm ý',
+    listening_plays: 'Số lần phát bài nghe',
+    listening_pause_seconds: 'Khoảng nghỉ giữa các lần phát (giây)',
+    generating_audio: 'Đang tạo âm thanh...',
+    regenerate_audio: 'Tạo lại âm thanh',
+    audio_save_failed: 'Không lưu được âm thanh bài nghe; đề được lưu mà không có âm thanh.',
+    listening_audio_missing: 'Âm thanh bài nghe của đề này không còn được lưu trong trình duyệt này.',
+    stop_audio: 'Dừng',
+    play_listening: 'Phát bài nghe',
+    download_wav: 'Tải WAV',
+    download_mp3: 'Tải MP3',
+    audio_export_failed: 'Không tạo được tệp âm thanh.',
+    listening_audio: 'Âm thanh bài nghe',
     [Subject.MATH]: 'Toán học',
     [Subject.LITERATURE]: 'Ngữ văn',
     [Subject.PHYSICS]: 'Vật lý',
@@ -314,6 +920,7 @@ export const LOCALIZATION_STRINGS: { [key in Language]: { [key: string]: string
     [LibraryItemType.EXAM]: 'Đề thi',
     [LibraryItemType.REVIEW_EXERCISES]: 'Bài tập ôn',
     [LibraryItemType.SIMILAR_EXERCISES]: 'Bài tập tương tự',
+    [LibraryItemType.EXAM_ATTEMPT]: 'Bài làm',
   },
   [Language.ZH]: {
     slogan: '开启知识，塑造未来。',
@@ -399,6 +1006,7 @@ export const LOCALIZATION_STRINGS: { [key in Language]: { [key: string]: string
     recognition: '认识',
     comprehension: '理解',
     application: '应用',
+    high_application: '高级应用',
     mc_difficulty_breakdown: '按难度分列的选择题',
     mc_sum_error: '选择题各难度数量总和必须等于总数。',
     review_topic: '复习主题',
@@ -435,6 +1043,307 @@ export const LOCALIZATION_STRINGS: { [key in Language]: { [key: string]: string
     ket_noi_tri_thuc: 'Kết nối tri thức विद cuộc sống',
     other: '其他（手动输入）',
     image_generation_error: '图片生成失败',
+    cancel: '取消',
+    generation_cancelled: '已取消生成。',
+    settings: '设置',
+    response_cache: '响应缓存',
+    response_cache_description: '已生成的课程、计划、摘要和翻译将被重复使用，而不会再次调用 AI。',
+    always_regenerate: '始终重新生成（忽略缓存）',
+    cache_ttl: '响应保留时间',
+    days: '天',
+    cache_max_size: '最大缓存大小',
+    cache_usage: '缓存使用量',
+    cached_responses: '条响应',
+    clear_cache: '清除缓存',
+    retry: '重试',
+    error_quota_exceeded: '已达到 AI 使用上限。请稍等一分钟后重试。',
+    error_safety_block: '由于安全过滤，AI 拒绝了此请求。请换一种说法或使用其他材料。',
+    error_malformed_json: 'AI 返回的结果格式不正确。请重试。',
+    error_empty_response: 'AI 返回了空结果。请重试。',
+    error_network: '无法连接服务器。请检查网络连接后重试。',
+    error_file_too_large: '文件过大。请选择小于 15 MB 的文件。',
+    error_timeout: 'AI 响应超时。请重试。',
+    error_cancelled: '已取消生成。',
+    error_server_error: 'AI 服务暂时不可用。请几分钟后重试。',
+    error_no_audio: '无法生成音频。请重试。',
+    error_no_image: '无法生成图片。请重试。',
+    error_api_error: '抱歉，发生了错误。请重试。',
+    show_details: '显示详情',
+    hide_details: '隐藏详情',
+    validation_problems: '发现的问题',
+    raw_ai_output: 'AI 原始输出',
+    prompt_version: '提示模板版本',
+    usage: '用量与费用',
+    this_month_cost: '本月预估费用',
+    cost_estimate_note: '根据令牌数量和官方价格估算。缓存的回答不计费。',
+    monthly_budget: '每月预算（美元）',
+    no_budget: '无预算',
+    budget_warning_at: '提醒阈值',
+    budget_warning: '本月 AI 用量即将达到预算。',
+    budget_exceeded: '本月 AI 用量已超出预算。',
+    time_range: '时间范围',
+    clear_usage: '清除用量记录',
+    usage_by_day: '每日费用',
+    usage_by_feature: '按功能统计',
+    usage_by_model: '按模型统计',
+    no_usage_yet: '此期间没有 AI 调用记录。',
+    calls: '调用次数',
+    input_tokens: '输入令牌',
+    output_tokens: '输出令牌',
+    estimated_cost: '预估费用',
+    feature_exam: '试卷生成',
+    feature_english_exam: '英语试卷',
+    feature_exam_specification: '试卷细目表',
+    feature_learning_plan: '学习计划',
+    feature_lesson: '课程',
+    feature_chat: 'AI 助手',
+    feature_summary: '摘要',
+    feature_slides: '幻灯片',
+    feature_question_analysis: '题目分析',
+    feature_translation: '翻译',
+    feature_vietnamese_spirit: '越南精神',
+    feature_essay_rubric: '作文评分细则',
+    feature_essay_grading: '主观题批改',
+    feature_tts: '文字转语音',
+    feature_image: '图像',
+    connection: '连接',
+    connection_proxy: '服务器代理',
+    connection_local_key: '我自己的 API 密钥',
+    proxy_url: '代理地址',
+    api_key: 'Gemini API 密钥',
+    api_key_warning: '密钥仅保存在此浏览器中并直接发送给 Google。请勿在公用电脑上使用。',
+    ai_models: 'AI 模型',
+    ai_models_description: '为每个功能选择模型。Pro 模型更准确，但费用更高。',
+    voices: '语音',
+    translation_voice: '翻译朗读语音',
+    listening_voice: '听力语音',
+    defaults: '默认值',
+    defaults_description: '在试卷生成、学习路径和 AI 助手中预先填写。',
+    question: '题',
+    points: '分',
+    answer_key: '参考答案',
+    minutes: '分钟',
+    take_test: '开始做题',
+    submit_exam: '交卷',
+    exit_test: '退出',
+    time_left: '剩余时间',
+    answered: '已作答',
+    answer_placeholder: '输入你的答案...',
+    confirm_submit_title: '确认交卷？',
+    confirm_submit_unanswered: '未作答题数：',
+    keep_working: '继续作答',
+    attempt_saved: '答卷已保存到资料库。',
+    score: '得分',
+    time_taken: '用时',
+    time_up: '时间到，答卷已自动提交。',
+    awaiting_grading: '未自动评分',
+    outcome_correct: '正确',
+    outcome_incorrect: '错误',
+    outcome_unanswered: '未作答',
+    outcome_ungraded: '待批改',
+    your_answer: '你的答案',
+    correct_answer: '正确答案',
+    explanation: '解析',
+    outcome_graded: '已评分',
+    rubric: '评分标准',
+    rubric_scores: '各项评分',
+    ai_graded_provisional: 'AI 评分（暂定）',
+    reviewed_by_teacher: '教师已审核',
+    overall_feedback: '总体评语',
+    attach_photo: '附上答案照片',
+    remove_photo: '删除照片',
+    photo_read_failed: '无法读取此照片，请换一张图片。',
+    grading_essays: '正在批改论述题...',
+    essay_grading_failed: '论述题无法自动批改，将由老师批改。',
+    student_name: '学生姓名',
+    student_answer: '学生答案',
+    criterion_name: '评分项',
+    max_points: '满分',
+    remove_criterion: '删除评分项',
+    add_criterion: '添加评分项',
+    add_level: '添加等级',
+    rubric_total: '评分标准总分',
+    rubric_total_mismatch: '评分标准总分与题目分值不一致，得分将按题目分值折算。',
+    sample_answers: '示例答案',
+    add_sample_answer: '添加示例答案',
+    grade_essays: '批改论述题',
+    generate_rubrics: '生成评分标准',
+    no_rubric_yet: '尚无评分标准，请先生成以批改此题。',
+    grade_with_ai: 'AI 评分',
+    regrade_with_ai: 'AI 重新评分',
+    release_results: '发布成绩',
+    release_results_hint: '请审核 AI 评分，然后发布成绩为学生保存。',
+    results_released: '成绩已发布并保存。',
+    next_student: '下一位学生',
+    version_code: '试卷代码',
+    exam_versions: '试卷版本数',
+    create_versions: '生成多个版本',
+    original_exam: '原卷',
+    answer_key_table: '答案汇总表',
+    short_answer: '简答题',
+    exam_matrix: '试卷双向细目表',
+    use_exam_matrix: '按双向细目表出题',
+    edit_matrix: '编辑细目表',
+    matrix_topic: '主题 / 课时单元',
+    matrix_requirements: '考查的知识与技能',
+    matrix_level_share: '分值占比',
+    matrix_question_count: '题数',
+    matrix_points_per_question: '每题分值',
+    matrix_summary: '细目表',
+    matrix_empty: '请先在细目表中添加主题和题数。',
+    add_topic: '添加主题',
+    remove_topic: '删除主题',
+    total: '合计',
+    specification_table: '命题细目表',
+    generate_specification: '生成命题细目表',
+    reset_matrix: '清空细目表',
+    done: '完成',
+    download_docx: '下载 .docx',
+    docx_export: '导出 Word',
+    docx_export_hint: '公式将导出为 Word 原生公式。',
+    docx_export_failed: '无法创建 Word 文件。',
+    school_name: '学校',
+    class_name: '班级',
+    time_allowed: '考试时间',
+    end_of_exam: '完',
+    include_answer_key: '在单独一页附上答案',
+    school_name_description: '打印在导出试卷的页眉中。',
+    print_pdf: '打印 / PDF',
+    pdf_export: '打印或保存为 PDF',
+    pdf_export_hint: '在打印机中选择“另存为 PDF”即可得到 PDF 文件。',
+    print_failed: '无法打开打印视图。',
+    include_answer_sheet: '附上答题卡',
+    answer_sheet: '答题卡',
+    answer_sheet_instructions: '每题用深色笔或铅笔涂满一个圆圈。',
+    student_id: '考号',
+    answer_sheet_too_many: '答题卡只能容纳前 100 道选择题。',
+    download: '下载',
+    lms_export: '导出到 LMS',
+    lms_export_failed: '无法导出题目。',
+    lms_format_moodle_xml: 'Moodle XML (.xml)',
+    lms_format_moodle_xml_hint: '保留分值、反馈、论述题评分标准和难度标签。可导入 Moodle 题库。',
+    lms_format_gift: 'GIFT (.txt)',
+    lms_format_gift_hint: '纯文本格式，便于编辑。不包含分值。',
+    lms_format_qti: 'IMS QTI 2.1 (.zip)',
+    lms_format_qti_hint: '适用于 Canvas、Blackboard、TAO 等 LMS 的标准包。公式以 MathML 格式保存。',
+    import_questions: '导入题目',
+    import_questions_hint: 'Moodle XML、GIFT 或 QTI 2.1 文件',
+    importing: '正在导入...',
+    import_failed: '无法从此文件中读取题目。请使用 Moodle XML、GIFT 或 QTI 2.1 文件。',
+    import_skipped_questions: '已跳过不支持类型的题目',
+    true_option: '正确',
+    false_option: '错误',
+    question_bank: '题库',
+    bank_question_count: '题库中的题目',
+    bank_questions_added: '已加入题库的题目',
+    bank_duplicates_skipped: '已跳过近似重复的题目',
+    bank_duplicates_removed: '已删除近似重复的题目',
+    bank_remove_duplicates: '删除重复题目',
+    bank_search_placeholder: '搜索题目、答案或主题...',
+    all: '全部',
+    question_type: '题型',
+    bank_empty: '题库为空。可从已生成或已保存的试卷中添加题目，或导入 Moodle XML、GIFT 或 QTI 文件。',
+    bank_results: '符合条件的题目',
+    bank_showing_first: '仅显示前',
+    bank_used_count: '已用于试卷',
+    add_to_question_bank: '加入题库',
+    use_question_bank: '优先使用题库中的题目',
+    bank_matrix_matches: '题库中可用于该矩阵的题目',
+    grade_answer_sheets: '批改答题卡',
+    grade_answer_sheets_hint: '添加已填涂答题卡的照片。每张照片必须拍到四个角上的黑色方块。照片在本设备上识别。',
+    answer_sheet_add_photos: '添加照片',
+    answer_sheet_reading: '正在识别答题卡…',
+    answer_sheet_photos_empty: '还没有答题卡。请添加照片进行批改。',
+    answer_sheet_no_questions: '该试卷没有可用答题卡批改的选择题。',
+    answer_sheet_notes: '备注',
+    answer_sheet_photo: '照片',
+    answer_sheet_not_found: '照片中未找到答题卡',
+    answer_sheet_unknown_version: '无法识别试卷代码：请选择',
+    answer_sheet_multiple_marks: '多涂',
+    answer_sheet_check_marks: '有浅涂或擦除痕迹：请核对答题卡',
+    score_table: '成绩表',
+    download_score_table: '下载成绩表（CSV）',
+    item_analysis: '试题分析',
+    item_analysis_empty: '该试卷还没有作答记录。学生提交的作答和批改后保存的答题卡会显示在这里。',
+    item_analysis_legend: '难度指数：学生得分占该题分值的比例（越低越难）。区分度：得分最高的27%与最低的27%的难度指数之差（低于0.2表示不能区分强弱学生）。',
+    item_attempts: '作答数',
+    item_statistics: '各题统计',
+    item_responses: '作答人数',
+    item_option: '选项',
+    item_chosen: '选择人数',
+    item_upper_group: '高分组',
+    item_lower_group: '低分组',
+    difficulty_index: '难度',
+    discrimination_index: '区分度',
+    score_distribution: '分数分布（满分10分）',
+    score_mean: '平均分',
+    score_median: '中位数',
+    score_standard_deviation: '标准差',
+    score_range: '分数范围',
+    item_flag_too_hard: '过难',
+    item_flag_too_easy: '过易',
+    item_flag_low_discrimination: '区分度低',
+    item_flag_negative_discrimination: '负区分度：请检查答案',
+    item_flag_unused_distractor: '无人选择的干扰项',
+    item_flag_misleading_distractor: '干扰项吸引高分学生：可能有歧义',
+    update_question_bank: '保存到题库',
+    update_question_bank_hint: '将这些统计和标记保存到题库中对应的题目。',
+    bank_questions_updated: '已更新的题库题目',
+    bank_flagged_only: '仅显示有标记的题目',
+    save_sheet_results: '保存为作答记录',
+    save_sheet_results_hint: '将每张已批改的答题卡保存到文档中，用于试题分析。',
+    feature_exam_question: '单道试题',
+    edit_questions: '编辑题目',
+    edit_questions_hint: '重新生成、改写或编辑单道题目；答案和各版本同步更新',
+    done_editing: '完成',
+    regenerate_question: '重新生成',
+    make_easier: '更简单',
+    make_harder: '更难',
+    change_question_type: '更改题型…',
+    edit: '编辑',
+    add_option: '添加选项',
+    question_points: '分值',
+    feature_answer_verification: '答案核查',
+    verify_answers: '核查答案',
+    verify_answers_hint: '重新解题，标出答案不一致、多个正确选项或重复选项的题目',
+    verify_answers_again: '重新核查',
+    verify_answers_setting: '生成后核查答案',
+    verify_answers_setting_description: '数学和理科题目会被重新求解，并标出可能错误的答案。每份试卷多一次 AI 请求。',
+    verifying_answers: '正在核查答案…',
+    answers_checked: '已核查题数',
+    answers_flagged: '需复核',
+    answers_all_agree: '所有答案一致',
+    answer_issue_answer_mismatch: '答案不一致',
+    answer_issue_multiple_correct: '多个正确选项',
+    answer_issue_no_correct_option: '没有正确选项',
+    answer_issue_duplicate_options: '选项重复',
+    answer_issue_numeric_disagreement: '数值与解答不一致',
+    numerically_checked: '已数值核对',
+    use_option: '改用选项',
+    stated_answer: '给定答案',
+    resolved_answer: '重新求解',
+    verification_solution: '解答',
+    true_false: '判断题',
+    true_short: '对',
+    false_short: '错',
+    outcome_partial: '部分正确',
+    num_true_false: '按难度分列的判断题',
+    true_false_hint: '每题含 a–d 四个判断；答对 1、2、3、4 个分别得该题 10%、25%、50% 或全部分数。',
+    num_short_answer: '按难度分列的简答题',
+    short_answer_hint: '数学和理科题的答案为不超过 4 个字符的数。',
+    add_statement: '添加判断',
+    listening_plays: '听力播放次数',
+    listening_pause_seconds: '两次播放之间的停顿（秒）',
+    generating_audio: '正在生成音频...',
+    regenerate_audio: '重新生成音频',
+    audio_save_failed: '无法保存听力音频；试卷已在没有音频的情况下保存。',
+    listening_audio_missing: '此试卷的听力音频已不在此浏览器中。',
+    stop_audio: '停止',
+    play_listening: '播放听力材料',
+    download_wav: '下载 WAV',
+    download_mp3: '下载 MP3',
+    audio_export_failed: '无法生成音频文件。',
+    listening_audio: '听力音频',
     [Subject.MATH]: '数学',
     [Subject.LITERATURE]: '文学',
     [Subject.PHYSICS]: '物理',
@@ -451,6 +1360,7 @@ export const LOCALIZATION_STRINGS: { [key in Language]: { [key: string]: string
     [LibraryItemType.EXAM]: '考试',
     [LibraryItemType.REVIEW_EXERCISES]: '复习练习',
     [LibraryItemType.SIMILAR_EXERCISES]: '类似练习',
+    [LibraryItemType.EXAM_ATTEMPT]: '答卷',
   },
   [Language.FR]: {
     slogan: 'Débloquer la connaissance, façonner l\'avenir.',
@@ -536,6 +1446,7 @@ export const LOCALIZATION_STRINGS: { [key in Language]: { [key: string]: string
     recognition: 'Reconnaissance',
     comprehension: 'Compréhension',
     application: 'Application',
+    high_application: 'Application avancée',
     mc_difficulty_breakdown: 'QCM par difficulté',
     mc_sum_error: 'La somme des QCM doit correspondre au total.',
     review_topic: 'Sujet de révision',
@@ -572,6 +1483,307 @@ export const LOCALIZATION_STRINGS: { [key in Language]: { [key: string]: string
     ket_noi_tri_thuc: 'Kết nối tri thức avec cuộc sống',
     other: 'Autre (saisie manuelle)',
     image_generation_error: 'Échec de la génération d\'image',
+    cancel: 'Annuler',
+    generation_cancelled: 'Génération annulée.',
+    settings: 'Paramètres',
+    response_cache: 'Cache des réponses',
+    response_cache_description: 'Les leçons, plans, résumés et traductions déjà générés sont réutilisés au lieu de rappeler l\'IA.',
+    always_regenerate: 'Toujours régénérer (ignorer le cache)',
+    cache_ttl: 'Conserver les réponses pendant',
+    days: 'jours',
+    cache_max_size: 'Taille maximale du cache',
+    cache_usage: 'Utilisation du cache',
+    cached_responses: 'réponses',
+    clear_cache: 'Vider le cache',
+    retry: 'Réessayer',
+    error_quota_exceeded: 'La limite d\'utilisation de l\'IA est atteinte. Veuillez patienter une minute puis réessayer.',
+    error_safety_block: 'L\'IA a refusé cette demande à cause de ses filtres de sécurité. Reformulez le sujet ou utilisez un autre document.',
+    error_malformed_json: 'L\'IA a renvoyé une réponse dans un format inattendu. Veuillez réessayer.',
+    error_empty_response: 'L\'IA a renvoyé une réponse vide. Veuillez réessayer.',
+    error_network: 'Impossible de joindre le serveur. Vérifiez votre connexion Internet puis réessayez.',
+    error_file_too_large: 'Le fichier est trop volumineux. Choisissez un fichier de moins de 15 Mo.',
+    error_timeout: 'L\'IA a mis trop de temps à répondre. Veuillez réessayer.',
+    error_cancelled: 'Génération annulée.',
+    error_server_error: 'Le service d\'IA est temporairement indisponible. Réessayez dans quelques minutes.',
+    error_no_audio: 'Impossible de générer l\'audio. Veuillez réessayer.',
+    error_no_image: 'Impossible de générer l\'image. Veuillez réessayer.',
+    error_api_error: 'Désolé, une erreur s\'est produite. Veuillez réessayer.',
+    show_details: 'Afficher les détails',
+    hide_details: 'Masquer les détails',
+    validation_problems: 'Problèmes détectés',
+    raw_ai_output: 'Réponse brute de l\'IA',
+    prompt_version: 'Version du modèle de prompt',
+    usage: 'Utilisation et coûts',
+    this_month_cost: 'Coût estimé ce mois-ci',
+    cost_estimate_note: 'Estimation d\'après le nombre de jetons et les prix publics. Les réponses en cache sont gratuites.',
+    monthly_budget: 'Budget mensuel (USD)',
+    no_budget: 'Aucun budget',
+    budget_warning_at: 'Avertir à',
+    budget_warning: 'L\'utilisation de l\'IA approche du budget de ce mois.',
+    budget_exceeded: 'L\'utilisation de l\'IA a dépassé le budget de ce mois.',
+    time_range: 'Période',
+    clear_usage: 'Effacer l\'historique',
+    usage_by_day: 'Coût par jour',
+    usage_by_feature: 'Utilisation par fonctionnalité',
+    usage_by_model: 'Utilisation par modèle',
+    no_usage_yet: 'Aucun appel à l\'IA sur cette période.',
+    calls: 'Appels',
+    input_tokens: 'Jetons d\'entrée',
+    output_tokens: 'Jetons de sortie',
+    estimated_cost: 'Coût estimé',
+    feature_exam: 'Générateur d\'examens',
+    feature_english_exam: 'Examen d\'anglais',
+    feature_exam_specification: 'Tableaux de spécification',
+    feature_learning_plan: 'Plan d\'apprentissage',
+    feature_lesson: 'Leçons',
+    feature_chat: 'Assistant IA',
+    feature_summary: 'Résumés',
+    feature_slides: 'Diapositives',
+    feature_question_analysis: 'Analyse de questions',
+    feature_translation: 'Traduction',
+    feature_vietnamese_spirit: 'Esprit vietnamien',
+    feature_essay_rubric: 'Grilles d\'évaluation',
+    feature_essay_grading: 'Correction des rédactions',
+    feature_tts: 'Synthèse vocale',
+    feature_image: 'Images',
+    connection: 'Connexion',
+    connection_proxy: 'Proxy serveur',
+    connection_local_key: 'Ma propre clé API',
+    proxy_url: 'URL du proxy',
+    api_key: 'Clé API Gemini',
+    api_key_warning: 'La clé est enregistrée uniquement dans ce navigateur et envoyée directement à Google. Ne l\'utilisez pas sur un ordinateur partagé.',
+    ai_models: 'Modèles d\'IA',
+    ai_models_description: 'Choisissez le modèle de chaque fonctionnalité. Les modèles Pro sont plus précis mais plus coûteux.',
+    voices: 'Voix',
+    translation_voice: 'Voix du traducteur',
+    listening_voice: 'Voix de l\'écoute',
+    defaults: 'Valeurs par défaut',
+    defaults_description: 'Pré-remplies dans le générateur d\'examens, le parcours d\'apprentissage et l\'assistant IA.',
+    question: 'Question',
+    points: 'pts',
+    answer_key: 'Corrigé',
+    minutes: 'minutes',
+    take_test: 'Passer le test',
+    submit_exam: 'Rendre la copie',
+    exit_test: 'Quitter',
+    time_left: 'Temps restant',
+    answered: 'répondues',
+    answer_placeholder: 'Saisissez votre réponse...',
+    confirm_submit_title: 'Rendre la copie ?',
+    confirm_submit_unanswered: 'Questions sans réponse :',
+    keep_working: 'Continuer',
+    attempt_saved: 'Votre copie a été enregistrée dans la bibliothèque.',
+    score: 'Note',
+    time_taken: 'Temps passé',
+    time_up: 'Temps écoulé : la copie a été rendue automatiquement.',
+    awaiting_grading: 'non corrigés automatiquement',
+    outcome_correct: 'Correct',
+    outcome_incorrect: 'Incorrect',
+    outcome_unanswered: 'Sans réponse',
+    outcome_ungraded: 'À corriger',
+    your_answer: 'Votre réponse',
+    correct_answer: 'Bonne réponse',
+    explanation: 'Explication',
+    outcome_graded: 'Noté',
+    rubric: 'Grille d\'évaluation',
+    rubric_scores: 'Notes par critère',
+    ai_graded_provisional: 'Noté par l\'IA (provisoire)',
+    reviewed_by_teacher: 'Vérifié par l\'enseignant',
+    overall_feedback: 'Commentaire général',
+    attach_photo: 'Joindre une photo de la réponse',
+    remove_photo: 'Supprimer la photo',
+    photo_read_failed: 'Impossible de lire cette photo. Veuillez essayer une autre image.',
+    grading_essays: 'Correction des rédactions...',
+    essay_grading_failed: 'Les rédactions n\'ont pas pu être corrigées automatiquement. Votre enseignant les corrigera.',
+    student_name: 'Nom de l\'élève',
+    student_answer: 'Réponse de l\'élève',
+    criterion_name: 'Critère',
+    max_points: 'Points maximum',
+    remove_criterion: 'Supprimer le critère',
+    add_criterion: 'Ajouter un critère',
+    add_level: 'Ajouter un niveau',
+    rubric_total: 'Total de la grille',
+    rubric_total_mismatch: 'Le total de la grille diffère des points de la question ; les notes seront ramenées aux points de la question.',
+    sample_answers: 'Réponses types',
+    add_sample_answer: 'Ajouter une réponse type',
+    grade_essays: 'Corriger les rédactions',
+    generate_rubrics: 'Générer les grilles',
+    no_rubric_yet: 'Pas encore de grille. Générez-en une pour corriger cette question.',
+    grade_with_ai: 'Corriger avec l\'IA',
+    regrade_with_ai: 'Recorriger avec l\'IA',
+    release_results: 'Publier les résultats',
+    release_results_hint: 'Vérifiez les notes de l\'IA, puis publiez le résultat pour l\'enregistrer pour l\'élève.',
+    results_released: 'Résultats publiés et enregistrés.',
+    next_student: 'Élève suivant',
+    version_code: 'Sujet',
+    exam_versions: 'Nombre de sujets',
+    create_versions: 'Créer les sujets',
+    original_exam: 'Original',
+    answer_key_table: 'Tableau des corrigés',
+    short_answer: 'Réponse courte',
+    exam_matrix: 'Matrice de l\'examen',
+    use_exam_matrix: 'Construire à partir d\'une matrice',
+    edit_matrix: 'Modifier la matrice',
+    matrix_topic: 'Thème / unité',
+    matrix_requirements: 'Connaissances et compétences évaluées',
+    matrix_level_share: 'Part des points',
+    matrix_question_count: 'Questions',
+    matrix_points_per_question: 'Points par question',
+    matrix_summary: 'Matrice',
+    matrix_empty: 'Ajoutez d\'abord des thèmes et des nombres de questions à la matrice.',
+    add_topic: 'Ajouter un thème',
+    remove_topic: 'Supprimer le thème',
+    total: 'Total',
+    specification_table: 'Tableau de spécification',
+    generate_specification: 'Générer le tableau de spécification',
+    reset_matrix: 'Vider la matrice',
+    done: 'Terminé',
+    download_docx: 'Télécharger .docx',
+    docx_export: 'Export Word',
+    docx_export_hint: 'Les formules sont exportées en équations Word natives.',
+    docx_export_failed: 'Impossible de créer le fichier Word.',
+    school_name: 'Établissement',
+    class_name: 'Classe',
+    time_allowed: 'Durée',
+    end_of_exam: 'FIN',
+    include_answer_key: 'Inclure le corrigé sur une page séparée',
+    school_name_description: 'Imprimé dans l\'en-tête des examens exportés.',
+    print_pdf: 'Imprimer / PDF',
+    pdf_export: 'Imprimer ou enregistrer en PDF',
+    pdf_export_hint: 'Choisissez l\'imprimante « Enregistrer au format PDF » pour obtenir un fichier PDF.',
+    print_failed: 'Impossible d\'ouvrir l\'aperçu avant impression.',
+    include_answer_sheet: 'Ajouter une grille de réponses',
+    answer_sheet: 'Grille de réponses',
+    answer_sheet_instructions: 'Noircissez entièrement une bulle par question au stylo ou au crayon foncé.',
+    student_id: 'Numéro d\'élève',
+    answer_sheet_too_many: 'Seules les 100 premières questions à choix multiple tiennent sur la grille.',
+    download: 'Télécharger',
+    lms_export: 'Exporter vers le LMS',
+    lms_export_failed: 'Impossible d\'exporter les questions.',
+    lms_format_moodle_xml: 'Moodle XML (.xml)',
+    lms_format_moodle_xml_hint: 'Conserve les points, les corrigés, les grilles des questions ouvertes et les niveaux de difficulté. À importer dans la banque de questions de Moodle.',
+    lms_format_gift: 'GIFT (.txt)',
+    lms_format_gift_hint: 'Texte brut facile à modifier. Les points ne sont pas inclus.',
+    lms_format_qti: 'IMS QTI 2.1 (.zip)',
+    lms_format_qti_hint: 'Paquet standard pour Canvas, Blackboard, TAO et d\'autres LMS. Les formules sont en MathML.',
+    import_questions: 'Importer des questions',
+    import_questions_hint: 'Fichiers Moodle XML, GIFT ou QTI 2.1',
+    importing: 'Importation...',
+    import_failed: 'Aucune question n\'a pu être lue dans ce fichier. Utilisez un fichier Moodle XML, GIFT ou QTI 2.1.',
+    import_skipped_questions: 'Questions de types non pris en charge ignorées',
+    true_option: 'Vrai',
+    false_option: 'Faux',
+    question_bank: 'Banque de questions',
+    bank_question_count: 'Questions dans la banque',
+    bank_questions_added: 'Questions ajoutées à la banque',
+    bank_duplicates_skipped: 'questions quasi identiques ignorées',
+    bank_duplicates_removed: 'Questions quasi identiques supprimées',
+    bank_remove_duplicates: 'Supprimer les doublons',
+    bank_search_placeholder: 'Rechercher des questions, réponses ou thèmes...',
+    all: 'Tous',
+    question_type: 'Type de question',
+    bank_empty: 'La banque de questions est vide. Ajoutez des questions depuis un examen généré ou enregistré, ou importez un fichier Moodle XML, GIFT ou QTI.',
+    bank_results: 'Questions correspondantes',
+    bank_showing_first: 'affichage des',
+    bank_used_count: 'Utilisée dans des examens',
+    add_to_question_bank: 'Ajouter à la banque de questions',
+    use_question_bank: 'Utiliser d\'abord les questions de la banque',
+    bank_matrix_matches: 'Questions de la matrice disponibles dans la banque',
+    grade_answer_sheets: 'Corriger les feuilles de réponses',
+    grade_answer_sheets_hint: 'Ajoutez des photos des feuilles remplies. Chaque photo doit montrer les quatre carrés noirs des coins. Les photos sont lues sur cet appareil.',
+    answer_sheet_add_photos: 'Ajouter des photos',
+    answer_sheet_reading: 'Lecture des feuilles…',
+    answer_sheet_photos_empty: 'Aucune feuille pour l\'instant. Ajoutez des photos pour les corriger.',
+    answer_sheet_no_questions: 'Cet examen n\'a pas de QCM à corriger sur feuille de réponses.',
+    answer_sheet_notes: 'Remarques',
+    answer_sheet_photo: 'Photo',
+    answer_sheet_not_found: 'Aucune feuille trouvée sur la photo',
+    answer_sheet_unknown_version: 'Version non reconnue : choisissez-la',
+    answer_sheet_multiple_marks: 'Plusieurs cases noircies',
+    answer_sheet_check_marks: 'Marques pâles ou effacées : vérifiez la feuille',
+    score_table: 'Tableau des notes',
+    download_score_table: 'Télécharger les notes (CSV)',
+    item_analysis: 'Analyse des items',
+    item_analysis_empty: 'Aucune copie n\'a encore été enregistrée pour cet examen. Les copies remises par les élèves et les feuilles enregistrées après correction apparaissent ici.',
+    item_analysis_legend: 'Indice de difficulté : part des points obtenus (bas = difficile). Indice de discrimination : indice de difficulté des 27 % meilleurs moins celui des 27 % plus faibles (sous 0,2 = ne distingue pas les bons élèves des faibles).',
+    item_attempts: 'Copies',
+    item_statistics: 'Questions',
+    item_responses: 'Réponses',
+    item_option: 'Option',
+    item_chosen: 'Choisie par',
+    item_upper_group: 'Groupe fort',
+    item_lower_group: 'Groupe faible',
+    difficulty_index: 'Difficulté',
+    discrimination_index: 'Discrimination',
+    score_distribution: 'Répartition des notes (sur 10)',
+    score_mean: 'Moyenne',
+    score_median: 'Médiane',
+    score_standard_deviation: 'Écart type',
+    score_range: 'Étendue',
+    item_flag_too_hard: 'Trop difficile',
+    item_flag_too_easy: 'Trop facile',
+    item_flag_low_discrimination: 'Faible discrimination',
+    item_flag_negative_discrimination: 'Discrimination négative : vérifiez la clé',
+    item_flag_unused_distractor: 'Distracteur jamais choisi',
+    item_flag_misleading_distractor: 'Distracteur choisi par les bons élèves : peut-être ambigu',
+    update_question_bank: 'Enregistrer dans la banque',
+    update_question_bank_hint: 'Enregistre ces statistiques et alertes sur les questions correspondantes de la banque.',
+    bank_questions_updated: 'Questions de la banque mises à jour',
+    bank_flagged_only: 'Signalées uniquement',
+    save_sheet_results: 'Enregistrer comme copies',
+    save_sheet_results_hint: 'Enregistre chaque feuille corrigée dans vos documents, pour l\'analyse des items.',
+    feature_exam_question: 'Questions d\'examen individuelles',
+    edit_questions: 'Modifier les questions',
+    edit_questions_hint: 'Régénérer, réécrire ou modifier une question ; le corrigé et les versions suivent',
+    done_editing: 'Terminé',
+    regenerate_question: 'Régénérer',
+    make_easier: 'Plus facile',
+    make_harder: 'Plus difficile',
+    change_question_type: 'Changer de type…',
+    edit: 'Modifier',
+    add_option: 'Ajouter une option',
+    question_points: 'Points',
+    feature_answer_verification: 'Vérification des réponses',
+    verify_answers: 'Vérifier les réponses',
+    verify_answers_hint: 'Résoudre à nouveau les questions et signaler les réponses en désaccord, plusieurs options correctes ou des options en double',
+    verify_answers_again: 'Vérifier à nouveau',
+    verify_answers_setting: 'Vérifier les réponses après la génération',
+    verify_answers_setting_description: 'Les questions de mathématiques et de sciences sont résolues à nouveau et les réponses douteuses signalées. Une requête IA de plus par examen.',
+    verifying_answers: 'Vérification des réponses…',
+    answers_checked: 'Réponses vérifiées',
+    answers_flagged: 'à revoir',
+    answers_all_agree: 'toutes les réponses concordent',
+    answer_issue_answer_mismatch: 'Corrigé en désaccord',
+    answer_issue_multiple_correct: 'Plusieurs options correctes',
+    answer_issue_no_correct_option: 'Aucune option correcte',
+    answer_issue_duplicate_options: 'Options en double',
+    answer_issue_numeric_disagreement: 'Les valeurs ne concordent pas avec la résolution',
+    numerically_checked: 'vérifié numériquement',
+    use_option: 'Utiliser l\'option',
+    stated_answer: 'Corrigé',
+    resolved_answer: 'Nouvelle résolution',
+    verification_solution: 'Solution',
+    true_false: 'Vrai/Faux',
+    true_short: 'V',
+    false_short: 'F',
+    outcome_partial: 'Partiellement correct',
+    num_true_false: 'Questions Vrai/Faux par difficulté',
+    true_false_hint: 'Chaque question a 4 affirmations a–d ; 1, 2, 3 ou 4 justes rapportent 10 %, 25 %, 50 % ou tous ses points.',
+    num_short_answer: 'Réponses courtes par difficulté',
+    short_answer_hint: 'En mathématiques et en sciences, la réponse est un nombre d\'au plus 4 caractères.',
+    add_statement: 'Ajouter une affirmation',
+    listening_plays: 'Nombre d\'écoutes',
+    listening_pause_seconds: 'Pause entre les écoutes (secondes)',
+    generating_audio: 'Génération de l\'audio...',
+    regenerate_audio: 'Régénérer l\'audio',
+    audio_save_failed: 'L\'audio de l\'écoute n\'a pas pu être enregistré ; l\'examen est enregistré sans lui.',
+    listening_audio_missing: 'L\'audio de l\'écoute de cet examen n\'est plus enregistré dans ce navigateur.',
+    stop_audio: 'Arrêter',
+    play_listening: 'Écouter le passage',
+    download_wav: 'Télécharger WAV',
+    download_mp3: 'Télécharger MP3',
+    audio_export_failed: 'Le fichier audio n\'a pas pu être créé.',
+    listening_audio: 'Audio de l\'écoute',
     [Subject.MATH]: 'Mathématiques',
     [Subject.LITERATURE]: 'Littérature',
     [Subject.PHYSICS]: 'Physique',
@@ -588,5 +1800,6 @@ export const LOCALIZATION_STRINGS: { [key in Language]: { [key: string]: string
     [LibraryItemType.EXAM]: 'Examen',
     [LibraryItemType.REVIEW_EXERCISES]: 'Exercices de révision',
     [LibraryItemType.SIMILAR_EXERCISES]: 'Exercices similaires',
+    [LibraryItemType.EXAM_ATTEMPT]: 'Copie',
   }
 };
@@ -0,0 +1,261 @@
+// server/index.ts
+// Small proxy that keeps the Gemini API key on the server. The browser talks to
+// /api/* and never sees the key. Run with `npm run server` (or `npm run server:mock`).
+
+import http from 'http';
+import fs from 'fs';
+import path from 'path';
+import { loadEnv } from 'vite';
+import { AiProvider, RequestOptions, StreamOptions, TokenUsage } from '../services/providers/types';
+import { createGeminiProvider } from '../services/providers/geminiProvider';
+import { createMockProvider } from '../services/providers/mockProvider';
+import { MODELS } from '../services/models';
+import { AI_ERROR_STATUS, classifyError } from '../services/aiErrors';
+import { RateLimiter } from './rateLimiter';
+
+const ROOT_DIR = path.resolve(import.meta.dirname, '..');
+const DIST_DIR = path.join(ROOT_DIR, 'dist');
+const MAX_BODY_BYTES = 25 * 1024 * 1024; // Room for attached images, PDFs and audio.
+
+const env = { ...loadEnv(process.env.NODE_ENV || 'development', ROOT_DIR, ''), ...process.env };
+const useMock = process.argv.includes('--mock') || env.AI_PROVIDER === 'mock';
+const port = Number(env.PORT) || 8787;
+const rateLimiter = new RateLimiter(Number(env.RATE_LIMIT_PER_MINUTE) || 30);
+
+if (!useMock && !env.GEMINI_API_KEY) {
+    console.error('GEMINI_API_KEY is not set. Add it to .env.local or run with --mock.');
+    process.exit(1);
+}
+
+const provider: AiProvider = useMock ? createMockProvider() : createGeminiProvider(env.GEMINI_API_KEY!);
+const allowedModels = new Set<string>(Object.values(MODELS));
+
+class HttpError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message);
+    }
+}
+
+const readJsonBody = (req: http.IncomingMessage): Promise<any> => new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            reject(new HttpError(413, 'Request body is too large.'));
+            req.destroy();
+            return;
+        }
+        chunks.push(chunk);
+    });
+    req.on('end', () => {
+        try {
+            resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+        } catch {
+            reject(new HttpError(400, 'Request body must be valid JSON.'));
+        }
+    });
+    req.on('error', reject);
+});
+
+const requireModel = (model: unknown): string => {
+    if (typeof model !== 'string' || !allowedModels.has(model)) {
+        throw new HttpError(400, `Unsupported model: ${String(model)}`);
+    }
+    return model;
+};
+
+const requireString = (value: unknown, field: string): string => {
+    if (typeof value !== 'string' || !value.trim()) {
+        throw new HttpError(400, `Missing field: ${field}`);
+    }
+    return value;
+};
+
+// Handlers pass `options.onUsage` to the provider so the token counts can be returned to the browser.
+const routes: Record<string, (body: any, options: RequestOptions) => Promise<object>> = {
+    '/api/generate': async (body, options) => {
+        const model = requireModel(body.model);
+        if (body.contents === undefined) {
+            throw new HttpError(400, 'Missing field: contents');
+        }
+        if (body.kind === 'json') {
+            return { text: await provider.generateJson({ model, contents: body.contents, schema: body.schema }, options) };
+        }
+        return { text: await provider.generateText({ model, contents: body.contents }, options) };
+    },
+    '/api/chat': async (body, options) => {
+        const chat = provider.createChat({
+            model: requireModel(body.model),
+            systemInstruction: body.systemInstruction || '',
+            history: Array.isArray(body.history) ? body.history : [],
+        });
+        if (!Array.isArray(body.message)) {
+            throw new HttpError(400, 'Missing field: message');
+        }
+        return { text: await chat.sendMessage(body.message, options) };
+    },
+    '/api/tts': async (body, options) => ({
+        audio: await provider.generateSpeech({
+            model: requireModel(body.model),
+            text: requireString(body.text, 'text'),
+            voiceName: requireString(body.voiceName, 'voiceName'),
+            ...(Array.isArray(body.speakers) ? {
+                speakers: body.speakers.map((speaker: any, index: number) => ({
+                    speaker: requireString(speaker?.speaker, `speakers[${index}].speaker`),
+                    voiceName: requireString(speaker?.voiceName, `speakers[${index}].voiceName`),
+                })),
+            } : {}),
+        }, options),
+    }),
+    '/api/image': async (body, options) => ({
+        image: await provider.generateImage({
+            model: requireModel(body.model),
+            prompt: requireString(body.prompt, 'prompt'),
+        }, options),
+    }),
+};
+
+// Streaming routes answer with NDJSON: one `{"text": delta}` line per chunk, then `{"usage": {...}}`.
+const streamRoutes: Record<string, (body: any, options: StreamOptions) => AsyncIterable<string>> = {
+    '/api/generate/stream': (body, options) => {
+        const model = requireModel(body.model);
+        if (body.contents === undefined) {
+            throw new HttpError(400, 'Missing field: contents');
+        }
+        if (body.kind === 'json') {
+            return provider.generateJsonStream({ model, contents: body.contents, schema: body.schema }, options);
+        }
+        return provider.generateTextStream({ model, contents: body.contents }, options);
+    },
+    '/api/chat/stream': (body, options) => {
+        const chat = provider.createChat({
+            model: requireModel(body.model),
+            systemInstruction: body.systemInstruction || '',
+            history: Array.isArray(body.history) ? body.history : [],
+        });
+        if (!Array.isArray(body.message)) {
+            throw new HttpError(400, 'Missing field: message');
+        }
+        return chat.sendMessageStream(body.message, options);
+    },
+};
+
+const sendJson = (res: http.ServerResponse, status: number, payload: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(JSON.stringify(payload));
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+    '.html': 'text/html; charset=utf-8',
+    '.js': 'text/javascript; charset=utf-8',
+    '.css': 'text/css; charset=utf-8',
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+    '.json': 'application/json; charset=utf-8',
+};
+
+// Serves the built app from dist/ so one process can host the whole deployment.
+const serveStatic = (req: http.IncomingMessage, res: http.ServerResponse, pathname: string) => {
+    let urlPath: string;
+    try {
+        urlPath = decodeURIComponent(pathname);
+    } catch {
+        // A malformed escape such as `%E0%A4%A`.
+        sendJson(res, 400, { error: 'Bad request path.' });
+        return;
+    }
+    let filePath = path.join(DIST_DIR, urlPath);
+    if (!filePath.startsWith(DIST_DIR + path.sep) || !fs.existsSync(filePath) || fs.statSync(filePath).isDirectory()) {
+        filePath = path.join(DIST_DIR, 'index.html'); // SPA fallback
+    }
+    if (!fs.existsSync(filePath)) {
+        sendJson(res, 404, { error: 'Not found. Run `npm run build` to serve the app from this server.' });
+        return;
+    }
+    res.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(filePath)] || 'application/octet-stream' });
+    fs.createReadStream(filePath).pipe(res);
+};
+
+const server = http.createServer(async (req, res) => {
+    const startedAt = Date.now();
+    let urlPath: string;
+    try {
+        urlPath = new URL(req.url || '/', 'http://localhost').pathname;
+    } catch {
+        sendJson(res, 400, { error: 'Bad request path.' });
+        return;
+    }
+    const route = routes[urlPath];
+    const streamRoute = streamRoutes[urlPath];
+
+    if (!route && !streamRoute) {
+        serveStatic(req, res, urlPath);
+        return;
+    }
+
+    const clientAddress = req.socket.remoteAddress || 'unknown';
+    // Only used for logging: the client picks its session id, so limiting by it could be bypassed.
+    const sessionId = String(req.headers['x-session-id'] || clientAddress);
+    let status = 200;
+    let model = '-';
+    let usage: TokenUsage | undefined;
+    const onUsage = (reported: TokenUsage) => { usage = reported; };
+    // Closing the tab or pressing Cancel drops the connection; stop the upstream call too.
+    const clientGone = new AbortController();
+    res.on('close', () => clientGone.abort());
+    try {
+        if (req.method !== 'POST') {
+            throw new HttpError(405, 'Method not allowed.');
+        }
+        const retryAfterMs = rateLimiter.check(clientAddress);
+        if (retryAfterMs > 0) {
+            res.setHeader('Retry-After', Math.ceil(retryAfterMs / 1000));
+            throw new HttpError(429, 'Too many requests. Please wait a moment and try again.');
+        }
+        const body = await readJsonBody(req);
+        model = String(body.model || '-');
+        if (route) {
+            const payload = await route(body, { onUsage });
+            sendJson(res, 200, { ...payload, usage });
+        } else {
+            const stream = streamRoute(body, { signal: clientGone.signal, onUsage });
+            for await (const text of stream) {
+                if (!res.headersSent) {
+                    res.writeHead(200, { 'Content-Type': 'application/x-ndjson; charset=utf-8' });
+                }
+                res.write(`${JSON.stringify({ text })}\n`);
+            }
+            if (!res.headersSent) {
+                res.writeHead(200, { 'Content-Type': 'application/x-ndjson; charset=utf-8' });
+            }
+            res.end(usage ? `${JSON.stringify({ usage })}\n` : undefined);
+        }
+    } catch (e) {
+        if (clientGone.signal.aborted) {
+            status = 499; // Client closed the request; nobody is left to answer.
+            return;
+        }
+        // Upstream errors are classified (quota, safety block, ...) so the browser can show the right message.
+        const error = classifyError(e);
+        status = e instanceof HttpError ? e.status : AI_ERROR_STATUS[error.code];
+        const message = error.message || 'Upstream AI request failed.';
+        if (res.headersSent) {
+            // The status line is already out, so report the failure in-band.
+            res.end(`${JSON.stringify({ error: message, status, code: error.code })}\n`);
+        } else {
+            sendJson(res, status, { error: message, code: error.code });
+        }
+        if (!(e instanceof HttpError)) {
+            console.error(`[proxy] upstream error on ${urlPath}:`, e);
+        }
+    } finally {
+        console.log(`[proxy] ${new Date().toISOString()} session=${sessionId.slice(0, 8)} ${req.method} ${urlPath} model=${model} status=${status}${usage ? ` tokens=${usage.inputTokens}/${usage.outputTokens}` : ''} ${Date.now() - startedAt}ms`);
+    }
+});
+
+setInterval(() => rateLimiter.prune(), 60_000).unref();
+
+server.listen(port, () => {
+    console.log(`[proxy] listening on http://localhost:${port} using the ${provider.name} provider`);
+});
@@ -0,0 +1,36 @@
+// server/rateLimiter.ts
+
+interface Window {
+    start: number;
+    count: number;
+}
+
+// Fixed-window request counter keyed by client address.
+export class RateLimiter {
+    private readonly windows = new Map<string, Window>();
+
+    constructor(private readonly maxRequests: number, private readonly windowMs: number = 60_000) {}
+
+    // Returns the number of milliseconds to wait, or 0 when the request may proceed.
+    check(key: string, now: number = Date.now()): number {
+        const window = this.windows.get(key);
+        if (!window || now - window.start >= this.windowMs) {
+            this.windows.set(key, { start: now, count: 1 });
+            return 0;
+        }
+        if (window.count >= this.maxRequests) {
+            return this.windowMs - (now - window.start);
+        }
+        window.count++;
+        return 0;
+    }
+
+    // Drops expired windows so idle sessions do not accumulate.
+    prune(now: number = Date.now()) {
+        for (const [key, window] of this.windows) {
+            if (now - window.start >= this.windowMs) {
+                this.windows.delete(key);
+            }
+        }
+    }
+}
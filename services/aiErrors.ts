@@ -0,0 +1,117 @@
+// services/aiErrors.ts
+// Error classification shared by the browser, the providers and the proxy server.
+
+export type AiErrorCode =
+    | 'quota_exceeded'
+    | 'safety_block'
+    | 'malformed_json'
+    | 'empty_response'
+    | 'network'
+    | 'file_too_large'
+    | 'timeout'
+    | 'cancelled'
+    | 'server_error'
+    | 'no_audio'
+    | 'no_image'
+    | 'api_error';
+
+const AI_ERROR_CODES: AiErrorCode[] = [
+    'quota_exceeded', 'safety_block', 'malformed_json', 'empty_response', 'network', 'file_too_large',
+    'timeout', 'cancelled', 'server_error', 'no_audio', 'no_image', 'api_error',
+];
+
+// Transient failures that a later attempt can fix. Bad output, refusals and oversized input are not.
+const RETRYABLE_ERROR_CODES: AiErrorCode[] = ['quota_exceeded', 'network', 'timeout', 'server_error'];
+
+// The HTTP status the proxy answers with for each code.
+export const AI_ERROR_STATUS: Record<AiErrorCode, number> = {
+    quota_exceeded: 429,
+    safety_block: 422,
+    malformed_json: 502,
+    empty_response: 502,
+    network: 502,
+    file_too_large: 413,
+    timeout: 504,
+    cancelled: 499,
+    server_error: 502,
+    no_audio: 502,
+    no_image: 502,
+    api_error: 400,
+};
+
+export class AiServiceError extends Error {
+    readonly code: AiErrorCode;
+    readonly cause?: unknown;
+    // Set when the server asked us to wait (e.g. a `Retry-After` header on a 429).
+    readonly retryAfterMs?: number;
+
+    constructor(code: AiErrorCode, message: string, cause?: unknown, retryAfterMs?: number) {
+        super(message);
+        this.name = 'AiServiceError';
+        this.code = code;
+        this.cause = cause;
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+// Structured output that still failed validation after the repair pass. Keeps what the model
+// actually said so the UI can show it in a diagnostics view.
+export class InvalidResponseError extends AiServiceError {
+    readonly rawOutput: string;
+    readonly issues: string[];
+
+    constructor(message: string, rawOutput: string, issues: string[]) {
+        super('malformed_json', message);
+        this.name = 'InvalidResponseError';
+        this.rawOutput = rawOutput;
+        this.issues = issues;
+    }
+}
+
+export const isAiErrorCode = (value: unknown): value is AiErrorCode => AI_ERROR_CODES.includes(value as AiErrorCode);
+
+const codeFromStatus = (status: number): AiErrorCode => {
+    if (status === 429) return 'quota_exceeded';
+    if (status === 413) return 'file_too_large';
+    if (status === 408 || status === 504) return 'timeout';
+    if (status === 499) return 'cancelled';
+    if (status >= 500) return 'server_error';
+    return 'api_error';
+};
+
+// Maps anything thrown by a provider, `fetch` or the proxy onto an `AiServiceError`.
+export const classifyError = (error: unknown): AiServiceError => {
+    if (error instanceof AiServiceError) {
+        return error;
+    }
+    const { name, message = '', status, code, retryAfterMs } = (error ?? {}) as {
+        name?: string;
+        message?: string;
+        status?: unknown;
+        code?: unknown;
+        retryAfterMs?: number;
+    };
+    if (name === 'AbortError') {
+        return new AiServiceError('cancelled', 'The AI request was cancelled.', error);
+    }
+    if (isAiErrorCode(code)) {
+        return new AiServiceError(code, message, error, retryAfterMs);
+    }
+    if (/RESOURCE_EXHAUSTED|quota/i.test(message)) {
+        return new AiServiceError('quota_exceeded', message, error, retryAfterMs);
+    }
+    if (/SAFETY|PROHIBITED_CONTENT|blocked/i.test(message)) {
+        return new AiServiceError('safety_block', message, error);
+    }
+    if (typeof status === 'number') {
+        return new AiServiceError(codeFromStatus(status), message, error, retryAfterMs);
+    }
+    // `fetch` rejects with a TypeError when the server cannot be reached at all.
+    const isFetchFailure = error instanceof TypeError && /fetch|network|load failed/i.test(message);
+    if (isFetchFailure || (typeof navigator !== 'undefined' && navigator.onLine === false)) {
+        return new AiServiceError('network', message || 'The network request failed.', error);
+    }
+    return new AiServiceError('api_error', message || 'The AI request failed.', error);
+};
+
+export const isRetryableError = (error: AiServiceError): boolean => RETRYABLE_ERROR_CODES.includes(error.code);
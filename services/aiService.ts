@@ -0,0 +1,344 @@
+// services/aiService.ts
+
+import { Part, Schema } from '@google/genai';
+import { AiContents, AiProvider, RequestOptions, SpeakerVoice } from './providers/types';
+import { createMockProvider } from './providers/mockProvider';
+import { createProxyProvider, DEFAULT_PROXY_URL } from './providers/proxyProvider';
+import { createGeminiProvider } from './providers/geminiProvider';
+import { AiFeature, FEATURE_MODELS } from './models';
+import { parseJsonLenient, parsePartialJson } from './partialJson';
+import { buildCacheKey, isCacheAvailable, readCache, writeCache, CacheKeyInput } from './responseCache';
+import { AppSettings, getSettings } from './settings';
+import { recordUsage } from './usageTracker';
+import { AiServiceError, InvalidResponseError, classifyError, isRetryableError } from './aiErrors';
+import { ValidationResult, Validator } from './responseValidators';
+
+export type { AiContents, AiProvider, SpeakerVoice } from './providers/types';
+export * from './models';
+export * from './aiErrors';
+
+export const AI_SERVICE_CONFIG = {
+    timeoutMs: 180_000,
+    maxRetries: 2,
+    // Backoff doubles from here on every attempt, plus up to 50% jitter.
+    retryBaseDelayMs: 1_000,
+    // A server asking us to wait longer than this is treated as a hard failure.
+    maxRetryDelayMs: 30_000,
+    // Inline files are sent base64-encoded, which must stay under the proxy's 25MB body limit.
+    maxFileBytes: 15 * 1024 * 1024,
+};
+
+// Features whose answers are worth replaying. Exams are left out on purpose: asking again
+// for the same exam should produce a new variant.
+const CACHED_FEATURES: AiFeature[] = ['learning_plan', 'lesson', 'summary', 'slides', 'question_analysis', 'translation', 'vietnamese_spirit'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Requests go through the server proxy by default; set AI_PROVIDER=mock to run the whole app offline,
+// or enter a personal API key in the settings screen to call Gemini directly from the browser.
+const createDefaultProvider = ({ connectionMode, apiKey, proxyUrl }: AppSettings): AiProvider => {
+    if (process.env.AI_PROVIDER === 'mock') {
+        return createMockProvider();
+    }
+    if (connectionMode === 'local_key' && apiKey.trim()) {
+        return createGeminiProvider(apiKey.trim());
+    }
+    return createProxyProvider(proxyUrl.trim() || process.env.AI_PROXY_URL || DEFAULT_PROXY_URL);
+};
+
+// Rebuilt whenever the connection settings change, unless a provider was installed with `setProvider`.
+let defaultProvider: { connection: string; provider: AiProvider } | null = null;
+let providerOverride: AiProvider | null = null;
+
+export const getProvider = (): AiProvider => {
+    if (providerOverride) {
+        return providerOverride;
+    }
+    const settings = getSettings();
+    const connection = JSON.stringify([settings.connectionMode, settings.apiKey, settings.proxyUrl]);
+    if (defaultProvider?.connection !== connection) {
+        defaultProvider = { connection, provider: createDefaultProvider(settings) };
+    }
+    return defaultProvider.provider;
+};
+
+export const setProvider = (nextProvider: AiProvider | null) => {
+    providerOverride = nextProvider;
+};
+
+export const getModel = (feature: AiFeature): string => getSettings().featureModels[feature] || FEATURE_MODELS[feature];
+
+// Passed to every provider call so the tokens it used are recorded against the feature.
+const trackUsage = (feature: AiFeature, model: string): RequestOptions => ({
+    onUsage: usage => recordUsage({ feature, model, ...usage }),
+});
+
+export interface InlineDataPart {
+    inlineData: {
+        data: string;
+        mimeType: string;
+    };
+}
+
+export const fileToGenerativePart = async (file: File): Promise<InlineDataPart> => {
+    if (file.size > AI_SERVICE_CONFIG.maxFileBytes) {
+        throw new AiServiceError('file_too_large', `${file.name} is larger than ${AI_SERVICE_CONFIG.maxFileBytes / (1024 * 1024)}MB.`);
+    }
+    const data = await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(file);
+    });
+    return {
+        inlineData: {
+            data,
+            mimeType: file.type,
+        },
+    };
+};
+
+const withTimeout = <T,>(promise: Promise<T>): Promise<T> => {
+    return new Promise<T>((resolve, reject) => {
+        const timer = setTimeout(
+            () => reject(new AiServiceError('timeout', `The AI request timed out after ${AI_SERVICE_CONFIG.timeoutMs}ms.`)),
+            AI_SERVICE_CONFIG.timeoutMs,
+        );
+        promise.then(
+            value => { clearTimeout(timer); resolve(value); },
+            error => { clearTimeout(timer); reject(error); },
+        );
+    });
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const getRetryDelay = (error: AiServiceError, attempt: number): number => {
+    const backoff = AI_SERVICE_CONFIG.retryBaseDelayMs * 2 ** attempt;
+    return Math.max(error.retryAfterMs ?? 0, backoff + Math.random() * backoff * 0.5);
+};
+
+// Runs `request`, retrying transient failures with exponential backoff. Everything thrown is an AiServiceError.
+const runRequest = async <T,>(request: () => Promise<T>): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await withTimeout(request());
+        } catch (e) {
+            const error = classifyError(e);
+            const retryDelay = getRetryDelay(error, attempt);
+            if (!isRetryableError(error) || attempt >= AI_SERVICE_CONFIG.maxRetries || retryDelay > AI_SERVICE_CONFIG.maxRetryDelayMs) {
+                throw error;
+            }
+            console.warn(`AI request failed (${error.code}), retrying in ${Math.round(retryDelay)}ms.`);
+            await delay(retryDelay);
+        }
+    }
+};
+
+// Drains a provider stream, reporting the accumulated text after every chunk. Streams are
+// not retried, since the user has already seen part of the answer.
+const runStream = async (
+    openStream: (signal: AbortSignal) => AsyncIterable<string>,
+    onText: (text: string) => void,
+    signal?: AbortSignal,
+): Promise<string> => {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    signal?.addEventListener('abort', abort);
+    if (signal?.aborted) abort();
+    let timedOut = false;
+    const timer = setTimeout(() => { timedOut = true; abort(); }, AI_SERVICE_CONFIG.timeoutMs);
+
+    let text = '';
+    try {
+        for await (const delta of openStream(controller.signal)) {
+            if (controller.signal.aborted) break;
+            text += delta;
+            onText(text);
+        }
+        if (controller.signal.aborted) {
+            throw new DOMException('The request was aborted.', 'AbortError');
+        }
+        return text;
+    } catch (e) {
+        if (timedOut) {
+            throw new AiServiceError('timeout', `The AI request timed out after ${AI_SERVICE_CONFIG.timeoutMs}ms.`, e);
+        }
+        if (signal?.aborted) {
+            throw new AiServiceError('cancelled', 'The AI request was cancelled.', e);
+        }
+        throw classifyError(e);
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', abort);
+    }
+};
+
+export const isCancelledError = (error: unknown): boolean => error instanceof AiServiceError && error.code === 'cancelled';
+
+// The `LOCALIZATION_STRINGS` key describing `error` to the user, e.g. `t(getErrorMessageKey(e))`.
+export const getErrorMessageKey = (error: unknown): string => `error_${classifyError(error).code}`;
+
+// Serves the answer from the response cache when possible. `fetchText` must only resolve with
+// answers that are safe to replay (e.g. JSON that parsed), since those are what get stored.
+const withResponseCache = async (feature: AiFeature, input: CacheKeyInput, fetchText: () => Promise<string>): Promise<string> => {
+    const { alwaysRegenerate, cacheTtlDays, cacheMaxMb } = getSettings();
+    if (alwaysRegenerate || !CACHED_FEATURES.includes(feature) || !isCacheAvailable()) {
+        return fetchText();
+    }
+    let key: string | null = null;
+    try {
+        key = await buildCacheKey(input);
+        const cached = await readCache(key, cacheTtlDays * DAY_MS);
+        if (cached !== null) {
+            return cached;
+        }
+    } catch (e) {
+        console.warn('Response cache lookup failed:', e);
+    }
+    const text = await fetchText();
+    if (key) {
+        writeCache(key, input.model, text, cacheMaxMb * 1024 * 1024).catch(e => console.warn('Response cache write failed:', e));
+    }
+    return text;
+};
+
+interface GenerateRequest {
+    feature: AiFeature;
+    contents: AiContents;
+}
+
+interface StreamCallbacks<T> {
+    signal?: AbortSignal;
+    onPartial?: (partial: T) => void;
+}
+
+export const generateText = async ({ feature, contents }: GenerateRequest): Promise<string> => {
+    const model = getModel(feature);
+    return withResponseCache(feature, { kind: 'text', model, contents }, () => runRequest(() => getProvider().generateText({ model, contents }, trackUsage(feature, model))));
+};
+
+export const generateTextStream = async ({ feature, contents, signal, onPartial }: GenerateRequest & StreamCallbacks<string>): Promise<string> => {
+    const model = getModel(feature);
+    return withResponseCache(feature, { kind: 'text', model, contents }, () => runStream(
+        streamSignal => getProvider().generateTextStream({ model, contents }, { ...trackUsage(feature, model), signal: streamSignal }),
+        text => onPartial?.(text),
+        signal,
+    ));
+};
+
+interface GenerateJsonRequest<T> extends GenerateRequest {
+    schema: Schema;
+    // Checks the parsed answer; see `responseValidators.ts`.
+    validate: Validator<T>;
+}
+
+const checkJson = <T,>(text: string, validate: Validator<T>): ValidationResult<T> => {
+    const parsed = parseJsonLenient(text || '');
+    if (parsed === undefined) {
+        return { issues: ['(root): the response is not valid JSON'] };
+    }
+    return validate(parsed);
+};
+
+const buildRepairPrompt = (rawOutput: string, issues: string[]) => `
+    The JSON below was supposed to follow the response schema, but it has these problems:
+    ${issues.map(issue => `- ${issue}`).join('\n    ')}
+
+    Return the corrected JSON object only. Keep all existing content and its language, and fill in anything that is missing.
+
+    JSON:
+    ${rawOutput}
+`;
+
+// Validates a finished JSON answer. Output that fails is repaired locally (fences, trailing commas,
+// truncation) and, if still invalid, sent back to the model once together with the list of problems.
+const validateJsonResponse = async <T,>(rawOutput: string, { feature, model, schema, validate }: { feature: AiFeature; model: string; schema: Schema; validate: Validator<T> }): Promise<T> => {
+    if (!rawOutput.trim()) {
+        throw new AiServiceError('empty_response', 'Received an empty response from the API.');
+    }
+    const result = checkJson(rawOutput, validate);
+    if (!result.issues.length) {
+        return result.value!;
+    }
+    console.warn('AI response failed validation, asking the model to repair it:', result.issues);
+    const repairedOutput = await runRequest(() => getProvider().generateJson({ model, contents: buildRepairPrompt(rawOutput, result.issues), schema }, trackUsage(feature, model)));
+    const repaired = checkJson(repairedOutput, validate);
+    if (!repaired.issues.length) {
+        return repaired.value!;
+    }
+    throw new InvalidResponseError('The AI response did not match the expected format.', rawOutput, result.issues);
+};
+
+export const generateJson = async <T,>({ feature, contents, schema, validate }: GenerateJsonRequest<T>): Promise<T> => {
+    const model = getModel(feature);
+    // Only validated answers are cached, re-serialized so a repaired answer is what gets replayed.
+    const text = await withResponseCache(feature, { kind: 'json', model, contents, schema }, async () => {
+        const rawOutput = await runRequest(() => getProvider().generateJson({ model, contents, schema }, trackUsage(feature, model)));
+        return JSON.stringify(await validateJsonResponse(rawOutput, { feature, model, schema, validate }));
+    });
+    return validateJsonResponse(text, { feature, model, schema, validate });
+};
+
+// Streams the JSON answer, passing every field that has started to arrive to `onPartial`.
+// Put the field the user reads first at the top of the schema's `propertyOrdering`.
+export const generateJsonStream = async <T,>({ feature, contents, schema, validate, signal, onPartial }: GenerateJsonRequest<T> & StreamCallbacks<Partial<T>>): Promise<T> => {
+    const model = getModel(feature);
+    const text = await withResponseCache(feature, { kind: 'json', model, contents, schema }, async () => {
+        const rawOutput = await runStream(
+            streamSignal => getProvider().generateJsonStream({ model, contents, schema }, { ...trackUsage(feature, model), signal: streamSignal }),
+            partialText => {
+                const partial = parsePartialJson(partialText);
+                if (onPartial && partial && typeof partial === 'object') {
+                    onPartial(partial as Partial<T>);
+                }
+            },
+            signal,
+        );
+        return JSON.stringify(await validateJsonResponse(rawOutput, { feature, model, schema, validate }));
+    });
+    return validateJsonResponse(text, { feature, model, schema, validate });
+};
+
+export interface ChatSession {
+    sendMessage: (parts: Part[]) => Promise<string>;
+    sendMessageStream: (parts: Part[], callbacks: StreamCallbacks<string>) => Promise<string>;
+}
+
+export const createChat = ({ feature, systemInstruction }: { feature: AiFeature; systemInstruction: string }): ChatSession => {
+    const model = getModel(feature);
+    const chat = getProvider().createChat({ model, systemInstruction });
+    return {
+        sendMessage: (parts: Part[]) => runRequest(() => chat.sendMessage(parts, trackUsage(feature, model))),
+        sendMessageStream: (parts: Part[], { signal, onPartial }) => runStream(
+            streamSignal => chat.sendMessageStream(parts, { ...trackUsage(feature, model), signal: streamSignal }),
+            text => onPartial?.(text),
+            signal,
+        ),
+    };
+};
+
+// Returns base64-encoded 24kHz mono 16-bit PCM. `speakers` voices a two-speaker dialogue whose
+// lines are labelled with their names.
+export const generateSpeech = async (text: string, voiceName: string = getSettings().translationVoice, speakers?: SpeakerVoice[]): Promise<string> => {
+    return runRequest(async () => {
+        const model = getModel('tts');
+        const base64Audio = await getProvider().generateSpeech({ model, text, voiceName, ...(speakers ? { speakers } : {}) }, trackUsage('tts', model));
+        if (!base64Audio) {
+            throw new AiServiceError('no_audio', 'No audio data received from TTS API.');
+        }
+        return base64Audio;
+    });
+};
+
+// Returns a data URL for the generated image.
+export const generateImage = async (prompt: string): Promise<string> => {
+    return runRequest(async () => {
+        const model = getModel('image');
+        const imageData = await getProvider().generateImage({ model, prompt }, trackUsage('image', model));
+        if (!imageData) {
+            throw new AiServiceError('no_image', 'No image data found in response.');
+        }
+        return imageData;
+    });
+};
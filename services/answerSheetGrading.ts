@@ -0,0 +1,133 @@
+// services/answerSheetGrading.ts
+// Scores answer sheets read from photos (see answerSheetScanner.ts) against the answer key of the
+// exam version (mã đề) filled in on each, and lays the scores out as a table.
+
+import { Exam, ExamAnswers, ExamAttempt } from '../types';
+import { AnswerSheetReading } from './answerSheetScanner';
+import { createExamAnswerSheetLayout } from './examPrint';
+import { getExamQuestions } from './examModel';
+import { gradeAttempt, gradeQuestion } from './examGrading';
+import { renderTable } from './examRenderer';
+
+type Translate = (key: string) => string;
+
+export interface SheetScore {
+    correct: number;
+    incorrect: number;
+    unanswered: number;
+    // Questions with more than one bubble filled in, which score nothing.
+    multipleMarks: number[];
+    earnedPoints: number;
+    totalPoints: number;
+}
+
+export interface ScannedSheet {
+    fileName: string;
+    // Undefined when no answer sheet was found in the photo.
+    reading?: AnswerSheetReading;
+    // As read, or as corrected by the teacher.
+    studentId: string;
+    versionCode: string;
+}
+
+// The version with the code read from the sheet; unread digits ('?') match any digit. A single
+// exam without versions matches every sheet.
+export const matchExamVersion = (versions: Exam[], versionCode: string): Exam | undefined => {
+    if (versions.length === 1) return versions[0];
+    const matches = versions.filter(version => version.versionCode !== undefined
+        && version.versionCode.length === versionCode.length
+        && [...versionCode].every((digit, index) => digit === '?' || digit === version.versionCode![index]));
+    return matches.length === 1 ? matches[0] : undefined;
+};
+
+// Only the multiple-choice questions are on the sheet; the rest of the exam is graded by hand.
+export const scoreAnswerSheet = (reading: AnswerSheetReading, exam: Exam): SheetScore => {
+    const questions = getExamQuestions(exam);
+    const score: SheetScore = { correct: 0, incorrect: 0, unanswered: 0, multipleMarks: [], earnedPoints: 0, totalPoints: 0 };
+    createExamAnswerSheetLayout(exam).answers.forEach((row, index) => {
+        const question = questions[row.number - 1];
+        const marked = reading.rows[index]?.marked ?? [];
+        score.totalPoints += question.points;
+        if (marked.length > 1) {
+            score.multipleMarks.push(row.number);
+            score.incorrect++;
+            return;
+        }
+        const result = gradeQuestion(question, marked[0]);
+        score.earnedPoints += result.earnedPoints;
+        if (result.outcome === 'correct') score.correct++;
+        else if (result.outcome === 'unanswered') score.unanswered++;
+        else score.incorrect++;
+    });
+    return score;
+};
+
+// The sheet as an attempt on the questions it answers, the only ones it can tell anything about.
+// Questions with several bubbles filled in count as not answered.
+export const answerSheetAttempt = (reading: AnswerSheetReading, exam: Exam, submittedAt: number = Date.now()): ExamAttempt => {
+    const questions = getExamQuestions(exam);
+    const answers: ExamAnswers = {};
+    const onSheet = new Set<string>();
+    createExamAnswerSheetLayout(exam).answers.forEach((row, index) => {
+        const question = questions[row.number - 1];
+        const marked = reading.rows[index]?.marked ?? [];
+        onSheet.add(question.id);
+        if (marked.length === 1) answers[question.id] = marked[0];
+    });
+    const sheetExam: Exam = {
+        ...exam,
+        sections: exam.sections
+            .map(section => ({ ...section, questions: section.questions.filter(question => onSheet.has(question.id)) }))
+            .filter(section => section.questions.length > 0),
+    };
+    return gradeAttempt(sheetExam, answers, { startedAt: submittedAt, submittedAt, timedOut: false });
+};
+
+const formatPoints = (points: number): string => String(Math.round(points * 100) / 100);
+
+// Points of the questions answered on the sheet.
+const answerSheetPoints = (exam: Exam): number => {
+    const questions = getExamQuestions(exam);
+    return createExamAnswerSheetLayout(exam).answers.reduce((sum, row) => sum + questions[row.number - 1].points, 0);
+};
+
+// What the teacher should look at on the sheet, or '' when nothing.
+export const answerSheetNotes = (sheet: ScannedSheet, score: SheetScore | undefined, t: Translate): string => {
+    if (!sheet.reading) return t('answer_sheet_not_found');
+    return [
+        !score ? t('answer_sheet_unknown_version') : '',
+        score && score.multipleMarks.length > 0 ? `${t('answer_sheet_multiple_marks')}: ${score.multipleMarks.join(', ')}` : '',
+        sheet.reading.uncertain ? t('answer_sheet_check_marks') : '',
+    ].filter(Boolean).join('; ');
+};
+
+// One row per sheet, in the order given.
+export const renderScoreTable = (sheets: ScannedSheet[], versions: Exam[], t: Translate, format: 'markdown' | 'word' = 'markdown'): string => {
+    const header = [
+        '#', t('student_id'), t('version_code'), t('outcome_correct'), t('outcome_incorrect'),
+        t('outcome_unanswered'), `${t('score')} (/${formatPoints(versions.length > 0 ? answerSheetPoints(versions[0]) : 0)})`, t('answer_sheet_photo'), t('answer_sheet_notes'),
+    ];
+    const rows = sheets.map((sheet, index) => {
+        const version = matchExamVersion(versions, sheet.versionCode);
+        const score = sheet.reading && version ? scoreAnswerSheet(sheet.reading, version) : undefined;
+        return [
+            String(index + 1),
+            sheet.studentId,
+            sheet.versionCode,
+            score ? String(score.correct) : '',
+            score ? String(score.incorrect) : '',
+            score ? String(score.unanswered) : '',
+            score ? formatPoints(score.earnedPoints) : '',
+            sheet.fileName,
+            answerSheetNotes(sheet, score, t),
+        ];
+    });
+    return renderTable(header, rows, format);
+};
+
+// Comma-separated, with a byte order mark so Excel opens Vietnamese names correctly.
+export const renderScoreTableCsv = (sheets: ScannedSheet[], versions: Exam[], t: Translate): Blob => {
+    const lines = renderScoreTable(sheets, versions, t, 'word').split('\n')
+        .map(line => line.split('\t').map(cell => /[",\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell).join(','));
+    return new Blob(['\uFEFF', lines.join('\r\n')], { type: 'text/csv;charset=utf-8' });
+};
@@ -0,0 +1,101 @@
+// services/answerSheetLayout.ts
+// Geometry of the bubble answer sheet (phiếu trả lời trắc nghiệm) on an A4 page, in millimetres
+// from the top-left corner. Printing draws the sheet from it and reading a photo of a filled-in
+// sheet looks for the bubbles at the same places, so both must use this module.
+
+export const PAGE_WIDTH_MM = 210;
+export const PAGE_HEIGHT_MM = 297;
+
+export const ANSWER_SHEET_MAX_QUESTIONS = 100;
+export const STUDENT_ID_DIGITS = 6;
+export const VERSION_CODE_DIGITS = 3;
+
+const MARKER_SIZE = 6;
+const MARKER_MARGIN = 10;
+const BUBBLE_RADIUS = 2.3;
+
+// Student ID and version code are filled in digit by digit, one column of 0–9 bubbles per digit.
+const DIGIT_TOP = 40;
+const DIGIT_SPACING = 5;
+const STUDENT_ID_LEFT = 122;
+const VERSION_CODE_LEFT = 167;
+
+const ANSWERS_TOP = 105;
+const ANSWERS_LEFT = 22;
+const ROWS_PER_COLUMN = 25;
+const ROW_SPACING = 6.6;
+const COLUMN_WIDTH = 44;
+const NUMBER_WIDTH = 10;
+const OPTION_SPACING = 7;
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+export interface DigitField {
+    id: 'student_id' | 'version_code';
+    // Top-left corner of the boxes the digits are also written in.
+    label: Point;
+    // One column per digit, bubbles for 0–9 from top to bottom.
+    columns: Point[][];
+}
+
+export interface AnswerRow {
+    number: number;
+    label: Point;
+    // One bubble per option, A first.
+    bubbles: Point[];
+}
+
+export interface AnswerSheetLayout {
+    optionCount: number;
+    markerSize: number;
+    bubbleRadius: number;
+    digitSpacing: number;
+    // Top-left corners of the four solid squares that locate the sheet in a photo, clockwise from
+    // the top-left one.
+    markers: Point[];
+    digitFields: DigitField[];
+    answers: AnswerRow[];
+}
+
+const digitField = (id: DigitField['id'], left: number, digits: number): DigitField => ({
+    id,
+    label: { x: left - DIGIT_SPACING / 2, y: DIGIT_TOP - 10 },
+    columns: Array.from({ length: digits }, (_, column) => Array.from({ length: 10 }, (_, digit) => ({
+        x: left + column * DIGIT_SPACING,
+        y: DIGIT_TOP + digit * DIGIT_SPACING,
+    }))),
+});
+
+// `questionNumbers` are the exam's numbers of the questions answered on the sheet, usually its
+// multiple-choice questions.
+export const createAnswerSheetLayout = (questionNumbers: number[], optionCount: number = 4): AnswerSheetLayout => {
+    const far = { x: PAGE_WIDTH_MM - MARKER_MARGIN - MARKER_SIZE, y: PAGE_HEIGHT_MM - MARKER_MARGIN - MARKER_SIZE };
+    return {
+        optionCount,
+        markerSize: MARKER_SIZE,
+        bubbleRadius: BUBBLE_RADIUS,
+        digitSpacing: DIGIT_SPACING,
+        markers: [
+            { x: MARKER_MARGIN, y: MARKER_MARGIN },
+            { x: far.x, y: MARKER_MARGIN },
+            { x: far.x, y: far.y },
+            { x: MARKER_MARGIN, y: far.y },
+        ],
+        digitFields: [
+            digitField('student_id', STUDENT_ID_LEFT, STUDENT_ID_DIGITS),
+            digitField('version_code', VERSION_CODE_LEFT, VERSION_CODE_DIGITS),
+        ],
+        answers: questionNumbers.slice(0, ANSWER_SHEET_MAX_QUESTIONS).map((number, index) => {
+            const left = ANSWERS_LEFT + Math.floor(index / ROWS_PER_COLUMN) * COLUMN_WIDTH;
+            const y = ANSWERS_TOP + (index % ROWS_PER_COLUMN) * ROW_SPACING;
+            return {
+                number,
+                label: { x: left, y },
+                bubbles: Array.from({ length: optionCount }, (_, option) => ({ x: left + NUMBER_WIDTH + option * OPTION_SPACING, y })),
+            };
+        }),
+    };
+};
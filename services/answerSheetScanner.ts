@@ -0,0 +1,305 @@
+// services/answerSheetScanner.ts
+// Reads photos of filled-in answer sheets (see answerSheetLayout.ts) in the browser, without the
+// model: the four corner squares locate the page, whatever its angle and perspective, and each
+// bubble is read from how much of its inside is dark.
+
+import { AnswerSheetLayout, Point } from './answerSheetLayout';
+
+export interface GrayImage {
+    width: number;
+    height: number;
+    // One brightness value (0–255) per pixel, row by row.
+    data: Uint8Array;
+}
+
+export interface MarkReading {
+    // The options (or digits) whose bubble is filled in.
+    marked: number[];
+    // Some bubble is neither clearly empty nor clearly filled, e.g. an erased mark.
+    uncertain: boolean;
+}
+
+export interface AnswerSheetReading {
+    // Digits that are not filled in exactly once read as '?'.
+    studentId: string;
+    versionCode: string;
+    // One per answer row of the layout, in its order.
+    rows: MarkReading[];
+    uncertain: boolean;
+}
+
+// Photos are scaled down to this many pixels on their long side before reading.
+export const SCAN_MAX_SIDE = 1600;
+
+// A pixel is dark when it is this much darker than its surroundings, so shadows and uneven light
+// across the page do not matter.
+const DARKNESS = 0.8;
+// The corner squares measure between these shares of the photo's short side.
+const MIN_MARKER_SHARE = 0.01;
+const MAX_MARKER_SHARE = 0.07;
+// Farthest pixel from the centre over the square root of the area: 0.71 for a square, at any
+// angle, and 0.56 for a disc, which tells the corner squares from filled-in bubbles.
+const MIN_SQUARENESS = 0.63;
+const MAX_SQUARENESS = 0.85;
+// Share of the printed bubble outlines found where the layout puts them, below which the photo is
+// taken not to show an answer sheet.
+const MIN_OUTLINE_SCORE = 0.35;
+// Share of a bubble's inside that is dark when it is filled in: at least MIN_FILL, and FILL_MARGIN
+// above an empty bubble, whose printed letter darkens it a little.
+const MIN_FILL = 0.45;
+const FILL_MARGIN = 0.3;
+const UNCERTAIN_MARGIN = 0.15;
+// Only the middle of a bubble is read, so its outline is not.
+const INSIDE_SHARE = 0.6;
+
+export const toGrayImage = ({ width, height, data }: { width: number; height: number; data: ArrayLike<number> }): GrayImage => {
+    const gray = new Uint8Array(width * height);
+    for (let i = 0; i < gray.length; i++) {
+        gray[i] = Math.round(0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]);
+    }
+    return { width, height, data: gray };
+};
+
+export const loadImageFile = async (file: Blob, maxSide: number = SCAN_MAX_SIDE): Promise<GrayImage> => {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, maxSide / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    const context = canvas.getContext('2d')!;
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return toGrayImage(context.getImageData(0, 0, canvas.width, canvas.height));
+};
+
+// Compares each pixel with the mean of a square around it, taken from an integral image.
+const binarize = ({ width, height, data }: GrayImage): Uint8Array => {
+    const stride = width + 1;
+    const integral = new Uint32Array(stride * (height + 1));
+    for (let y = 0; y < height; y++) {
+        let rowSum = 0;
+        for (let x = 0; x < width; x++) {
+            rowSum += data[y * width + x];
+            integral[(y + 1) * stride + x + 1] = integral[y * stride + x + 1] + rowSum;
+        }
+    }
+    const half = Math.max(4, Math.round(Math.min(width, height) / 32));
+    const dark = new Uint8Array(width * height);
+    for (let y = 0; y < height; y++) {
+        const top = Math.max(0, y - half);
+        const bottom = Math.min(height, y + half + 1);
+        for (let x = 0; x < width; x++) {
+            const left = Math.max(0, x - half);
+            const right = Math.min(width, x + half + 1);
+            const sum = integral[bottom * stride + right] - integral[top * stride + right] - integral[bottom * stride + left] + integral[top * stride + left];
+            dark[y * width + x] = data[y * width + x] * (right - left) * (bottom - top) < sum * DARKNESS ? 1 : 0;
+        }
+    }
+    return dark;
+};
+
+// Centres of the dark regions shaped like the corner squares.
+const findMarkerCandidates = (dark: Uint8Array, width: number, height: number): Point[] => {
+    const minArea = (Math.min(width, height) * MIN_MARKER_SHARE) ** 2;
+    const maxArea = (Math.min(width, height) * MAX_MARKER_SHARE) ** 2;
+    const labels = new Int32Array(width * height);
+    const stack = new Int32Array(width * height);
+    const candidates: Point[] = [];
+    let label = 0;
+    for (let start = 0; start < dark.length; start++) {
+        if (!dark[start] || labels[start]) continue;
+        label++;
+        let size = 0;
+        let count = 0;
+        let sumX = 0;
+        let sumY = 0;
+        let minX = width, maxX = 0, minY = height, maxY = 0;
+        stack[size++] = start;
+        labels[start] = label;
+        while (size > 0) {
+            const index = stack[--size];
+            const x = index % width;
+            const y = (index - x) / width;
+            count++;
+            sumX += x;
+            sumY += y;
+            minX = Math.min(minX, x);
+            maxX = Math.max(maxX, x);
+            minY = Math.min(minY, y);
+            maxY = Math.max(maxY, y);
+            for (const next of [x > 0 ? index - 1 : -1, x < width - 1 ? index + 1 : -1, y > 0 ? index - width : -1, y < height - 1 ? index + width : -1]) {
+                if (next >= 0 && dark[next] && !labels[next]) {
+                    labels[next] = label;
+                    stack[size++] = next;
+                }
+            }
+        }
+        const boxWidth = maxX - minX + 1;
+        const boxHeight = maxY - minY + 1;
+        if (count < minArea || count > maxArea || boxWidth > 2 * boxHeight || boxHeight > 2 * boxWidth || count < 0.45 * boxWidth * boxHeight) {
+            continue;
+        }
+        const center = { x: sumX / count, y: sumY / count };
+        let farthest = 0;
+        for (let y = minY; y <= maxY; y++) {
+            for (let x = minX; x <= maxX; x++) {
+                if (labels[y * width + x] === label) {
+                    farthest = Math.max(farthest, (x - center.x) ** 2 + (y - center.y) ** 2);
+                }
+            }
+        }
+        const squareness = Math.sqrt(farthest / count);
+        if (squareness >= MIN_SQUARENESS && squareness <= MAX_SQUARENESS) {
+            candidates.push(center);
+        }
+    }
+    return candidates;
+};
+
+// The candidate nearest each corner of the photo, clockwise from the top-left; undefined unless
+// all four are found, each in its own quarter.
+const pickCornerMarkers = (candidates: Point[], width: number, height: number): Point[] | undefined => {
+    const corners = [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }];
+    const picked = corners.map(corner => {
+        const inQuarter = candidates.filter(candidate =>
+            (candidate.x < width / 2) === (corner.x === 0) && (candidate.y < height / 2) === (corner.y === 0));
+        return inQuarter.sort((a, b) => Math.hypot(a.x - corner.x, a.y - corner.y) - Math.hypot(b.x - corner.x, b.y - corner.y))[0];
+    });
+    return picked.every(Boolean) ? picked : undefined;
+};
+
+// Gaussian elimination with partial pivoting on an augmented matrix; undefined when singular.
+const solveLinearSystem = (rows: number[][]): number[] | undefined => {
+    const size = rows.length;
+    const matrix = rows.map(row => [...row]);
+    for (let column = 0; column < size; column++) {
+        let pivot = column;
+        for (let row = column + 1; row < size; row++) {
+            if (Math.abs(matrix[row][column]) > Math.abs(matrix[pivot][column])) pivot = row;
+        }
+        if (Math.abs(matrix[pivot][column]) < 1e-9) return undefined;
+        [matrix[column], matrix[pivot]] = [matrix[pivot], matrix[column]];
+        for (let row = 0; row < size; row++) {
+            if (row === column) continue;
+            const factor = matrix[row][column] / matrix[column][column];
+            for (let k = column; k <= size; k++) matrix[row][k] -= factor * matrix[column][k];
+        }
+    }
+    return matrix.map((row, index) => row[size] / row[index]);
+};
+
+// The perspective transform taking the four `from` points onto the four `to` points.
+export const createPerspectiveTransform = (from: Point[], to: Point[]): ((point: Point) => Point) | undefined => {
+    const h = solveLinearSystem(from.flatMap(({ x, y }, index) => {
+        const { x: u, y: v } = to[index];
+        return [
+            [x, y, 1, 0, 0, 0, -u * x, -u * y, u],
+            [0, 0, 0, x, y, 1, -v * x, -v * y, v],
+        ];
+    }));
+    if (!h) return undefined;
+    return ({ x, y }) => {
+        const w = h[6] * x + h[7] * y + 1;
+        return { x: (h[0] * x + h[1] * y + h[2]) / w, y: (h[3] * x + h[4] * y + h[5]) / w };
+    };
+};
+
+// Points inside a disc of the given radius, about four across the radius.
+const discOffsets = (radius: number): Point[] => {
+    const step = radius / 4;
+    const offsets: Point[] = [];
+    for (let dy = -4; dy <= 4; dy++) {
+        for (let dx = -4; dx <= 4; dx++) {
+            if (dx * dx + dy * dy <= 16) offsets.push({ x: dx * step, y: dy * step });
+        }
+    }
+    return offsets;
+};
+
+// Directions around a circle, each with points just inside, on and just outside it.
+const outlineOffsets = (radius: number): Point[][] => Array.from({ length: 24 }, (_, index) => {
+    const angle = index * Math.PI / 12;
+    return [0.85, 1, 1.15].map(scale => ({ x: Math.cos(angle) * radius * scale, y: Math.sin(angle) * radius * scale }));
+});
+
+interface SheetView {
+    dark: Uint8Array;
+    width: number;
+    height: number;
+    toImage: (point: Point) => Point;
+}
+
+const isDark = (view: SheetView, point: Point): boolean => {
+    const { x, y } = view.toImage(point);
+    const column = Math.round(x);
+    const row = Math.round(y);
+    return column >= 0 && row >= 0 && column < view.width && row < view.height && view.dark[row * view.width + column] === 1;
+};
+
+const darkShare = (view: SheetView, center: Point, offsets: Point[]): number =>
+    offsets.filter(offset => isDark(view, { x: center.x + offset.x, y: center.y + offset.y })).length / offsets.length;
+
+// Share of directions in which the printed outline of each bubble is found.
+const outlineScore = (view: SheetView, bubbles: Point[], offsets: Point[][]): number => {
+    let found = 0;
+    for (const bubble of bubbles) {
+        found += offsets.filter(direction => direction.some(offset => isDark(view, { x: bubble.x + offset.x, y: bubble.y + offset.y }))).length;
+    }
+    return found / (bubbles.length * offsets.length);
+};
+
+const median = (values: number[]): number => {
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted.length === 0 ? 0 : sorted[Math.floor(sorted.length / 2)];
+};
+
+// Returns undefined when no answer sheet is found in the image. The photo may show the sheet
+// turned by any multiple of a right angle; the turn whose bubble outlines line up is used.
+export const readAnswerSheet = (image: GrayImage, layout: AnswerSheetLayout): AnswerSheetReading | undefined => {
+    const dark = binarize(image);
+    const corners = pickCornerMarkers(findMarkerCandidates(dark, image.width, image.height), image.width, image.height);
+    if (!corners) return undefined;
+
+    const markerCenters = layout.markers.map(marker => ({ x: marker.x + layout.markerSize / 2, y: marker.y + layout.markerSize / 2 }));
+    const bubbles = [
+        ...layout.digitFields.flatMap(field => field.columns.flat()),
+        ...layout.answers.flatMap(row => row.bubbles),
+    ];
+    const outline = outlineOffsets(layout.bubbleRadius);
+    let best: { view: SheetView; score: number } | undefined;
+    for (let turn = 0; turn < 4; turn++) {
+        const toImage = createPerspectiveTransform(markerCenters, corners.map((_, index) => corners[(index + turn) % 4]));
+        if (!toImage) continue;
+        const view = { dark, width: image.width, height: image.height, toImage };
+        const score = outlineScore(view, bubbles, outline);
+        if (!best || score > best.score) best = { view, score };
+    }
+    if (!best || best.score < MIN_OUTLINE_SCORE) return undefined;
+
+    const inside = discOffsets(layout.bubbleRadius * INSIDE_SHARE);
+    const shareOf = (bubble: Point) => darkShare(best!.view, bubble, inside);
+    const digitShares = layout.digitFields.map(field => field.columns.map(column => column.map(shareOf)));
+    const rowShares = layout.answers.map(row => row.bubbles.map(shareOf));
+    // Most bubbles are left empty, so the median one shows how dark an empty bubble looks.
+    const empty = median([...digitShares.flat(2), ...rowShares.flat()]);
+    const fillThreshold = Math.max(MIN_FILL, empty + FILL_MARGIN);
+    const readMarks = (shares: number[]): MarkReading => ({
+        marked: shares.flatMap((share, index) => share >= fillThreshold ? [index] : []),
+        uncertain: shares.some(share => share >= empty + UNCERTAIN_MARGIN && share < fillThreshold),
+    });
+
+    const fields = layout.digitFields.map((field, index) => {
+        const columns = digitShares[index].map(readMarks);
+        const value = columns.every(column => column.marked.length === 0)
+            ? ''
+            : columns.map(column => column.marked.length === 1 ? String(column.marked[0]) : '?').join('');
+        return { id: field.id, value, uncertain: columns.some(column => column.uncertain) };
+    });
+    const rows = rowShares.map(readMarks);
+    return {
+        studentId: fields.find(field => field.id === 'student_id')?.value ?? '',
+        versionCode: fields.find(field => field.id === 'version_code')?.value ?? '',
+        rows,
+        uncertain: fields.some(field => field.uncertain) || rows.some(row => row.uncertain),
+    };
+};
@@ -0,0 +1,217 @@
+// services/answerVerification.ts
+// A second look at the answers of generated math and science questions. The model solves each
+// question again without seeing the key; where its result is a number, the local evaluator
+// matches it against the option values. Duplicate options are found without the model.
+
+import { Schema, Type } from '@google/genai';
+import { Exam, ExamQuestion, QuestionType, Subject } from '../types';
+import { generateJson } from './aiService';
+import { renderPrompt } from './prompts';
+import { answerVerificationResponse } from './responseValidators';
+import { getExamQuestions, optionLetter, parseOptionLetter } from './examModel';
+import { normalizeShortAnswer } from './examGrading';
+import { evaluateQuantity, numbersMatch } from './mathExpression';
+
+type Translate = (key: string) => string;
+
+export type AnswerIssue = 'answer_mismatch' | 'multiple_correct' | 'no_correct_option' | 'duplicate_options' | 'numeric_disagreement';
+
+export interface AnswerCheck {
+    questionId: string;
+    // 1-based, in the order of the exam or worksheet.
+    number: number;
+    prompt: string;
+    options?: string[];
+    // The key as the exam or worksheet states it.
+    statedOption?: number;
+    statedAnswer?: string;
+    // The model's own working and result; empty when it gave none for the question.
+    solution: string;
+    finalAnswer: string;
+    // Options the second solve found correct.
+    solvedOptions: number[];
+    // Whether comparing numbers locally confirmed `solvedOptions` (or decided a short answer's verdict).
+    numericallyChecked: boolean;
+    // Pairs of options with the same text or value.
+    duplicateOptions: [number, number][];
+    issues: AnswerIssue[];
+}
+
+export interface AnswerVerdict {
+    solution: string;
+    finalAnswer: string;
+    // Indices of the options the model called correct.
+    correctOptions: number[];
+}
+
+// Subjects whose questions mostly have one checkable answer.
+const VERIFIED_SUBJECTS = new Set([Subject.MATH, Subject.PHYSICS, Subject.CHEMISTRY, Subject.BIOLOGY, Subject.NATURAL_SCIENCES, Subject.INFORMATICS]);
+
+export const isVerifiedSubject = (subject: Subject): boolean => VERIFIED_SUBJECTS.has(subject);
+
+const verificationSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        questions: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    id: { type: Type.STRING },
+                    prompt: { type: Type.STRING },
+                    options: { type: Type.ARRAY, items: { type: Type.STRING } },
+                    statedAnswer: { type: Type.STRING },
+                    solution: { type: Type.STRING },
+                    finalAnswer: { type: Type.STRING },
+                    correctOptions: { type: Type.ARRAY, items: { type: Type.STRING } },
+                },
+                required: ['id', 'solution', 'finalAnswer', 'correctOptions'],
+                propertyOrdering: ['id', 'prompt', 'options', 'statedAnswer', 'solution', 'finalAnswer', 'correctOptions'],
+            },
+        },
+    },
+    required: ['questions'],
+};
+
+export const findDuplicateOptions = (options: string[]): [number, number][] => {
+    const texts = options.map(normalizeShortAnswer);
+    const values = options.map(evaluateQuantity);
+    const pairs: [number, number][] = [];
+    options.forEach((_, i) => {
+        for (let j = i + 1; j < options.length; j++) {
+            const sameValue = values[i] !== undefined && values[j] !== undefined && numbersMatch(values[i], values[j], 1e-9);
+            if (texts[i] === texts[j] || sameValue) pairs.push([i, j]);
+        }
+    });
+    return pairs;
+};
+
+// Without a verdict only the options themselves are checked.
+export const checkAnswer = (
+    question: Pick<AnswerCheck, 'questionId' | 'number' | 'prompt' | 'options' | 'statedOption' | 'statedAnswer'>,
+    verdict?: AnswerVerdict,
+): AnswerCheck => {
+    const options = question.options ?? [];
+    const duplicateOptions = findDuplicateOptions(options);
+    const check: AnswerCheck = {
+        ...question,
+        solution: verdict?.solution ?? '',
+        finalAnswer: verdict?.finalAnswer ?? '',
+        solvedOptions: [],
+        numericallyChecked: false,
+        duplicateOptions,
+        issues: duplicateOptions.length > 0 ? ['duplicate_options'] : [],
+    };
+    if (!verdict) return check;
+    const finalValue = evaluateQuantity(verdict.finalAnswer);
+
+    if (options.length === 0) {
+        // Short answers worded differently are not wrong; only numbers are compared.
+        const statedValue = question.statedAnswer ? evaluateQuantity(question.statedAnswer) : undefined;
+        if (finalValue !== undefined && statedValue !== undefined) {
+            check.numericallyChecked = true;
+            if (!numbersMatch(finalValue, statedValue)) check.issues.push('answer_mismatch');
+        }
+        return check;
+    }
+
+    // The model's letters decide. When the options are numbers, the options with the model's value
+    // either confirm them or add a warning; a local miscount never overrides them.
+    check.solvedOptions = verdict.correctOptions.filter(index => index >= 0 && index < options.length);
+    const values = options.map(evaluateQuantity);
+    const matching = finalValue === undefined ? [] : options.flatMap((_, index) => values[index] !== undefined && numbersMatch(values[index], finalValue) ? [index] : []);
+    if (finalValue !== undefined && (matching.length > 0 || values.every(value => value !== undefined))) {
+        const agrees = matching.length === check.solvedOptions.length && matching.every(index => check.solvedOptions.includes(index));
+        if (agrees) {
+            check.numericallyChecked = true;
+        } else {
+            check.issues.push('numeric_disagreement');
+        }
+    }
+
+    if (check.solvedOptions.length === 0) {
+        check.issues.push('no_correct_option');
+    } else if (check.solvedOptions.length > 1) {
+        check.issues.push('multiple_correct');
+    }
+    if (question.statedOption !== undefined && check.solvedOptions.length > 0 && !check.solvedOptions.includes(question.statedOption)) {
+        check.issues.push('answer_mismatch');
+    }
+    return check;
+};
+
+// The option to switch the key to: the only one the second solve found correct.
+export const suggestedOption = (check: AnswerCheck): number | undefined =>
+    check.issues.includes('answer_mismatch') && check.solvedOptions.length === 1 ? check.solvedOptions[0] : undefined;
+
+const toVerdict = (result: { solution: string; finalAnswer: string; correctOptions: string[] }): AnswerVerdict => ({
+    solution: result.solution,
+    finalAnswer: result.finalAnswer,
+    correctOptions: [...new Set(result.correctOptions.map(parseOptionLetter).filter(index => index >= 0))],
+});
+
+const describeQuestion = (question: ExamQuestion, passage: string | undefined, t: Translate): string => [
+    `(${t(question.type)}) ${question.prompt}`,
+    ...(passage ? [`Passage: ${passage}`] : []),
+    ...(question.options ?? []).map((option, index) => `${optionLetter(index)}. ${option}`),
+].join('\n');
+
+const isCheckable = (question: ExamQuestion): boolean =>
+    question.type === QuestionType.MULTIPLE_CHOICE || question.type === QuestionType.SHORT_ANSWER;
+
+// One check per multiple choice and short answer question of the exam, in exam order.
+export const verifyExamAnswers = async ({ exam, language, t }: {
+    exam: Exam;
+    language: string;
+    t: Translate;
+}): Promise<AnswerCheck[]> => {
+    const numbered = getExamQuestions(exam).map((question, index) => ({ question, number: index + 1 })).filter(({ question }) => isCheckable(question));
+    if (numbered.length === 0) return [];
+    const passages = new Map(exam.sections.flatMap(section => section.questions.map(question => [question.id, section.passage] as const)));
+    const { text: prompt } = renderPrompt('answer_verification', {
+        language,
+        subject: t(exam.subject),
+        grade: exam.grade,
+        questions: numbered.map(({ question }) => ({ id: question.id, text: describeQuestion(question, passages.get(question.id), t) })),
+    });
+    const { questions } = await generateJson({
+        feature: 'answer_verification',
+        contents: prompt,
+        schema: verificationSchema,
+        validate: answerVerificationResponse,
+    });
+    const verdicts = new Map(questions.map(result => [result.id.replace(/^\[|\]$/g, ''), toVerdict(result)]));
+    return numbered.map(({ question, number }) => checkAnswer({
+        questionId: question.id,
+        number,
+        prompt: question.prompt,
+        ...(question.options ? { options: question.options, statedOption: question.correctOption } : { statedAnswer: question.answer }),
+    }, verdicts.get(question.id)));
+};
+
+// The questions of a Markdown worksheet, as the model finds them in it.
+export const verifyDocumentAnswers = async ({ document, language }: {
+    document: string;
+    language: string;
+}): Promise<AnswerCheck[]> => {
+    const { text: prompt } = renderPrompt('answer_verification', { language, document });
+    const { questions } = await generateJson({
+        feature: 'answer_verification',
+        contents: prompt,
+        schema: verificationSchema,
+        validate: answerVerificationResponse,
+    });
+    return questions.map((result, index) => {
+        const options = result.options?.length ? result.options : undefined;
+        const stated = result.statedAnswer?.trim() ?? '';
+        const statedOption = options && stated ? parseOptionLetter(stated) : -1;
+        return checkAnswer({
+            questionId: result.id,
+            number: index + 1,
+            prompt: result.prompt ?? '',
+            ...(options
+                ? { options, ...(statedOption >= 0 && statedOption < options.length ? { statedOption } : {}) }
+                : stated ? { statedAnswer: stated } : {}),
+        }, toVerdict(result));
+    });
+};
@@ -0,0 +1,59 @@
+// services/audioStore.ts
+// Listening audio of saved exams, in IndexedDB: a few minutes of PCM would fill the localStorage
+// quota of the library. The exam keeps the key of its audio in `listeningAudioId`.
+
+import { SpeakerVoice } from './aiService';
+
+const DB_NAME = 'triVietAudio';
+const DB_VERSION = 1;
+const STORE_NAME = 'listeningAudio';
+
+export interface StoredListeningAudio {
+    id: string;
+    // Base64 24kHz mono 16-bit PCM, played once.
+    audio: string;
+    speakers: SpeakerVoice[];
+    createdAt: number;
+}
+
+export const isAudioStoreAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const getStore = async (mode: IDBTransactionMode): Promise<IDBObjectStore> => {
+    const db = await openDb();
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+};
+
+export const saveListeningAudio = async (entry: StoredListeningAudio): Promise<void> => {
+    await requestToPromise((await getStore('readwrite')).put(entry));
+};
+
+export const loadListeningAudio = async (id: string): Promise<StoredListeningAudio | null> =>
+    (await requestToPromise<StoredListeningAudio | undefined>((await getStore('readonly')).get(id))) ?? null;
+
+export const deleteListeningAudio = async (id: string): Promise<void> => {
+    await requestToPromise((await getStore('readwrite')).delete(id));
+};
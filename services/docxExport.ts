@@ -0,0 +1,476 @@
+// services/docxExport.ts
+// Builds .docx files in the browser from structured exams and from the Markdown of lessons and
+// slides. LaTeX becomes native Word equations (OMML) instead of text to convert by hand.
+
+import { Exam, QuestionType } from '../types';
+import { getExamQuestions, optionLetter, statementLabel } from './examModel';
+import { formatPoints, questionAnswer } from './examRenderer';
+import { escapeXml, latexToOmml } from './latexToOmml';
+import { createZip, ZipEntry } from './zip';
+
+type Translate = (key: string) => string;
+
+export type DocxInline =
+    | { text: string; bold?: boolean; italic?: boolean }
+    | { math: string };
+
+export type DocxBlock =
+    | { type: 'heading'; level: 1 | 2 | 3; content: DocxInline[]; align?: 'center' }
+    | { type: 'paragraph'; content: DocxInline[]; align?: 'center'; indent?: number; tabStops?: number[] }
+    | { type: 'math'; latex: string }
+    // Each cell holds its own blocks; the first row is repeated on every page when `header` is set.
+    | { type: 'table'; rows: DocxBlock[][][]; header?: boolean; borders?: boolean; columnWidths?: number[] }
+    | { type: 'image'; dataUrl: string }
+    | { type: 'rule' }
+    | { type: 'pageBreak' };
+
+export interface ExamDocxOptions {
+    school?: string;
+    className?: string;
+    includeAnswerKey?: boolean;
+}
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// A4 with 2 cm margins, in twentieths of a point.
+const PAGE_WIDTH = 11906;
+const PAGE_HEIGHT = 16838;
+const PAGE_MARGIN = 1134;
+const TEXT_WIDTH = PAGE_WIDTH - 2 * PAGE_MARGIN;
+const INDENT = 284;
+
+// Images are at most 15 cm wide; EMUs per pixel at 96 dpi.
+const MAX_IMAGE_WIDTH_EMU = 5400000;
+const EMU_PER_PIXEL = 9525;
+
+const KEY_COLUMNS = 10;
+
+const MATH_PATTERN = /\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\]|\\\(([\s\S]+?)\\\)|\$([^$]+?)\$/g;
+const EMPHASIS_PATTERN = /\*\*(.+?)\*\*|\*(?!\s)(.+?)(?<!\s)\*/g;
+const TABLE_SEPARATOR = /^\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?$/;
+
+const parseEmphasis = (text: string, bold = false): DocxInline[] => {
+    const inlines: DocxInline[] = [];
+    let last = 0;
+    for (const match of text.matchAll(EMPHASIS_PATTERN)) {
+        if (match.index > last) inlines.push({ text: text.slice(last, match.index), bold });
+        inlines.push(match[1] !== undefined ? { text: match[1], bold: true } : { text: match[2], bold, italic: true });
+        last = match.index + match[0].length;
+    }
+    if (last < text.length) inlines.push({ text: text.slice(last), bold });
+    return inlines;
+};
+
+// Text with `$...$` math and `**bold**` / `*italic*` emphasis.
+export const parseInline = (text: string, bold = false): DocxInline[] => {
+    const inlines: DocxInline[] = [];
+    let last = 0;
+    for (const match of text.matchAll(MATH_PATTERN)) {
+        if (match.index > last) inlines.push(...parseEmphasis(text.slice(last, match.index), bold));
+        inlines.push({ math: (match[1] ?? match[2] ?? match[3] ?? match[4]).trim() });
+        last = match.index + match[0].length;
+    }
+    if (last < text.length) inlines.push(...parseEmphasis(text.slice(last), bold));
+    return inlines;
+};
+
+const paragraph = (text: string, options: { bold?: boolean; align?: 'center'; indent?: number } = {}): DocxBlock => ({
+    type: 'paragraph',
+    content: parseInline(text, options.bold),
+    align: options.align,
+    indent: options.indent,
+});
+
+const splitTableRow = (line: string): string[] =>
+    line.trim().replace(/^\|/, '').replace(/\|$/, '').split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+
+// Lessons, slides and exams saved as text. Image tags become the generated image when there is one
+// and are dropped otherwise, as in the web view.
+export const markdownToDocxBlocks = (markdown: string, images: Record<string, string> = {}): DocxBlock[] => {
+    const blocks: DocxBlock[] = [];
+    const lines = markdown.split('\n');
+    for (let index = 0; index < lines.length; index++) {
+        const line = lines[index].trim();
+        if (!line) continue;
+
+        const displayMath = line.match(/^(\$\$|\\\[)/);
+        if (displayMath) {
+            const close = displayMath[1] === '$$' ? '$$' : '\\]';
+            let math = line.slice(2);
+            while (!math.includes(close) && index + 1 < lines.length) {
+                math += `\n${lines[++index]}`;
+            }
+            const end = math.indexOf(close);
+            blocks.push({ type: 'math', latex: (end === -1 ? math : math.slice(0, end)).trim() });
+            const rest = end === -1 ? '' : math.slice(end + 2).trim();
+            if (rest) blocks.push(paragraph(rest));
+            continue;
+        }
+
+        if (line.startsWith('|') && TABLE_SEPARATOR.test(lines[index + 1]?.trim() ?? '')) {
+            const rows = [splitTableRow(line)];
+            index++;
+            while (lines[index + 1]?.trim().startsWith('|')) {
+                rows.push(splitTableRow(lines[++index]));
+            }
+            blocks.push({
+                type: 'table',
+                header: true,
+                borders: true,
+                rows: rows.map((row, rowIndex) => row.map(cell => [paragraph(cell, { bold: rowIndex === 0, align: 'center' })])),
+            });
+            continue;
+        }
+
+        const imageMatch = line.match(/^\[IMAGE:\s*(.*?)\]$/);
+        if (imageMatch) {
+            if (images[line]) blocks.push({ type: 'image', dataUrl: images[line] });
+            continue;
+        }
+
+        const visualMatch = line.match(/^\[VISUAL:\s*(.*?)\]$/);
+        if (visualMatch) {
+            blocks.push({ type: 'paragraph', content: [{ text: `[${visualMatch[1]}]`, italic: true }] });
+            continue;
+        }
+
+        const headingMatch = line.match(/^(#{1,6})\s+(.*)$/);
+        if (headingMatch) {
+            const level = Math.min(3, headingMatch[1].length) as 1 | 2 | 3;
+            blocks.push({ type: 'heading', level, content: parseInline(headingMatch[2].replace(/\*\*/g, '')) });
+            continue;
+        }
+        if (/^(-{3,}|\*{3,}|_{3,})$/.test(line)) {
+            blocks.push({ type: 'rule' });
+            continue;
+        }
+        const bulletMatch = lines[index].match(/^(\s*)[-*•]\s+(.*)$/);
+        if (bulletMatch) {
+            const depth = Math.floor(bulletMatch[1].length / 2) + 1;
+            blocks.push(paragraph(`• ${bulletMatch[2]}`, { indent: depth * INDENT }));
+            continue;
+        }
+        blocks.push(paragraph(line, { indent: /^\d+[.)]\s/.test(line) ? INDENT : undefined }));
+    }
+    return blocks;
+};
+
+// Short options share a line, as on printed Vietnamese exams: four, two or one per line. Options
+// in a narrow (half-page) column get half the room.
+export const optionsPerLine = (options: string[], narrow = false): number => {
+    const longest = Math.max(...options.map(option => option.replace(/\\[a-zA-Z]+|[{}$^_]/g, '').length));
+    const room = narrow ? 0.5 : 1;
+    return longest <= 22 * room ? 4 : longest <= 45 * room ? 2 : 1;
+};
+
+const optionBlocks = (options: string[]): DocxBlock[] => {
+    const perLine = optionsPerLine(options);
+    const stopWidth = Math.floor((TEXT_WIDTH - INDENT) / perLine);
+    const blocks: DocxBlock[] = [];
+    for (let start = 0; start < options.length; start += perLine) {
+        const content: DocxInline[] = [];
+        options.slice(start, start + perLine).forEach((option, offset) => {
+            if (offset > 0) content.push({ text: '\t' });
+            content.push({ text: `${optionLetter(start + offset)}. `, bold: true }, ...parseInline(option));
+        });
+        blocks.push({
+            type: 'paragraph',
+            content,
+            indent: INDENT,
+            tabStops: perLine > 1 ? Array.from({ length: perLine - 1 }, (_, index) => INDENT + stopWidth * (index + 1)) : undefined,
+        });
+    }
+    return blocks;
+};
+
+const textLines = (text: string): string[] => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+const examHeader = (exam: Exam, t: Translate, { school, className }: ExamDocxOptions): DocxBlock[] => {
+    const left: DocxBlock[] = [];
+    if (school?.trim()) left.push(paragraph(school.trim().toUpperCase(), { bold: true, align: 'center' }));
+    if (className?.trim()) left.push(paragraph(`${t('class_name')}: ${className.trim()}`, { align: 'center' }));
+    if (exam.versionCode) left.push(paragraph(`${t('version_code')} ${exam.versionCode}`, { bold: true, align: 'center' }));
+
+    const right: DocxBlock[] = [
+        paragraph(exam.title.toUpperCase(), { bold: true, align: 'center' }),
+        paragraph(`${t(exam.subject)} – ${t('grade')} ${exam.grade}`, { bold: true, align: 'center' }),
+    ];
+    if (exam.durationMinutes) {
+        right.push({ type: 'paragraph', align: 'center', content: [{ text: `${t('time_allowed')}: ${exam.durationMinutes} ${t('minutes')}`, italic: true }] });
+    }
+    return [
+        {
+            type: 'table',
+            columnWidths: [Math.round(TEXT_WIDTH * 0.4), TEXT_WIDTH - Math.round(TEXT_WIDTH * 0.4)],
+            rows: [[left.length ? left : [paragraph('')], right]],
+        },
+        paragraph(''),
+        {
+            type: 'paragraph',
+            content: [{ text: `${t('student_name')}: ${'.'.repeat(60)} ${t('class_name')}: ${'.'.repeat(15)}` }],
+        },
+        paragraph(''),
+    ];
+};
+
+// Multiple-choice answers as a grid of question numbers and letters, ten per row.
+const answerGrid = (exam: Exam, t: Translate): DocxBlock | null => {
+    const entries = getExamQuestions(exam)
+        .map((question, index) => ({ question, number: index + 1 }))
+        .filter(({ question }) => question.type === QuestionType.MULTIPLE_CHOICE && question.correctOption !== undefined);
+    if (entries.length === 0) return null;
+    const rows: DocxBlock[][][] = [];
+    for (let start = 0; start < entries.length; start += KEY_COLUMNS) {
+        const chunk = entries.slice(start, start + KEY_COLUMNS);
+        const pad = (cells: DocxBlock[][]) => [...cells, ...Array.from({ length: KEY_COLUMNS - chunk.length }, () => [paragraph('')])];
+        rows.push(
+            [[paragraph(t('question'), { bold: true, align: 'center' })], ...pad(chunk.map(({ number }) => [paragraph(String(number), { bold: true, align: 'center' })]))],
+            [[paragraph(t('correct_answer'), { bold: true, align: 'center' })], ...pad(chunk.map(({ question }) => [paragraph(optionLetter(question.correctOption), { align: 'center' })]))],
+        );
+    }
+    return { type: 'table', borders: true, rows };
+};
+
+export const examToDocxBlocks = (exam: Exam, t: Translate, options: ExamDocxOptions = {}): DocxBlock[] => {
+    const blocks = examHeader(exam, t, options);
+    let number = 0;
+    for (const section of exam.sections) {
+        blocks.push({ type: 'heading', level: 2, content: parseInline(section.title) });
+        if (section.passage) {
+            blocks.push(...textLines(section.passage).map(line => paragraph(line)));
+        }
+        for (const question of section.questions) {
+            number++;
+            const [first = '', ...rest] = textLines(question.prompt);
+            const points = question.points ? ` (${formatPoints(question.points, t)})` : '';
+            blocks.push({
+                type: 'paragraph',
+                content: [{ text: `${t('question')} ${number}. `, bold: true }, ...parseInline(first), ...(points ? [{ text: points, italic: true }] : [])],
+            });
+            blocks.push(...rest.map(line => paragraph(line)));
+            if (question.options?.length) {
+                blocks.push(...optionBlocks(question.options));
+            }
+            question.statements?.forEach((statement, index) => blocks.push({
+                type: 'paragraph',
+                content: [{ text: `${statementLabel(index)}) `, bold: true }, ...parseInline(statement.text)],
+                indent: INDENT,
+            }));
+        }
+    }
+    blocks.push({ type: 'paragraph', align: 'center', content: [{ text: `— ${t('end_of_exam')} —`, bold: true }] });
+
+    if (options.includeAnswerKey !== false && number > 0) {
+        const title = exam.versionCode ? `${t('answer_key')} – ${t('version_code')} ${exam.versionCode}` : t('answer_key');
+        blocks.push({ type: 'pageBreak' }, { type: 'heading', level: 1, align: 'center', content: [{ text: title }] });
+        const grid = answerGrid(exam, t);
+        if (grid) blocks.push(grid, paragraph(''));
+        getExamQuestions(exam).forEach((question, index) => {
+            const isMultipleChoice = question.type === QuestionType.MULTIPLE_CHOICE;
+            if (isMultipleChoice && !question.explanation) return;
+            blocks.push({ type: 'paragraph', content: [{ text: `${t('question')} ${index + 1}. `, bold: true }, ...parseInline(questionAnswer(question, t))] });
+            if (question.explanation) {
+                blocks.push(...textLines(question.explanation).map(line => paragraph(line, { indent: INDENT })));
+            }
+        });
+    }
+    return blocks;
+};
+
+interface PackageImage {
+    id: string;
+    path: string;
+    extension: string;
+    data: Uint8Array;
+    width: number;
+    height: number;
+}
+
+const decodeDataUrl = (dataUrl: string): { mimeType: string; data: Uint8Array } | null => {
+    const match = dataUrl.match(/^data:([^;,]+);base64,(.*)$/);
+    if (!match) return null;
+    const binary = atob(match[2]);
+    const data = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) data[i] = binary.charCodeAt(i);
+    return { mimeType: match[1], data };
+};
+
+// Pixel size from the PNG header or the JPEG start-of-frame segment.
+const readImageSize = (data: Uint8Array, extension: string): { width: number; height: number } | null => {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    if (extension === 'png' && data.length >= 24) {
+        return { width: view.getUint32(16), height: view.getUint32(20) };
+    }
+    if (extension === 'jpeg') {
+        let offset = 2;
+        while (offset + 9 < data.length && data[offset] === 0xFF) {
+            const marker = data[offset + 1];
+            if (marker >= 0xC0 && marker <= 0xCF && ![0xC4, 0xC8, 0xCC].includes(marker)) {
+                return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+            }
+            offset += 2 + view.getUint16(offset + 2);
+        }
+    }
+    return null;
+};
+
+const runProperties = (inline: { bold?: boolean; italic?: boolean }): string => {
+    const properties = `${inline.bold ? '<w:b/>' : ''}${inline.italic ? '<w:i/>' : ''}`;
+    return properties ? `<w:rPr>${properties}</w:rPr>` : '';
+};
+
+const inlineXml = (inline: DocxInline): string => {
+    if ('math' in inline) {
+        return latexToOmml(inline.math);
+    }
+    const properties = runProperties(inline);
+    return inline.text.split('\t').map((part, index) =>
+        `${index > 0 ? `<w:r>${properties}<w:tab/></w:r>` : ''}${part ? `<w:r>${properties}<w:t xml:space="preserve">${escapeXml(part)}</w:t></w:r>` : ''}`,
+    ).join('');
+};
+
+const imageXml = (image: PackageImage, index: number): string => {
+    const scale = Math.min(1, MAX_IMAGE_WIDTH_EMU / (image.width * EMU_PER_PIXEL));
+    const cx = Math.round(image.width * EMU_PER_PIXEL * scale);
+    const cy = Math.round(image.height * EMU_PER_PIXEL * scale);
+    return `<w:p><w:pPr><w:jc w:val="center"/></w:pPr><w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0">`
+        + `<wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="${index}" name="Picture ${index}"/>`
+        + '<wp:cNvGraphicFramePr><a:graphicFrameLocks noChangeAspect="1"/></wp:cNvGraphicFramePr>'
+        + '<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:pic>'
+        + `<pic:nvPicPr><pic:cNvPr id="${index}" name="${image.path}"/><pic:cNvPicPr/></pic:nvPicPr>`
+        + `<pic:blipFill><a:blip r:embed="${image.id}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>`
+        + `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>`
+        + '</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r></w:p>';
+};
+
+const TABLE_BORDERS = '<w:tblBorders>'
+    + ['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(side => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="auto"/>`).join('')
+    + '</w:tblBorders>';
+
+const documentXml = (blocks: DocxBlock[], images: (PackageImage | null)[]): string => {
+    const blockXml = (block: DocxBlock): string => {
+        switch (block.type) {
+            case 'heading':
+            case 'paragraph': {
+                const properties = [
+                    block.type === 'heading' ? `<w:pStyle w:val="Heading${block.level}"/>` : '',
+                    block.type === 'paragraph' && block.tabStops ? `<w:tabs>${block.tabStops.map(stop => `<w:tab w:val="left" w:pos="${stop}"/>`).join('')}</w:tabs>` : '',
+                    block.type === 'paragraph' && block.indent ? `<w:ind w:left="${block.indent}"/>` : '',
+                    block.align ? `<w:jc w:val="${block.align}"/>` : '',
+                ].join('');
+                return `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}${block.content.map(inlineXml).join('')}</w:p>`;
+            }
+            case 'math':
+                return `<w:p><m:oMathPara>${latexToOmml(block.latex)}</m:oMathPara></w:p>`;
+            case 'table': {
+                const columns = Math.max(...block.rows.map(row => row.length));
+                const widths = block.columnWidths ?? Array.from({ length: columns }, () => Math.floor(TEXT_WIDTH / columns));
+                const rows = block.rows.map((row, rowIndex) => {
+                    const cells = Array.from({ length: columns }, (_, index) => {
+                        const content = row[index]?.length ? row[index].map(blockXml).join('') : '<w:p/>';
+                        return `<w:tc><w:tcPr><w:tcW w:w="${widths[index]}" w:type="dxa"/></w:tcPr>${content}</w:tc>`;
+                    }).join('');
+                    return `<w:tr>${block.header && rowIndex === 0 ? '<w:trPr><w:tblHeader/></w:trPr>' : ''}${cells}</w:tr>`;
+                }).join('');
+                return `<w:tbl><w:tblPr><w:tblW w:w="${widths.reduce((total, width) => total + width, 0)}" w:type="dxa"/>${block.borders ? TABLE_BORDERS : ''}<w:tblLayout w:type="fixed"/></w:tblPr>`
+                    + `<w:tblGrid>${widths.map(width => `<w:gridCol w:w="${width}"/>`).join('')}</w:tblGrid>${rows}</w:tbl>`;
+            }
+            case 'image': {
+                const index = imageBlocks.indexOf(block);
+                const image = images[index];
+                return image ? imageXml(image, index + 1) : '';
+            }
+            case 'rule':
+                return '<w:p><w:pPr><w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="auto"/></w:pBdr></w:pPr></w:p>';
+            case 'pageBreak':
+                return '<w:p><w:r><w:br w:type="page"/></w:r></w:p>';
+        }
+    };
+    const imageBlocks = collectImageBlocks(blocks);
+
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"'
+        + ' xmlns:m="http://schemas.openxmlformats.org/officeDocument/2006/math"'
+        + ' xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"'
+        + ' xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing"'
+        + ' xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"'
+        + ' xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture">'
+        + `<w:body>${blocks.map(blockXml).join('')}`
+        + `<w:sectPr><w:pgSz w:w="${PAGE_WIDTH}" w:h="${PAGE_HEIGHT}"/>`
+        + `<w:pgMar w:top="${PAGE_MARGIN}" w:right="${PAGE_MARGIN}" w:bottom="${PAGE_MARGIN}" w:left="${PAGE_MARGIN}" w:header="567" w:footer="567" w:gutter="0"/>`
+        + '</w:sectPr></w:body></w:document>';
+};
+
+// Image blocks in document order, including those inside tables.
+const collectImageBlocks = (blocks: DocxBlock[]): Extract<DocxBlock, { type: 'image' }>[] => blocks.flatMap(block => {
+    if (block.type === 'image') return [block];
+    if (block.type === 'table') return block.rows.flatMap(row => row.flatMap(collectImageBlocks));
+    return [];
+});
+
+// Times New Roman 13 pt, the usual size of Vietnamese school documents.
+const STYLES_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">'
+    + '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Times New Roman" w:hAnsi="Times New Roman" w:eastAsia="Times New Roman" w:cs="Times New Roman"/>'
+    + '<w:sz w:val="26"/><w:szCs w:val="26"/></w:rPr></w:rPrDefault>'
+    + '<w:pPrDefault><w:pPr><w:spacing w:after="80" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>'
+    + '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>'
+    + [[1, 32], [2, 28], [3, 26]].map(([level, size]) =>
+        `<w:style w:type="paragraph" w:styleId="Heading${level}"><w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>`
+        + `<w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="${level - 1}"/></w:pPr>`
+        + `<w:rPr><w:b/><w:sz w:val="${size}"/><w:szCs w:val="${size}"/></w:rPr></w:style>`).join('')
+    + '</w:styles>';
+
+export const createDocxPackage = (blocks: DocxBlock[]): Uint8Array => {
+    const images: (PackageImage | null)[] = [];
+    for (const block of collectImageBlocks(blocks)) {
+        const decoded = decodeDataUrl(block.dataUrl);
+        const extension = decoded?.mimeType === 'image/png' ? 'png' : decoded?.mimeType === 'image/jpeg' ? 'jpeg' : null;
+        const size = decoded && extension ? readImageSize(decoded.data, extension) : null;
+        // Images Word can't read are left out rather than failing the whole document.
+        images.push(size ? {
+            id: `rIdImage${images.length + 1}`,
+            path: `image${images.length + 1}.${extension}`,
+            extension,
+            data: decoded.data,
+            ...size,
+        } : null);
+    }
+    const embedded = images.filter(Boolean);
+
+    const files: ZipEntry[] = [
+        {
+            path: '[Content_Types].xml',
+            data: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+                + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+                + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+                + '<Default Extension="xml" ContentType="application/xml"/>'
+                + '<Default Extension="png" ContentType="image/png"/>'
+                + '<Default Extension="jpeg" ContentType="image/jpeg"/>'
+                + '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>'
+                + '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>'
+                + '</Types>',
+        },
+        {
+            path: '_rels/.rels',
+            data: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+                + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+                + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>'
+                + '</Relationships>',
+        },
+        { path: 'word/document.xml', data: documentXml(blocks, images) },
+        { path: 'word/styles.xml', data: STYLES_XML },
+        {
+            path: 'word/_rels/document.xml.rels',
+            data: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+                + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+                + '<Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>'
+                + embedded.map(image => `<Relationship Id="${image.id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/${image.path}"/>`).join('')
+                + '</Relationships>',
+        },
+        ...embedded.map(image => ({ path: `word/media/${image.path}`, data: image.data })),
+    ];
+    return createZip(files);
+};
+
+export const createDocx = (blocks: DocxBlock[]): Blob => new Blob([createDocxPackage(blocks)], { type: DOCX_MIME_TYPE });
@@ -0,0 +1,20 @@
+// services/download.ts
+// Saves files the app builds in the browser to the user's downloads.
+
+// Keeps letters of any script, so Vietnamese titles stay readable.
+export const toFileName = (name: string, extension: string): string => {
+    const base = name.trim().replace(/[\\/:*?"<>|]+/g, ' ').replace(/\s+/g, ' ').slice(0, 100).trim();
+    return `${base || 'document'}.${extension}`;
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Some browsers start the download asynchronously.
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,218 @@
+// services/essayGrading.ts
+// Rubrics for the essay questions of an exam, and AI scoring of a typed or photographed answer
+// against them. The AI's grade is provisional until a teacher reviews it.
+
+import { Schema, Type } from '@google/genai';
+import { AnswerImage, CriterionScore, EssayGrade, EssayRubric, Exam, ExamQuestion, QuestionType } from '../types';
+import { generateJson } from './aiService';
+import { renderPrompt } from './prompts';
+import { essayGradeResponse, essayRubricResponse } from './responseValidators';
+import { getExamQuestions } from './examModel';
+
+// Photos are downscaled before they are stored with the attempt and sent to the model.
+const ANSWER_IMAGE_MAX_SIZE = 1600;
+const ANSWER_IMAGE_QUALITY = 0.8;
+
+const rubricSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        rubrics: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    criteria: {
+                        type: Type.ARRAY,
+                        items: {
+                            type: Type.OBJECT,
+                            properties: {
+                                name: { type: Type.STRING },
+                                maxPoints: { type: Type.NUMBER },
+                                levels: {
+                                    type: Type.ARRAY,
+                                    items: {
+                                        type: Type.OBJECT,
+                                        properties: {
+                                            points: { type: Type.NUMBER },
+                                            description: { type: Type.STRING },
+                                        },
+                                        required: ['points', 'description'],
+                                    },
+                                },
+                            },
+                            required: ['name', 'maxPoints', 'levels'],
+                        },
+                    },
+                    sampleAnswers: { type: Type.ARRAY, items: { type: Type.STRING } },
+                },
+                required: ['criteria', 'sampleAnswers'],
+            },
+        },
+    },
+    required: ['rubrics'],
+};
+
+const gradeSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        scores: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    points: { type: Type.NUMBER },
+                    feedback: { type: Type.STRING },
+                },
+                required: ['points', 'feedback'],
+            },
+        },
+        feedback: { type: Type.STRING },
+    },
+    required: ['scores', 'feedback'],
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const isEssay = (question: ExamQuestion): boolean => question.type === QuestionType.ESSAY;
+
+export const getRubricTotal = (rubric: EssayRubric): number =>
+    rubric.criteria.reduce((total, criterion) => total + criterion.maxPoints, 0);
+
+// Rubric points are scaled to the question's points when a teacher's edits made them differ.
+export const computeEssayPoints = (question: ExamQuestion, scores: CriterionScore[]): number => {
+    const earned = scores.reduce((total, score) => total + score.points, 0);
+    const rubricTotal = question.rubric ? getRubricTotal(question.rubric) : 0;
+    if (!rubricTotal || rubricTotal === question.points) {
+        return earned;
+    }
+    return Math.round(earned / rubricTotal * question.points * 100) / 100;
+};
+
+// Fits an existing grade to an edited rubric: scores of removed criteria are dropped, new criteria
+// start at zero and every score is capped at its criterion's new maximum.
+export const reconcileEssayGrade = (question: ExamQuestion, grade: EssayGrade): EssayGrade => {
+    const scores = (question.rubric?.criteria ?? []).map(criterion => {
+        const score = grade.scores.find(item => item.criterionId === criterion.id);
+        return {
+            criterionId: criterion.id,
+            points: clamp(score?.points ?? 0, 0, criterion.maxPoints),
+            feedback: score?.feedback ?? '',
+        };
+    });
+    return { ...grade, scores, earnedPoints: computeEssayPoints(question, scores) };
+};
+
+// Asks for the rubrics of all essays in one call and returns the exam with them attached.
+// Only the essays in `questionIds` are (re)generated when it is given.
+export const generateRubrics = async ({ exam, language, subject, questionIds }: {
+    exam: Exam;
+    language: string;
+    subject: string;
+    questionIds?: string[];
+}): Promise<Exam> => {
+    const essays = getExamQuestions(exam).filter(question => isEssay(question) && (!questionIds || questionIds.includes(question.id)));
+    if (essays.length === 0) {
+        return exam;
+    }
+    const { text: prompt } = renderPrompt('essay_rubric', {
+        language,
+        subject,
+        grade: exam.grade,
+        questions: essays.map(question => ({ prompt: question.prompt, points: question.points, modelAnswer: question.answer })),
+    });
+    const { rubrics } = await generateJson({
+        feature: 'essay_rubric',
+        contents: prompt,
+        schema: rubricSchema,
+        validate: essayRubricResponse,
+    });
+
+    const rubricsById = new Map<string, EssayRubric>();
+    essays.forEach((question, index) => {
+        const rubric = rubrics[index];
+        if (!rubric) return;
+        rubricsById.set(question.id, {
+            criteria: rubric.criteria.map((criterion, criterionIndex) => ({
+                id: `c${criterionIndex + 1}`,
+                name: criterion.name,
+                maxPoints: criterion.maxPoints,
+                levels: [...criterion.levels].sort((a, b) => b.points - a.points),
+            })),
+            sampleAnswers: rubric.sampleAnswers,
+        });
+    });
+    return {
+        ...exam,
+        sections: exam.sections.map(section => ({
+            ...section,
+            questions: section.questions.map(question => rubricsById.has(question.id) ? { ...question, rubric: rubricsById.get(question.id) } : question),
+        })),
+    };
+};
+
+export const gradeEssay = async ({ question, answer, language, subject, grade }: {
+    question: ExamQuestion;
+    answer: string | AnswerImage;
+    language: string;
+    subject: string;
+    grade: number;
+}): Promise<EssayGrade> => {
+    const { rubric } = question;
+    if (!rubric) {
+        throw new Error(`Question ${question.id} has no rubric.`);
+    }
+    const isPhoto = typeof answer !== 'string';
+    const { text: prompt } = renderPrompt('essay_grading', {
+        language,
+        subject,
+        grade,
+        question: question.prompt,
+        points: getRubricTotal(rubric),
+        rubric,
+        answer: isPhoto ? undefined : answer,
+    });
+    const result = await generateJson({
+        feature: 'essay_grading',
+        contents: isPhoto
+            ? [{ inlineData: { data: answer.base64Data, mimeType: answer.mimeType } }, { text: prompt }]
+            : prompt,
+        schema: gradeSchema,
+        validate: essayGradeResponse,
+    });
+
+    // A missing score counts as zero rather than failing the whole grade.
+    const scores = rubric.criteria.map((criterion, index) => {
+        const score = result.scores[index];
+        return {
+            criterionId: criterion.id,
+            points: score ? clamp(score.points, 0, criterion.maxPoints) : 0,
+            feedback: score?.feedback ?? '',
+        };
+    });
+    return {
+        scores,
+        feedback: result.feedback,
+        earnedPoints: computeEssayPoints(question, scores),
+        reviewedByTeacher: false,
+    };
+};
+
+export const readAnswerImage = (file: File): Promise<AnswerImage> => new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+        URL.revokeObjectURL(url);
+        const scale = Math.min(1, ANSWER_IMAGE_MAX_SIZE / Math.max(image.width, image.height));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(image.width * scale);
+        canvas.height = Math.round(image.height * scale);
+        canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+        const dataUrl = canvas.toDataURL('image/jpeg', ANSWER_IMAGE_QUALITY);
+        resolve({ base64Data: dataUrl.split(',')[1], mimeType: 'image/jpeg' });
+    };
+    image.onerror = () => {
+        URL.revokeObjectURL(url);
+        reject(new Error(`Could not read ${file.name} as an image.`));
+    };
+    image.src = url;
+});
@@ -0,0 +1,72 @@
+// services/examEditing.ts
+// Rewriting one question of a generated exam with the model, the same again, harder, easier or as
+// another type, without touching the rest of the exam.
+
+import { DifficultyLevel, Exam, ExamQuestion, QuestionType } from '../types';
+import { DIFFICULTY_LEVELS } from '../constants';
+import { generateJson } from './aiService';
+import { renderPrompt } from './prompts';
+import { examQuestionResponse } from './responseValidators';
+import { examQuestionSchema, getExamQuestions, normalizeExamQuestion, optionLetter, statementLabel } from './examModel';
+import { questionAnswer } from './examRenderer';
+
+type Translate = (key: string) => string;
+
+export type QuestionRewrite = 'regenerate' | 'harder' | 'easier' | 'change_type';
+
+// The next level up (`step` 1) or down (-1), staying at the ends.
+export const shiftDifficulty = (level: DifficultyLevel, step: number): DifficultyLevel =>
+    DIFFICULTY_LEVELS[Math.min(DIFFICULTY_LEVELS.length - 1, Math.max(0, DIFFICULTY_LEVELS.indexOf(level) + step))];
+
+const describeQuestion = (question: ExamQuestion, t: Translate): string => [
+    `(${t(question.type)}) ${question.prompt}`,
+    ...(question.options ?? []).map((option, index) => `${optionLetter(index)}. ${option}`),
+    ...(question.statements ?? []).map((statement, index) => `${statementLabel(index)}) ${statement.text}`),
+    `${t('correct_answer')}: ${questionAnswer(question, t)}`,
+].join('\n');
+
+// The new question keeps the id, points and matrix topic of the one it replaces. `type` is the
+// type to change to, for 'change_type'.
+export const rewriteExamQuestion = async ({ exam, questionId, rewrite, type, language, textbook, t }: {
+    exam: Exam;
+    questionId: string;
+    rewrite: QuestionRewrite;
+    type?: QuestionType;
+    language: string;
+    textbook?: string;
+    t: Translate;
+}): Promise<ExamQuestion> => {
+    const question = getExamQuestions(exam).find(candidate => candidate.id === questionId);
+    if (!question) {
+        throw new Error(`Question ${questionId} is not in the exam.`);
+    }
+    const targetType = rewrite === 'change_type' && type ? type : question.type;
+    const difficulty = rewrite === 'harder' ? shiftDifficulty(question.difficulty, 1)
+        : rewrite === 'easier' ? shiftDifficulty(question.difficulty, -1)
+        : question.difficulty;
+    const { text: prompt } = renderPrompt('exam_question', {
+        language,
+        subject: t(exam.subject),
+        grade: exam.grade,
+        topic: question.topic ?? exam.topic,
+        textbook,
+        rewrite,
+        question: describeQuestion(question, t),
+        type: `"${targetType}" (${t(targetType)})`,
+        difficulty,
+        points: question.points,
+        passage: exam.sections.find(section => section.questions.includes(question))?.passage,
+        otherQuestions: getExamQuestions(exam).filter(other => other !== question).map(other => other.prompt),
+    });
+    const raw = await generateJson({
+        feature: 'exam_question',
+        contents: prompt,
+        schema: examQuestionSchema,
+        validate: examQuestionResponse(targetType),
+    });
+    return {
+        ...normalizeExamQuestion({ ...raw, type: targetType, difficulty }, question.id),
+        points: question.points,
+        ...(question.topic ? { topic: question.topic } : {}),
+    };
+};
@@ -0,0 +1,107 @@
+// services/examGrading.ts
+// Grading of an exam attempt. Multiple choice, true/false clusters and short answers are scored
+// here; essays are scored against their rubric (see essayGrading.ts) and stay `ungraded` until then.
+
+import { EssayGrade, Exam, ExamAnswers, ExamAttempt, ExamQuestion, QuestionResult, QuestionType } from '../types';
+import { getExamQuestions, getExamTotalPoints } from './examModel';
+import { evaluateQuantity, numbersMatch } from './mathExpression';
+
+type Answer = ExamAnswers[string] | undefined;
+
+// Ignores case, spacing, LaTeX delimiters, a trailing period and the decimal comma ("2,5" = "2.5").
+export const normalizeShortAnswer = (answer: string): string => answer
+    .toLowerCase()
+    .replace(/\$/g, '')
+    .replace(/(\d),(\d)/g, '$1.$2')
+    .replace(/\s+/g, '')
+    .replace(/\.$/, '');
+
+// Answer sheets of the national exam (2025) use a decimal comma: "1,5", "-0,25", ",5".
+const DECIMAL_COMMA = /^(\s*[+-]?\d*),(\d+\s*)$/;
+
+const shortAnswerValue = (answer: string): number | undefined => evaluateQuantity(answer.replace(DECIMAL_COMMA, '$1.$2'));
+
+// A number key takes answers that are one number or expression of the same value: "0,50" = "0.5"
+// = "1/2"; "1 2" is not a number and earns nothing. Other keys compare as text.
+const shortAnswersMatch = (answer: string, expected: string): boolean => {
+    const expectedValue = shortAnswerValue(expected);
+    if (expectedValue === undefined) return normalizeShortAnswer(answer) === normalizeShortAnswer(expected);
+    const value = shortAnswerValue(answer);
+    return value !== undefined && numbersMatch(value, expectedValue, 1e-9);
+};
+
+// The share of a true/false cluster's points for the statements judged right. Clusters of four
+// statements follow the national exam (2025): 1 right → 0.1, 2 → 0.25, 3 → 0.5, all 4 → full
+// points; other clusters score in proportion.
+const TRUE_FALSE_STEPS = [0, 0.1, 0.25, 0.5, 1];
+
+export const trueFalseShare = (rightCount: number, statementCount: number): number =>
+    statementCount === TRUE_FALSE_STEPS.length - 1 ? TRUE_FALSE_STEPS[rightCount] : rightCount / statementCount;
+
+export const isAnswered = (answer: Answer): boolean =>
+    typeof answer === 'number'
+    || (typeof answer === 'string' && answer.trim() !== '')
+    || (Array.isArray(answer) && answer.some(verdict => typeof verdict === 'boolean'))
+    || (typeof answer === 'object' && answer !== null && !Array.isArray(answer) && !!answer.base64Data);
+
+export const gradeQuestion = (question: ExamQuestion, answer: Answer, essayGrade?: EssayGrade): QuestionResult => {
+    if (!isAnswered(answer)) {
+        return { outcome: 'unanswered', earnedPoints: 0 };
+    }
+    if (essayGrade) {
+        return { outcome: 'graded', earnedPoints: essayGrade.earnedPoints };
+    }
+    if (question.type === QuestionType.TRUE_FALSE && question.statements?.length && Array.isArray(answer)) {
+        const rightCount = question.statements.filter((statement, index) => answer[index] === statement.isTrue).length;
+        const earnedPoints = Number((question.points * trueFalseShare(rightCount, question.statements.length)).toFixed(2));
+        const outcome = rightCount === question.statements.length ? 'correct' : rightCount > 0 ? 'partial' : 'incorrect';
+        return { outcome, earnedPoints };
+    }
+    let isCorrect: boolean;
+    if (question.type === QuestionType.MULTIPLE_CHOICE && question.correctOption !== undefined) {
+        isCorrect = answer === question.correctOption;
+    } else if (question.type === QuestionType.SHORT_ANSWER && question.answer && typeof answer === 'string') {
+        isCorrect = shortAnswersMatch(answer, question.answer);
+    } else {
+        return { outcome: 'ungraded', earnedPoints: 0 };
+    }
+    return isCorrect ? { outcome: 'correct', earnedPoints: question.points } : { outcome: 'incorrect', earnedPoints: 0 };
+};
+
+// Whether `gradeQuestion` can score the question without a rubric.
+export const isAutoGradable = (question: ExamQuestion): boolean =>
+    (question.type === QuestionType.MULTIPLE_CHOICE && question.correctOption !== undefined)
+    || (question.type === QuestionType.TRUE_FALSE && !!question.statements?.length)
+    || (question.type === QuestionType.SHORT_ANSWER && !!question.answer);
+
+export const gradeAttempt = (
+    exam: Exam,
+    answers: ExamAnswers,
+    { startedAt, submittedAt, timedOut }: Pick<ExamAttempt, 'startedAt' | 'submittedAt' | 'timedOut'>,
+    essayGrades: Record<string, EssayGrade> = {},
+): ExamAttempt => {
+    const results: Record<string, QuestionResult> = {};
+    let earnedPoints = 0;
+    let gradedPoints = 0;
+    for (const question of getExamQuestions(exam)) {
+        const essayGrade = essayGrades[question.id];
+        const result = gradeQuestion(question, answers[question.id], essayGrade);
+        results[question.id] = result;
+        earnedPoints += result.earnedPoints;
+        if (essayGrade || isAutoGradable(question)) {
+            gradedPoints += question.points;
+        }
+    }
+    return {
+        exam,
+        answers,
+        startedAt,
+        submittedAt,
+        timedOut,
+        results,
+        ...(Object.keys(essayGrades).length ? { essayGrades } : {}),
+        earnedPoints,
+        gradedPoints,
+        totalPoints: getExamTotalPoints(exam),
+    };
+};
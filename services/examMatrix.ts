@@ -0,0 +1,235 @@
+// services/examMatrix.ts
+// The exam matrix (ma trận đề): question counts and points per topic, question type and level.
+// It drives exam generation and the specification table (bản đặc tả) built from it.
+
+import { Schema, Type } from '@google/genai';
+import { DifficultyLevel, ExamMatrix, ExamMatrixCell, ExamMatrixRow, QuestionType } from '../types';
+import { generateJson } from './aiService';
+import { MatrixBlueprint, renderPrompt } from './prompts';
+import { examSpecificationResponse } from './responseValidators';
+import { renderTable } from './examRenderer';
+
+type Translate = (key: string) => string;
+
+const EXAM_MATRIX_STORAGE_KEY = 'triVietExamMatrix';
+
+const DIFFICULTY_LEVELS = Object.values(DifficultyLevel);
+
+export const MATRIX_QUESTION_TYPES = [QuestionType.MULTIPLE_CHOICE, QuestionType.TRUE_FALSE, QuestionType.SHORT_ANSWER, QuestionType.ESSAY];
+
+// What a new cell's questions are worth until the teacher changes it.
+const DEFAULT_POINTS_PER_QUESTION: Record<QuestionType, number> = {
+    [QuestionType.MULTIPLE_CHOICE]: 0.25,
+    [QuestionType.TRUE_FALSE]: 1,
+    [QuestionType.SHORT_ANSWER]: 0.5,
+    [QuestionType.ESSAY]: 1,
+};
+
+export interface MatrixTotal {
+    count: number;
+    points: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const createMatrixRow = (rows: ExamMatrixRow[]): ExamMatrixRow => ({
+    id: `r${rows.reduce((max, row) => Math.max(max, Number(row.id.slice(1)) || 0), 0) + 1}`,
+    topic: '',
+    cells: {},
+});
+
+export const createExamMatrix = (): ExamMatrix => ({
+    questionTypes: [QuestionType.MULTIPLE_CHOICE, QuestionType.ESSAY],
+    rows: [createMatrixRow([])],
+});
+
+// The last matrix the teacher worked on, so it survives a reload.
+export const loadExamMatrix = (): ExamMatrix => {
+    try {
+        const saved = localStorage.getItem(EXAM_MATRIX_STORAGE_KEY);
+        return saved ? JSON.parse(saved) : createExamMatrix();
+    } catch (e) {
+        console.error('Failed to parse exam matrix', e);
+        return createExamMatrix();
+    }
+};
+
+export const saveExamMatrix = (matrix: ExamMatrix) => {
+    localStorage.setItem(EXAM_MATRIX_STORAGE_KEY, JSON.stringify(matrix));
+};
+
+export const getMatrixCell = (row: ExamMatrixRow, type: QuestionType, level: DifficultyLevel): ExamMatrixCell =>
+    row.cells[type]?.[level] ?? { count: 0, pointsPerQuestion: DEFAULT_POINTS_PER_QUESTION[type] };
+
+export const updateMatrixCell = (
+    matrix: ExamMatrix,
+    rowId: string,
+    type: QuestionType,
+    level: DifficultyLevel,
+    changes: Partial<ExamMatrixCell>,
+): ExamMatrix => ({
+    ...matrix,
+    rows: matrix.rows.map(row => row.id !== rowId ? row : {
+        ...row,
+        cells: { ...row.cells, [type]: { ...row.cells[type], [level]: { ...getMatrixCell(row, type, level), ...changes } } },
+    }),
+});
+
+// Totals of the cells in the matrix's question types that pass `filter`, e.g. one row or one level.
+export const sumMatrix = (
+    matrix: ExamMatrix,
+    filter: (row: ExamMatrixRow, type: QuestionType, level: DifficultyLevel) => boolean = () => true,
+): MatrixTotal => {
+    let count = 0;
+    let points = 0;
+    for (const row of matrix.rows) {
+        for (const type of matrix.questionTypes) {
+            for (const level of DIFFICULTY_LEVELS) {
+                if (!filter(row, type, level)) continue;
+                const cell = getMatrixCell(row, type, level);
+                count += cell.count;
+                points += cell.count * cell.pointsPerQuestion;
+            }
+        }
+    }
+    return { count, points: round(points) };
+};
+
+// Rows without a topic or without questions are left out.
+const getFilledRows = (matrix: ExamMatrix): ExamMatrixRow[] =>
+    matrix.rows.filter(row => row.topic.trim() && sumMatrix(matrix, candidate => candidate === row).count > 0);
+
+export const buildMatrixBlueprint = (matrix: ExamMatrix, t: Translate): MatrixBlueprint => {
+    const rows = getFilledRows(matrix);
+    const usedTypes = matrix.questionTypes.filter(type => sumMatrix(matrix, (row, cellType) => rows.includes(row) && cellType === type).count > 0);
+    const total = sumMatrix(matrix, row => rows.includes(row));
+    return {
+        sections: usedTypes.map(type => ({ title: t(type), type })),
+        topics: rows.map(row => ({
+            topic: row.topic.trim(),
+            items: usedTypes.flatMap(type => DIFFICULTY_LEVELS
+                .map(level => ({ level, cell: getMatrixCell(row, type, level) }))
+                .filter(({ cell }) => cell.count > 0)
+                .map(({ level, cell }) => ({
+                    type,
+                    difficulty: level,
+                    count: cell.count,
+                    pointsPerQuestion: cell.pointsPerQuestion,
+                    ...(row.requirements?.[level]?.trim() ? { requirement: row.requirements[level].trim() } : {}),
+                }))),
+        })),
+        totalQuestions: total.count,
+        totalPoints: total.points,
+    };
+};
+
+const specificationSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        topics: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: Object.fromEntries(DIFFICULTY_LEVELS.map(level => [level, { type: Type.STRING }])),
+            },
+        },
+    },
+    required: ['topics'],
+};
+
+// Asks for what each topic's questions assess at each of their levels, and returns the matrix
+// with those requirements filled in. Requirements the teacher already wrote are kept.
+export const generateSpecification = async ({ matrix, language, subject, grade, textbook }: {
+    matrix: ExamMatrix;
+    language: string;
+    subject: string;
+    grade: number;
+    textbook?: string;
+}): Promise<ExamMatrix> => {
+    const rows = getFilledRows(matrix);
+    const levelsOf = (row: ExamMatrixRow) => DIFFICULTY_LEVELS
+        .map(level => ({ difficulty: level, count: sumMatrix(matrix, (candidate, _, cellLevel) => candidate === row && cellLevel === level).count }))
+        .filter(level => level.count > 0);
+    const { text: prompt } = renderPrompt('exam_specification', {
+        language,
+        subject,
+        grade,
+        textbook,
+        topics: rows.map(row => ({ topic: row.topic.trim(), levels: levelsOf(row) })),
+    });
+    const { topics } = await generateJson({
+        feature: 'exam_specification',
+        contents: prompt,
+        schema: specificationSchema,
+        validate: examSpecificationResponse,
+    });
+    return {
+        ...matrix,
+        rows: matrix.rows.map(row => {
+            const generated = topics[rows.indexOf(row)];
+            if (!generated) return row;
+            const requirements = { ...row.requirements };
+            for (const { difficulty } of levelsOf(row)) {
+                if (!requirements[difficulty]?.trim() && generated[difficulty]?.trim()) {
+                    requirements[difficulty] = generated[difficulty].trim();
+                }
+            }
+            return { ...row, requirements };
+        }),
+    };
+};
+
+const formatCell = ({ count, points }: MatrixTotal, t: Translate): string =>
+    count ? `${count} (${points} ${t('points')})` : '';
+
+// One row per topic and one column per type and level, with totals and the share of each level.
+export const renderMatrixTable = (matrix: ExamMatrix, t: Translate, format: 'markdown' | 'word' = 'markdown'): string => {
+    const columns = DIFFICULTY_LEVELS.flatMap(level => matrix.questionTypes.map(type => ({ level, type })));
+    const total = sumMatrix(matrix);
+    const header = [
+        t('matrix_topic'),
+        ...columns.map(({ level, type }) => `${t(level)} – ${t(type)}`),
+        t('total'),
+    ];
+    const rows = matrix.rows.filter(row => row.topic.trim() || sumMatrix(matrix, candidate => candidate === row).count > 0).map((row, index) => [
+        row.topic.trim() || `${t('matrix_topic')} ${index + 1}`,
+        ...columns.map(({ level, type }) => {
+            const cell = getMatrixCell(row, type, level);
+            return formatCell({ count: cell.count, points: round(cell.count * cell.pointsPerQuestion) }, t);
+        }),
+        formatCell(sumMatrix(matrix, candidate => candidate === row), t),
+    ]);
+    const totalRow = [
+        t('total'),
+        ...columns.map(({ level, type }) => formatCell(sumMatrix(matrix, (_, cellType, cellLevel) => cellType === type && cellLevel === level), t)),
+        formatCell(total, t),
+    ];
+    const shareRow = [
+        t('matrix_level_share'),
+        ...DIFFICULTY_LEVELS.flatMap(level => {
+            const { points } = sumMatrix(matrix, (_, __, cellLevel) => cellLevel === level);
+            const share = total.points ? `${Math.round(points / total.points * 100)}%` : '';
+            return matrix.questionTypes.map((_, index) => index === 0 ? share : '');
+        }),
+        total.points ? '100%' : '',
+    ];
+    return renderTable(header, [...rows, totalRow, shareRow], format);
+};
+
+// The specification table: what each topic's questions assess at each level, and how many
+// questions of each type do so.
+export const renderSpecificationTable = (matrix: ExamMatrix, t: Translate, format: 'markdown' | 'word' = 'markdown'): string => {
+    const header = [t('matrix_topic'), t('difficulty_level'), t('matrix_requirements'), ...matrix.questionTypes.map(type => t(type))];
+    const rows = getFilledRows(matrix).flatMap(row => DIFFICULTY_LEVELS
+        .filter(level => sumMatrix(matrix, (candidate, _, cellLevel) => candidate === row && cellLevel === level).count > 0)
+        .map(level => [
+            row.topic.trim(),
+            t(level),
+            row.requirements?.[level]?.trim() ?? '',
+            ...matrix.questionTypes.map(type => {
+                const { count } = getMatrixCell(row, type, level);
+                return count ? String(count) : '';
+            }),
+        ]));
+    return renderTable(header, rows, format);
+};
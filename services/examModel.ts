@@ -0,0 +1,165 @@
+// services/examModel.ts
+// The structured exam: the response schema the model fills in, and the conversion of its raw
+// JSON (complete, or partial while it streams) into an `Exam`.
+
+import { Schema, Type } from '@google/genai';
+import { DifficultyLevel, Exam, ExamQuestion, ExamSection, QuestionType, Subject } from '../types';
+
+export const OPTION_LETTERS = 'ABCDEFGH';
+
+export const optionLetter = (index: number): string => OPTION_LETTERS[index] ?? '?';
+
+// "B", "b", "B." or "(B) 12" -> 1; -1 when the answer does not start with an option letter.
+export const parseOptionLetter = (answer: string): number => {
+    const match = answer.trim().match(/^\(?([A-H])(?!\p{L})/iu);
+    return match ? OPTION_LETTERS.indexOf(match[1].toUpperCase()) : -1;
+};
+
+// Models often repeat the label inside the option text ("A. 12"); the renderer adds its own.
+const stripOptionLabel = (option: string): string => option.trim().replace(/^\(?[A-H][.)]\s+/, '');
+
+// The statements of a true/false cluster are labelled a), b), c), d).
+export const statementLabel = (index: number): string => 'abcdefgh'[index] ?? '?';
+
+const stripStatementLabel = (statement: string): string => statement.trim().replace(/^\(?[a-h]\)\s+/, '');
+
+// As returned by the model, before ids are assigned and answers resolved.
+export interface RawExamQuestion {
+    type?: string;
+    prompt?: string;
+    options?: string[];
+    statements?: { text?: string; isTrue?: boolean }[];
+    answer?: string;
+    difficulty?: string;
+    points?: number;
+    explanation?: string;
+    topic?: string;
+}
+
+export interface RawExam {
+    title?: string;
+    sections?: { title?: string; passage?: string; questions?: RawExamQuestion[] }[];
+    listeningScript?: string;
+}
+
+// What the generator knows about the exam before asking for it.
+export interface ExamMeta {
+    subject: Subject;
+    grade: number;
+    topic: string;
+    durationMinutes?: number;
+}
+
+const QUESTION_TYPES = Object.values(QuestionType) as string[];
+const DIFFICULTY_LEVELS = Object.values(DifficultyLevel) as string[];
+
+export const examQuestionSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        type: { type: Type.STRING, enum: QUESTION_TYPES },
+        prompt: { type: Type.STRING, description: 'The question, in Markdown with LaTeX, without its number.' },
+        options: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Multiple choice only: the option texts, without "A." labels.' },
+        statements: {
+            type: Type.ARRAY,
+            description: 'True/false clusters only: the statements, without "a)" labels, each with whether it is true.',
+            items: {
+                type: Type.OBJECT,
+                properties: { text: { type: Type.STRING }, isTrue: { type: Type.BOOLEAN } },
+                required: ['text', 'isTrue'],
+                propertyOrdering: ['text', 'isTrue'],
+            },
+        },
+        answer: { type: Type.STRING, description: 'Multiple choice: the letter of the correct option. True/false: a short summary such as "a) T, b) F, c) F, d) T". Otherwise: the expected or model answer.' },
+        difficulty: { type: Type.STRING, enum: DIFFICULTY_LEVELS },
+        points: { type: Type.NUMBER },
+        explanation: { type: Type.STRING },
+        topic: { type: Type.STRING, description: 'Exams built from a matrix only: the matrix topic of the question.' },
+    },
+    required: ['type', 'prompt', 'answer', 'difficulty', 'points', 'explanation'],
+    propertyOrdering: ['type', 'prompt', 'options', 'statements', 'answer', 'difficulty', 'points', 'explanation', 'topic'],
+};
+
+export const buildExamSchema = ({ withListeningScript = false } = {}): Schema => ({
+    type: Type.OBJECT,
+    properties: {
+        title: { type: Type.STRING },
+        sections: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    title: { type: Type.STRING },
+                    passage: { type: Type.STRING, description: 'Reading passage or instructions shared by the questions of the section.' },
+                    questions: { type: Type.ARRAY, items: examQuestionSchema },
+                },
+                required: ['title', 'questions'],
+                propertyOrdering: ['title', 'passage', 'questions'],
+            },
+        },
+        ...(withListeningScript ? { listeningScript: { type: Type.STRING } } : {}),
+    },
+    required: withListeningScript ? ['title', 'sections', 'listeningScript'] : ['title', 'sections'],
+    // The script goes last so the exam itself can be previewed while it streams.
+    propertyOrdering: withListeningScript ? ['title', 'sections', 'listeningScript'] : ['title', 'sections'],
+});
+
+export const normalizeExamQuestion = (raw: RawExamQuestion, id: string): ExamQuestion => {
+    const type = QUESTION_TYPES.includes(raw.type)
+        ? raw.type as QuestionType
+        : raw.options?.length ? QuestionType.MULTIPLE_CHOICE : QuestionType.ESSAY;
+    const question: ExamQuestion = {
+        id,
+        type,
+        prompt: raw.prompt.trim(),
+        difficulty: DIFFICULTY_LEVELS.includes(raw.difficulty) ? raw.difficulty as DifficultyLevel : DifficultyLevel.COMPREHENSION,
+        points: typeof raw.points === 'number' && raw.points >= 0 ? raw.points : 0,
+        explanation: raw.explanation?.trim() ?? '',
+        ...(raw.topic?.trim() ? { topic: raw.topic.trim() } : {}),
+    };
+    if (type === QuestionType.MULTIPLE_CHOICE) {
+        question.options = (raw.options ?? []).filter(option => typeof option === 'string').map(stripOptionLabel);
+        const correctOption = parseOptionLetter(raw.answer ?? '');
+        if (correctOption >= 0 && correctOption < question.options.length) {
+            question.correctOption = correctOption;
+        }
+    } else if (type === QuestionType.TRUE_FALSE) {
+        question.statements = (raw.statements ?? [])
+            .filter(statement => statement && typeof statement.text === 'string')
+            .map(statement => ({ text: stripStatementLabel(statement.text), isTrue: statement.isTrue === true }));
+    } else if (raw.answer?.trim()) {
+        question.answer = raw.answer.trim();
+    }
+    return question;
+};
+
+// Tolerates missing fields, so the partial JSON of a stream can be previewed as well.
+// Questions are numbered across the whole exam: `q1`, `q2`, ...
+export const normalizeExam = (raw: RawExam, meta: ExamMeta): Exam => {
+    let questionCount = 0;
+    const sections = (raw.sections ?? []).filter(Boolean).map((section, index): ExamSection => ({
+        id: `s${index + 1}`,
+        title: section.title?.trim() ?? '',
+        ...(section.passage?.trim() ? { passage: section.passage.trim() } : {}),
+        questions: (section.questions ?? [])
+            .filter(question => question && typeof question.prompt === 'string')
+            .map(question => normalizeExamQuestion(question, `q${++questionCount}`)),
+    }));
+    return {
+        ...meta,
+        title: raw.title?.trim() || meta.topic,
+        sections,
+        ...(raw.listeningScript?.trim() ? { listeningScript: raw.listeningScript.trim() } : {}),
+    };
+};
+
+export const getExamQuestions = (exam: Exam): ExamQuestion[] => exam.sections.flatMap(section => section.questions);
+
+// The exam with `question` in place of the question with its id.
+export const replaceExamQuestion = (exam: Exam, question: ExamQuestion): Exam => ({
+    ...exam,
+    sections: exam.sections.map(section => section.questions.some(existing => existing.id === question.id)
+        ? { ...section, questions: section.questions.map(existing => existing.id === question.id ? question : existing) }
+        : section),
+});
+
+export const getExamTotalPoints = (exam: Exam): number => getExamQuestions(exam).reduce((sum, question) => sum + question.points, 0);
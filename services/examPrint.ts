@@ -0,0 +1,234 @@
+// services/examPrint.ts
+// Print layout of a structured exam: an A4 page with the exam header, multiple-choice sections in
+// two columns, page numbers and KaTeX-rendered math, optionally followed by a bubble answer sheet
+// and the answer key. Printed from a hidden frame, so the browser's "Save as PDF" makes the PDF.
+
+import { Exam, ExamQuestion, QuestionType } from '../types';
+import { getExamQuestions, optionLetter, statementLabel } from './examModel';
+import { formatPoints, questionAnswer } from './examRenderer';
+import { ExamDocxOptions, optionsPerLine, parseInline } from './docxExport';
+import { escapeXml as escapeHtml } from './latexToOmml';
+import { AnswerSheetLayout, createAnswerSheetLayout, PAGE_HEIGHT_MM, PAGE_WIDTH_MM } from './answerSheetLayout';
+
+type Translate = (key: string) => string;
+
+export interface ExamPrintOptions extends ExamDocxOptions {
+    includeAnswerSheet?: boolean;
+}
+
+const KEY_COLUMNS = 10;
+
+const IMAGE_PATTERN = /!\[([^\]]*)\]\(((?:data:image\/|https:\/\/)[^)\s]+)\)/g;
+
+const PRINT_STYLES = `
+@page {
+    size: A4;
+    margin: 15mm 15mm 18mm;
+    @bottom-center { content: counter(page) " / " counter(pages); font: 10pt "Times New Roman", serif; }
+}
+@page sheet { margin: 0; }
+body { margin: 0; color: #000; font: 13pt/1.4 "Times New Roman", serif; }
+p { margin: 0; }
+img { max-width: 100%; }
+.exam-header { display: grid; grid-template-columns: 2fr 3fr; gap: 8mm; text-align: center; }
+.version-code { display: inline-block; margin-top: 2mm; padding: 0.5mm 3mm; border: 0.3mm solid #000; font-weight: bold; }
+.student-line { margin: 6mm 0 2mm; }
+h2 { margin: 5mm 0 2mm; font-size: 13pt; break-after: avoid; }
+.passage { margin-bottom: 3mm; }
+.two-columns { column-count: 2; column-gap: 8mm; }
+.question { margin-bottom: 2.5mm; break-inside: avoid; }
+.options { display: grid; gap: 0.5mm 4mm; padding-left: 5mm; }
+.options-4 { grid-template-columns: repeat(4, 1fr); }
+.options-2 { grid-template-columns: repeat(2, 1fr); }
+.end { margin-top: 6mm; text-align: center; font-weight: bold; }
+.answer-key { break-before: page; }
+.answer-key h1 { margin: 0 0 4mm; font-size: 15pt; text-align: center; }
+.answer-key table { width: 100%; margin-bottom: 4mm; border-collapse: collapse; }
+.answer-key td { padding: 1mm; border: 0.3mm solid #000; text-align: center; }
+.answer-key .explanation { padding-left: 5mm; }
+.answer-sheet { page: sheet; break-before: page; position: relative; width: ${PAGE_WIDTH_MM}mm; height: ${PAGE_HEIGHT_MM - 1}mm; overflow: hidden; font-size: 11pt; }
+.answer-sheet > * { position: absolute; }
+.marker { background: #000; }
+.bubble { box-sizing: border-box; display: flex; align-items: center; justify-content: center; border: 0.3mm solid #000; border-radius: 50%; color: #666; font: 2.6mm/1 Arial, sans-serif; }
+.digit-box { box-sizing: border-box; border: 0.3mm solid #000; }
+.field-label { font-size: 9pt; font-weight: bold; text-align: center; }
+.row-number { font-size: 9pt; font-weight: bold; transform: translateY(-50%); }
+`;
+
+// KaTeX is loaded by the page; without it the LaTeX is printed as it is.
+const renderMath = (latex: string): string => {
+    const katex = typeof window !== 'undefined' ? (window as any).katex : undefined;
+    if (!katex) {
+        return escapeHtml(`$${latex}$`);
+    }
+    return katex.renderToString(latex, { throwOnError: false, displayMode: false });
+};
+
+// Text with `$...$` math, `**bold**` / `*italic*` emphasis and Markdown images.
+const textToHtml = (text: string): string => {
+    const html: string[] = [];
+    let last = 0;
+    const addText = (part: string) => html.push(parseInline(part).map(inline => {
+        if ('math' in inline) return renderMath(inline.math);
+        const escaped = escapeHtml(inline.text);
+        const bold = inline.bold ? `<strong>${escaped}</strong>` : escaped;
+        return inline.italic ? `<em>${bold}</em>` : bold;
+    }).join(''));
+    for (const match of text.matchAll(IMAGE_PATTERN)) {
+        addText(text.slice(last, match.index));
+        html.push(`<img src="${escapeHtml(match[2])}" alt="${escapeHtml(match[1])}">`);
+        last = match.index + match[0].length;
+    }
+    addText(text.slice(last));
+    return html.join('');
+};
+
+const linesToHtml = (text: string): string =>
+    text.split('\n').map(line => line.trim()).filter(Boolean).map(line => `<p>${textToHtml(line)}</p>`).join('');
+
+const headerHtml = (exam: Exam, t: Translate, { school, className }: ExamPrintOptions): string => `
+<div class="exam-header">
+    <div>
+        ${school?.trim() ? `<p><strong>${escapeHtml(school.trim().toUpperCase())}</strong></p>` : ''}
+        ${className?.trim() ? `<p>${escapeHtml(`${t('class_name')}: ${className.trim()}`)}</p>` : ''}
+        ${exam.versionCode ? `<p class="version-code">${escapeHtml(`${t('version_code')} ${exam.versionCode}`)}</p>` : ''}
+    </div>
+    <div>
+        <p><strong>${escapeHtml(exam.title.toUpperCase())}</strong></p>
+        <p><strong>${escapeHtml(`${t(exam.subject)} – ${t('grade')} ${exam.grade}`)}</strong></p>
+        ${exam.durationMinutes ? `<p><em>${escapeHtml(`${t('time_allowed')}: ${exam.durationMinutes} ${t('minutes')}`)}</em></p>` : ''}
+    </div>
+</div>
+<p class="student-line">${escapeHtml(`${t('student_name')}: ${'.'.repeat(60)} ${t('class_name')}: ${'.'.repeat(15)}`)}</p>`;
+
+const questionHtml = (question: ExamQuestion, number: number, t: Translate, narrow: boolean): string => {
+    const [first = '', ...rest] = question.prompt.split('\n').map(line => line.trim()).filter(Boolean);
+    const points = question.points ? ` <em>(${escapeHtml(formatPoints(question.points, t))})</em>` : '';
+    const options = question.options?.length
+        ? `<div class="options options-${optionsPerLine(question.options, narrow)}">${question.options
+            .map((option, index) => `<div><strong>${optionLetter(index)}.</strong> ${textToHtml(option)}</div>`).join('')}</div>`
+        : question.statements?.length
+            ? `<div class="options">${question.statements
+                .map((statement, index) => `<div><strong>${statementLabel(index)})</strong> ${textToHtml(statement.text)}</div>`).join('')}</div>`
+            : '';
+    return `<div class="question"><p><strong>${escapeHtml(`${t('question')} ${number}.`)}</strong> ${textToHtml(first)}${points}</p>${rest.map(line => `<p>${textToHtml(line)}</p>`).join('')}${options}</div>`;
+};
+
+const answerKeyHtml = (exam: Exam, t: Translate): string => {
+    const questions = getExamQuestions(exam);
+    const entries = questions
+        .map((question, index) => ({ question, number: index + 1 }))
+        .filter(({ question }) => question.type === QuestionType.MULTIPLE_CHOICE && question.correctOption !== undefined);
+    const rows: string[] = [];
+    for (let start = 0; start < entries.length; start += KEY_COLUMNS) {
+        const chunk = entries.slice(start, start + KEY_COLUMNS);
+        rows.push(
+            `<tr><td><strong>${escapeHtml(t('question'))}</strong></td>${chunk.map(({ number }) => `<td><strong>${number}</strong></td>`).join('')}</tr>`,
+            `<tr><td><strong>${escapeHtml(t('correct_answer'))}</strong></td>${chunk.map(({ question }) => `<td>${optionLetter(question.correctOption)}</td>`).join('')}</tr>`,
+        );
+    }
+    const details = questions.map((question, index) => {
+        if (question.type === QuestionType.MULTIPLE_CHOICE && !question.explanation) return '';
+        const explanation = question.explanation ? `<div class="explanation">${linesToHtml(question.explanation)}</div>` : '';
+        return `<p><strong>${escapeHtml(`${t('question')} ${index + 1}.`)}</strong> ${textToHtml(questionAnswer(question, t))}</p>${explanation}`;
+    }).join('');
+    const title = exam.versionCode ? `${t('answer_key')} – ${t('version_code')} ${exam.versionCode}` : t('answer_key');
+    return `<div class="answer-key"><h1>${escapeHtml(title)}</h1>${rows.length ? `<table>${rows.join('')}</table>` : ''}${details}</div>`;
+};
+
+const at = (x: number, y: number, size?: { width: number; height: number }): string =>
+    `left:${x}mm;top:${y}mm;${size ? `width:${size.width}mm;height:${size.height}mm;` : ''}`;
+
+const bubbleHtml = (layout: AnswerSheetLayout, x: number, y: number, label: string): string => {
+    const diameter = layout.bubbleRadius * 2;
+    return `<div class="bubble" style="${at(x - layout.bubbleRadius, y - layout.bubbleRadius, { width: diameter, height: diameter })}">${escapeHtml(label)}</div>`;
+};
+
+export const answerSheetHtml = (exam: Exam, t: Translate, layout: AnswerSheetLayout): string => {
+    const parts: string[] = layout.markers.map(marker =>
+        `<div class="marker" style="${at(marker.x, marker.y, { width: layout.markerSize, height: layout.markerSize })}"></div>`);
+
+    parts.push(`<div style="${at(20, 20)}width:95mm;">
+        <p><strong>${escapeHtml(t('answer_sheet').toUpperCase())}</strong></p>
+        <p>${escapeHtml(exam.title)}</p>
+        <p>${escapeHtml(`${t(exam.subject)} – ${t('grade')} ${exam.grade}`)}</p>
+        <p style="margin-top:6mm">${escapeHtml(`${t('student_name')}: ${'.'.repeat(45)}`)}</p>
+        <p style="margin-top:3mm">${escapeHtml(`${t('class_name')}: ${'.'.repeat(20)}`)}</p>
+        <p style="margin-top:6mm;font-size:9pt"><em>${escapeHtml(t('answer_sheet_instructions'))}</em></p>
+    </div>`);
+
+    for (const field of layout.digitFields) {
+        const width = field.columns.length * layout.digitSpacing;
+        parts.push(`<div class="field-label" style="${at(field.label.x, field.label.y - 5)}width:${width}mm;">${escapeHtml(t(field.id))}</div>`);
+        field.columns.forEach((column, index) => {
+            parts.push(`<div class="digit-box" style="${at(field.label.x + index * layout.digitSpacing, field.label.y, { width: layout.digitSpacing, height: layout.digitSpacing })}"></div>`);
+            column.forEach((bubble, digit) => parts.push(bubbleHtml(layout, bubble.x, bubble.y, String(digit))));
+        });
+    }
+
+    for (const row of layout.answers) {
+        parts.push(`<div class="row-number" style="${at(row.label.x, row.label.y)}">${row.number}.</div>`);
+        row.bubbles.forEach((bubble, option) => parts.push(bubbleHtml(layout, bubble.x, bubble.y, optionLetter(option))));
+    }
+    return `<div class="answer-sheet">${parts.join('')}</div>`;
+};
+
+// The sheet has one row per multiple-choice question, numbered as in the exam.
+export const createExamAnswerSheetLayout = (exam: Exam): AnswerSheetLayout => {
+    const questions = getExamQuestions(exam);
+    const numbers = questions.flatMap((question, index) => question.type === QuestionType.MULTIPLE_CHOICE ? [index + 1] : []);
+    const optionCount = Math.max(4, ...questions.map(question => question.options?.length ?? 0));
+    return createAnswerSheetLayout(numbers, optionCount);
+};
+
+export const renderExamPrintHtml = (exam: Exam, t: Translate, options: ExamPrintOptions = {}): string => {
+    const body: string[] = [headerHtml(exam, t, options)];
+    let number = 0;
+    for (const section of exam.sections) {
+        const isMultipleChoice = section.questions.length > 0 && section.questions.every(question => question.type === QuestionType.MULTIPLE_CHOICE);
+        const questions = section.questions.map(question => questionHtml(question, ++number, t, isMultipleChoice)).join('');
+        body.push(`<h2>${textToHtml(section.title)}</h2>`);
+        if (section.passage) {
+            body.push(`<div class="passage">${linesToHtml(section.passage)}</div>`);
+        }
+        body.push(`<div class="${isMultipleChoice ? 'two-columns' : ''}">${questions}</div>`);
+    }
+    body.push(`<p class="end">— ${escapeHtml(t('end_of_exam'))} —</p>`);
+
+    const layout = createExamAnswerSheetLayout(exam);
+    if (options.includeAnswerSheet && layout.answers.length > 0) {
+        body.push(answerSheetHtml(exam, t, layout));
+    }
+    if (options.includeAnswerKey !== false && number > 0) {
+        body.push(answerKeyHtml(exam, t));
+    }
+
+    const katexStylesheet = typeof document !== 'undefined'
+        ? document.querySelector<HTMLLinkElement>('link[href*="katex"]')?.href
+        : undefined;
+    const title = exam.versionCode ? `${exam.title} - ${t('version_code')} ${exam.versionCode}` : exam.title;
+    return `<!DOCTYPE html><html><head><meta charset="UTF-8"><title>${escapeHtml(title)}</title>`
+        + `${katexStylesheet ? `<link rel="stylesheet" href="${escapeHtml(katexStylesheet)}">` : ''}`
+        + `<style>${PRINT_STYLES}</style></head><body>${body.join('\n')}</body></html>`;
+};
+
+// Prints `html` from a hidden frame once its stylesheets, images and fonts have loaded.
+export const printHtml = (html: string): Promise<void> => new Promise((resolve, reject) => {
+    const frame = document.createElement('iframe');
+    frame.style.cssText = 'position:fixed;right:0;bottom:0;width:0;height:0;border:0;';
+    frame.onload = async () => {
+        const view = frame.contentWindow;
+        if (!view) {
+            frame.remove();
+            reject(new Error('The print frame has no window.'));
+            return;
+        }
+        await view.document.fonts.ready;
+        view.addEventListener('afterprint', () => frame.remove());
+        view.focus();
+        view.print();
+        resolve();
+    };
+    frame.srcdoc = html;
+    document.body.appendChild(frame);
+});
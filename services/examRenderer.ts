@@ -0,0 +1,96 @@
+// services/examRenderer.ts
+// Renders a structured exam as Markdown with LaTeX (for the web view) or as plain text with
+// UnicodeMath (for pasting into Word). Labels come from the caller's `t`.
+
+import { Exam, ExamQuestion, QuestionType } from '../types';
+import { getExamQuestions, optionLetter, statementLabel } from './examModel';
+import { convertMathInText } from './unicodeMath';
+
+type Translate = (key: string) => string;
+
+export interface ExamRenderOptions {
+    // Appends the answers and explanations after the last section.
+    includeAnswerKey?: boolean;
+}
+
+export const formatPoints = (points: number, t: Translate): string => `${Number(points.toFixed(2))} ${t('points')}`;
+
+export const questionAnswer = (question: ExamQuestion, t: Translate): string => {
+    if (question.type === QuestionType.MULTIPLE_CHOICE) {
+        return question.correctOption === undefined
+            ? ''
+            : `${optionLetter(question.correctOption)}. ${question.options[question.correctOption]}`;
+    }
+    if (question.type === QuestionType.TRUE_FALSE && question.statements?.length) {
+        return question.statements.map((statement, index) => `${statementLabel(index)}) ${t(statement.isTrue ? 'true_option' : 'false_option')}`).join(', ');
+    }
+    return question.answer ?? '';
+};
+
+const renderExam = (exam: Exam, t: Translate, { includeAnswerKey = true }: ExamRenderOptions, format: 'markdown' | 'word'): string => {
+    const isMarkdown = format === 'markdown';
+    const heading = (level: number, text: string) => isMarkdown ? `${'#'.repeat(level)} ${text}` : text;
+    const bold = (text: string) => isMarkdown ? `**${text}**` : text;
+
+    const details = [t(exam.subject), `${t('grade')} ${exam.grade}`];
+    if (exam.durationMinutes) {
+        details.push(`${exam.durationMinutes} ${t('minutes')}`);
+    }
+    if (exam.versionCode) {
+        details.push(`${t('version_code')} ${exam.versionCode}`);
+    }
+    const lines = [heading(1, exam.title), details.join(' · '), ''];
+
+    let number = 0;
+    for (const section of exam.sections) {
+        lines.push(heading(2, section.title), '');
+        if (section.passage) {
+            lines.push(section.passage, '');
+        }
+        for (const question of section.questions) {
+            number++;
+            const points = question.points ? ` (${formatPoints(question.points, t)})` : '';
+            lines.push(`${bold(`${t('question')} ${number}.`)} ${question.prompt}${points}`);
+            question.options?.forEach((option, index) => lines.push(`${optionLetter(index)}. ${option}`));
+            question.statements?.forEach((statement, index) => lines.push(`${statementLabel(index)}) ${statement.text}`));
+            lines.push('');
+        }
+    }
+
+    if (includeAnswerKey && number > 0) {
+        if (isMarkdown) {
+            lines.push('---', '');
+        }
+        lines.push(heading(2, t('answer_key')), '');
+        getExamQuestions(exam).forEach((question, index) => {
+            lines.push(`${bold(`${t('question')} ${index + 1}.`)} ${questionAnswer(question, t)}`);
+            if (question.explanation) {
+                lines.push(question.explanation);
+            }
+            lines.push('');
+        });
+    }
+    const text = lines.join('\n').trim();
+    return isMarkdown ? text : convertMathInText(text);
+};
+
+export const renderExamMarkdown = (exam: Exam, t: Translate, options: ExamRenderOptions = {}): string =>
+    renderExam(exam, t, options, 'markdown');
+
+// Model text may still carry its own Markdown emphasis, which Word would show literally.
+export const renderExamWord = (exam: Exam, t: Translate, options: ExamRenderOptions = {}): string =>
+    renderExam(exam, t, options, 'word').replace(/\*\*(.*?)\*\*/g, '$1');
+
+const escapeTableCell = (text: string): string => text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+
+// A Markdown table or, for Word, tab-separated text (Insert > Table > Convert Text to Table).
+export const renderTable = (header: string[], rows: string[][], format: 'markdown' | 'word' = 'markdown'): string => {
+    if (format === 'word') {
+        return convertMathInText([header, ...rows].map(row => row.map(cell => cell.replace(/\s*\n\s*/g, ' ')).join('\t')).join('\n'));
+    }
+    return [
+        `| ${header.map(escapeTableCell).join(' | ')} |`,
+        `|${header.map(() => ' :---: ').join('|')}|`,
+        ...rows.map(row => `| ${row.map(escapeTableCell).join(' | ')} |`),
+    ].join('\n');
+};
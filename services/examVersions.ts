@@ -0,0 +1,108 @@
+// services/examVersions.ts
+// Versions of one exam for a classroom (mã đề): the same questions in a different order, with the
+// options of multiple-choice questions shuffled too. Each version keeps its sections, and every
+// position keeps the difficulty level it had, so all versions are equally hard section by section.
+
+import { Exam, ExamQuestion, QuestionType } from '../types';
+import { getExamQuestions, optionLetter, replaceExamQuestion } from './examModel';
+import { renderTable } from './examRenderer';
+
+export const MAX_EXAM_VERSIONS = 24;
+
+type Translate = (key: string) => string;
+
+// Options that point at other options ("All of the above", "Cả A và B đều đúng") only make sense
+// in their original order, so such questions keep it. A false match only costs a question its
+// option shuffle.
+const REFERS_TO_OTHER_OPTIONS = /\b(above|below|both|neither|all of|none of)\b|tất cả|cả hai|đều đúng|đều sai|trên đây|以上|\b[A-H]\s*(,|and|và|et|or|hoặc|ou)\s*[A-H]\b/i;
+
+// Small seeded generator (mulberry32), so the same seed gives the same versions.
+const createRandom = (seed: number) => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let value = state;
+        value = Math.imul(value ^ (value >>> 15), value | 1);
+        value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+        return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+export const shuffle = <T,>(items: T[], random: () => number = Math.random): T[] => {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+};
+
+const shuffleOptions = (question: ExamQuestion, random: () => number): ExamQuestion => {
+    const { options, correctOption } = question;
+    if (question.type !== QuestionType.MULTIPLE_CHOICE || !options || options.length < 2 || options.some(option => REFERS_TO_OTHER_OPTIONS.test(option))) {
+        return question;
+    }
+    const order = shuffle(options.map((_, index) => index), random);
+    return {
+        ...question,
+        options: order.map(index => options[index]),
+        correctOption: correctOption === undefined ? undefined : order.indexOf(correctOption),
+    };
+};
+
+// Questions only trade places with questions of the same difficulty.
+const shuffleQuestions = (questions: ExamQuestion[], random: () => number): ExamQuestion[] => {
+    const byDifficulty = new Map<string, ExamQuestion[]>();
+    for (const question of questions) {
+        byDifficulty.set(question.difficulty, [...(byDifficulty.get(question.difficulty) ?? []), question]);
+    }
+    for (const [difficulty, group] of byDifficulty) {
+        byDifficulty.set(difficulty, shuffle(group, random));
+    }
+    return questions.map(question => shuffleOptions(byDifficulty.get(question.difficulty)!.shift()!, random));
+};
+
+// Distinct three-digit codes, as printed on Vietnamese exam papers.
+const createVersionCodes = (count: number, random: () => number): string[] => {
+    const codes = new Set<string>();
+    while (codes.size < count) {
+        codes.add(String(100 + Math.floor(random() * 900)));
+    }
+    return [...codes].sort();
+};
+
+// Question ids are kept, so a question can be followed across versions.
+export const createExamVersions = (exam: Exam, count: number, seed: number = Date.now()): Exam[] => {
+    const random = createRandom(seed);
+    const versionCount = Math.min(MAX_EXAM_VERSIONS, Math.max(1, Math.floor(count)));
+    return createVersionCodes(versionCount, random).map(versionCode => ({
+        ...exam,
+        versionCode,
+        sections: exam.sections.map(section => ({ ...section, questions: shuffleQuestions(section.questions, random) })),
+    }));
+};
+
+// Puts an edited question into every version, in place of the one with its id, with its options
+// shuffled again.
+export const replaceQuestionInVersions = (versions: Exam[], question: ExamQuestion, random: () => number = Math.random): Exam[] =>
+    versions.map(version => replaceExamQuestion(version, shuffleOptions(question, random)));
+
+// A true/false cluster reads as one letter per statement, e.g. "ĐSSĐ".
+const keyEntry = (question: ExamQuestion, t: Translate): string => {
+    if (question.type === QuestionType.MULTIPLE_CHOICE) {
+        return question.correctOption === undefined ? '' : optionLetter(question.correctOption);
+    }
+    if (question.type === QuestionType.TRUE_FALSE) {
+        return (question.statements ?? []).map(statement => t(statement.isTrue ? 'true_short' : 'false_short')).join('');
+    }
+    return question.type === QuestionType.SHORT_ANSWER ? question.answer ?? '' : '—';
+};
+
+// One row per question number and one column per version code.
+export const renderAnswerKeyTable = (versions: Exam[], t: Translate, format: 'markdown' | 'word' = 'markdown'): string => {
+    const keys = versions.map(version => getExamQuestions(version).map(question => keyEntry(question, t)));
+    const rowCount = Math.max(0, ...keys.map(key => key.length));
+    const header = [t('question'), ...versions.map(version => `${t('version_code')} ${version.versionCode ?? ''}`.trim())];
+    const rows = Array.from({ length: rowCount }, (_, index) => [String(index + 1), ...keys.map(key => key[index] ?? '')]);
+    return renderTable(header, rows, format);
+};
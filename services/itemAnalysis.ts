@@ -0,0 +1,168 @@
+// services/itemAnalysis.ts
+// Item analysis (phân tích câu hỏi) of an exam from the attempts recorded on it: how hard each
+// question was, how well it told strong students from weak ones, which options were chosen, and
+// how the scores spread. Versions of the exam count as the same exam, as they keep question ids.
+
+import { Exam, ExamAttempt, ExamQuestion, ItemFlag, ItemStatistics, LibraryItem, LibraryItemType, QuestionType } from '../types';
+import { getExamQuestions } from './examModel';
+
+export interface OptionStatistics {
+    // Attempts that chose the option, among all, the best-scoring and the worst-scoring group.
+    count: number;
+    upperCount: number;
+    lowerCount: number;
+    isCorrect: boolean;
+    flag?: 'unused_distractor' | 'misleading_distractor';
+}
+
+export interface ItemReport {
+    // The question as in the analysed exam, and its number there.
+    question: ExamQuestion;
+    number: number;
+    statistics: ItemStatistics;
+    // Multiple-choice questions only, in the order of the analysed exam's options.
+    options?: OptionStatistics[];
+}
+
+export interface ScoreDistribution {
+    // Scores are out of 10, as in Vietnamese schools.
+    mean: number;
+    median: number;
+    standardDeviation: number;
+    min: number;
+    max: number;
+    // Attempts scoring [0, 1), [1, 2), … [9, 10].
+    bins: number[];
+}
+
+export interface ItemAnalysis {
+    attempts: number;
+    items: ItemReport[];
+    distribution: ScoreDistribution;
+}
+
+// Share of attempts in each of the best- and worst-scoring groups, the usual 27%.
+const GROUP_SHARE = 0.27;
+const MIN_GROUP_SIZE = 2;
+// Fewer responses than this say too little about a question to flag it.
+const MIN_RESPONSES = 5;
+const HARD_BELOW = 0.2;
+const EASY_ABOVE = 0.9;
+const LOW_DISCRIMINATION_BELOW = 0.2;
+// A wrong option chosen by fewer than this share of students does not distract anyone.
+const UNUSED_DISTRACTOR_BELOW = 0.05;
+
+// An attempt is on the exam when it has the same title and each of its questions is one of the
+// exam's, with the same prompt. Graded essays alone are saved as attempts with only those.
+export const isAttemptOfExam = (attempt: ExamAttempt, exam: Exam): boolean => {
+    if (attempt.exam.title !== exam.title) return false;
+    const prompts = new Map(getExamQuestions(exam).map(question => [question.id, question.prompt]));
+    const questions = getExamQuestions(attempt.exam);
+    return questions.length > 0 && questions.every(question => prompts.get(question.id) === question.prompt);
+};
+
+export const findExamAttempts = (library: LibraryItem[], exam: Exam): ExamAttempt[] => library.flatMap(item =>
+    item.type === LibraryItemType.EXAM_ATTEMPT && isAttemptOfExam(item.content, exam) ? [item.content] : []);
+
+const mean = (values: number[]): number => values.length === 0 ? 0 : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const round = (value: number, digits: number = 2): number => Math.round(value * 10 ** digits) / 10 ** digits;
+
+// Score out of 10 on the questions graded so far.
+const attemptScore = (attempt: ExamAttempt): number => attempt.gradedPoints > 0 ? 10 * attempt.earnedPoints / attempt.gradedPoints : 0;
+
+const scoreDistribution = (scores: number[]): ScoreDistribution => {
+    const sorted = [...scores].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    const average = mean(sorted);
+    const bins = Array.from({ length: 10 }, () => 0);
+    sorted.forEach(score => bins[Math.min(9, Math.max(0, Math.floor(score)))]++);
+    return {
+        mean: round(average),
+        median: sorted.length === 0 ? 0 : round(sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2),
+        standardDeviation: round(Math.sqrt(mean(sorted.map(score => (score - average) ** 2)))),
+        min: round(sorted[0] ?? 0),
+        max: round(sorted[sorted.length - 1] ?? 0),
+        bins,
+    };
+};
+
+// The option of the analysed question with the chosen option's text; versions shuffle options.
+const chosenOption = (attempt: ExamAttempt, question: ExamQuestion): number | undefined => {
+    const answer = attempt.answers[question.id];
+    if (typeof answer !== 'number') return undefined;
+    const asked = getExamQuestions(attempt.exam).find(candidate => candidate.id === question.id);
+    const text = asked?.options?.[answer];
+    const index = text === undefined ? -1 : question.options?.indexOf(text) ?? -1;
+    return index >= 0 ? index : answer;
+};
+
+const itemFlags = (statistics: Omit<ItemStatistics, 'flags' | 'analyzedAt'>, options?: OptionStatistics[]): ItemFlag[] => {
+    if (statistics.responses < MIN_RESPONSES) return [];
+    const flags: ItemFlag[] = [];
+    if (statistics.difficultyIndex < HARD_BELOW) flags.push('too_hard');
+    if (statistics.difficultyIndex > EASY_ABOVE) flags.push('too_easy');
+    if (statistics.discriminationIndex !== undefined) {
+        if (statistics.discriminationIndex < 0) flags.push('negative_discrimination');
+        else if (statistics.discriminationIndex < LOW_DISCRIMINATION_BELOW) flags.push('low_discrimination');
+    }
+    for (const flag of ['unused_distractor', 'misleading_distractor'] as const) {
+        if (options?.some(option => option.flag === flag)) flags.push(flag);
+    }
+    return flags;
+};
+
+// Questions still waiting for their essay grade are left out of that question's statistics.
+export const analyzeItems = (exam: Exam, attempts: ExamAttempt[], analyzedAt: number = Date.now()): ItemAnalysis => {
+    const ranked = [...attempts].sort((a, b) => attemptScore(b) - attemptScore(a));
+    const groupSize = Math.round(ranked.length * GROUP_SHARE);
+    const hasGroups = groupSize >= MIN_GROUP_SIZE;
+    const upper = new Set(hasGroups ? ranked.slice(0, groupSize) : []);
+    const lower = new Set(hasGroups ? ranked.slice(-groupSize) : []);
+
+    const items = getExamQuestions(exam).map((question, index): ItemReport => {
+        const scored = attempts.filter(attempt => {
+            const outcome = attempt.results[question.id]?.outcome;
+            return outcome !== undefined && outcome !== 'ungraded';
+        });
+        const share = (attempt: ExamAttempt) => question.points > 0 ? attempt.results[question.id].earnedPoints / question.points : 0;
+        const upperScored = scored.filter(attempt => upper.has(attempt));
+        const lowerScored = scored.filter(attempt => lower.has(attempt));
+        const discriminationIndex = upperScored.length > 0 && lowerScored.length > 0
+            ? round(mean(upperScored.map(share)) - mean(lowerScored.map(share)))
+            : undefined;
+
+        let options: OptionStatistics[] | undefined;
+        if (question.type === QuestionType.MULTIPLE_CHOICE && question.options) {
+            options = question.options.map((_, option) => ({ count: 0, upperCount: 0, lowerCount: 0, isCorrect: option === question.correctOption }));
+            for (const attempt of scored) {
+                const option = options[chosenOption(attempt, question) ?? -1];
+                if (!option) continue;
+                option.count++;
+                if (upper.has(attempt)) option.upperCount++;
+                if (lower.has(attempt)) option.lowerCount++;
+            }
+            for (const option of options.filter(candidate => !candidate.isCorrect)) {
+                if (scored.length >= MIN_RESPONSES && option.count < UNUSED_DISTRACTOR_BELOW * scored.length) {
+                    option.flag = 'unused_distractor';
+                } else if (hasGroups && option.upperCount > option.lowerCount) {
+                    option.flag = 'misleading_distractor';
+                }
+            }
+        }
+
+        const statistics = {
+            responses: scored.length,
+            difficultyIndex: round(mean(scored.map(share))),
+            ...(discriminationIndex !== undefined ? { discriminationIndex } : {}),
+        };
+        return {
+            question,
+            number: index + 1,
+            statistics: { ...statistics, flags: itemFlags(statistics, options), analyzedAt },
+            ...(options ? { options } : {}),
+        };
+    });
+
+    return { attempts: attempts.length, items, distribution: scoreDistribution(attempts.map(attemptScore)) };
+};
@@ -0,0 +1,362 @@
+// services/latexToOmml.ts
+// Converts LaTeX to Office Math Markup (OMML), the XML Word stores its native equations in, for
+// the .docx export. Covers the same ground as the UnicodeMath converter and shares its symbol
+// tables; unknown commands are kept by name.
+
+import { ACCENTS, DOUBLE_STRUCK, FONT_COMMANDS, SYMBOLS, TEXT_COMMANDS } from './unicodeMath';
+
+// `math` runs are italicized by Word where it sees fit; `plain` is upright, `text` is ordinary
+// (non-math) text.
+type RunStyle = 'math' | 'plain' | 'bold' | 'text';
+
+// One element of an equation. Runs of text are merged when the equation is serialized; an n-ary
+// operator takes everything after it as its operand and a function name takes the next element.
+interface MathItem {
+    text?: string;
+    style?: RunStyle;
+    xml?: string;
+    nary?: { chr: string; limLoc: 'undOvr' | 'subSup'; sub?: string; sup?: string };
+    func?: { name: string; xml: string };
+}
+
+const FUNCTION_NAMES = new Set([
+    'sin', 'cos', 'tan', 'cot', 'sec', 'csc', 'arcsin', 'arccos', 'arctan', 'sinh', 'cosh', 'tanh',
+    'log', 'ln', 'lg', 'exp', 'lim', 'max', 'min', 'sup', 'inf', 'det', 'gcd', 'deg', 'arg', 'dim', 'ker',
+]);
+
+// Function names whose subscript goes underneath.
+const LIMIT_FUNCTIONS = new Set(['lim', 'max', 'min', 'sup', 'inf']);
+
+const NARY_OPERATORS: Record<string, MathItem['nary']> = {
+    sum: { chr: '∑', limLoc: 'undOvr' },
+    prod: { chr: '∏', limLoc: 'undOvr' },
+    bigcup: { chr: '⋃', limLoc: 'undOvr' },
+    bigcap: { chr: '⋂', limLoc: 'undOvr' },
+    int: { chr: '∫', limLoc: 'subSup' },
+    iint: { chr: '∬', limLoc: 'subSup' },
+    iiint: { chr: '∭', limLoc: 'subSup' },
+    oint: { chr: '∮', limLoc: 'subSup' },
+};
+
+// Sizing and style commands that Word decides on by itself.
+const IGNORED_COMMANDS = new Set([
+    'displaystyle', 'textstyle', 'limits', 'nolimits', 'mathstrut', 'big', 'Big', 'bigg', 'Bigg',
+    'bigl', 'bigr', 'Bigl', 'Bigr', 'biggl', 'biggr', '!',
+]);
+
+const SPACES: Record<string, string> = { ',': ' ', ':': ' ', ';': ' ', ' ': ' ', quad: ' ', qquad: '  ' };
+
+// Matrix environments and the brackets around them.
+const MATRIX_DELIMITERS: Record<string, [string, string]> = {
+    matrix: ['', ''], smallmatrix: ['', ''], array: ['', ''],
+    pmatrix: ['(', ')'], bmatrix: ['[', ']'], Bmatrix: ['{', '}'], vmatrix: ['|', '|'], Vmatrix: ['‖', '‖'],
+};
+
+export const escapeXml = (text: string): string => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const run = (text: string, style: RunStyle): string => {
+    const properties = {
+        math: '',
+        plain: '<m:rPr><m:sty m:val="p"/></m:rPr>',
+        bold: '<m:rPr><m:sty m:val="b"/></m:rPr>',
+        text: '<m:rPr><m:nor/></m:rPr>',
+    }[style];
+    return `<m:r>${properties}<m:t xml:space="preserve">${escapeXml(text)}</m:t></m:r>`;
+};
+
+const delimited = (begin: string, end: string, content: string): string =>
+    `<m:d><m:dPr><m:begChr m:val="${escapeXml(begin)}"/><m:endChr m:val="${escapeXml(end)}"/></m:dPr><m:e>${content}</m:e></m:d>`;
+
+const serialize = (items: MathItem[]): string => {
+    let xml = '';
+    for (let i = 0; i < items.length; i++) {
+        const item = items[i];
+        if (item.nary) {
+            const { chr, limLoc, sub, sup } = item.nary;
+            const hidden = `${sub === undefined ? '<m:subHide m:val="1"/>' : ''}${sup === undefined ? '<m:supHide m:val="1"/>' : ''}`;
+            xml += `<m:nary><m:naryPr><m:chr m:val="${chr}"/><m:limLoc m:val="${limLoc}"/>${hidden}</m:naryPr>`
+                + `<m:sub>${sub ?? ''}</m:sub><m:sup>${sup ?? ''}</m:sup><m:e>${serialize(items.slice(i + 1))}</m:e></m:nary>`;
+            break;
+        }
+        if (item.func) {
+            const next = items[i + 1];
+            const argument = next && !next.nary ? serialize([items[++i]]) : '';
+            xml += `<m:func><m:fName>${item.func.xml}</m:fName><m:e>${argument}</m:e></m:func>`;
+            continue;
+        }
+        if (item.xml !== undefined) {
+            xml += item.xml;
+            continue;
+        }
+        let text = item.text ?? '';
+        while (items[i + 1]?.text !== undefined && items[i + 1].style === item.style && !items[i + 1].func) {
+            text += items[++i].text;
+        }
+        xml += run(text, item.style ?? 'math');
+    }
+    return xml;
+};
+
+const restyle = (items: MathItem[], style: RunStyle): MathItem[] =>
+    items.map(item => item.text !== undefined && !item.func ? { ...item, style } : item);
+
+// Returns the inner XML of an `m:oMath` element.
+export const latexToOmmlContent = (latex: string): string => {
+    let pos = 0;
+
+    const skipSpaces = () => {
+        while (pos < latex.length && /\s/.test(latex[pos])) pos++;
+    };
+
+    const readCommandName = (): string => {
+        pos++; // '\'
+        const name = latex.slice(pos).match(/^([a-zA-Z]+|.?)/)[1];
+        pos += name.length;
+        return name;
+    };
+
+    const readRawGroup = (): string => {
+        skipSpaces();
+        if (latex[pos] !== '{') {
+            return latex[pos++] ?? '';
+        }
+        let depth = 0;
+        const start = pos + 1;
+        for (; pos < latex.length; pos++) {
+            if (latex[pos] === '{') depth++;
+            if (latex[pos] === '}' && --depth === 0) break;
+        }
+        return latex.slice(start, pos++);
+    };
+
+    // A braced group, or else a single character or command.
+    const readArgument = (): MathItem[] => {
+        skipSpaces();
+        if (latex[pos] === '{') {
+            pos++;
+            const group = parseList(() => latex[pos] === '}');
+            pos++;
+            return group;
+        }
+        if (latex[pos] === '\\') {
+            return convertCommand(readCommandName());
+        }
+        return pos < latex.length ? [{ text: latex[pos++], style: 'math' }] : [];
+    };
+
+    const readOptionalArgument = (): MathItem[] | null => {
+        skipSpaces();
+        if (latex[pos] !== '[') {
+            return null;
+        }
+        pos++;
+        const group = parseList(() => latex[pos] === ']');
+        pos++;
+        return group;
+    };
+
+    const readDelimiter = (): string => {
+        skipSpaces();
+        const delimiter = latex[pos] === '\\' ? readCommandName() : latex[pos++] ?? '';
+        if (delimiter === '.') return '';
+        if (delimiter === '|' && latex[pos - 2] === '\\') return '‖';
+        return SYMBOLS[delimiter] ?? delimiter;
+    };
+
+    const convertEnvironment = (name: string): MathItem[] => {
+        if (name === 'array') {
+            readRawGroup(); // column spec
+        }
+        const rows: string[][] = [[]];
+        while (pos < latex.length) {
+            const cell = parseList(() => latex[pos] === '&' || latex.startsWith('\\\\', pos) || latex.startsWith('\\end', pos));
+            rows[rows.length - 1].push(serialize(cell));
+            if (latex[pos] === '&') {
+                pos++;
+            } else if (latex.startsWith('\\\\', pos)) {
+                pos += 2;
+                rows.push([]);
+            } else {
+                readCommandName();
+                readRawGroup();
+                break;
+            }
+        }
+        if (rows.length > 1 && rows[rows.length - 1].every(cell => !cell)) {
+            rows.pop();
+        }
+
+        const baseName = name.replace(/\*$/, '');
+        if (baseName in MATRIX_DELIMITERS) {
+            const columns = Math.max(...rows.map(row => row.length));
+            const matrix = `<m:m>${rows.map(row => `<m:mr>${Array.from({ length: columns }, (_, index) => `<m:e>${row[index] ?? ''}</m:e>`).join('')}</m:mr>`).join('')}</m:m>`;
+            const [begin, end] = MATRIX_DELIMITERS[baseName];
+            return [{ xml: begin || end ? delimited(begin, end, matrix) : matrix }];
+        }
+        // cases, aligned, gathered and the like: rows stacked in an equation array, with the
+        // alignment points turned into spaces.
+        const array = `<m:eqArr>${rows.map(row => `<m:e>${row.join(run('  ', 'text'))}</m:e>`).join('')}</m:eqArr>`;
+        return [{ xml: baseName === 'cases' ? delimited('{', '', array) : array }];
+    };
+
+    const convertCommand = (name: string): MathItem[] => {
+        switch (name) {
+            case 'frac':
+            case 'dfrac':
+            case 'tfrac': {
+                const numerator = serialize(readArgument());
+                return [{ xml: `<m:f><m:num>${numerator}</m:num><m:den>${serialize(readArgument())}</m:den></m:f>` }];
+            }
+            case 'binom': {
+                const top = serialize(readArgument());
+                const fraction = `<m:f><m:fPr><m:type m:val="noBar"/></m:fPr><m:num>${top}</m:num><m:den>${serialize(readArgument())}</m:den></m:f>`;
+                return [{ xml: delimited('(', ')', fraction) }];
+            }
+            case 'sqrt': {
+                const index = readOptionalArgument();
+                const radicand = serialize(readArgument());
+                return [{
+                    xml: index
+                        ? `<m:rad><m:deg>${serialize(index)}</m:deg><m:e>${radicand}</m:e></m:rad>`
+                        : `<m:rad><m:radPr><m:degHide m:val="1"/></m:radPr><m:deg/><m:e>${radicand}</m:e></m:rad>`,
+                }];
+            }
+            case 'mathbb': {
+                const set = readRawGroup().trim();
+                return [{ text: DOUBLE_STRUCK[set] ?? set, style: 'plain' }];
+            }
+            case 'left': {
+                const begin = readDelimiter();
+                const content = parseList(() => latex.startsWith('\\right', pos));
+                let end = '';
+                if (pos < latex.length) {
+                    readCommandName();
+                    end = readDelimiter();
+                }
+                return [{ xml: delimited(begin, end, serialize(content)) }];
+            }
+            case 'right':
+                readDelimiter();
+                return [];
+            case 'begin':
+                return convertEnvironment(readRawGroup().trim());
+            case 'end':
+                readRawGroup();
+                return [];
+            case '\\':
+                return [];
+            case 'overline':
+                return [{ xml: `<m:bar><m:barPr><m:pos m:val="top"/></m:barPr><m:e>${serialize(readArgument())}</m:e></m:bar>` }];
+            case 'underline':
+                return [{ xml: `<m:bar><m:barPr><m:pos m:val="bot"/></m:barPr><m:e>${serialize(readArgument())}</m:e></m:bar>` }];
+            case 'overrightarrow':
+                return [{ xml: `<m:groupChr><m:groupChrPr><m:chr m:val="→"/><m:pos m:val="top"/><m:vertJc m:val="bot"/></m:groupChrPr><m:e>${serialize(readArgument())}</m:e></m:groupChr>` }];
+        }
+        if (name in SPACES) {
+            return [{ text: SPACES[name], style: 'text' }];
+        }
+        if (IGNORED_COMMANDS.has(name)) {
+            return [];
+        }
+        if (TEXT_COMMANDS.has(name)) {
+            return [{ text: readRawGroup(), style: 'text' }];
+        }
+        if (FONT_COMMANDS.has(name)) {
+            const style: RunStyle = /bf|bold/.test(name) ? 'bold' : /it/.test(name) ? 'math' : 'plain';
+            return restyle(readArgument(), style);
+        }
+        if (name in ACCENTS) {
+            return [{ xml: `<m:acc><m:accPr><m:chr m:val="${ACCENTS[name]}"/></m:accPr><m:e>${serialize(readArgument())}</m:e></m:acc>` }];
+        }
+        if (name in NARY_OPERATORS) {
+            return [{ nary: { ...NARY_OPERATORS[name] } }];
+        }
+        if (FUNCTION_NAMES.has(name)) {
+            return [{ func: { name, xml: run(name, 'plain') } }];
+        }
+        // Escaped characters (`\{`, `\%`) stand for themselves.
+        return [{ text: SYMBOLS[name] ?? name, style: SYMBOLS[name] || name.length === 1 ? 'math' : 'plain' }];
+    };
+
+    const attachScripts = (base: MathItem | undefined, sub?: MathItem[], sup?: MathItem[]): MathItem[] => {
+        const subXml = sub && serialize(sub);
+        const supXml = sup && serialize(sup);
+        if (base?.nary) {
+            return [{ nary: { ...base.nary, sub: subXml ?? base.nary.sub, sup: supXml ?? base.nary.sup } }];
+        }
+        // x^\circ is a degree sign, not a superscript.
+        if (!sub && sup?.length === 1 && sup[0].text === '∘') {
+            return [...(base ? [base] : []), { text: '°', style: 'math' }];
+        }
+        if (base?.func) {
+            const { name } = base.func;
+            let fName = base.func.xml;
+            if (sub && LIMIT_FUNCTIONS.has(name)) {
+                fName = `<m:limLow><m:e>${fName}</m:e><m:lim>${subXml}</m:lim></m:limLow>`;
+                if (sup) fName = `<m:sSup><m:e>${fName}</m:e><m:sup>${supXml}</m:sup></m:sSup>`;
+            } else {
+                fName = scripted(fName, subXml, supXml);
+            }
+            return [{ func: { name, xml: fName } }];
+        }
+        return [{ xml: scripted(base ? serialize([base]) : '', subXml, supXml) }];
+    };
+
+    const scripted = (base: string, sub?: string, sup?: string): string => {
+        if (sub !== undefined && sup !== undefined) {
+            return `<m:sSubSup><m:e>${base}</m:e><m:sub>${sub}</m:sub><m:sup>${sup}</m:sup></m:sSubSup>`;
+        }
+        return sup !== undefined
+            ? `<m:sSup><m:e>${base}</m:e><m:sup>${sup}</m:sup></m:sSup>`
+            : `<m:sSub><m:e>${base}</m:e><m:sub>${sub}</m:sub></m:sSub>`;
+    };
+
+    const parseList = (isEnd: () => boolean = () => false): MathItem[] => {
+        const items: MathItem[] = [];
+        while (pos < latex.length && !isEnd()) {
+            const char = latex[pos];
+            if (/\s/.test(char)) {
+                pos++;
+            } else if (char === '\\') {
+                items.push(...convertCommand(readCommandName()));
+            } else if (char === '^' || char === '_') {
+                const base = items.pop();
+                let sub: MathItem[] | undefined;
+                let sup: MathItem[] | undefined;
+                // Both scripts may follow, in either order.
+                for (let i = 0; i < 2; i++) {
+                    skipSpaces();
+                    if (latex[pos] === '_' && !sub) {
+                        pos++;
+                        sub = readArgument();
+                    } else if (latex[pos] === '^' && !sup) {
+                        pos++;
+                        sup = readArgument();
+                    }
+                }
+                items.push(...attachScripts(base, sub, sup));
+            } else if (char === '{') {
+                pos++;
+                const group = parseList(() => latex[pos] === '}');
+                pos++;
+                items.push({ xml: serialize(group) });
+            } else if (/\d/.test(char)) {
+                const number = latex.slice(pos).match(/^\d+([.,]\d+)?/)[0];
+                pos += number.length;
+                items.push({ text: number, style: 'math' });
+            } else {
+                items.push({ text: char === "'" ? '′' : char, style: 'math' });
+                pos++;
+            }
+        }
+        return items;
+    };
+
+    return serialize(parseList());
+};
+
+export const latexToOmml = (latex: string): string => `<m:oMath>${latexToOmmlContent(latex)}</m:oMath>`;
@@ -0,0 +1,165 @@
+// services/listeningAudio.ts
+// The audio of a listening section: the script's speakers voiced by different TTS voices, the
+// recording repeated with pauses as it is played in class, and a WAV or MP3 file of it. Audio is
+// kept as base64 24kHz mono 16-bit PCM, as the TTS model returns it.
+
+import { Mp3Encoder } from '@breezystack/lamejs';
+import { generateSpeech, SpeakerVoice, TTS_VOICES } from './aiService';
+
+export const SAMPLE_RATE = 24000;
+
+// Plenty for one voice; a 10-minute listening section stays under 5 MB.
+const MP3_KBPS = 64;
+const MP3_FRAME_SAMPLES = 1152;
+
+// Silence between the turns of a dialogue voiced one turn at a time.
+const TURN_GAP_SECONDS = 0.5;
+
+// Voices that sound clearly different from each other, tried in this order for the speakers.
+const CONTRASTING_VOICES = ['Kore', 'Puck', 'Aoede', 'Charon', 'Leda', 'Fenrir', 'Zephyr', 'Orus'];
+
+export interface DialogueTurn {
+    // Empty for narration before the first labelled line.
+    speaker: string;
+    text: string;
+}
+
+export interface ReplayOptions {
+    plays: number;
+    pauseSeconds: number;
+}
+
+// "Tom: Hi!" or "**Mrs. Lan:** Good morning." Unlabelled lines continue the turn before them.
+const SPEAKER_LINE = /^\s*\**\s*(\p{Lu}[\p{L}\d .'-]{0,24}?)\s*\**\s*:\s*\**\s*(.+)$/u;
+
+export const parseDialogue = (script: string): DialogueTurn[] => {
+    const turns: DialogueTurn[] = [];
+    for (const line of script.split('\n').map(line => line.trim()).filter(Boolean)) {
+        const match = line.match(SPEAKER_LINE);
+        const last = turns[turns.length - 1];
+        if (match && last?.speaker === match[1]) {
+            last.text += ` ${match[2].trim()}`;
+        } else if (match) {
+            turns.push({ speaker: match[1], text: match[2].trim() });
+        } else if (last) {
+            last.text += ` ${line}`;
+        } else {
+            turns.push({ speaker: '', text: line });
+        }
+    }
+    return turns;
+};
+
+export const getScriptSpeakers = (script: string): string[] =>
+    [...new Set(parseDialogue(script).map(turn => turn.speaker).filter(Boolean))];
+
+// Speakers keep the voice they already have; the first new one gets `primaryVoice` when it is free.
+export const assignVoices = (speakers: string[], primaryVoice: string, current: SpeakerVoice[] = []): SpeakerVoice[] => {
+    const used = new Set(current.filter(voice => speakers.includes(voice.speaker)).map(voice => voice.voiceName));
+    return speakers.map((speaker, index) => {
+        const voiceName = current.find(voice => voice.speaker === speaker)?.voiceName
+            ?? [...(index === 0 ? [primaryVoice] : []), ...CONTRASTING_VOICES, ...TTS_VOICES].find(voice => !used.has(voice))
+            ?? primaryVoice;
+        used.add(voiceName);
+        return { speaker, voiceName };
+    });
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+};
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    // Chunked, as spreading a long array into fromCharCode overflows the stack.
+    for (let start = 0; start < bytes.length; start += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(start, start + 0x8000));
+    }
+    return btoa(binary);
+};
+
+const silence = (seconds: number): Uint8Array => new Uint8Array(2 * Math.round(Math.max(0, seconds) * SAMPLE_RATE));
+
+const concatBytes = (chunks: Uint8Array[]): Uint8Array => {
+    const result = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+        result.set(chunk, offset);
+        offset += chunk.length;
+    }
+    return result;
+};
+
+// The recording `plays` times, with a pause before each replay.
+export const withReplays = (audio: string, { plays, pauseSeconds }: ReplayOptions): Uint8Array => {
+    const clip = base64ToBytes(audio);
+    return concatBytes(Array.from({ length: Math.max(1, plays) }, (_, index) => index === 0 ? [clip] : [silence(pauseSeconds), clip]).flat());
+};
+
+export const pcmToAudioBuffer = (pcm: Uint8Array, context: AudioContext): AudioBuffer => {
+    const samples = new Int16Array(pcm.buffer, pcm.byteOffset, Math.floor(pcm.length / 2));
+    const buffer = context.createBuffer(1, samples.length, SAMPLE_RATE);
+    const channel = buffer.getChannelData(0);
+    for (let i = 0; i < samples.length; i++) {
+        channel[i] = samples[i] / 32768;
+    }
+    return buffer;
+};
+
+// A RIFF/WAVE file around the PCM samples, which are little-endian already.
+export const encodeWav = (pcm: Uint8Array): Blob => {
+    const header = new DataView(new ArrayBuffer(44));
+    const writeText = (offset: number, text: string) => [...text].forEach((char, index) => header.setUint8(offset + index, char.charCodeAt(0)));
+    writeText(0, 'RIFF');
+    header.setUint32(4, 36 + pcm.length, true);
+    writeText(8, 'WAVE');
+    writeText(12, 'fmt ');
+    header.setUint32(16, 16, true);
+    header.setUint16(20, 1, true);
+    header.setUint16(22, 1, true);
+    header.setUint32(24, SAMPLE_RATE, true);
+    header.setUint32(28, SAMPLE_RATE * 2, true);
+    header.setUint16(32, 2, true);
+    header.setUint16(34, 16, true);
+    writeText(36, 'data');
+    header.setUint32(40, pcm.length, true);
+    return new Blob([header.buffer, pcm], { type: 'audio/wav' });
+};
+
+export const encodeMp3 = (pcm: Uint8Array): Blob => {
+    const samples = new Int16Array(pcm.buffer, pcm.byteOffset, Math.floor(pcm.length / 2));
+    const encoder = new Mp3Encoder(1, SAMPLE_RATE, MP3_KBPS);
+    const frames: Uint8Array[] = [];
+    for (let start = 0; start < samples.length; start += MP3_FRAME_SAMPLES) {
+        frames.push(encoder.encodeBuffer(samples.subarray(start, start + MP3_FRAME_SAMPLES)));
+    }
+    frames.push(encoder.flush());
+    return new Blob(frames, { type: 'audio/mpeg' });
+};
+
+// A dialogue of two speakers is voiced in one call; any other dialogue one turn at a time, each
+// turn in its speaker's voice. A script without speaker labels is read by `narratorVoice`.
+export const generateListeningAudio = async (script: string, voices: SpeakerVoice[], narratorVoice: string): Promise<string> => {
+    const turns = parseDialogue(script);
+    const speakers = [...new Set(turns.map(turn => turn.speaker))];
+    if (speakers.length === 1) {
+        const voiceName = voices.find(voice => voice.speaker === speakers[0])?.voiceName ?? narratorVoice;
+        return generateSpeech(speakers[0] ? turns.map(turn => turn.text).join('\n') : script, voiceName);
+    }
+    if (speakers.length === 2 && !speakers.includes('')) {
+        const text = `Read aloud this conversation between ${speakers.join(' and ')}:\n${turns.map(turn => `${turn.speaker}: ${turn.text}`).join('\n')}`;
+        return generateSpeech(text, narratorVoice, speakers.map(speaker => voices.find(voice => voice.speaker === speaker) ?? { speaker, voiceName: narratorVoice }));
+    }
+    const chunks: Uint8Array[] = [];
+    for (const turn of turns) {
+        const voiceName = voices.find(voice => voice.speaker === turn.speaker)?.voiceName ?? narratorVoice;
+        if (chunks.length > 0) chunks.push(silence(TURN_GAP_SECONDS));
+        chunks.push(base64ToBytes(await generateSpeech(turn.text, voiceName)));
+    }
+    return bytesToBase64(concatBytes(chunks));
+};
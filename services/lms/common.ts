@@ -0,0 +1,92 @@
+// services/lms/common.ts
+// Shared by the LMS question formats: question text as HTML with math, the difficulty tags, and
+// the way back from HTML to the app's Markdown with `$...$` math.
+
+import { Exam, QuestionType } from '../../types';
+import { parseInline } from '../docxExport';
+import { escapeXml } from '../latexToOmml';
+import { RawExam, statementLabel } from '../examModel';
+
+export type Translate = (key: string) => string;
+
+// What an importer read, before the exam gets its subject and grade.
+export interface ImportedQuestions {
+    raw: RawExam;
+    // Questions of kinds the exam model has no counterpart for (matching, cloze, ...).
+    skipped: number;
+}
+
+// The LMS formats have no true/false clusters, so each statement leaves as a true/false question
+// of its own (as the importers read them back), with the cluster's stem and an equal share of its
+// points. The partial-credit steps of the cluster are lost.
+export const splitTrueFalseClusters = (exam: Exam, t: Translate): Exam => ({
+    ...exam,
+    sections: exam.sections.map(section => ({
+        ...section,
+        questions: section.questions.flatMap(question => question.type === QuestionType.TRUE_FALSE && question.statements?.length
+            ? question.statements.map((statement, index) => ({
+                id: `${question.id}${statementLabel(index)}`,
+                type: QuestionType.MULTIPLE_CHOICE,
+                prompt: `${question.prompt}\n\n${statementLabel(index)}) ${statement.text}`,
+                options: [t('true_option'), t('false_option')],
+                correctOption: statement.isTrue ? 0 : 1,
+                difficulty: question.difficulty,
+                points: Math.round(question.points / question.statements.length * 100) / 100,
+                explanation: question.explanation,
+                ...(question.topic ? { topic: question.topic } : {}),
+            }))
+            : [question]),
+    })),
+});
+
+const DIFFICULTY_TAG_PREFIX = 'difficulty:';
+
+export const difficultyTag = (difficulty: string): string => `${DIFFICULTY_TAG_PREFIX}${difficulty}`;
+
+export const readDifficultyTag = (tags: string[]): string | undefined =>
+    tags.map(tag => tag.trim()).find(tag => tag.startsWith(DIFFICULTY_TAG_PREFIX))?.slice(DIFFICULTY_TAG_PREFIX.length);
+
+// LMSs typeset math with MathJax, which looks for \(...\) and \[...\] rather than dollar signs.
+export const toLmsMath = (text: string): string => text
+    .replace(/\$\$([\s\S]+?)\$\$/g, (_, latex) => `\\[${latex}\\]`)
+    .replace(/\$([^$]+?)\$/g, (_, latex) => `\\(${latex}\\)`);
+
+export const fromLmsMath = (text: string): string => text
+    .replace(/\\\[([\s\S]+?)\\\]/g, (_, latex) => `$$${latex}$$`)
+    .replace(/\\\(([\s\S]+?)\\\)/g, (_, latex) => `$${latex}$`);
+
+const mathDelimiters = (latex: string): string => `\\(${escapeXml(latex)}\\)`;
+
+// Markdown text as XHTML paragraphs, so it is valid both in HTML fields and inside QTI items.
+export const textToHtml = (text: string, renderMath: (latex: string) => string = mathDelimiters): string => text
+    .trim()
+    .split(/\n\s*\n/)
+    .map(paragraph => `<p>${parseInline(paragraph.trim()).map(inline => {
+        if ('math' in inline) return renderMath(inline.math);
+        const html = escapeXml(inline.text).replace(/\n/g, '<br/>');
+        if (inline.bold && inline.italic) return `<strong><em>${html}</em></strong>`;
+        if (inline.bold) return `<strong>${html}</strong>`;
+        return inline.italic ? `<em>${html}</em>` : html;
+    }).join('')}</p>`)
+    .join('');
+
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+export const decodeEntities = (text: string): string => text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+        const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+        return Number.isNaN(code) ? entity : String.fromCodePoint(code);
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+});
+
+// Good enough for the question text LMSs export; images and tables are dropped.
+export const htmlToText = (html: string): string => fromLmsMath(decodeEntities(html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|h\d|tr)>/gi, '\n\n')
+    .replace(/<(strong|b)(\s[^>]*)?>([\s\S]*?)<\/\1>/gi, '**$3**')
+    .replace(/<(em|i)(\s[^>]*)?>([\s\S]*?)<\/\1>/gi, '*$3*')
+    .replace(/<[^>]+>/g, '')))
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
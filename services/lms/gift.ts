@@ -0,0 +1,214 @@
+// services/lms/gift.ts
+// GIFT, Moodle's plain-text question format. Points have no place in it; difficulty goes into
+// `// [tag:...]` comments, which Moodle reads as question tags.
+
+import { Exam, ExamQuestion, QuestionType } from '../../types';
+import { getExamQuestions, OPTION_LETTERS, optionLetter, RawExam, RawExamQuestion } from '../examModel';
+import { difficultyTag, fromLmsMath, htmlToText, ImportedQuestions, readDifficultyTag, splitTrueFalseClusters, textToHtml, Translate } from './common';
+
+const SPECIAL_CHARACTERS = /[~=#{}:]/g;
+
+const escapeGift = (text: string): string => text.replace(SPECIAL_CHARACTERS, '\\$&');
+
+// HTML on one line: a blank line ends a question in GIFT.
+const giftHtml = (text: string): string => escapeGift(textToHtml(text).replace(/\n/g, ' '));
+
+const questionGift = (question: ExamQuestion, number: number, t: Translate): string => {
+    const tags = [difficultyTag(question.difficulty), ...(question.topic ? [question.topic] : [])];
+    const lines = [
+        ...tags.map(tag => `// [tag:${tag.replace(/[\]\n]/g, ' ')}]`),
+        `::${escapeGift(`${t('question')} ${number}`)}::[html]${giftHtml(question.prompt)} {`,
+    ];
+    if (question.type === QuestionType.MULTIPLE_CHOICE) {
+        (question.options ?? []).forEach((option, index) => {
+            lines.push(`\t${index === question.correctOption ? '=' : '~'}${giftHtml(option)}`);
+        });
+    } else if (question.type === QuestionType.SHORT_ANSWER && question.answer) {
+        lines.push(`\t=${escapeGift(question.answer.replace(/\s*\n\s*/g, ' '))}`);
+    }
+    if (question.explanation) {
+        lines.push(`\t####${giftHtml(question.explanation)}`);
+    }
+    lines.push('}');
+    return lines.join('\n');
+};
+
+export const examToGift = (exam: Exam, t: Translate): string => {
+    const lmsExam = splitTrueFalseClusters(exam, t);
+    const numbers = new Map(getExamQuestions(lmsExam).map((question, index) => [question.id, index + 1]));
+    const blocks = lmsExam.sections.flatMap((section, index) => [
+        `$CATEGORY: $course$/top/${exam.title.replace(/\//g, '//')}/${(section.title || String(index + 1)).replace(/\//g, '//')}`,
+        // A question without an answer block is a description.
+        ...(section.passage ? [`::${escapeGift(section.title || exam.title)}::[html]${giftHtml(section.passage)}`] : []),
+        ...section.questions.map(question => questionGift(question, numbers.get(question.id), t)),
+    ]);
+    return `${blocks.join('\n\n')}\n`;
+};
+
+// Index of the first unescaped occurrence of `character` from `start`, or -1.
+const findUnescaped = (text: string, character: string, start = 0): number => {
+    for (let i = start; i < text.length; i++) {
+        if (text[i] === '\\') i++;
+        else if (text[i] === character) return i;
+    }
+    return -1;
+};
+
+// GIFT's `\n` for a new line is left alone: it would break LaTeX such as `\neq`.
+const unescapeGift = (text: string): string => text.replace(/\\([~=#{}:])/g, '$1');
+
+// Moodle's default format takes HTML as well, so tags are looked for whatever the format says.
+const giftText = (text: string): string => {
+    const unescaped = unescapeGift(text.trim());
+    return /<\/?[a-z][^>]*>/i.test(unescaped) ? htmlToText(unescaped) : fromLmsMath(unescaped);
+};
+
+// Drops the `::title::` and `[format]` in front of the question text.
+const stripHeader = (text: string): string => text
+    .trim()
+    .replace(/^::((?:\\.|[^:\\]|:(?!:))*)::/, '')
+    .trim()
+    .replace(/^\[(html|moodle|plain|markdown)\]/, '');
+
+// True while an answer block is open, so blank lines inside it do not end the question.
+const isInsideAnswers = (text: string): boolean => {
+    const open = findUnescaped(text, '{');
+    return open >= 0 && findUnescaped(text, '}', open) < 0;
+};
+
+interface GiftAnswer {
+    text: string;
+    correct: boolean;
+}
+
+// Splits `=right ~wrong#feedback ~%50%partly ####general` into its answers and general feedback.
+const splitAnswers = (body: string): { answers: GiftAnswer[]; generalFeedback: string } => {
+    let generalFeedback = '';
+    const general = body.search(/(?<!\\)####/);
+    if (general >= 0) {
+        generalFeedback = body.slice(general + 4);
+        body = body.slice(0, general);
+    }
+    const answers: GiftAnswer[] = [];
+    let start = -1;
+    const flush = (end: number) => {
+        if (start < 0) return;
+        let text = body.slice(start + 1, end);
+        const feedback = findUnescaped(text, '#');
+        if (feedback >= 0) text = text.slice(0, feedback);
+        const weight = text.match(/^\s*%(-?[\d.]+)%/);
+        const correct = weight ? parseFloat(weight[1]) >= 100 : body[start] === '=';
+        answers.push({ text: weight ? text.slice(weight[0].length) : text, correct });
+    };
+    for (let i = 0; i < body.length; i++) {
+        if (body[i] === '\\') {
+            i++;
+        } else if (body[i] === '=' || body[i] === '~') {
+            flush(i);
+            start = i;
+        }
+    }
+    flush(body.length);
+    return { answers, generalFeedback };
+};
+
+const readQuestion = (text: string, tags: string[], t: Translate): RawExamQuestion | 'description' | null => {
+    const rest = stripHeader(text);
+    const open = findUnescaped(rest, '{');
+    if (open < 0) return 'description';
+    const close = findUnescaped(rest, '}', open);
+    if (close < 0) return null;
+
+    // Answers in the middle of the text are blanks to fill in ("missing word" questions).
+    const after = rest.slice(close + 1).trim();
+    const prompt = giftText(after ? `${rest.slice(0, open).trimEnd()} _____ ${after}` : rest.slice(0, open));
+    const body = rest.slice(open + 1, close).trim();
+    const question: RawExamQuestion = { prompt, points: 1, difficulty: readDifficultyTag(tags) };
+
+    if (body.includes('->')) return null;
+    if (/^(T|TRUE|F|FALSE)\b/.test(body)) {
+        const { generalFeedback } = splitAnswers(body);
+        return {
+            ...question,
+            type: QuestionType.MULTIPLE_CHOICE,
+            options: [t('true_option'), t('false_option')],
+            answer: optionLetter(/^T/.test(body) ? 0 : 1),
+            explanation: giftText(generalFeedback),
+        };
+    }
+    if (body.startsWith('#') && !body.startsWith('####')) {
+        const numeric = body.slice(1).trim();
+        const value = splitAnswers(numeric.startsWith('=') ? numeric : `=${numeric}`);
+        const answer = value.answers.find(item => item.correct)?.text.trim().split(/:|\.\./)[0] ?? '';
+        return { ...question, type: QuestionType.SHORT_ANSWER, answer, explanation: giftText(value.generalFeedback) };
+    }
+    const { answers, generalFeedback } = splitAnswers(body);
+    const explanation = giftText(generalFeedback);
+    if (answers.length === 0) {
+        return { ...question, type: QuestionType.ESSAY, explanation };
+    }
+    const correct = answers.findIndex(answer => answer.correct);
+    if (answers.every(answer => answer.correct)) {
+        return { ...question, type: QuestionType.SHORT_ANSWER, answer: giftText(answers[0].text), explanation };
+    }
+    if (answers.length > OPTION_LETTERS.length) return null;
+    return {
+        ...question,
+        type: QuestionType.MULTIPLE_CHOICE,
+        options: answers.map(answer => giftText(answer.text)),
+        answer: correct >= 0 ? optionLetter(correct) : '',
+        explanation,
+    };
+};
+
+// `$CATEGORY:` lines start sections and descriptions become their passages.
+export const parseGift = (gift: string, t: Translate): ImportedQuestions => {
+    const sections: RawExam['sections'] = [];
+    const currentSection = () => {
+        if (sections.length === 0) sections.push({ title: '', questions: [] });
+        return sections[sections.length - 1];
+    };
+    let skipped = 0;
+    let tags: string[] = [];
+    let lines: string[] = [];
+
+    const flush = () => {
+        const text = lines.join('\n').trim();
+        if (text) {
+            const question = readQuestion(text, tags, t);
+            const section = currentSection();
+            if (question === 'description') {
+                section.passage = [section.passage, giftText(stripHeader(text))].filter(Boolean).join('\n\n');
+            } else if (question?.prompt) {
+                section.questions.push(question);
+            } else {
+                skipped++;
+            }
+        }
+        lines = [];
+        tags = [];
+    };
+
+    for (const line of gift.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+        const trimmed = line.trim();
+        if (trimmed.startsWith('//')) {
+            tags.push(...Array.from(trimmed.matchAll(/\[tag:([^\]]*)\]/g), match => match[1]));
+        } else if (trimmed.startsWith('$CATEGORY:')) {
+            flush();
+            const title = trimmed.slice('$CATEGORY:'.length).split(/(?<!\/)\/(?!\/)/).pop().replace(/\/\//g, '/').trim();
+            const section = currentSection();
+            if (section.questions.length === 0 && !section.passage) {
+                section.title = title === 'top' || title === '$course$' ? '' : title;
+            } else {
+                sections.push({ title, questions: [] });
+            }
+        } else if (trimmed === '') {
+            // Answer blocks may span blank lines; a question ends at a blank line after its `}`.
+            if (!isInsideAnswers(lines.join('\n'))) flush();
+        } else {
+            lines.push(line);
+        }
+    }
+    flush();
+    return { raw: { sections }, skipped };
+};
@@ -0,0 +1,62 @@
+// services/lms/index.ts
+// Export of structured exams to the question formats LMSs import (Moodle XML, GIFT, IMS QTI 2.1),
+// and import of files in those formats back into structured exams.
+
+import { Exam } from '../../types';
+import { ExamMeta, getExamQuestions, normalizeExam } from '../examModel';
+import { readZip } from '../zip';
+import { ImportedQuestions, Translate } from './common';
+import { examToGift, parseGift } from './gift';
+import { examToMoodleXml, parseMoodleXml } from './moodleXml';
+import { examToQtiPackage, parseQtiPackage } from './qti';
+
+export type LmsFormat = 'moodle_xml' | 'gift' | 'qti';
+
+export const LMS_FORMATS: LmsFormat[] = ['moodle_xml', 'gift', 'qti'];
+
+export const LMS_IMPORT_ACCEPT = '.xml,.gift,.txt,.zip';
+
+export const LMS_FILE_EXTENSIONS: Record<LmsFormat, string> = {
+    moodle_xml: 'xml',
+    gift: 'gift.txt',
+    qti: 'zip',
+};
+
+export const exportExamToLms = (exam: Exam, format: LmsFormat, t: Translate): Blob => {
+    switch (format) {
+        case 'moodle_xml':
+            return new Blob([examToMoodleXml(exam, t)], { type: 'application/xml' });
+        case 'gift':
+            return new Blob([examToGift(exam, t)], { type: 'text/plain;charset=utf-8' });
+        case 'qti':
+            return new Blob([examToQtiPackage(exam, t)], { type: 'application/zip' });
+    }
+};
+
+const readQuestions = async (file: File, t: Translate): Promise<ImportedQuestions> => {
+    const name = file.name.toLowerCase();
+    if (name.endsWith('.zip')) {
+        return parseQtiPackage(await readZip(new Uint8Array(await file.arrayBuffer())));
+    }
+    const text = await file.text();
+    if (name.endsWith('.xml')) {
+        return /<quiz[\s>]/.test(text) ? parseMoodleXml(text, t) : parseQtiPackage([{ path: file.name, data: text }]);
+    }
+    return parseGift(text, t);
+};
+
+export interface LmsImport {
+    exam: Exam;
+    skipped: number;
+}
+
+// The file does not say which subject and grade its questions are for, so `meta` does; its topic
+// is used when the file has no title either. Throws when no question could be read.
+export const importLmsFile = async (file: File, meta: ExamMeta, t: Translate): Promise<LmsImport> => {
+    const { raw, skipped } = await readQuestions(file, t);
+    const exam = normalizeExam({ ...raw, sections: raw.sections?.filter(section => section.questions?.length > 0 || section.passage) }, meta);
+    if (getExamQuestions(exam).length === 0) {
+        throw new Error(`No questions found in ${file.name}`);
+    }
+    return { exam, skipped };
+};
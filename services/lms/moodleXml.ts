@@ -0,0 +1,162 @@
+// services/lms/moodleXml.ts
+// Moodle XML: a category per section, the passage as a description item, and multichoice,
+// shortanswer and essay questions with their marks, feedback and difficulty tags.
+
+import { Exam, ExamQuestion, QuestionType } from '../../types';
+import { getExamQuestions, OPTION_LETTERS, optionLetter, RawExam, RawExamQuestion } from '../examModel';
+import { escapeXml } from '../latexToOmml';
+import { difficultyTag, fromLmsMath, htmlToText, ImportedQuestions, readDifficultyTag, splitTrueFalseClusters, textToHtml, Translate } from './common';
+
+const cdata = (text: string): string => `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+
+const htmlField = (tag: string, text: string): string =>
+    `<${tag} format="html"><text>${text.trim() ? cdata(textToHtml(text)) : ''}</text></${tag}>`;
+
+// Slashes separate the levels of a category path, so they are doubled inside names.
+const categoryName = (name: string): string => name.trim().replace(/\//g, '//');
+
+// The model answer and the rubric, for whoever grades the essay in the LMS.
+const graderInfo = (question: ExamQuestion, t: Translate): string => {
+    const parts = question.answer ? [question.answer] : [];
+    for (const criterion of question.rubric?.criteria ?? []) {
+        const levels = criterion.levels.map(level => `${level.points} ${t('points')}: ${level.description}`);
+        parts.push([`**${criterion.name} (${criterion.maxPoints} ${t('points')})**`, ...levels].join('\n'));
+    }
+    return parts.join('\n\n');
+};
+
+const questionXml = (question: ExamQuestion, number: number, t: Translate): string => {
+    const type = { [QuestionType.MULTIPLE_CHOICE]: 'multichoice', [QuestionType.SHORT_ANSWER]: 'shortanswer', [QuestionType.ESSAY]: 'essay' }[question.type];
+    const tags = [difficultyTag(question.difficulty), ...(question.topic ? [question.topic] : [])];
+    const lines = [
+        `<question type="${type}">`,
+        `<name><text>${escapeXml(`${t('question')} ${number}`)}</text></name>`,
+        htmlField('questiontext', question.prompt),
+        htmlField('generalfeedback', question.explanation),
+        `<defaultgrade>${question.points}</defaultgrade>`,
+        '<penalty>0</penalty>',
+        '<hidden>0</hidden>',
+    ];
+    if (question.type === QuestionType.MULTIPLE_CHOICE) {
+        lines.push('<single>true</single>', '<shuffleanswers>0</shuffleanswers>', '<answernumbering>ABCD</answernumbering>');
+        (question.options ?? []).forEach((option, index) => {
+            lines.push(`<answer fraction="${index === question.correctOption ? 100 : 0}" format="html"><text>${cdata(textToHtml(option))}</text><feedback format="html"><text></text></feedback></answer>`);
+        });
+    } else if (question.type === QuestionType.SHORT_ANSWER) {
+        lines.push('<usecase>0</usecase>');
+        if (question.answer) {
+            lines.push(`<answer fraction="100" format="moodle_auto_format"><text>${escapeXml(question.answer)}</text><feedback format="html"><text></text></feedback></answer>`);
+        }
+    } else {
+        lines.push('<responseformat>editor</responseformat>', '<responsefieldlines>15</responsefieldlines>', htmlField('graderinfo', graderInfo(question, t)));
+    }
+    lines.push(`<tags>${tags.map(tag => `<tag><text>${escapeXml(tag)}</text></tag>`).join('')}</tags>`, '</question>');
+    return lines.join('\n');
+};
+
+export const examToMoodleXml = (exam: Exam, t: Translate): string => {
+    const lmsExam = splitTrueFalseClusters(exam, t);
+    const numbers = new Map(getExamQuestions(lmsExam).map((question, index) => [question.id, index + 1]));
+    const items = lmsExam.sections.flatMap((section, index) => [
+        `<question type="category"><category><text>${escapeXml(`$course$/top/${categoryName(exam.title)}/${categoryName(section.title || String(index + 1))}`)}</text></category></question>`,
+        ...(section.passage ? [[
+            '<question type="description">',
+            `<name><text>${escapeXml(section.title || exam.title)}</text></name>`,
+            htmlField('questiontext', section.passage),
+            '</question>',
+        ].join('\n')] : []),
+        ...section.questions.map(question => questionXml(question, numbers.get(question.id), t)),
+    ]);
+    return ['<?xml version="1.0" encoding="UTF-8"?>', '<quiz>', ...items, '</quiz>', ''].join('\n');
+};
+
+const childElement = (parent: Element, tag: string): Element | undefined =>
+    Array.from(parent.children).find(child => child.tagName === tag);
+
+// Text of a field such as `<questiontext format="html"><text>...</text></questiontext>`.
+const fieldText = (field: Element | undefined): string => {
+    const text = field ? childElement(field, 'text')?.textContent ?? '' : '';
+    return field?.getAttribute('format') === 'html' ? htmlToText(text) : fromLmsMath(text).trim();
+};
+
+// The last level of a category path, with the doubled slashes of its name undone.
+const categoryTitle = (path: string): string => {
+    const title = path.split(/(?<!\/)\/(?!\/)/).pop().replace(/\/\//g, '/').trim();
+    return title === '$course$' || title === 'top' ? '' : title;
+};
+
+// The answer with the highest grade, or -1 when none gives marks.
+const bestAnswer = (answers: { fraction: number }[]): number => answers.reduce(
+    (best, answer, index) => answer.fraction > 0 && (best < 0 || answer.fraction > answers[best].fraction) ? index : best,
+    -1,
+);
+
+const readQuestion = (element: Element, t: Translate): RawExamQuestion | null => {
+    const answers = Array.from(element.children)
+        .filter(child => child.tagName === 'answer')
+        .map(answer => ({ text: fieldText(answer), fraction: parseFloat(answer.getAttribute('fraction') ?? '0') || 0 }));
+    const best = bestAnswer(answers);
+    const tags = Array.from(element.getElementsByTagName('tag')).map(tag => fieldText(tag));
+    const question: RawExamQuestion = {
+        prompt: fieldText(childElement(element, 'questiontext')),
+        explanation: fieldText(childElement(element, 'generalfeedback')),
+        points: parseFloat(childElement(element, 'defaultgrade')?.textContent ?? '') || 1,
+        difficulty: readDifficultyTag(tags),
+    };
+    switch (element.getAttribute('type')) {
+        case 'multichoice':
+            if (answers.length < 2 || answers.length > OPTION_LETTERS.length) return null;
+            return { ...question, type: QuestionType.MULTIPLE_CHOICE, options: answers.map(answer => answer.text), answer: best >= 0 ? optionLetter(best) : '' };
+        case 'truefalse':
+            return {
+                ...question,
+                type: QuestionType.MULTIPLE_CHOICE,
+                options: [t('true_option'), t('false_option')],
+                answer: best >= 0 ? optionLetter(answers[best].text.toLowerCase() === 'false' ? 1 : 0) : '',
+            };
+        case 'shortanswer':
+        case 'numerical':
+            return { ...question, type: QuestionType.SHORT_ANSWER, answer: best >= 0 ? answers[best].text : '' };
+        case 'essay':
+            return { ...question, type: QuestionType.ESSAY, answer: fieldText(childElement(element, 'graderinfo')) };
+        default:
+            return null;
+    }
+};
+
+// Categories become sections and description items their passages.
+export const parseMoodleXml = (xml: string, t: Translate): ImportedQuestions => {
+    const document = new DOMParser().parseFromString(xml, 'application/xml');
+    if (document.getElementsByTagName('parsererror').length > 0 || document.documentElement.tagName !== 'quiz') {
+        throw new Error('Not a Moodle XML file');
+    }
+    const sections: RawExam['sections'] = [];
+    const currentSection = () => {
+        if (sections.length === 0) sections.push({ title: '', questions: [] });
+        return sections[sections.length - 1];
+    };
+    let skipped = 0;
+    for (const element of Array.from(document.documentElement.children).filter(child => child.tagName === 'question')) {
+        const type = element.getAttribute('type');
+        if (type === 'category') {
+            const title = categoryTitle(fieldText(childElement(element, 'category')));
+            const section = currentSection();
+            if (section.questions.length === 0 && !section.passage) {
+                section.title = title;
+            } else {
+                sections.push({ title, questions: [] });
+            }
+        } else if (type === 'description') {
+            const section = currentSection();
+            section.passage = [section.passage, fieldText(childElement(element, 'questiontext'))].filter(Boolean).join('\n\n');
+        } else {
+            const question = readQuestion(element, t);
+            if (question?.prompt) {
+                currentSection().questions.push(question);
+            } else {
+                skipped++;
+            }
+        }
+    }
+    return { raw: { sections }, skipped };
+};
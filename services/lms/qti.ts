@@ -0,0 +1,305 @@
+// services/lms/qti.ts
+// IMS QTI 2.1 content packages: a manifest, an assessment test with a section per exam section
+// (the passage in its rubric block) and one item per question. Math is MathML carrying its LaTeX
+// as an annotation, so importing it back gives the original LaTeX.
+
+import { DifficultyLevel, Exam, ExamQuestion, QuestionType } from '../../types';
+import { getExamQuestions, OPTION_LETTERS, optionLetter, RawExam, RawExamQuestion } from '../examModel';
+import { escapeXml } from '../latexToOmml';
+import { createZip, ZipEntry } from '../zip';
+import { difficultyTag, fromLmsMath, ImportedQuestions, readDifficultyTag, splitTrueFalseClusters, textToHtml, Translate } from './common';
+
+const QTI_NAMESPACE = 'http://www.imsglobal.org/xsd/imsqti_v2p1';
+const QTI_SCHEMA_LOCATION = `${QTI_NAMESPACE} http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd`;
+const QTI_ROOT_ATTRIBUTES = `xmlns="${QTI_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${QTI_SCHEMA_LOCATION}"`;
+const TEST_PATH = 'assessment.xml';
+
+// LOM has five difficulty values; the four levels of the exam map onto the upper four.
+const LOM_DIFFICULTY: Record<DifficultyLevel, string> = {
+    [DifficultyLevel.RECOGNITION]: 'easy',
+    [DifficultyLevel.COMPREHENSION]: 'medium',
+    [DifficultyLevel.APPLICATION]: 'difficult',
+    [DifficultyLevel.HIGH_APPLICATION]: 'very difficult',
+};
+
+// KaTeX is loaded by the page; without it the LaTeX is kept between \( \) for MathJax.
+const renderMathMl = (latex: string): string => {
+    const katex = typeof window !== 'undefined' ? (window as any).katex : undefined;
+    if (katex) {
+        try {
+            const math = katex.renderToString(latex, { output: 'mathml', throwOnError: false }).match(/<math[\s\S]*<\/math>/);
+            if (math) return math[0];
+        } catch {
+            // Falls back to the delimiters below.
+        }
+    }
+    return `\\(${escapeXml(latex)}\\)`;
+};
+
+const qtiHtml = (text: string): string => textToHtml(text, renderMathMl);
+
+const itemPath = (question: ExamQuestion): string => `items/${question.id}.xml`;
+
+const responseDeclaration = (question: ExamQuestion): string => {
+    if (question.type === QuestionType.MULTIPLE_CHOICE) {
+        const correct = question.correctOption !== undefined ? `<correctResponse><value>${optionLetter(question.correctOption)}</value></correctResponse>` : '';
+        return `<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">${correct}</responseDeclaration>`;
+    }
+    const correct = question.type === QuestionType.SHORT_ANSWER && question.answer
+        ? `<correctResponse><value>${escapeXml(question.answer)}</value></correctResponse>`
+        : '';
+    return `<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string">${correct}</responseDeclaration>`;
+};
+
+const interaction = (question: ExamQuestion): string => {
+    if (question.type === QuestionType.MULTIPLE_CHOICE) {
+        const choices = (question.options ?? []).map((option, index) => `<simpleChoice identifier="${optionLetter(index)}">${qtiHtml(option)}</simpleChoice>`);
+        return `<choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="1">${choices.join('')}</choiceInteraction>`;
+    }
+    if (question.type === QuestionType.SHORT_ANSWER) {
+        return '<p><textEntryInteraction responseIdentifier="RESPONSE" expectedLength="30"/></p>';
+    }
+    return '<extendedTextInteraction responseIdentifier="RESPONSE" expectedLines="15"/>';
+};
+
+// Full marks for the correct response (essays are graded by hand), and the explanation shown as
+// feedback either way.
+const responseProcessing = (question: ExamQuestion): string => {
+    const comparison = question.type === QuestionType.MULTIPLE_CHOICE
+        ? '<match><variable identifier="RESPONSE"/><correct identifier="RESPONSE"/></match>'
+        : '<stringMatch caseSensitive="false"><variable identifier="RESPONSE"/><correct identifier="RESPONSE"/></stringMatch>';
+    const scoring = question.type !== QuestionType.ESSAY && (question.type === QuestionType.MULTIPLE_CHOICE ? question.correctOption !== undefined : question.answer)
+        ? `<responseCondition><responseIf>${comparison}<setOutcomeValue identifier="SCORE"><variable identifier="MAXSCORE"/></setOutcomeValue></responseIf></responseCondition>`
+        : '';
+    const feedback = question.explanation
+        ? '<setOutcomeValue identifier="FEEDBACK"><baseValue baseType="identifier">EXPLANATION</baseValue></setOutcomeValue>'
+        : '';
+    return scoring || feedback ? `<responseProcessing>${scoring}${feedback}</responseProcessing>` : '';
+};
+
+const itemXml = (question: ExamQuestion, number: number, t: Translate): string => [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<assessmentItem ${QTI_ROOT_ATTRIBUTES} identifier="${question.id}" title="${escapeXml(`${t('question')} ${number}`)}" adaptive="false" timeDependent="false">`,
+    responseDeclaration(question),
+    '<outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"><defaultValue><value>0</value></defaultValue></outcomeDeclaration>',
+    `<outcomeDeclaration identifier="MAXSCORE" cardinality="single" baseType="float"><defaultValue><value>${question.points}</value></defaultValue></outcomeDeclaration>`,
+    '<outcomeDeclaration identifier="FEEDBACK" cardinality="single" baseType="identifier"/>',
+    `<itemBody>${qtiHtml(question.prompt)}${interaction(question)}`
+        + (question.type === QuestionType.ESSAY && question.answer ? `<rubricBlock view="scorer">${qtiHtml(question.answer)}</rubricBlock>` : '')
+        + '</itemBody>',
+    responseProcessing(question),
+    question.explanation ? `<modalFeedback outcomeIdentifier="FEEDBACK" identifier="EXPLANATION" showHide="show">${qtiHtml(question.explanation)}</modalFeedback>` : '',
+    '</assessmentItem>',
+].filter(Boolean).join('\n') + '\n';
+
+const testXml = (exam: Exam): string => [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<assessmentTest ${QTI_ROOT_ATTRIBUTES} identifier="assessment" title="${escapeXml(exam.title)}">`,
+    '<outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"/>',
+    '<testPart identifier="part1" navigationMode="nonlinear" submissionMode="simultaneous">',
+    ...exam.sections.map(section => [
+        `<assessmentSection identifier="${section.id}" title="${escapeXml(section.title)}" visible="true">`,
+        ...(section.passage ? [`<rubricBlock view="candidate">${qtiHtml(section.passage)}</rubricBlock>`] : []),
+        ...section.questions.map(question => `<assessmentItemRef identifier="${question.id}" href="${itemPath(question)}"/>`),
+        '</assessmentSection>',
+    ].join('\n')),
+    '</testPart>',
+    '<outcomeProcessing><setOutcomeValue identifier="SCORE"><sum><testVariables variableIdentifier="SCORE"/></sum></setOutcomeValue></outcomeProcessing>',
+    '</assessmentTest>',
+    '',
+].join('\n');
+
+const itemMetadata = (question: ExamQuestion): string => {
+    const keywords = [difficultyTag(question.difficulty), ...(question.topic ? [question.topic] : [])]
+        .map(keyword => `<imsmd:keyword><imsmd:string>${escapeXml(keyword)}</imsmd:string></imsmd:keyword>`);
+    return '<metadata><imsmd:lom>'
+        + `<imsmd:general>${keywords.join('')}</imsmd:general>`
+        + `<imsmd:educational><imsmd:difficulty><imsmd:source>LOMv1.0</imsmd:source><imsmd:value>${LOM_DIFFICULTY[question.difficulty]}</imsmd:value></imsmd:difficulty></imsmd:educational>`
+        + '</imsmd:lom></metadata>';
+};
+
+const manifestXml = (exam: Exam): string => {
+    const questions = getExamQuestions(exam);
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" xmlns:imsmd="http://ltsc.ieee.org/xsd/LOM" identifier="manifest">',
+        '<metadata><schema>QTIv2.1 Package</schema><schemaversion>1.0.0</schemaversion></metadata>',
+        '<organizations/>',
+        '<resources>',
+        `<resource identifier="assessment" type="imsqti_test_xmlv2p1" href="${TEST_PATH}"><file href="${TEST_PATH}"/>`
+            + questions.map(question => `<dependency identifierref="item-${question.id}"/>`).join('')
+            + '</resource>',
+        ...questions.map(question => `<resource identifier="item-${question.id}" type="imsqti_item_xmlv2p1" href="${itemPath(question)}">`
+            + `${itemMetadata(question)}<file href="${itemPath(question)}"/></resource>`),
+        '</resources>',
+        '</manifest>',
+        '',
+    ].join('\n');
+};
+
+export const examToQtiPackage = (exam: Exam, t: Translate): Uint8Array => {
+    const lmsExam = splitTrueFalseClusters(exam, t);
+    const questions = getExamQuestions(lmsExam);
+    return createZip([
+        { path: 'imsmanifest.xml', data: manifestXml(lmsExam) },
+        { path: TEST_PATH, data: testXml(lmsExam) },
+        ...questions.map((question, index) => ({ path: itemPath(question), data: itemXml(question, index + 1, t) })),
+    ]);
+};
+
+const parseXml = (xml: string): Document | null => {
+    const document = new DOMParser().parseFromString(xml, 'application/xml');
+    return document.getElementsByTagName('parsererror').length > 0 ? null : document;
+};
+
+const elementsByName = (parent: Document | Element, name: string): Element[] => Array.from(parent.getElementsByTagNameNS('*', name));
+
+const childrenByName = (parent: Element, name: string): Element[] => Array.from(parent.children).filter(child => child.localName === name);
+
+// `href` of a package file relative to the file that refers to it.
+const resolvePath = (from: string, href: string): string => {
+    const parts = from.split('/').slice(0, -1);
+    for (const part of decodeURIComponent(href).split('/')) {
+        if (part === '..') parts.pop();
+        else if (part !== '.' && part !== '') parts.push(part);
+    }
+    return parts.join('/');
+};
+
+// Interactions and scorer-only content are read separately, not as part of the question text.
+const SKIPPED_ELEMENTS = new Set(['choiceInteraction', 'extendedTextInteraction', 'rubricBlock', 'modalFeedback', 'feedbackBlock', 'feedbackInline', 'responseProcessing']);
+const BLOCK_ELEMENTS = new Set(['p', 'div', 'li', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'tr', 'blockquote', 'prompt']);
+
+const nodeText = (node: Node): string => {
+    if (node.nodeType === Node.TEXT_NODE || node.nodeType === Node.CDATA_SECTION_NODE) {
+        return (node.nodeValue ?? '').replace(/\s+/g, ' ');
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return '';
+    const element = node as Element;
+    const name = element.localName;
+    if (SKIPPED_ELEMENTS.has(name)) return '';
+    if (name === 'math') {
+        const latex = elementsByName(element, 'annotation').find(annotation => /tex/i.test(annotation.getAttribute('encoding') ?? ''));
+        return `$${(latex ?? element).textContent.trim()}$`;
+    }
+    if (name === 'br') return '\n';
+    if (name === 'textEntryInteraction') return ' _____ ';
+    const text = Array.from(element.childNodes).map(nodeText).join('');
+    if (name === 'strong' || name === 'b') return `**${text}**`;
+    if (name === 'em' || name === 'i') return `*${text}*`;
+    return BLOCK_ELEMENTS.has(name) ? `\n\n${text}\n\n` : text;
+};
+
+// Text of the element's content; the element itself may be one of the skipped ones.
+const elementText = (element: Element | undefined): string => element
+    ? fromLmsMath(Array.from(element.childNodes).map(nodeText).join('').split('\n').map(line => line.trim()).join('\n').replace(/\n{3,}/g, '\n\n').trim())
+    : '';
+
+const readNumber = (element: Element | undefined): number | undefined => {
+    const value = element ? parseFloat(elementsByName(element, 'value')[0]?.textContent ?? '') : NaN;
+    return Number.isNaN(value) ? undefined : value;
+};
+
+const readItem = (item: Element, keywords: string[]): RawExamQuestion | null => {
+    const body = elementsByName(item, 'itemBody')[0];
+    if (!body) return null;
+    const declarations = elementsByName(item, 'responseDeclaration');
+    const outcomes = elementsByName(item, 'outcomeDeclaration');
+    const correctValue = (responseIdentifier: string | null): string => {
+        const declaration = declarations.find(element => element.getAttribute('identifier') === responseIdentifier) ?? declarations[0];
+        const correct = declaration ? elementsByName(declaration, 'correctResponse')[0] : undefined;
+        const mapped = declaration ? elementsByName(declaration, 'mapEntry')[0]?.getAttribute('mapKey') : undefined;
+        return correct ? elementsByName(correct, 'value')[0]?.textContent?.trim() ?? '' : mapped ?? '';
+    };
+    const question: RawExamQuestion = {
+        prompt: elementText(body),
+        explanation: elementsByName(item, 'modalFeedback').map(elementText).filter(Boolean).join('\n\n'),
+        points: readNumber(outcomes.find(element => element.getAttribute('identifier') === 'MAXSCORE')) ?? 1,
+        difficulty: readDifficultyTag(keywords),
+    };
+
+    const choice = elementsByName(body, 'choiceInteraction')[0];
+    if (choice) {
+        const prompt = childrenByName(choice, 'prompt')[0];
+        const choices = childrenByName(choice, 'simpleChoice');
+        if (choices.length < 2 || choices.length > OPTION_LETTERS.length) return null;
+        const correct = correctValue(choice.getAttribute('responseIdentifier'));
+        const index = choices.findIndex(element => element.getAttribute('identifier') === correct);
+        return {
+            ...question,
+            type: QuestionType.MULTIPLE_CHOICE,
+            prompt: [question.prompt, elementText(prompt)].filter(Boolean).join('\n\n'),
+            options: choices.map(elementText),
+            answer: index >= 0 ? optionLetter(index) : '',
+        };
+    }
+    const textEntry = elementsByName(body, 'textEntryInteraction')[0];
+    if (textEntry) {
+        // A blank of its own after the text is just where the answer goes.
+        const prompt = question.prompt.replace(/\s*_____$/, '');
+        return { ...question, type: QuestionType.SHORT_ANSWER, prompt, answer: correctValue(textEntry.getAttribute('responseIdentifier')) };
+    }
+    const extendedText = elementsByName(body, 'extendedTextInteraction')[0];
+    if (extendedText) {
+        const prompt = childrenByName(extendedText, 'prompt')[0];
+        const scorerRubric = elementsByName(body, 'rubricBlock').filter(element => element.getAttribute('view')?.includes('scorer'));
+        return {
+            ...question,
+            type: QuestionType.ESSAY,
+            prompt: [question.prompt, elementText(prompt)].filter(Boolean).join('\n\n'),
+            answer: scorerRubric.map(elementText).filter(Boolean).join('\n\n'),
+        };
+    }
+    return null;
+};
+
+// Reads a QTI 2.1 package, or a single item file. Sections come from the assessment test when the
+// package has one; keywords of the manifest give the difficulty.
+export const parseQtiPackage = (files: ZipEntry[]): ImportedQuestions => {
+    const decoder = new TextDecoder();
+    const documents = new Map<string, Document>();
+    for (const file of files) {
+        if (!file.path.toLowerCase().endsWith('.xml')) continue;
+        const document = parseXml(typeof file.data === 'string' ? file.data : decoder.decode(file.data));
+        if (document) documents.set(file.path, document);
+    }
+
+    const keywords = new Map<string, string[]>();
+    const manifestOrder: string[] = [];
+    const manifest = documents.get('imsmanifest.xml');
+    for (const resource of manifest ? elementsByName(manifest, 'resource') : []) {
+        const href = resource.getAttribute('href');
+        if (!href || !resource.getAttribute('type')?.includes('item')) continue;
+        const path = resolvePath('imsmanifest.xml', href);
+        manifestOrder.push(path);
+        keywords.set(path, elementsByName(resource, 'keyword').map(keyword => keyword.textContent.trim()));
+    }
+
+    const items = new Map(Array.from(documents).filter(([, document]) => document.documentElement.localName === 'assessmentItem'));
+    if (items.size === 0) throw new Error('No QTI items found');
+    let skipped = 0;
+    const readItems = (paths: string[]): RawExamQuestion[] => paths.flatMap(path => {
+        const item = items.get(path);
+        const question = item ? readItem(item.documentElement, keywords.get(path) ?? []) : null;
+        if (question?.prompt) return [question];
+        skipped++;
+        return [];
+    });
+
+    const [testPath, test] = Array.from(documents).find(([, document]) => document.documentElement.localName === 'assessmentTest') ?? [];
+    let sections: RawExam['sections'];
+    if (test) {
+        sections = elementsByName(test, 'assessmentSection')
+            .map(section => ({
+                title: section.getAttribute('title') ?? '',
+                passage: childrenByName(section, 'rubricBlock').map(elementText).filter(Boolean).join('\n\n'),
+                questions: readItems(childrenByName(section, 'assessmentItemRef').map(ref => resolvePath(testPath, ref.getAttribute('href') ?? ''))),
+            }))
+            .filter(section => section.questions.length > 0);
+    } else {
+        const paths = [...manifestOrder.filter(path => items.has(path)), ...Array.from(items.keys()).filter(path => !manifestOrder.includes(path))
+            .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))];
+        sections = [{ title: '', questions: readItems(paths) }];
+    }
+    return { raw: { title: test?.documentElement.getAttribute('title') ?? undefined, sections }, skipped };
+};
@@ -0,0 +1,274 @@
+// services/mathExpression.ts
+// A small evaluator for the numeric answers of school math and science questions, written as
+// plain text or LaTeX: "2\sqrt{3}", "\frac{\pi}{6}", "sin(30°)", "1,5 \cdot 10^{-3}". Anything with
+// a variable or an unknown command is not a number, and evaluates to undefined.
+
+type Token =
+    | { kind: 'number'; value: number }
+    | { kind: 'name'; value: string }
+    | { kind: 'symbol'; value: string };
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+const FUNCTIONS: Record<string, (x: number) => number> = {
+    sin: Math.sin, cos: Math.cos, tan: Math.tan, cot: x => 1 / Math.tan(x),
+    arcsin: Math.asin, arccos: Math.acos, arctan: Math.atan,
+    sinh: Math.sinh, cosh: Math.cosh, tanh: Math.tanh,
+    ln: Math.log, lg: Math.log10, log: Math.log10, exp: Math.exp,
+    sqrt: Math.sqrt, abs: Math.abs,
+};
+
+// Spacing and sizing commands, which change nothing about the value.
+const IGNORED_COMMANDS = new Set(['left', 'right', 'displaystyle', 'textstyle', 'quad', 'qquad', 'big', 'Big', 'bigl', 'bigr']);
+
+const OPERATOR_COMMANDS: Record<string, string> = { cdot: '*', times: '*', div: '/', circ: '°', degree: '°', pm: '±' };
+
+const UNICODE_SYMBOLS: Record<string, string> = {
+    '×': '*', '·': '*', '⋅': '*', '∙': '*', '÷': '/', '−': '-', '–': '-', ':': '/', '√': '√', 'π': 'pi',
+    '²': '^2', '³': '^3',
+};
+
+// Evaluation fails with this; it never escapes `evaluateExpression`.
+class NotANumber extends Error {}
+
+const tokenize = (text: string): Token[] => {
+    const tokens: Token[] = [];
+    const source = text
+        .replace(/\$/g, '')
+        .replace(/\\[,;:! ]/g, ' ')
+        .replace(/(\d),(\d)/g, '$1.$2')
+        .replace(/[×·⋅∙÷−–:π²³]/g, symbol => ` ${UNICODE_SYMBOLS[symbol]} `);
+    let pos = 0;
+    while (pos < source.length) {
+        const char = source[pos];
+        if (/\s/.test(char)) {
+            pos++;
+        } else if (/[\d.]/.test(char)) {
+            const match = source.slice(pos).match(/^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/);
+            if (!match) throw new NotANumber();
+            tokens.push({ kind: 'number', value: Number(match[0]) });
+            pos += match[0].length;
+        } else if (char === '\\') {
+            const name = source.slice(pos + 1).match(/^[a-zA-Z]+/)?.[0];
+            if (!name) throw new NotANumber();
+            pos += name.length + 1;
+            if (IGNORED_COMMANDS.has(name)) continue;
+            tokens.push(OPERATOR_COMMANDS[name] ? { kind: 'symbol', value: OPERATOR_COMMANDS[name] } : { kind: 'name', value: name });
+        } else if (/[a-zA-Z]/.test(char)) {
+            const name = source.slice(pos).match(/^[a-zA-Z]+/)[0];
+            tokens.push({ kind: 'name', value: name });
+            pos += name.length;
+        } else if ('+-*/^()[]{}!%°√_|'.includes(char)) {
+            tokens.push({ kind: 'symbol', value: char });
+            pos++;
+        } else {
+            throw new NotANumber();
+        }
+    }
+    return tokens;
+};
+
+const parse = (tokens: Token[]): number => {
+    let pos = 0;
+    const peek = (): Token | undefined => tokens[pos];
+    const isSymbol = (value: string, token: Token | undefined = peek()) => token?.kind === 'symbol' && token.value === value;
+    const expect = (value: string) => {
+        if (!isSymbol(value)) throw new NotANumber();
+        pos++;
+    };
+
+    // A name, opening bracket or root starts an operand, so "2\pi" and "3(1+2)" multiply. Two numbers
+    // side by side ("1 2", "1.000,5") are not one number, and leave the expression unparsed.
+    const startsOperand = (token: Token | undefined): boolean => token?.kind === 'name'
+        || (token?.kind === 'symbol' && ['(', '[', '{', '√'].includes(token.value));
+
+    const group = (): number => {
+        const close = { '(': ')', '[': ']', '{': '}' }[peek()?.kind === 'symbol' ? peek().value : ''];
+        if (!close) return power();
+        pos++;
+        const value = expression();
+        expect(close);
+        return value;
+    };
+
+    const callFunction = (name: string): number => {
+        let base: number | undefined;
+        if (isSymbol('_') && name === 'log') {
+            pos++;
+            base = group();
+        }
+        // sin^2 x is (sin x)^2.
+        let exponent = 1;
+        if (isSymbol('^')) {
+            pos++;
+            exponent = group();
+        }
+        const argument = isSymbol('(') || isSymbol('{') || isSymbol('[') ? group() : power();
+        const value = base !== undefined ? Math.log(argument) / Math.log(base) : FUNCTIONS[name](argument);
+        return value ** exponent;
+    };
+
+    const primary = (): number => {
+        const token = peek();
+        if (!token) throw new NotANumber();
+        if (token.kind === 'number') {
+            pos++;
+            return token.value;
+        }
+        if (token.kind === 'name') {
+            pos++;
+            if (token.value in CONSTANTS) return CONSTANTS[token.value];
+            if (token.value === 'frac' || token.value === 'dfrac' || token.value === 'tfrac') {
+                const numerator = group();
+                return numerator / group();
+            }
+            if (token.value === 'sqrt') {
+                let degree = 2;
+                if (isSymbol('[')) {
+                    pos++;
+                    degree = expression();
+                    expect(']');
+                }
+                const radicand = group();
+                return degree === 3 ? Math.cbrt(radicand) : radicand ** (1 / degree);
+            }
+            if (token.value in FUNCTIONS) return callFunction(token.value);
+            throw new NotANumber();
+        }
+        if (token.value === '√') {
+            pos++;
+            return Math.sqrt(group());
+        }
+        if (token.value === '|') {
+            pos++;
+            const value = expression();
+            expect('|');
+            return Math.abs(value);
+        }
+        if (['(', '[', '{'].includes(token.value)) return group();
+        throw new NotANumber();
+    };
+
+    const postfix = (): number => {
+        let value = primary();
+        for (;;) {
+            if (isSymbol('!')) {
+                if (!Number.isInteger(value) || value < 0 || value > 170) throw new NotANumber();
+                let result = 1;
+                for (let k = 2; k <= value; k++) result *= k;
+                value = result;
+            } else if (isSymbol('%')) {
+                value /= 100;
+            } else if (isSymbol('°')) {
+                value *= Math.PI / 180;
+            } else {
+                return value;
+            }
+            pos++;
+        }
+    };
+
+    // Exponents bind to the right and tighter than a leading minus: -2^2 = -4.
+    const power = (): number => {
+        const base = postfix();
+        if (!isSymbol('^')) return base;
+        pos++;
+        // 30^\circ is a degree sign, not a power.
+        if (isSymbol('°') || (isSymbol('{') && isSymbol('°', tokens[pos + 1]) && isSymbol('}', tokens[pos + 2]))) {
+            pos += isSymbol('°') ? 1 : 3;
+            return base * Math.PI / 180;
+        }
+        return base ** unary();
+    };
+
+    const unary = (): number => {
+        if (isSymbol('-')) {
+            pos++;
+            return -unary();
+        }
+        if (isSymbol('+')) {
+            pos++;
+            return unary();
+        }
+        return power();
+    };
+
+    const term = (): number => {
+        let value = unary();
+        for (;;) {
+            if (isSymbol('*')) {
+                pos++;
+                value *= unary();
+            } else if (isSymbol('/')) {
+                pos++;
+                value /= unary();
+            } else if (startsOperand(peek())) {
+                value *= power();
+            } else {
+                return value;
+            }
+        }
+    };
+
+    const expression = (): number => {
+        let value = term();
+        for (;;) {
+            if (isSymbol('+')) {
+                pos++;
+                value += term();
+            } else if (isSymbol('-')) {
+                pos++;
+                value -= term();
+            } else {
+                return value;
+            }
+        }
+    };
+
+    const value = expression();
+    if (pos < tokens.length) throw new NotANumber();
+    return value;
+};
+
+export const evaluateExpression = (text: string): number | undefined => {
+    try {
+        const tokens = tokenize(text);
+        if (tokens.length === 0) return undefined;
+        const value = parse(tokens);
+        return Number.isFinite(value) ? value : undefined;
+    } catch (e) {
+        if (e instanceof NotANumber) return undefined;
+        throw e;
+    }
+};
+
+// A leading "x =", the degree sign of an angle answer ("60°") and a unit ("12 cm", "9,8 m/s^2",
+// "5\,\text{kg}") are dropped, so the options of a physics question compare by their numbers. Only
+// known units and \text{} or \mathrm{} count: "3x" and "3 x" keep their x, which is a variable.
+// "\sin 30°" keeps its degree sign, which turns the argument into radians.
+const LEADING_NAME = /^\s*\$?\s*[a-zA-Z](_\{?\w+\}?)?\s*=\s*/;
+const TRAILING_DEGREES = /\s*(\^\s*\{?\s*\\circ\s*\}?|°)\s*\$?\s*$/;
+const PLAIN_NUMBER = /^\s*\$?\s*[+-]?(\d+([.,]\d+)?|[.,]\d+)\s*$/;
+const UNITS = [
+    'mm', 'cm', 'dm', 'km', 'm', 'μm', 'nm', 'mg', 'g', 'kg', 't', 'ms', 's', 'min', 'h', 'ha',
+    'l', 'L', 'ml', 'mL', 'N', 'kN', 'J', 'kJ', 'W', 'kW', 'kWh', 'V', 'mV', 'kV', 'A', 'mA', 'Ω', 'kΩ',
+    'Hz', 'kHz', 'MHz', 'Pa', 'kPa', 'atm', 'mmHg', 'K', '°C', 'mol', 'M', 'C', 'μC', 'F', 'μF', 'T',
+    'Wb', 'H', 'eV', 'cal', 'kcal', 'rad', 'dB', '%',
+];
+// One unit with an optional power ("m^2", "cm³", "s^{-1}"), or several joined by "/", "." or "·".
+const UNIT_PART = `(${UNITS.join('|')})(\\^\\{?-?\\d+\\}?|[²³])?`;
+const TRAILING_UNIT = new RegExp(`(\\s*\\\\(text|mathrm)\\s*\\{[^{}]*\\}|\\s+${UNIT_PART}(\\s*[/.·⋅]\\s*${UNIT_PART})*)\\s*\\$?\\s*$`, 'u');
+
+export const evaluateQuantity = (text: string): number | undefined => {
+    const withoutName = text.replace(LEADING_NAME, '');
+    const withoutDegrees = withoutName.replace(TRAILING_DEGREES, '');
+    const number = PLAIN_NUMBER.test(withoutDegrees) ? withoutDegrees : withoutName;
+    const value = evaluateExpression(number);
+    if (value !== undefined) return value;
+    const withoutUnit = number.replace(TRAILING_UNIT, '');
+    return withoutUnit !== number && /\d/.test(withoutUnit) ? evaluateExpression(withoutUnit) : undefined;
+};
+
+// Equal up to rounding: answers are often given to 2 or 3 significant figures.
+export const numbersMatch = (a: number, b: number, relativeTolerance: number = 0.005): boolean =>
+    Math.abs(a - b) <= relativeTolerance * Math.max(Math.abs(a), Math.abs(b)) || Math.abs(a - b) < 1e-9;
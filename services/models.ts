@@ -0,0 +1,79 @@
+// services/models.ts
+
+// Every AI-backed feature of the app. Used to pick the model for a call.
+export type AiFeature =
+    | 'exam'
+    | 'english_exam'
+    | 'exam_question'
+    | 'exam_specification'
+    | 'learning_plan'
+    | 'lesson'
+    | 'chat'
+    | 'summary'
+    | 'slides'
+    | 'question_analysis'
+    | 'translation'
+    | 'vietnamese_spirit'
+    | 'essay_rubric'
+    | 'essay_grading'
+    | 'answer_verification'
+    | 'tts'
+    | 'image';
+
+export const MODELS = {
+    PRO: 'gemini-2.5-pro',
+    FLASH: 'gemini-2.5-flash',
+    FLASH_LITE: 'gemini-2.5-flash-lite',
+    TTS: 'gemini-2.5-flash-preview-tts',
+    PRO_TTS: 'gemini-2.5-pro-preview-tts',
+    IMAGE: 'gemini-2.5-flash-image',
+} as const;
+
+export const FEATURE_MODELS: Record<AiFeature, string> = {
+    exam: MODELS.PRO,
+    english_exam: MODELS.PRO,
+    exam_question: MODELS.PRO,
+    exam_specification: MODELS.FLASH,
+    learning_plan: MODELS.FLASH,
+    lesson: MODELS.PRO,
+    chat: MODELS.FLASH,
+    summary: MODELS.PRO,
+    slides: MODELS.PRO,
+    question_analysis: MODELS.PRO, // Pro for better image analysis and reasoning
+    translation: MODELS.FLASH,
+    vietnamese_spirit: MODELS.PRO,
+    essay_rubric: MODELS.PRO,
+    essay_grading: MODELS.PRO, // Pro reads handwriting in photographed answers more reliably
+    answer_verification: MODELS.PRO, // Pro for multi-step solving
+    tts: MODELS.TTS,
+    image: MODELS.IMAGE,
+};
+
+// The models a user may pick for a feature in the settings screen.
+const TEXT_MODEL_OPTIONS = [MODELS.PRO, MODELS.FLASH, MODELS.FLASH_LITE];
+
+export const getModelOptions = (feature: AiFeature): string[] => {
+    if (feature === 'tts') return [MODELS.TTS, MODELS.PRO_TTS];
+    if (feature === 'image') return [MODELS.IMAGE];
+    return TEXT_MODEL_OPTIONS;
+};
+
+export const DEFAULT_TTS_VOICE = 'Kore';
+
+// Prebuilt voices of the Gemini TTS models.
+export const TTS_VOICES = [
+    'Kore', 'Puck', 'Charon', 'Fenrir', 'Aoede', 'Leda', 'Orus', 'Zephyr',
+    'Callirrhoe', 'Autonoe', 'Enceladus', 'Iapetus', 'Umbriel', 'Algieba', 'Despina', 'Erinome',
+    'Algenib', 'Rasalgethi', 'Laomedeia', 'Achernar', 'Alnilam', 'Schedar', 'Gacrux', 'Pulcherrima',
+    'Achird', 'Zubenelgenubi', 'Vindemiatrix', 'Sadachbia', 'Sadaltager', 'Sulafat',
+];
+
+// List prices in USD per million tokens (paid tier, prompts up to 200k tokens). Used for cost estimates only.
+export const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+    [MODELS.PRO]: { input: 1.25, output: 10 },
+    [MODELS.FLASH]: { input: 0.3, output: 2.5 },
+    [MODELS.FLASH_LITE]: { input: 0.1, output: 0.4 },
+    [MODELS.TTS]: { input: 0.5, output: 10 },
+    [MODELS.PRO_TTS]: { input: 1, output: 20 },
+    [MODELS.IMAGE]: { input: 0.3, output: 30 },
+};
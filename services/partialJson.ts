@@ -0,0 +1,148 @@
+// services/partialJson.ts
+// Best-effort parser for JSON that is still streaming in. It returns every value
+// that has started to arrive, e.g. `{"markdownContent": "## Intro\nHel` yields
+// `{ markdownContent: '## Intro\nHel' }`, so the UI can render while the rest arrives.
+
+const ESCAPES: Record<string, string> = { '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' };
+
+export const parsePartialJson = (text: string): unknown => {
+    let i = 0;
+    let stringClosed = false;
+
+    const skipWhitespace = () => {
+        while (i < text.length && /\s/.test(text[i])) i++;
+    };
+
+    const parseString = (): string => {
+        i++; // opening quote
+        stringClosed = false;
+        let result = '';
+        while (i < text.length) {
+            const char = text[i];
+            if (char === '"') {
+                i++;
+                stringClosed = true;
+                return result;
+            }
+            if (char === '\\') {
+                const next = text[i + 1];
+                if (next === undefined) break; // escape cut off mid-stream
+                if (next === 'u') {
+                    const hex = text.slice(i + 2, i + 6);
+                    if (hex.length < 4) break;
+                    result += String.fromCharCode(parseInt(hex, 16));
+                    i += 6;
+                    continue;
+                }
+                result += ESCAPES[next] ?? next;
+                i += 2;
+                continue;
+            }
+            result += char;
+            i++;
+        }
+        i = text.length;
+        return result;
+    };
+
+    const parseLiteral = (): unknown => {
+        const match = /^(-?\d+(\.\d+)?([eE][+-]?\d+)?|true|false|null)/.exec(text.slice(i));
+        if (!match) {
+            i = text.length;
+            return undefined;
+        }
+        i += match[0].length;
+        return JSON.parse(match[0]);
+    };
+
+    const parseArray = (): unknown[] => {
+        i++; // [
+        const result: unknown[] = [];
+        while (true) {
+            skipWhitespace();
+            if (i >= text.length) return result;
+            if (text[i] === ']') {
+                i++;
+                return result;
+            }
+            if (text[i] === ',') {
+                i++;
+                continue;
+            }
+            const value = parseValue();
+            if (value !== undefined) result.push(value);
+        }
+    };
+
+    const parseObject = (): Record<string, unknown> => {
+        i++; // {
+        const result: Record<string, unknown> = {};
+        while (true) {
+            skipWhitespace();
+            if (i >= text.length) return result;
+            if (text[i] === '}') {
+                i++;
+                return result;
+            }
+            if (text[i] === ',') {
+                i++;
+                continue;
+            }
+            if (text[i] !== '"') {
+                i = text.length;
+                return result;
+            }
+            const key = parseString();
+            skipWhitespace();
+            // A key is only usable once its closing quote and colon have arrived.
+            if (!stringClosed || i >= text.length || text[i] !== ':') {
+                i = text.length;
+                return result;
+            }
+            i++; // :
+            skipWhitespace();
+            if (i >= text.length) return result;
+            const value = parseValue();
+            if (value !== undefined) result[key] = value;
+        }
+    };
+
+    const parseValue = (): unknown => {
+        skipWhitespace();
+        if (i >= text.length) return undefined;
+        switch (text[i]) {
+            case '{': return parseObject();
+            case '[': return parseArray();
+            case '"': return parseString();
+            default: return parseLiteral();
+        }
+    };
+
+    // Models occasionally wrap JSON in a Markdown code fence.
+    const fenceStart = text.search(/[{[]/);
+    if (fenceStart < 0) return undefined;
+    i = fenceStart;
+    return parseValue();
+};
+
+// Local repair for a finished response that `JSON.parse` rejects: drops Markdown fences,
+// surrounding chatter and trailing commas. Truncated JSON is not closed here, since that would
+// silently accept half an answer; it returns undefined instead.
+export const parseJsonLenient = (text: string): unknown => {
+    try {
+        return JSON.parse(text);
+    } catch {
+        // fall through to the repairs below
+    }
+    const start = text.search(/[{[]/);
+    const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+    if (start >= 0 && end > start) {
+        const trimmed = text.slice(start, end + 1).replace(/,\s*([}\]])/g, '$1');
+        try {
+            return JSON.parse(trimmed);
+        } catch {
+            // not repairable locally
+        }
+    }
+    return undefined;
+};
@@ -0,0 +1,62 @@
+// services/prompts/fragments.ts
+// Rules shared by several prompt templates. Changing a fragment changes every template that
+// uses it, so bump the version of those templates in the registry as well.
+
+export const languageRule = (language: string, scope: string): string => `
+**CRITICAL LANGUAGE RULE (MUST FOLLOW):**
+The user has explicitly selected **${language}** as their interface language.
+- ${scope} **MUST be in ${language}**.
+- **Do not output English unless ${language} is explicitly English.**
+- Even if the topic, the input or an attached file is in another language, you **MUST TRANSLATE** your output into **${language}**.`;
+
+export const latexRule = (): string => `
+**LaTeX for Math**: This is a critical formatting rule. You MUST use LaTeX for ALL mathematical content (formulas, variables, symbols, chemical formulas).
+    - Use \`$...$\` for inline math (e.g., \`$x^2 + 5 = 10$\`).
+    - Use \`$$...$$\` for block-level equations.
+    - **DO NOT** output math as plain text. For example, write \`$\\vec{AB}$\`, NOT \`vector AB\`. Write \`$H_2SO_4$\`, NOT \`H2SO4\`.`;
+
+// The `{ markdownContent, wordContent }` shape checked by `dualContentResponse`.
+export const dualOutputFormat = (language: string, markdownDescription = 'The content formatted with Markdown and LaTeX for web display.'): string => `
+**CRITICAL OUTPUT FORMAT:**
+Your entire response MUST be a single, valid JSON object in ${language}.
+This object MUST have two keys:
+1.  \`markdownContent\`: ${markdownDescription}
+2.  \`wordContent\`: The same content, but with all LaTeX converted to Microsoft Word's native Equation format (UnicodeMath) for direct copy-pasting.
+
+Do not include any text, explanations, or markdown formatting outside of this JSON object.`;
+
+// The keys of one exam question; `pointsRule` follows the description of `points`.
+const examQuestionFields = (pointsRule: string = ''): string => `-   \`type\`: "multiple_choice", "true_false", "short_answer" or "essay".
+-   \`prompt\`: The question in Markdown and LaTeX, WITHOUT a question number (numbering is added automatically). For true/false, the shared stem the statements refer to.
+-   \`options\`: Multiple choice only. The option texts in order, WITHOUT "A.", "B." labels.
+-   \`statements\`: True/false only. The statements in order, WITHOUT "a)", "b)" labels, each as \`{ "text": ..., "isTrue": true | false }\`.
+-   \`answer\`: For multiple choice, ONLY the letter of the correct option (e.g. "B"). For true/false, a summary such as "a) T, b) F, c) F, d) T". Otherwise, the expected answer or a model answer.
+-   \`difficulty\`: "recognition", "comprehension", "application" or "high_application".
+-   \`points\`: The points the question is worth.${pointsRule}
+-   \`explanation\`: A short worked solution or justification of the answer.`;
+
+// The structured exam checked by `examResponse` (see services/examModel.ts for the schema).
+export const examOutputFormat = ({ withListeningScript = false, withTopics = false, totalPoints = 10 } = {}): string => `
+**CRITICAL OUTPUT FORMAT:**
+Your entire response MUST be a single, valid JSON object with these keys:
+1.  \`title\`: The title of the exam.
+2.  \`sections\`: The sections in order. Each section has a \`title\` (e.g. "I. MULTIPLE CHOICE"), an optional \`passage\` (a reading text or instructions shared by its questions) and its \`questions\`.
+Each question has:
+${examQuestionFields(` The points of all questions MUST add up to ${totalPoints}.`)}
+${withTopics ? '-   `topic`: The matrix topic the question was written for, copied exactly.\n' : ''}${withListeningScript ? '3.  `listeningScript`: A string containing ONLY the text for the audio passage.\n' : ''}
+Do not include any text, explanations, or markdown formatting outside of this JSON object.`;
+
+// One question, checked by `examQuestionResponse`.
+export const examQuestionOutputFormat = (): string => `
+**CRITICAL OUTPUT FORMAT:**
+Your entire response MUST be a single, valid JSON object for ONE question, with these keys:
+${examQuestionFields()}
+
+Do not include any text, explanations, or markdown formatting outside of this JSON object.`;
+
+export const filenameWeightingRule = (fileName: string, derive: string): string => `
+**Input Context:** The filename is "${fileName}".
+**WEIGHTING RULE (90/10):**
+1.  **10% Weight:** Use the filename only as a weak context clue.
+2.  **90% Weight:** You MUST ${derive} from the **actual file content** (text, images, audio) provided in the user input.
+3.  **Conflict Resolution:** If the filename is generic (e.g., "untitled", "doc", "image", "download") or if it contradicts the actual content of the file, **IGNORE the filename** and trust the content completely.`;
@@ -0,0 +1,22 @@
+// services/prompts/index.ts
+// Registry of the versioned prompt templates. Bump a template's version whenever its wording
+// (or a fragment it uses) changes, so saved items can be traced back to the prompt behind them.
+
+import { PROMPT_TEMPLATES, PromptId, PromptVariables } from './templates';
+
+export type { DifficultyBreakdown, MatrixBlueprint, PromptId, PromptVariables } from './templates';
+
+export interface RenderedPrompt {
+    text: string;
+    // `<template id>@<version>`, e.g. `exam@1`. Stored on library items as `promptVersion`.
+    version: string;
+}
+
+export const getPromptVersion = (id: PromptId): string => `${id}@${PROMPT_TEMPLATES[id].version}`;
+
+export const renderPrompt = <K extends PromptId>(id: K, vars: PromptVariables[K]): RenderedPrompt => {
+    const template = PROMPT_TEMPLATES[id] as { render: (vars: PromptVariables[K]) => string };
+    // Optional variables leave empty lines behind; collapse them so the prompt stays readable.
+    const text = template.render(vars).replace(/\n{3,}/g, '\n\n').trim();
+    return { text, version: getPromptVersion(id) };
+};
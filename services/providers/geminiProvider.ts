@@ -0,0 +1,163 @@
+// services/providers/geminiProvider.ts
+
+import { GoogleGenAI, GenerateContentResponse, Modality } from '@google/genai';
+import { AiContents, AiProvider, RequestOptions } from './types';
+import { AiServiceError } from '../aiErrors';
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION'];
+
+const toContents = (contents: AiContents) => (typeof contents === 'string' ? contents : { parts: contents });
+
+// A blocked prompt or answer comes back as an empty response; surface it as an error instead.
+const assertNotBlocked = (response: GenerateContentResponse): GenerateContentResponse => {
+    const blockReason = response.promptFeedback?.blockReason;
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+        throw new AiServiceError('safety_block', `The response was blocked (${blockReason || finishReason}).`);
+    }
+    return response;
+};
+
+const reportUsage = (response: GenerateContentResponse | undefined, { onUsage }: RequestOptions): void => {
+    const usage = response?.usageMetadata;
+    if (usage && onUsage) {
+        onUsage({
+            inputTokens: usage.promptTokenCount ?? 0,
+            outputTokens: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0),
+        });
+    }
+};
+
+const checkResponse = (response: GenerateContentResponse, options: RequestOptions): GenerateContentResponse => {
+    reportUsage(response, options);
+    return assertNotBlocked(response);
+};
+
+// Every chunk carries the running usage totals, so only the last one is reported.
+async function* textDeltas(stream: AsyncIterable<GenerateContentResponse>, options: RequestOptions): AsyncIterable<string> {
+    let lastWithUsage: GenerateContentResponse | undefined;
+    try {
+        for await (const chunk of stream) {
+            if (chunk.usageMetadata) {
+                lastWithUsage = chunk;
+            }
+            assertNotBlocked(chunk);
+            if (chunk.text) {
+                yield chunk.text;
+            }
+        }
+    } finally {
+        reportUsage(lastWithUsage, options);
+    }
+}
+
+export const createGeminiProvider = (apiKey: string): AiProvider => {
+    // The client is created lazily so that a missing key only fails on first use.
+    let client: GoogleGenAI | null = null;
+    const getClient = (): GoogleGenAI => {
+        if (!client) {
+            client = new GoogleGenAI({ apiKey });
+        }
+        return client;
+    };
+
+    return {
+        name: 'gemini',
+
+        generateText: async ({ model, contents }, options = {}) => {
+            const response = await getClient().models.generateContent({
+                model,
+                contents: toContents(contents),
+            });
+            return checkResponse(response, options).text || '';
+        },
+
+        generateTextStream: async function* ({ model, contents }, options = {}) {
+            const stream = await getClient().models.generateContentStream({
+                model,
+                contents: toContents(contents),
+                config: { abortSignal: options.signal },
+            });
+            yield* textDeltas(stream, options);
+        },
+
+        generateJson: async ({ model, contents, schema }, options = {}) => {
+            const response = await getClient().models.generateContent({
+                model,
+                contents: toContents(contents),
+                config: {
+                    responseMimeType: 'application/json',
+                    responseSchema: schema,
+                },
+            });
+            return checkResponse(response, options).text || '';
+        },
+
+        generateJsonStream: async function* ({ model, contents, schema }, options = {}) {
+            const stream = await getClient().models.generateContentStream({
+                model,
+                contents: toContents(contents),
+                config: {
+                    responseMimeType: 'application/json',
+                    responseSchema: schema,
+                    abortSignal: options.signal,
+                },
+            });
+            yield* textDeltas(stream, options);
+        },
+
+        createChat: ({ model, systemInstruction, history }) => {
+            const chat = getClient().chats.create({
+                model,
+                config: { systemInstruction },
+                history,
+            });
+            return {
+                sendMessage: async (parts, options = {}) => {
+                    const response = await chat.sendMessage({ message: parts });
+                    return checkResponse(response, options).text || '';
+                },
+                sendMessageStream: async function* (parts, options = {}) {
+                    // Per-message config replaces the chat config, so the instruction is repeated.
+                    const stream = await chat.sendMessageStream({
+                        message: parts,
+                        config: { systemInstruction, abortSignal: options.signal },
+                    });
+                    yield* textDeltas(stream, options);
+                },
+            };
+        },
+
+        generateSpeech: async ({ model, text, voiceName, speakers }, options = {}) => {
+            const response = await getClient().models.generateContent({
+                model,
+                contents: [{ parts: [{ text }] }],
+                config: {
+                    responseModalities: [Modality.AUDIO],
+                    speechConfig: speakers?.length
+                        ? {
+                            multiSpeakerVoiceConfig: {
+                                speakerVoiceConfigs: speakers.map(({ speaker, voiceName }) => ({ speaker, voiceConfig: { prebuiltVoiceConfig: { voiceName } } })),
+                            },
+                        }
+                        : { voiceConfig: { prebuiltVoiceConfig: { voiceName } } },
+                },
+            });
+            return checkResponse(response, options).candidates?.[0]?.content?.parts?.[0]?.inlineData?.data || '';
+        },
+
+        generateImage: async ({ model, prompt }, options = {}) => {
+            const response = await getClient().models.generateContent({
+                model,
+                contents: { parts: [{ text: prompt }] },
+                config: { responseModalities: [Modality.IMAGE] },
+            });
+            const parts = checkResponse(response, options).candidates?.[0]?.content?.parts ?? [];
+            const imagePart = parts.find(part => part.inlineData?.data);
+            if (!imagePart?.inlineData?.data) {
+                return '';
+            }
+            return `data:${imagePart.inlineData.mimeType || 'image/png'};base64,${imagePart.inlineData.data}`;
+        },
+    };
+};
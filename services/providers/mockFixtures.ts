@@ -0,0 +1,166 @@
+// services/providers/mockFixtures.ts
+// Canned payloads served by the offline mock provider. They follow the response
+// schemas used by the feature components so the whole UI can be exercised without network.
+
+import { MindMapNode, Flashcard } from '../../types';
+
+export const MOCK_MARKDOWN_CONTENT = `## Giới thiệu (offline demo)
+
+Đây là nội dung mẫu do **nhà cung cấp AI giả lập** tạo ra để kiểm thử giao diện khi không có mạng.
+
+### Kiến thức trọng tâm
+- Phương trình bậc hai có dạng $ax^2 + bx + c = 0$ với $a \\neq 0$.
+- Biệt thức: $\\Delta = b^2 - 4ac$.
+
+$$x = \\frac{-b \\pm \\sqrt{\\Delta}}{2a}$$
+
+[IMAGE: Đồ thị parabol cắt trục hoành tại hai điểm]
+
+## I. TRẮC NGHIỆM
+
+1. Phương trình $x^2 - 5x + 6 = 0$ có nghiệm là:
+A. $x = 1; x = 6$
+B. $x = 2; x = 3$
+C. $x = -2; x = -3$
+D. Vô nghiệm
+
+2. Biệt thức của phương trình $x^2 + 2x + 1 = 0$ bằng:
+A. $0$
+B. $1$
+C. $4$
+D. $-4$
+
+## II. TỰ LUẬN
+
+1. Giải phương trình $2x^2 - 3x + 1 = 0$.
+
+---
+
+**Đáp án:** 1.B, 2.A`;
+
+export const MOCK_WORD_CONTENT = `Giới thiệu (offline demo)
+
+Phương trình bậc hai có dạng ax^2+bx+c=0 với a≠0.
+Biệt thức: Δ=b^2-4ac.
+x=(-b±√Δ)/2a
+
+I. TRẮC NGHIỆM
+1. Phương trình x^2-5x+6=0 có nghiệm là:
+A. x=1; x=6
+B. x=2; x=3
+C. x=-2; x=-3
+D. Vô nghiệm
+
+2. Biệt thức của phương trình x^2+2x+1=0 bằng:
+A. 0
+B. 1
+C. 4
+D. -4
+
+II. TỰ LUẬN
+1. Giải phương trình 2x^2-3x+1=0.
+
+Đáp án: 1.B, 2.A`;
+
+export const MOCK_PLAN: string[] = [
+    'Tập hợp và mệnh đề',
+    'Bất phương trình bậc nhất hai ẩn $ax + by < c$',
+    'Hàm số bậc hai $y = ax^2 + bx + c$',
+    'Hệ thức lượng trong tam giác',
+    'Vectơ và các phép toán',
+    'Thống kê và xác suất',
+];
+
+export const MOCK_MIND_MAP: MindMapNode = {
+    title: 'Phương trình bậc hai (offline demo)',
+    children: [
+        {
+            title: 'Định nghĩa',
+            children: [{ title: '$ax^2 + bx + c = 0$' }, { title: '$a \\neq 0$' }],
+        },
+        {
+            title: 'Cách giải',
+            children: [{ title: '$\\Delta = b^2 - 4ac$' }, { title: 'Công thức nghiệm' }],
+        },
+        {
+            title: 'Ứng dụng',
+            children: [{ title: 'Bài toán chuyển động' }, { title: 'Tối ưu diện tích' }],
+        },
+    ],
+};
+
+export const MOCK_FLASHCARDS: Flashcard[] = [
+    { question: 'Dạng tổng quát của phương trình bậc hai?', answer: '$ax^2 + bx + c = 0$, $a \\neq 0$' },
+    { question: 'Công thức biệt thức?', answer: '$\\Delta = b^2 - 4ac$' },
+    { question: 'Khi nào phương trình vô nghiệm?', answer: 'Khi $\\Delta < 0$' },
+];
+
+export const MOCK_EXAM_TITLE = 'Kiểm tra: Phương trình bậc hai (offline demo)';
+
+// Raw exam sections, as the model returns them (see services/examModel.ts).
+export const MOCK_EXAM_SECTIONS = [
+    {
+        title: 'I. TRẮC NGHIỆM',
+        questions: [
+            {
+                type: 'multiple_choice',
+                prompt: 'Phương trình $x^2 - 5x + 6 = 0$ có nghiệm là:',
+                options: ['$x = 1; x = 6$', '$x = 2; x = 3$', '$x = -2; x = -3$', 'Vô nghiệm'],
+                answer: 'B',
+                difficulty: 'recognition',
+                points: 2.5,
+                explanation: '$(x - 2)(x - 3) = 0$ nên $x = 2$ hoặc $x = 3$.',
+            },
+            {
+                type: 'multiple_choice',
+                prompt: 'Biệt thức của phương trình $x^2 + 2x + 1 = 0$ bằng:',
+                options: ['$0$', '$1$', '$4$', '$-4$'],
+                answer: 'A',
+                difficulty: 'comprehension',
+                points: 2.5,
+                explanation: '$\\Delta = 2^2 - 4 \\cdot 1 \\cdot 1 = 0$.',
+            },
+        ],
+    },
+    {
+        title: 'II. TỰ LUẬN',
+        questions: [
+            {
+                type: 'essay',
+                prompt: 'Giải phương trình $2x^2 - 3x + 1 = 0$.',
+                answer: '$\\Delta = 1 > 0$, phương trình có hai nghiệm $x_1 = 1$, $x_2 = \\frac{1}{2}$.',
+                difficulty: 'application',
+                points: 5,
+                explanation: 'Tính biệt thức rồi áp dụng công thức nghiệm.',
+            },
+        ],
+    },
+];
+
+export const MOCK_LISTENING_SCRIPT = 'Lan: Hi Minh! How do you get to school every morning?\nMinh: I ride my bike with my sister. What about you, Lan?\nLan: I usually walk, because my house is near the school.';
+
+export const MOCK_CHAT_REPLY = 'Đây là câu trả lời mẫu từ chế độ ngoại tuyến. (This is an offline demo reply.)';
+
+// Values served for string properties, looked up by property name.
+export const MOCK_STRING_FIELDS: Record<string, string> = {
+    markdownContent: MOCK_MARKDOWN_CONTENT,
+    wordContent: MOCK_WORD_CONTENT,
+    listeningScript: MOCK_LISTENING_SCRIPT,
+    title: MOCK_EXAM_TITLE,
+};
+
+// Values served for object/array properties, looked up by property name.
+export const MOCK_STRUCTURED_FIELDS: Record<string, unknown> = {
+    plan: MOCK_PLAN,
+    mindMap: MOCK_MIND_MAP,
+    flashcards: MOCK_FLASHCARDS,
+    sections: MOCK_EXAM_SECTIONS,
+};
+
+export const MOCK_IMAGE_DATA_URL = `data:image/svg+xml;base64,${btoa(
+    '<svg xmlns="http://www.w3.org/2000/svg" width="512" height="288" viewBox="0 0 512 288">'
+    + '<rect width="512" height="288" fill="#e0e7ff"/>'
+    + '<path d="M40 248 Q256 -40 472 248" stroke="#4f46e5" stroke-width="6" fill="none"/>'
+    + '<text x="256" y="272" font-family="sans-serif" font-size="18" text-anchor="middle" fill="#3730a3">offline demo image</text>'
+    + '</svg>',
+)}`;
@@ -0,0 +1,146 @@
+// services/providers/mockProvider.ts
+
+import { Part, Schema, Type } from '@google/genai';
+import { AiContents, AiProvider, RequestOptions, StreamOptions } from './types';
+import {
+    MOCK_CHAT_REPLY,
+    MOCK_IMAGE_DATA_URL,
+    MOCK_MARKDOWN_CONTENT,
+    MOCK_STRING_FIELDS,
+    MOCK_STRUCTURED_FIELDS,
+} from './mockFixtures';
+
+const MOCK_LATENCY_MS = 400;
+const SAMPLE_RATE = 24000;
+
+const STREAM_CHUNK_SIZE = 48;
+const STREAM_CHUNK_DELAY_MS = 30;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Replays `text` in small chunks, like a streaming model would.
+async function* streamChunks(text: string, signal?: AbortSignal): AsyncIterable<string> {
+    for (let start = 0; start < text.length; start += STREAM_CHUNK_SIZE) {
+        if (signal?.aborted) {
+            throw new DOMException('The request was aborted.', 'AbortError');
+        }
+        await delay(STREAM_CHUNK_DELAY_MS);
+        yield text.slice(start, start + STREAM_CHUNK_SIZE);
+    }
+}
+
+// Roughly four characters per token, which is close enough to exercise the usage dashboard.
+const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const contentsText = (contents: AiContents): string => (typeof contents === 'string' ? contents : contents.map(part => part.text || '').join('\n'));
+
+const reportMockUsage = ({ onUsage }: RequestOptions = {}, input: string, output: string): void => {
+    onUsage?.({ inputTokens: estimateTokens(input), outputTokens: estimateTokens(output) });
+};
+
+// Like `streamChunks`, reporting usage for the whole answer once it has been replayed.
+async function* streamWithUsage(input: string, output: string, options: StreamOptions = {}): AsyncIterable<string> {
+    yield* streamChunks(output, options.signal);
+    reportMockUsage(options, input, output);
+}
+
+const mockChatReply = (parts: Part[]): string => {
+    const userText = parts.map(part => part.text || '').join(' ').trim();
+    return userText ? `${MOCK_CHAT_REPLY}\n\n> ${userText}` : MOCK_CHAT_REPLY;
+};
+
+// Builds a value for `schema`, preferring canned fixtures for known property names.
+const buildFromSchema = (schema: Schema, propertyName?: string): unknown => {
+    if (propertyName && propertyName in MOCK_STRUCTURED_FIELDS) {
+        return MOCK_STRUCTURED_FIELDS[propertyName];
+    }
+    switch (schema.type) {
+        case Type.OBJECT: {
+            const result: Record<string, unknown> = {};
+            for (const [key, child] of Object.entries(schema.properties ?? {})) {
+                result[key] = buildFromSchema(child, key);
+            }
+            return result;
+        }
+        case Type.ARRAY:
+            return schema.items ? [0, 1].map(() => buildFromSchema(schema.items!)) : [];
+        case Type.NUMBER:
+        case Type.INTEGER:
+            return schema.minimum ?? 1;
+        case Type.BOOLEAN:
+            return true;
+        case Type.STRING:
+        default:
+            if (schema.enum?.length) {
+                return schema.enum[0];
+            }
+            return (propertyName && MOCK_STRING_FIELDS[propertyName]) || `${propertyName || 'value'} (offline demo)`;
+    }
+};
+
+// One second of a quiet 440Hz tone, as base64 16-bit PCM.
+const buildMockSpeech = (): string => {
+    const samples = new Int16Array(SAMPLE_RATE);
+    for (let i = 0; i < samples.length; i++) {
+        samples[i] = Math.round(Math.sin((2 * Math.PI * 440 * i) / SAMPLE_RATE) * 3000);
+    }
+    const bytes = new Uint8Array(samples.buffer);
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary);
+};
+
+// A deterministic, network-free provider for CI, demos and classroom laptops without a key.
+export const createMockProvider = (latencyMs: number = MOCK_LATENCY_MS): AiProvider => ({
+    name: 'mock',
+
+    generateText: async ({ contents }, options) => {
+        await delay(latencyMs);
+        reportMockUsage(options, contentsText(contents), MOCK_MARKDOWN_CONTENT);
+        return MOCK_MARKDOWN_CONTENT;
+    },
+
+    generateTextStream: async function* ({ contents }, options) {
+        await delay(latencyMs);
+        yield* streamWithUsage(contentsText(contents), MOCK_MARKDOWN_CONTENT, options);
+    },
+
+    generateJson: async ({ contents, schema }, options) => {
+        await delay(latencyMs);
+        const json = JSON.stringify(buildFromSchema(schema));
+        reportMockUsage(options, contentsText(contents), json);
+        return json;
+    },
+
+    generateJsonStream: async function* ({ contents, schema }, options) {
+        await delay(latencyMs);
+        yield* streamWithUsage(contentsText(contents), JSON.stringify(buildFromSchema(schema)), options);
+    },
+
+    createChat: () => ({
+        sendMessage: async (parts, options) => {
+            await delay(latencyMs);
+            const reply = mockChatReply(parts);
+            reportMockUsage(options, contentsText(parts), reply);
+            return reply;
+        },
+        sendMessageStream: async function* (parts, options) {
+            await delay(latencyMs);
+            yield* streamWithUsage(contentsText(parts), mockChatReply(parts), options);
+        },
+    }),
+
+    generateSpeech: async ({ text }, options) => {
+        await delay(latencyMs);
+        reportMockUsage(options, text, '');
+        return buildMockSpeech();
+    },
+
+    generateImage: async ({ prompt }, options) => {
+        await delay(latencyMs);
+        reportMockUsage(options, prompt, '');
+        return MOCK_IMAGE_DATA_URL;
+    },
+});
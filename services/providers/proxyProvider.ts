@@ -0,0 +1,150 @@
+// services/providers/proxyProvider.ts
+
+import { AiProvider, ChatTurn, RequestOptions, StreamOptions, TokenUsage } from './types';
+import { AiErrorCode, isAiErrorCode } from '../aiErrors';
+
+export const DEFAULT_PROXY_URL = '/api';
+
+const SESSION_STORAGE_KEY = 'triVietProxySession';
+
+export class ProxyRequestError extends Error {
+    readonly status: number;
+    // The server's classification of the failure, see `classifyError`.
+    readonly code?: AiErrorCode;
+    readonly retryAfterMs?: number;
+
+    constructor(status: number, message: string, code?: unknown, retryAfterMs?: number) {
+        super(message);
+        this.name = 'ProxyRequestError';
+        this.status = status;
+        this.code = isAiErrorCode(code) ? code : undefined;
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+// A random id per browser tab, used by the server for rate limiting and logs.
+const getSessionId = (): string => {
+    let sessionId = sessionStorage.getItem(SESSION_STORAGE_KEY);
+    if (!sessionId) {
+        sessionId = crypto.randomUUID();
+        sessionStorage.setItem(SESSION_STORAGE_KEY, sessionId);
+    }
+    return sessionId;
+};
+
+// Talks to the Node proxy in `server/`, which holds the Gemini key.
+export const createProxyProvider = (baseUrl: string = DEFAULT_PROXY_URL): AiProvider => {
+    const request = (path: string, body: unknown, signal?: AbortSignal) => fetch(`${baseUrl.replace(/\/$/, '')}${path}`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'X-Session-Id': getSessionId(),
+        },
+        body: JSON.stringify(body),
+        signal,
+    });
+
+    const throwIfFailed = async (response: Response) => {
+        if (!response.ok) {
+            const payload = await response.json().catch(() => ({}));
+            const retryAfterSeconds = Number(response.headers.get('Retry-After'));
+            throw new ProxyRequestError(
+                response.status,
+                payload.error || `Proxy request failed with status ${response.status}.`,
+                payload.code,
+                retryAfterSeconds > 0 ? retryAfterSeconds * 1000 : undefined,
+            );
+        }
+    };
+
+    // Answers carry the upstream token counts next to the payload as `usage`.
+    const post = async <T,>(path: string, body: unknown, { onUsage }: RequestOptions = {}): Promise<T> => {
+        const response = await request(path, body);
+        await throwIfFailed(response);
+        const payload = await response.json() as T & { usage?: TokenUsage };
+        if (payload.usage) {
+            onUsage?.(payload.usage);
+        }
+        return payload;
+    };
+
+    // Streaming endpoints answer with one JSON object per line: `{"text": "..."}` deltas, a final
+    // `{"usage": {...}}`, or `{"error": "...", "status": 500, "code": "server_error"}` when the upstream call fails mid-stream.
+    async function* postStream(path: string, body: unknown, { signal, onUsage }: StreamOptions = {}): AsyncIterable<string> {
+        const response = await request(path, body, signal);
+        await throwIfFailed(response);
+        if (!response.body) {
+            throw new ProxyRequestError(response.status, 'The proxy returned an empty stream.');
+        }
+        const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+        let buffer = '';
+        while (true) {
+            const { value, done } = await reader.read();
+            if (done) break;
+            buffer += value;
+            const lines = buffer.split('\n');
+            buffer = lines.pop() ?? '';
+            for (const line of lines) {
+                if (!line.trim()) continue;
+                const message = JSON.parse(line);
+                if (message.error) {
+                    throw new ProxyRequestError(message.status || 502, message.error, message.code);
+                }
+                if (message.usage) {
+                    onUsage?.(message.usage);
+                }
+                if (message.text) {
+                    yield message.text as string;
+                }
+            }
+        }
+    }
+
+    return {
+        name: 'proxy',
+
+        generateText: async ({ model, contents }, options) => {
+            const { text } = await post<{ text: string }>('/generate', { kind: 'text', model, contents }, options);
+            return text;
+        },
+
+        generateTextStream: ({ model, contents }, options) => postStream('/generate/stream', { kind: 'text', model, contents }, options),
+
+        generateJson: async ({ model, contents, schema }, options) => {
+            const { text } = await post<{ text: string }>('/generate', { kind: 'json', model, contents, schema }, options);
+            return text;
+        },
+
+        generateJsonStream: ({ model, contents, schema }, options) => postStream('/generate/stream', { kind: 'json', model, contents, schema }, options),
+
+        // The server is stateless, so the conversation is kept here and replayed on every turn.
+        createChat: ({ model, systemInstruction, history = [] }) => {
+            const turns: ChatTurn[] = [...history];
+            return {
+                sendMessage: async (parts, options) => {
+                    const { text } = await post<{ text: string }>('/chat', { model, systemInstruction, history: turns, message: parts }, options);
+                    turns.push({ role: 'user', parts }, { role: 'model', parts: [{ text }] });
+                    return text;
+                },
+                sendMessageStream: async function* (parts, options) {
+                    let text = '';
+                    for await (const delta of postStream('/chat/stream', { model, systemInstruction, history: turns, message: parts }, options)) {
+                        text += delta;
+                        yield delta;
+                    }
+                    turns.push({ role: 'user', parts }, { role: 'model', parts: [{ text }] });
+                },
+            };
+        },
+
+        generateSpeech: async ({ model, text, voiceName, speakers }, options) => {
+            const { audio } = await post<{ audio: string }>('/tts', { model, text, voiceName, speakers }, options);
+            return audio;
+        },
+
+        generateImage: async ({ model, prompt }, options) => {
+            const { image } = await post<{ image: string }>('/image', { model, prompt }, options);
+            return image;
+        },
+    };
+};
@@ -0,0 +1,83 @@
+// services/providers/types.ts
+
+import { Part, Schema } from '@google/genai';
+
+export type AiContents = string | Part[];
+
+export interface TextRequest {
+    model: string;
+    contents: AiContents;
+}
+
+export interface JsonRequest extends TextRequest {
+    schema: Schema;
+}
+
+export interface ChatTurn {
+    role: 'user' | 'model';
+    parts: Part[];
+}
+
+export interface ChatRequest {
+    model: string;
+    systemInstruction: string;
+    // Earlier turns to resume from. Used by stateless transports such as the proxy.
+    history?: ChatTurn[];
+}
+
+export interface SpeakerVoice {
+    // As the text labels the speaker's lines: "Tom: Hello!"
+    speaker: string;
+    voiceName: string;
+}
+
+export interface SpeechRequest {
+    model: string;
+    text: string;
+    voiceName: string;
+    // A dialogue of exactly two speakers, voiced in one call. Replaces `voiceName`.
+    speakers?: SpeakerVoice[];
+}
+
+export interface ImageRequest {
+    model: string;
+    prompt: string;
+}
+
+// Token counts from the response usage metadata. Thinking tokens are billed as output.
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+}
+
+export interface RequestOptions {
+    // Called once per call with the usage the backend reported, if it reported any.
+    onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface StreamOptions extends RequestOptions {
+    signal?: AbortSignal;
+}
+
+export interface ProviderChat {
+    sendMessage: (parts: Part[], options?: RequestOptions) => Promise<string>;
+    // Yields the reply as text deltas.
+    sendMessageStream: (parts: Part[], options?: StreamOptions) => AsyncIterable<string>;
+}
+
+// A backend able to serve every kind of AI call the app makes.
+// Providers return raw model output; parsing and error policy live in aiService.
+export interface AiProvider {
+    readonly name: string;
+    generateText: (request: TextRequest, options?: RequestOptions) => Promise<string>;
+    generateTextStream: (request: TextRequest, options?: StreamOptions) => AsyncIterable<string>;
+    // Resolves to the raw JSON text produced for `schema`.
+    generateJson: (request: JsonRequest, options?: RequestOptions) => Promise<string>;
+    // Yields the raw JSON text for `schema` as deltas.
+    generateJsonStream: (request: JsonRequest, options?: StreamOptions) => AsyncIterable<string>;
+    createChat: (request: ChatRequest) => ProviderChat;
+    // Resolves to base64-encoded 24kHz mono 16-bit PCM, or '' when none was produced.
+    generateSpeech: (request: SpeechRequest, options?: RequestOptions) => Promise<string>;
+    // Resolves to an image data URL, or '' when none was produced.
+    generateImage: (request: ImageRequest, options?: RequestOptions) => Promise<string>;
+}
@@ -0,0 +1,304 @@
+// services/questionBank.ts
+// The question bank (ngân hàng câu hỏi): questions saved from exams and imported files, tagged
+// with grade, subject, textbook, topic and level and persisted in localStorage. Near-identical
+// questions are kept once. Matrix exams can take part of their questions from it.
+
+import { BankQuestion, DifficultyLevel, Exam, ExamMatrix, ExamQuestion, ItemStatistics, QuestionType, Subject } from '../types';
+import { getMatrixCell, updateMatrixCell } from './examMatrix';
+import { shuffle } from './examVersions';
+
+type Translate = (key: string) => string;
+
+export type NewBankQuestion = Omit<BankQuestion, 'id' | 'addedAt' | 'usedCount'>;
+
+export interface BankFilter {
+    query?: string;
+    grade?: number;
+    subject?: Subject;
+    textbook?: string;
+    topic?: string;
+    difficulty?: DifficultyLevel;
+    type?: QuestionType;
+    // Only questions item analysis found a problem with.
+    flagged?: boolean;
+}
+
+export interface BankAddResult {
+    added: number;
+    duplicates: number;
+}
+
+// A bank question placed in a matrix cell, with the cell's points and topic.
+export interface BankPick {
+    bankId: string;
+    question: ExamQuestion;
+}
+
+export interface MatrixFill {
+    picks: BankPick[];
+    // The matrix with the picked questions taken out: what is left to generate.
+    remaining: ExamMatrix;
+}
+
+const QUESTION_BANK_STORAGE_KEY = 'triVietQuestionBank';
+
+const DIFFICULTY_LEVELS = Object.values(DifficultyLevel);
+const ROMAN_NUMERALS = ['I', 'II', 'III', 'IV', 'V'];
+
+// Share of character trigrams two questions need in common to count as the same question.
+const DUPLICATE_SIMILARITY = 0.9;
+
+const loadQuestions = (): BankQuestion[] => {
+    try {
+        const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(QUESTION_BANK_STORAGE_KEY) : null;
+        return saved ? JSON.parse(saved) : [];
+    } catch (e) {
+        console.error('Failed to parse the question bank', e);
+        return [];
+    }
+};
+
+let questions: BankQuestion[] = loadQuestions();
+const listeners = new Set<() => void>();
+
+// Throws when localStorage is full, leaving the bank as it was.
+const saveQuestions = (updated: BankQuestion[]) => {
+    localStorage.setItem(QUESTION_BANK_STORAGE_KEY, JSON.stringify(updated));
+    questions = updated;
+    listeners.forEach(listener => listener());
+};
+
+export const getQuestionBank = (): BankQuestion[] => questions;
+
+// Calls `listener` after every change; returns the unsubscribe function.
+export const subscribeToQuestionBank = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+};
+
+// Lower case without diacritics, so "Phương trình" matches "phuong trinh".
+export const foldText = (text: string): string => text
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/đ/g, 'd');
+
+interface QuestionSignature {
+    trigrams: Set<string>;
+    numbers: string;
+}
+
+const signatures = new WeakMap<ExamQuestion, QuestionSignature>();
+
+// Options are sorted, so the same question with its options shuffled is still the same question.
+// Spacing and Markdown emphasis are ignored: `x^2-4` and `x^2 - 4` are the same.
+const getSignature = (question: ExamQuestion): QuestionSignature => {
+    let signature = signatures.get(question);
+    if (!signature) {
+        const text = foldText([question.prompt, ...[...(question.options ?? [])].sort(), ...(question.statements ?? []).map(statement => statement.text)].join(' '));
+        const compact = text.replace(/[\s*$]+/g, '');
+        const trigrams = new Set<string>();
+        for (let i = 0; i + 3 <= compact.length; i++) trigrams.add(compact.slice(i, i + 3));
+        signature = { trigrams, numbers: (text.match(/\d+(?:[.,]\d+)?/g) ?? []).join(' ') };
+        signatures.set(question, signature);
+    }
+    return signature;
+};
+
+// Rewordings of the same question match, but not the same question with other numbers in it.
+export const isNearDuplicate = (a: ExamQuestion, b: ExamQuestion): boolean => {
+    if (a.type !== b.type) return false;
+    const first = getSignature(a);
+    const second = getSignature(b);
+    if (first.numbers !== second.numbers) return false;
+    let shared = 0;
+    for (const trigram of first.trigrams) {
+        if (second.trigrams.has(trigram)) shared++;
+    }
+    return 2 * shared / (first.trigrams.size + second.trigrams.size) >= DUPLICATE_SIMILARITY;
+};
+
+export const findNearDuplicate = (bank: BankQuestion[], question: ExamQuestion): BankQuestion | undefined =>
+    bank.find(existing => isNearDuplicate(existing.question, question));
+
+// Questions that duplicate one already in the bank (or earlier in `entries`) are skipped.
+export const addQuestionsToBank = (entries: NewBankQuestion[]): BankAddResult => {
+    const now = Date.now();
+    const added: BankQuestion[] = [];
+    let duplicates = 0;
+    for (const entry of entries) {
+        if (findNearDuplicate(added, entry.question) || findNearDuplicate(questions, entry.question)) {
+            duplicates++;
+            continue;
+        }
+        const id = `b${now.toString(36)}-${questions.length + added.length + 1}`;
+        added.push({ ...entry, id, question: { ...entry.question, id }, addedAt: now, usedCount: 0 });
+    }
+    if (added.length > 0) {
+        saveQuestions([...added.reverse(), ...questions]);
+    }
+    return { added: added.length, duplicates };
+};
+
+// `textbook` is the one the exam was written for, as stored on bank questions.
+export const bankEntriesFromExam = (exam: Exam, textbook: string): NewBankQuestion[] => exam.sections.flatMap(section =>
+    section.questions.map(question => ({
+        question,
+        grade: exam.grade,
+        subject: exam.subject,
+        textbook,
+        topic: question.topic?.trim() || exam.topic.trim(),
+        ...(section.passage ? { passage: section.passage } : {}),
+        source: exam.title,
+    })));
+
+export const removeFromBank = (ids: string[]) => {
+    saveQuestions(questions.filter(question => !ids.includes(question.id)));
+};
+
+// Keeps the oldest of each group of near-identical questions; returns how many were removed.
+export const removeBankDuplicates = (): number => {
+    const kept: BankQuestion[] = [];
+    for (const question of [...questions].sort((a, b) => a.addedAt - b.addedAt)) {
+        if (!findNearDuplicate(kept, question.question)) kept.push(question);
+    }
+    const removed = questions.length - kept.length;
+    if (removed > 0) {
+        saveQuestions(questions.filter(question => kept.includes(question)));
+    }
+    return removed;
+};
+
+export const markBankQuestionsUsed = (ids: string[]) => {
+    if (ids.length === 0) return;
+    try {
+        saveQuestions(questions.map(question => ids.includes(question.id) ? { ...question, usedCount: question.usedCount + 1 } : question));
+    } catch (e) {
+        console.warn('Failed to update the question bank', e);
+    }
+};
+
+// Stores each question's statistics on the bank questions it matches; returns how many were updated.
+export const recordItemStatistics = (items: { question: ExamQuestion; statistics: ItemStatistics }[]): number => {
+    const updates = new Map<string, ItemStatistics>();
+    for (const { question, statistics } of items) {
+        const match = findNearDuplicate(questions, question);
+        if (match) updates.set(match.id, statistics);
+    }
+    if (updates.size > 0) {
+        saveQuestions(questions.map(question => updates.has(question.id) ? { ...question, analysis: updates.get(question.id) } : question));
+    }
+    return updates.size;
+};
+
+export const isFlagged = (question: BankQuestion): boolean => (question.analysis?.flags.length ?? 0) > 0;
+
+const topicMatches = (a: string, b: string): boolean => {
+    const first = foldText(a).trim();
+    const second = foldText(b).trim();
+    return first === second || (first !== '' && second !== '' && (first.includes(second) || second.includes(first)));
+};
+
+const searchText = (question: BankQuestion): string => foldText([
+    question.question.prompt,
+    ...(question.question.options ?? []),
+    ...(question.question.statements ?? []).map(statement => statement.text),
+    question.question.answer ?? '',
+    question.topic,
+    question.source,
+].join(' '));
+
+// The query matches questions containing all of its words, diacritics ignored.
+export const filterBank = (bank: BankQuestion[], filter: BankFilter): BankQuestion[] => {
+    const words = foldText(filter.query ?? '').split(/\s+/).filter(Boolean);
+    return bank.filter(question =>
+        (filter.grade === undefined || question.grade === filter.grade)
+        && (filter.subject === undefined || question.subject === filter.subject)
+        && (filter.textbook === undefined || question.textbook === filter.textbook)
+        && (filter.topic === undefined || question.topic === filter.topic)
+        && (filter.difficulty === undefined || question.question.difficulty === filter.difficulty)
+        && (filter.type === undefined || question.question.type === filter.type)
+        && (!filter.flagged || isFlagged(question))
+        && (words.length === 0 || words.every(word => searchText(question).includes(word))));
+};
+
+export const getBankTopics = (bank: BankQuestion[]): string[] =>
+    Array.from(new Set(bank.map(question => question.topic).filter(Boolean))).sort((a, b) => a.localeCompare(b));
+
+export const getBankTextbooks = (bank: BankQuestion[]): string[] =>
+    Array.from(new Set(bank.map(question => question.textbook).filter(Boolean)));
+
+// Takes bank questions for as many matrix cells as it can, the least reused first and those item
+// analysis flagged last. Questions tied to a reading passage are left out, as a matrix section
+// has no passage to go with them.
+export const fillMatrixFromBank = (
+    matrix: ExamMatrix,
+    bank: BankQuestion[],
+    { subject, grade, textbook }: { subject: Subject; grade: number; textbook: string },
+): MatrixFill => {
+    const picks: BankPick[] = [];
+    const used = new Set<string>();
+    let remaining = matrix;
+    for (const row of matrix.rows.filter(candidate => candidate.topic.trim())) {
+        for (const type of matrix.questionTypes) {
+            for (const level of DIFFICULTY_LEVELS) {
+                const cell = getMatrixCell(row, type, level);
+                if (cell.count === 0) continue;
+                const candidates = shuffle(bank.filter(question =>
+                    !used.has(question.id)
+                    && !question.passage
+                    && question.subject === subject
+                    && question.grade === grade
+                    && (!textbook || !question.textbook || question.textbook === textbook)
+                    && question.question.type === type
+                    && question.question.difficulty === level
+                    && topicMatches(question.topic, row.topic)))
+                    .sort((a, b) => Number(isFlagged(a)) - Number(isFlagged(b)) || a.usedCount - b.usedCount)
+                    .slice(0, cell.count);
+                if (candidates.length === 0) continue;
+                for (const candidate of candidates) {
+                    used.add(candidate.id);
+                    picks.push({
+                        bankId: candidate.id,
+                        question: { ...candidate.question, points: cell.pointsPerQuestion, topic: row.topic.trim() },
+                    });
+                }
+                remaining = updateMatrixCell(remaining, row.id, type, level, { count: cell.count - candidates.length });
+            }
+        }
+    }
+    return { picks, remaining };
+};
+
+// Puts the picked bank questions into the generated exam. `sectionTypes` are the types of the
+// full matrix's sections and `generatedTypes` those the model was asked for, in the same order as
+// its sections. Questions are sorted by level within each section and renumbered.
+export const mergeBankPicks = (
+    exam: Exam,
+    picks: BankPick[],
+    sectionTypes: string[],
+    generatedTypes: string[],
+    t: Translate,
+): Exam => {
+    const typedSections = sectionTypes.map((type, index) => {
+        const generated = generatedTypes.includes(type) ? exam.sections[generatedTypes.indexOf(type)] : undefined;
+        const title = generated?.title.replace(/^[IVX]+\.\s*/, '').trim() || t(type).toUpperCase();
+        return {
+            ...generated,
+            title: `${ROMAN_NUMERALS[index]}. ${title}`,
+            questions: [...(generated?.questions ?? []), ...picks.filter(pick => pick.question.type === type).map(pick => pick.question)]
+                .sort((a, b) => DIFFICULTY_LEVELS.indexOf(a.difficulty) - DIFFICULTY_LEVELS.indexOf(b.difficulty)),
+        };
+    });
+    // Sections the model added beyond the matrix stay at the end.
+    const sections = [...typedSections, ...exam.sections.slice(generatedTypes.length)];
+    let questionCount = 0;
+    return {
+        ...exam,
+        sections: sections.map((section, index) => ({
+            ...section,
+            id: `s${index + 1}`,
+            questions: section.questions.map(question => ({ ...question, id: `q${++questionCount}` })),
+        })),
+    };
+};
@@ -0,0 +1,125 @@
+// services/responseCache.ts
+// Content-addressed cache of AI responses in IndexedDB. The key is a SHA-256 over the model,
+// the prompt and the hashes of any attached files, so the same request is only paid for once.
+
+import { AiContents } from './providers/types';
+
+const DB_NAME = 'triVietCache';
+const DB_VERSION = 1;
+const STORE_NAME = 'responses';
+
+export interface CacheKeyInput {
+    kind: 'text' | 'json';
+    model: string;
+    contents: AiContents;
+    schema?: unknown;
+}
+
+interface CacheEntry {
+    key: string;
+    model: string;
+    value: string;
+    size: number;
+    createdAt: number;
+    lastUsedAt: number;
+}
+
+export interface CacheStats {
+    entries: number;
+    bytes: number;
+}
+
+export const isCacheAvailable = (): boolean => typeof indexedDB !== 'undefined' && typeof crypto?.subtle !== 'undefined';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const getStore = async (mode: IDBTransactionMode): Promise<IDBObjectStore> => {
+    const db = await openDb();
+    return db.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+};
+
+const sha256 = async (text: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const buildCacheKey = async ({ kind, model, contents, schema }: CacheKeyInput): Promise<string> => {
+    // Files are replaced by their own hash so the key input stays small.
+    const parts = typeof contents === 'string'
+        ? [{ text: contents }]
+        : await Promise.all(contents.map(async part => part.inlineData?.data
+            ? { file: await sha256(part.inlineData.data), mimeType: part.inlineData.mimeType }
+            : part));
+    return sha256(JSON.stringify({ kind, model, parts, schema }));
+};
+
+export const readCache = async (key: string, ttlMs: number): Promise<string | null> => {
+    const entry = await requestToPromise<CacheEntry | undefined>((await getStore('readonly')).get(key));
+    if (!entry) {
+        return null;
+    }
+    const store = await getStore('readwrite');
+    if (Date.now() - entry.createdAt > ttlMs) {
+        await requestToPromise(store.delete(key));
+        return null;
+    }
+    await requestToPromise(store.put({ ...entry, lastUsedAt: Date.now() }));
+    return entry.value;
+};
+
+// Stores `value` and then drops the least recently used entries until the cache fits in `maxBytes`.
+export const writeCache = async (key: string, model: string, value: string, maxBytes: number): Promise<void> => {
+    const now = Date.now();
+    const size = new TextEncoder().encode(value).length;
+    if (size > maxBytes) {
+        return;
+    }
+    const store = await getStore('readwrite');
+    await requestToPromise(store.put({ key, model, value, size, createdAt: now, lastUsedAt: now } satisfies CacheEntry));
+
+    const entries = await requestToPromise<CacheEntry[]>(store.getAll());
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+    const byAge = entries.sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+    for (const entry of byAge) {
+        if (total <= maxBytes) break;
+        await requestToPromise(store.delete(entry.key));
+        total -= entry.size;
+    }
+};
+
+export const getCacheStats = async (): Promise<CacheStats> => {
+    if (!isCacheAvailable()) {
+        return { entries: 0, bytes: 0 };
+    }
+    const entries = await requestToPromise<CacheEntry[]>((await getStore('readonly')).getAll());
+    return { entries: entries.length, bytes: entries.reduce((sum, entry) => sum + entry.size, 0) };
+};
+
+export const clearCache = async (): Promise<void> => {
+    if (!isCacheAvailable()) {
+        return;
+    }
+    await requestToPromise((await getStore('readwrite')).clear());
+};
@@ -0,0 +1,227 @@
+// services/responseValidators.ts
+// Runtime checks for the structured output of each feature. A validator returns the typed value,
+// or a list of problems (with the JSON path) that the repair pass can send back to the model.
+
+import { DifficultyLevel, Flashcard, MindMapNode, QuestionType } from '../types';
+import { parseOptionLetter } from './examModel';
+
+// Valid when `issues` is empty.
+export interface ValidationResult<T> {
+    value?: T;
+    issues: string[];
+}
+export type Validator<T> = (value: unknown, path?: string) => ValidationResult<T>;
+
+const invalid = (path: string, message: string): ValidationResult<never> => ({ issues: [`${path || '(root)'}: ${message}`] });
+const valid = <T,>(value: T): ValidationResult<T> => ({ value, issues: [] });
+
+export const string = ({ allowEmpty = false } = {}): Validator<string> => (value, path = '') => {
+    if (typeof value !== 'string') {
+        return invalid(path, `expected a string, got ${value === null ? 'null' : typeof value}`);
+    }
+    if (!allowEmpty && !value.trim()) {
+        return invalid(path, 'must not be empty');
+    }
+    return valid(value);
+};
+
+export const number = ({ min = -Infinity } = {}): Validator<number> => (value, path = '') => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return invalid(path, `expected a number, got ${value === null ? 'null' : typeof value}`);
+    }
+    if (value < min) {
+        return invalid(path, `must be at least ${min}`);
+    }
+    return valid(value);
+};
+
+export const boolean = (): Validator<boolean> => (value, path = '') => {
+    if (typeof value !== 'boolean') {
+        return invalid(path, `expected a boolean, got ${value === null ? 'null' : typeof value}`);
+    }
+    return valid(value);
+};
+
+export const oneOf = <T extends string>(allowed: readonly T[]): Validator<T> => (value, path = '') => {
+    if (!allowed.includes(value as T)) {
+        return invalid(path, `expected one of ${allowed.map(option => `"${option}"`).join(', ')}, got ${JSON.stringify(value)}`);
+    }
+    return valid(value as T);
+};
+
+export const arrayOf = <T,>(item: Validator<T>, { minLength = 0 } = {}): Validator<T[]> => (value, path = '') => {
+    if (!Array.isArray(value)) {
+        return invalid(path, 'expected an array');
+    }
+    if (value.length < minLength) {
+        return invalid(path, `expected at least ${minLength} item(s), got ${value.length}`);
+    }
+    const items: T[] = [];
+    const issues: string[] = [];
+    value.forEach((element, index) => {
+        const result = item(element, `${path}[${index}]`);
+        items.push(result.value);
+        issues.push(...result.issues);
+    });
+    return issues.length ? { issues } : valid(items);
+};
+
+export const optional = <T,>(validator: Validator<T>): Validator<T | undefined> => (value, path) => {
+    return value === undefined || value === null ? valid(undefined) : validator(value, path);
+};
+
+type Shape = Record<string, Validator<unknown>>;
+type ShapeType<S extends Shape> = { [K in keyof S]: S[K] extends Validator<infer T> ? T : never };
+
+export const object = <S extends Shape>(shape: S): Validator<ShapeType<S>> => (value, path = '') => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return invalid(path, 'expected an object');
+    }
+    const result: Record<string, unknown> = {};
+    const issues: string[] = [];
+    for (const [key, validator] of Object.entries(shape)) {
+        const field = validator((value as Record<string, unknown>)[key], path ? `${path}.${key}` : key);
+        if (field.value !== undefined) result[key] = field.value;
+        issues.push(...field.issues);
+    }
+    return issues.length ? { issues } : valid(result as ShapeType<S>);
+};
+
+// --- Response shapes ---
+
+// Most features return the same content twice: Markdown + LaTeX for the web, UnicodeMath for Word.
+export const dualContentResponse = object({
+    markdownContent: string(),
+    wordContent: string(),
+});
+
+export const lessonResponse = dualContentResponse;
+export const slidesResponse = dualContentResponse;
+export const translationResponse = dualContentResponse;
+export const questionAnalysisResponse = dualContentResponse;
+
+const examQuestionShape = object({
+    type: oneOf(Object.values(QuestionType)),
+    prompt: string(),
+    options: optional(arrayOf(string())),
+    statements: optional(arrayOf(object({ text: string(), isTrue: boolean() }))),
+    answer: optional(string()),
+    difficulty: oneOf(Object.values(DifficultyLevel)),
+    points: number({ min: 0 }),
+    explanation: string({ allowEmpty: true }),
+    topic: optional(string({ allowEmpty: true })),
+});
+
+// A multiple choice answer must name one of the question's own options; a true/false cluster
+// needs its statements.
+const examQuestion: typeof examQuestionShape = (value, path = '') => {
+    const result = examQuestionShape(value, path);
+    if (!result.issues.length && result.value.type === QuestionType.TRUE_FALSE && (result.value.statements?.length ?? 0) < 2) {
+        return invalid(`${path}.statements`, 'a true/false question needs at least 2 statements');
+    }
+    if (result.issues.length || result.value.type !== QuestionType.MULTIPLE_CHOICE) {
+        return result;
+    }
+    const { options = [], answer = '' } = result.value;
+    if (options.length < 2) {
+        return invalid(`${path}.options`, 'a multiple choice question needs at least 2 options');
+    }
+    const correctOption = parseOptionLetter(answer);
+    if (correctOption < 0 || correctOption >= options.length) {
+        return invalid(`${path}.answer`, `expected the letter of one of the ${options.length} options, got ${JSON.stringify(answer)}`);
+    }
+    return result;
+};
+
+// A rewritten question is stored as `type`, so a reply of another type is sent back for repair
+// rather than kept without the options or statements the stored type needs.
+export const examQuestionResponse = (type: QuestionType): typeof examQuestion => (value, path = '') => {
+    const result = examQuestion(value, path);
+    if (!result.issues.length && result.value.type !== type) {
+        return invalid(`${path}.type`, `expected "${type}", got ${JSON.stringify(result.value.type)}`);
+    }
+    return result;
+};
+
+const examSection = object({
+    title: string(),
+    passage: optional(string({ allowEmpty: true })),
+    questions: arrayOf(examQuestion, { minLength: 1 }),
+});
+
+export const examResponse = object({
+    title: string(),
+    sections: arrayOf(examSection, { minLength: 1 }),
+});
+
+export const englishExamResponse = object({
+    title: string(),
+    sections: arrayOf(examSection, { minLength: 1 }),
+    listeningScript: string(),
+});
+
+export const planResponse = object({
+    plan: arrayOf(string(), { minLength: 1 }),
+});
+
+const specificationText = optional(string({ allowEmpty: true }));
+
+export const examSpecificationResponse = object({
+    topics: arrayOf(object({
+        recognition: specificationText,
+        comprehension: specificationText,
+        application: specificationText,
+        high_application: specificationText,
+    })),
+});
+
+const rubricCriterion = object({
+    name: string(),
+    maxPoints: number({ min: 0 }),
+    levels: arrayOf(object({
+        points: number({ min: 0 }),
+        description: string(),
+    }), { minLength: 1 }),
+});
+
+export const essayRubricResponse = object({
+    rubrics: arrayOf(object({
+        criteria: arrayOf(rubricCriterion, { minLength: 1 }),
+        sampleAnswers: arrayOf(string(), { minLength: 1 }),
+    }), { minLength: 1 }),
+});
+
+export const essayGradeResponse = object({
+    scores: arrayOf(object({
+        points: number({ min: 0 }),
+        feedback: string({ allowEmpty: true }),
+    }), { minLength: 1 }),
+    feedback: string(),
+});
+
+export const answerVerificationResponse = object({
+    questions: arrayOf(object({
+        id: string(),
+        prompt: optional(string({ allowEmpty: true })),
+        options: optional(arrayOf(string({ allowEmpty: true }))),
+        statedAnswer: optional(string({ allowEmpty: true })),
+        solution: string({ allowEmpty: true }),
+        finalAnswer: string({ allowEmpty: true }),
+        correctOptions: arrayOf(string()),
+    })),
+});
+
+const mindMapNode: Validator<MindMapNode> = (value, path) => object({
+    title: string(),
+    children: optional(arrayOf(mindMapNode)),
+})(value, path);
+
+const flashcard: Validator<Flashcard> = object({
+    question: string(),
+    answer: string(),
+});
+
+export const summaryResponse = object({
+    mindMap: mindMapNode,
+    flashcards: arrayOf(flashcard, { minLength: 1 }),
+});
@@ -0,0 +1,89 @@
+// services/settings.ts
+// User preferences that non-React code (e.g. the AI service) also needs, persisted in localStorage.
+
+import { AiFeature, DEFAULT_TTS_VOICE } from './models';
+import { Subject } from '../types';
+
+// `proxy` talks to the server in `server/`; `local_key` calls Gemini from the browser with the user's own key.
+export type ConnectionMode = 'proxy' | 'local_key';
+
+export interface AppSettings {
+    // Skip the response cache and always ask the model for a fresh answer.
+    alwaysRegenerate: boolean;
+    cacheTtlDays: number;
+    cacheMaxMb: number;
+    // Estimated spend per calendar month in USD; 0 turns the budget warnings off.
+    monthlyBudgetUsd: number;
+    // Warn once this share of the budget has been spent.
+    budgetWarningPercent: number;
+
+    connectionMode: ConnectionMode;
+    // Empty means the proxy URL the app was built with.
+    proxyUrl: string;
+    // Only used in `local_key` mode. Stored in this browser's localStorage.
+    apiKey: string;
+    // Per-feature model overrides; features without one use `FEATURE_MODELS`.
+    featureModels: Partial<Record<AiFeature, string>>;
+    translationVoice: string;
+    listeningVoice: string;
+    // Listening audio is played this many times, with a pause of this length before each replay.
+    listeningPlays: number;
+    listeningPauseSeconds: number;
+
+    // Pre-filled in the exam generator, learning path and chatbot.
+    defaultGrade: number;
+    defaultSubject: Subject;
+    defaultTextbook: string;
+    // Printed in the header of exported exams.
+    schoolName: string;
+    // Re-solve generated math and science questions to check their answers.
+    verifyAnswers: boolean;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+    alwaysRegenerate: false,
+    cacheTtlDays: 7,
+    cacheMaxMb: 50,
+    monthlyBudgetUsd: 0,
+    budgetWarningPercent: 80,
+    connectionMode: 'proxy',
+    proxyUrl: '',
+    apiKey: '',
+    featureModels: {},
+    translationVoice: DEFAULT_TTS_VOICE,
+    listeningVoice: DEFAULT_TTS_VOICE,
+    listeningPlays: 2,
+    listeningPauseSeconds: 10,
+    defaultGrade: 10,
+    defaultSubject: Subject.MATH,
+    defaultTextbook: 'none',
+    schoolName: '',
+    verifyAnswers: true,
+};
+
+const SETTINGS_STORAGE_KEY = 'triVietSettings';
+
+const loadSettings = (): AppSettings => {
+    try {
+        const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(SETTINGS_STORAGE_KEY) : null;
+        return saved ? { ...DEFAULT_SETTINGS, ...JSON.parse(saved) } : DEFAULT_SETTINGS;
+    } catch (e) {
+        console.error('Failed to parse settings', e);
+        return DEFAULT_SETTINGS;
+    }
+};
+
+let settings: AppSettings = loadSettings();
+
+export const getSettings = (): AppSettings => settings;
+
+export const updateSettings = (changes: Partial<AppSettings>): AppSettings => {
+    settings = { ...settings, ...changes };
+    // When localStorage is full the change still applies, until the page is reloaded.
+    try {
+        localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    } catch (e) {
+        console.warn('Failed to save settings', e);
+    }
+    return settings;
+};
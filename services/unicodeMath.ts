@@ -0,0 +1,176 @@
+// services/unicodeMath.ts
+// Converts the LaTeX in generated content to UnicodeMath, the linear format that Word builds up
+// into native equations. Covers what the prompts ask for (school math, physics and chemistry);
+// unknown commands are kept by name. The symbol tables are shared with the OMML converter.
+
+export const SYMBOLS: Record<string, string> = {
+    alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ε', varepsilon: 'ε', zeta: 'ζ', eta: 'η',
+    theta: 'θ', lambda: 'λ', mu: 'μ', nu: 'ν', xi: 'ξ', pi: 'π', rho: 'ρ', sigma: 'σ', tau: 'τ',
+    phi: 'φ', varphi: 'φ', chi: 'χ', psi: 'ψ', omega: 'ω',
+    Gamma: 'Γ', Delta: 'Δ', Theta: 'Θ', Lambda: 'Λ', Pi: 'Π', Sigma: 'Σ', Phi: 'Φ', Psi: 'Ψ', Omega: 'Ω',
+    pm: '±', mp: '∓', times: '×', cdot: '⋅', div: '÷', ast: '∗',
+    le: '≤', leq: '≤', ge: '≥', geq: '≥', ne: '≠', neq: '≠', approx: '≈', equiv: '≡', sim: '∼', propto: '∝',
+    infty: '∞', to: '→', rightarrow: '→', leftarrow: '←', Rightarrow: '⇒', Leftarrow: '⇐',
+    Leftrightarrow: '⇔', iff: '⇔', implies: '⇒', rightleftharpoons: '⇌', uparrow: '↑', downarrow: '↓',
+    in: '∈', notin: '∉', subset: '⊂', subseteq: '⊆', supset: '⊃', cup: '∪', cap: '∩', setminus: '∖',
+    emptyset: '∅', varnothing: '∅', forall: '∀', exists: '∃', neg: '¬', land: '∧', lor: '∨',
+    perp: '⊥', parallel: '∥', angle: '∠', triangle: '△', circ: '∘', degree: '°',
+    sum: '∑', prod: '∏', int: '∫', partial: '∂', nabla: '∇',
+    ldots: '…', cdots: '⋯', dots: '…', langle: '⟨', rangle: '⟩', lbrace: '{', rbrace: '}',
+    quad: ' ', qquad: ' ',
+};
+
+// Number sets written with \mathbb.
+export const DOUBLE_STRUCK: Record<string, string> = { N: 'ℕ', Z: 'ℤ', Q: 'ℚ', R: 'ℝ', C: 'ℂ' };
+
+// Combining marks; UnicodeMath puts them on the preceding operand.
+export const ACCENTS: Record<string, string> = {
+    vec: '⃗', overrightarrow: '⃗', hat: '̂', widehat: '̂',
+    bar: '̅', overline: '̅', tilde: '̃', dot: '̇',
+};
+
+export const FONT_COMMANDS = new Set(['mathrm', 'mathbf', 'mathit', 'mathsf', 'boldsymbol', 'operatorname', 'textbf', 'textit']);
+export const TEXT_COMMANDS = new Set(['text', 'textrm', 'mbox']);
+
+// Single characters and plain numbers can be scripted or divided as they are; anything longer
+// is parenthesized, and Word drops those parentheses when it builds the equation up.
+const operand = (value: string): string => {
+    const trimmed = value.trim();
+    return /^(.|\d+([.,]\d+)?)$/u.test(trimmed) ? trimmed : `(${trimmed})`;
+};
+
+export const latexToUnicodeMath = (latex: string): string => {
+    let pos = 0;
+
+    const skipSpaces = () => {
+        while (pos < latex.length && /\s/.test(latex[pos])) pos++;
+    };
+
+    const readCommandName = (): string => {
+        pos++; // '\'
+        const name = latex.slice(pos).match(/^([a-zA-Z]+|.?)/)[1];
+        pos += name.length;
+        return name;
+    };
+
+    const readRawGroup = (): string => {
+        skipSpaces();
+        if (latex[pos] !== '{') {
+            return latex[pos++] ?? '';
+        }
+        let depth = 0;
+        const start = pos + 1;
+        for (; pos < latex.length; pos++) {
+            if (latex[pos] === '{') depth++;
+            if (latex[pos] === '}' && --depth === 0) break;
+        }
+        return latex.slice(start, pos++);
+    };
+
+    // A braced group, or else a single character or command.
+    const readArgument = (): string => {
+        skipSpaces();
+        if (latex[pos] === '{') {
+            pos++;
+            const group = parseUntil('}');
+            pos++;
+            return group;
+        }
+        if (latex[pos] === '\\') {
+            return convertCommand(readCommandName());
+        }
+        return latex[pos++] ?? '';
+    };
+
+    const readOptionalArgument = (): string | null => {
+        skipSpaces();
+        if (latex[pos] !== '[') {
+            return null;
+        }
+        pos++;
+        const group = parseUntil(']');
+        pos++;
+        return group;
+    };
+
+    const convertCommand = (name: string): string => {
+        switch (name) {
+            case 'frac':
+            case 'dfrac':
+            case 'tfrac': {
+                const numerator = readArgument();
+                return `${operand(numerator)}/${operand(readArgument())}`;
+            }
+            case 'sqrt': {
+                const index = readOptionalArgument();
+                const radicand = readArgument();
+                return index ? `√(${index.trim()}&${radicand.trim()})` : `√${operand(radicand)}`;
+            }
+            case 'mathbb': {
+                const set = readRawGroup().trim();
+                return DOUBLE_STRUCK[set] ?? set;
+            }
+            case 'left':
+            case 'right': {
+                skipSpaces();
+                const delimiter = latex[pos] === '\\' ? convertCommand(readCommandName()) : latex[pos++] ?? '';
+                return delimiter === '.' ? '' : delimiter;
+            }
+            case 'begin':
+            case 'end':
+                readRawGroup();
+                return '';
+            case '\\':
+            case ',':
+            case ';':
+            case ':':
+            case ' ':
+                return ' ';
+            case '!':
+                return '';
+        }
+        if (TEXT_COMMANDS.has(name)) {
+            return `"${readRawGroup()}"`;
+        }
+        if (FONT_COMMANDS.has(name)) {
+            return readArgument();
+        }
+        if (name in ACCENTS) {
+            return `${operand(readArgument())}${ACCENTS[name]}`;
+        }
+        // Escaped characters (`\{`, `\%`) and function names (`\sin`, `\log`) stand for themselves.
+        return SYMBOLS[name] ?? name;
+    };
+
+    const parseUntil = (end?: string): string => {
+        let output = '';
+        while (pos < latex.length && latex[pos] !== end) {
+            const char = latex[pos];
+            if (char === '\\') {
+                output += convertCommand(readCommandName());
+            } else if (char === '^' || char === '_') {
+                pos++;
+                const script = readArgument();
+                // The trailing space ends the operand, so `H_2SO_4` doesn't subscript "2SO".
+                output += char === '^' && script.trim() === '∘' ? '°' : `${char}${operand(script)} `;
+            } else if (char === '{') {
+                pos++;
+                output += parseUntil('}');
+                pos++;
+            } else {
+                output += char;
+                pos++;
+            }
+        }
+        return output;
+    };
+
+    return parseUntil().replace(/\s+/g, ' ').trim();
+};
+
+// Replaces every `$...$`, `$$...$$`, `\(...\)` and `\[...\]` in `text` with UnicodeMath.
+export const convertMathInText = (text: string): string => text
+    .replace(/\$\$([\s\S]+?)\$\$/g, (_, math) => latexToUnicodeMath(math))
+    .replace(/\\\[([\s\S]+?)\\\]/g, (_, math) => latexToUnicodeMath(math))
+    .replace(/\\\(([\s\S]+?)\\\)/g, (_, math) => latexToUnicodeMath(math))
+    .replace(/\$([^$\n]+?)\$/g, (_, math) => latexToUnicodeMath(math));
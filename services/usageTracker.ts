@@ -0,0 +1,122 @@
+// services/usageTracker.ts
+// Token usage of every AI call, persisted in localStorage, with cost estimates and budget checks.
+
+import { AiFeature, MODEL_PRICING } from './models';
+import { TokenUsage } from './providers/types';
+import { AppSettings } from './settings';
+
+export interface UsageRecord extends TokenUsage {
+    timestamp: number;
+    feature: AiFeature;
+    model: string;
+}
+
+export interface UsageSummary extends TokenUsage {
+    key: string;
+    calls: number;
+    cost: number;
+}
+
+export type BudgetLevel = 'none' | 'ok' | 'warning' | 'exceeded';
+
+export interface BudgetStatus {
+    level: BudgetLevel;
+    spent: number;
+    budget: number;
+}
+
+const USAGE_STORAGE_KEY = 'triVietUsage';
+// About a year of history at classroom volumes; the oldest records are dropped first.
+const MAX_RECORDS = 10_000;
+const RETENTION_MS = 400 * 24 * 60 * 60 * 1000;
+
+const loadRecords = (): UsageRecord[] => {
+    try {
+        const saved = typeof localStorage !== 'undefined' ? localStorage.getItem(USAGE_STORAGE_KEY) : null;
+        return saved ? JSON.parse(saved) : [];
+    } catch (e) {
+        console.error('Failed to parse usage records', e);
+        return [];
+    }
+};
+
+let records: UsageRecord[] = loadRecords();
+const listeners = new Set<() => void>();
+
+const saveRecords = () => {
+    try {
+        localStorage.setItem(USAGE_STORAGE_KEY, JSON.stringify(records));
+    } catch (e) {
+        console.warn('Failed to save usage records', e);
+    }
+    listeners.forEach(listener => listener());
+};
+
+export const getUsageRecords = (): UsageRecord[] => records;
+
+export const recordUsage = (record: Omit<UsageRecord, 'timestamp'>): void => {
+    if (typeof localStorage === 'undefined') {
+        return;
+    }
+    const now = Date.now();
+    records = [...records.filter(existing => now - existing.timestamp < RETENTION_MS), { ...record, timestamp: now }].slice(-MAX_RECORDS);
+    saveRecords();
+};
+
+export const clearUsage = (): void => {
+    records = [];
+    saveRecords();
+};
+
+// Calls `listener` after every change; returns the unsubscribe function.
+export const subscribeToUsage = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+};
+
+export const estimateCost = ({ model, inputTokens, outputTokens }: Pick<UsageRecord, 'model' | 'inputTokens' | 'outputTokens'>): number => {
+    const pricing = MODEL_PRICING[model];
+    if (!pricing) {
+        return 0;
+    }
+    return (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+};
+
+// Local calendar day, e.g. `2025-03-09`.
+export const getDayKey = (timestamp: number): string => {
+    const date = new Date(timestamp);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+export const getMonthStart = (date: Date = new Date()): number => new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+
+// Groups records by `keyOf`, most expensive first.
+export const summarizeUsage = (usage: UsageRecord[], keyOf: (record: UsageRecord) => string): UsageSummary[] => {
+    const groups = new Map<string, UsageSummary>();
+    for (const record of usage) {
+        const key = keyOf(record);
+        const group = groups.get(key) ?? { key, calls: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+        group.calls += 1;
+        group.inputTokens += record.inputTokens;
+        group.outputTokens += record.outputTokens;
+        group.cost += estimateCost(record);
+        groups.set(key, group);
+    }
+    return [...groups.values()].sort((a, b) => b.cost - a.cost);
+};
+
+export const getMonthlyCost = (usage: UsageRecord[] = records, date: Date = new Date()): number => {
+    const monthStart = getMonthStart(date);
+    return usage.filter(record => record.timestamp >= monthStart).reduce((sum, record) => sum + estimateCost(record), 0);
+};
+
+export const getBudgetStatus = ({ monthlyBudgetUsd, budgetWarningPercent }: Pick<AppSettings, 'monthlyBudgetUsd' | 'budgetWarningPercent'>, usage: UsageRecord[] = records): BudgetStatus => {
+    const spent = getMonthlyCost(usage);
+    if (!monthlyBudgetUsd) {
+        return { level: 'none', spent, budget: 0 };
+    }
+    const level: BudgetLevel = spent >= monthlyBudgetUsd
+        ? 'exceeded'
+        : spent >= monthlyBudgetUsd * (budgetWarningPercent / 100) ? 'warning' : 'ok';
+    return { level, spent, budget: monthlyBudgetUsd };
+};
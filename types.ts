@@ -58,6 +58,7 @@ export interface ChatMessage {
     role: 'user' | 'model';
     text: string;
     file?: ChatFile;
+    isError?: boolean;
 }
 
 export enum Dialect {
@@ -70,6 +71,7 @@ export enum DifficultyLevel {
     RECOGNITION = 'recognition',
     COMPREHENSION = 'comprehension',
     APPLICATION = 'application',
+    HIGH_APPLICATION = 'high_application',
 }
 
 export enum LibraryItemType {
@@ -77,12 +79,210 @@ export enum LibraryItemType {
     EXAM = 'exam',
     REVIEW_EXERCISES = 'review_exercises',
     SIMILAR_EXERCISES = 'similar_exercises',
+    EXAM_ATTEMPT = 'exam_attempt',
 }
 
-export interface LibraryItem {
+export enum QuestionType {
+    MULTIPLE_CHOICE = 'multiple_choice',
+    // A cluster of statements (a, b, c, d), each true or false, scored in partial steps.
+    TRUE_FALSE = 'true_false',
+    SHORT_ANSWER = 'short_answer',
+    ESSAY = 'essay',
+}
+
+export interface RubricLevel {
+    points: number;
+    description: string;
+}
+
+export interface RubricCriterion {
+    id: string;
+    name: string;
+    maxPoints: number;
+    // Point bands, from the best answer down.
+    levels: RubricLevel[];
+}
+
+export interface EssayRubric {
+    criteria: RubricCriterion[];
+    sampleAnswers: string[];
+}
+
+export interface TrueFalseStatement {
+    text: string;
+    isTrue: boolean;
+}
+
+export interface ExamQuestion {
+    id: string;
+    type: QuestionType;
+    prompt: string;
+    // Multiple choice only: option texts without their "A." labels, and the index of the correct one.
+    options?: string[];
+    correctOption?: number;
+    // True/false clusters only: the statements, without their "a)" labels.
+    statements?: TrueFalseStatement[];
+    // Expected answer of a short-answer question, or the model answer of an essay.
+    answer?: string;
+    difficulty: DifficultyLevel;
+    points: number;
+    explanation: string;
+    // Essays only, once generated; teachers may edit it before grading.
+    rubric?: EssayRubric;
+    // The exam matrix topic the question was written for, when the exam was built from a matrix.
+    topic?: string;
+}
+
+export interface ExamSection {
+    id: string;
+    title: string;
+    // Reading passage or instructions shared by the questions of the section.
+    passage?: string;
+    questions: ExamQuestion[];
+}
+
+export interface Exam {
+    title: string;
+    subject: Subject;
+    grade: number;
+    topic: string;
+    durationMinutes?: number;
+    sections: ExamSection[];
+    listeningScript?: string;
+    // Key of the voiced listening script in the audio store (services/audioStore.ts), once saved.
+    listeningAudioId?: string;
+    // Code of a shuffled version of the exam (mã đề), printed in its header.
+    versionCode?: string;
+}
+
+// Problems item analysis can find with a question (see services/itemAnalysis.ts).
+export type ItemFlag =
+    | 'too_hard'
+    | 'too_easy'
+    | 'low_discrimination'
+    | 'negative_discrimination'
+    | 'unused_distractor'
+    | 'misleading_distractor';
+
+// How a question did with a class.
+export interface ItemStatistics {
+    responses: number;
+    // Share of the question's points students earned on average (0–1).
+    difficultyIndex: number;
+    // Difficulty index of the best-scoring students minus that of the worst-scoring ones (−1–1);
+    // missing when too few students took the exam.
+    discriminationIndex?: number;
+    flags: ItemFlag[];
+    analyzedAt: number;
+}
+
+// A question kept in the teacher's question bank (ngân hàng câu hỏi) for reuse across exams.
+export interface BankQuestion {
+    id: string;
+    question: ExamQuestion;
+    grade: number;
+    subject: Subject;
+    // A `TEXTBOOKS` key, the name of another textbook, or '' when none was set.
+    textbook: string;
+    topic: string;
+    // Reading passage the question depends on; such questions are not used to fill a matrix.
+    passage?: string;
+    // Title of the exam or file the question came from.
+    source: string;
+    addedAt: number;
+    // How many generated exams have reused it.
+    usedCount: number;
+    // From the latest item analysis of an exam it was in.
+    analysis?: ItemStatistics;
+}
+
+// One cell of the exam matrix (ma trận đề): the questions of one type and level for a topic.
+export interface ExamMatrixCell {
+    count: number;
+    pointsPerQuestion: number;
+}
+
+export interface ExamMatrixRow {
+    id: string;
+    // A topic or lesson unit.
+    topic: string;
+    cells: Partial<Record<QuestionType, Partial<Record<DifficultyLevel, ExamMatrixCell>>>>;
+    // What the questions of each level assess (the specification table, bản đặc tả).
+    requirements?: Partial<Record<DifficultyLevel, string>>;
+}
+
+export interface ExamMatrix {
+    // The question types that get columns in the matrix.
+    questionTypes: QuestionType[];
+    rows: ExamMatrixRow[];
+}
+
+// A photo of a handwritten answer.
+export interface AnswerImage {
+    base64Data: string;
+    mimeType: string;
+}
+
+// Keyed by question id: the index of the chosen option, the typed answer, a photo of it, or for a
+// true/false cluster the verdict on each statement (null until the student picks one).
+export type ExamAnswers = Record<string, number | string | AnswerImage | (boolean | null)[]>;
+
+export interface CriterionScore {
+    criterionId: string;
+    points: number;
+    feedback: string;
+}
+
+export interface EssayGrade {
+    scores: CriterionScore[];
+    feedback: string;
+    earnedPoints: number;
+    // A teacher has checked (and possibly changed) the AI's scores.
+    reviewedByTeacher: boolean;
+}
+
+// `graded` essays were scored against their rubric; `ungraded` ones still wait for it.
+// `partial` true/false clusters have some of their statements right.
+export type QuestionOutcome = 'correct' | 'partial' | 'incorrect' | 'unanswered' | 'graded' | 'ungraded';
+
+export interface QuestionResult {
+    outcome: QuestionOutcome;
+    earnedPoints: number;
+}
+
+export interface ExamAttempt {
+    exam: Exam;
+    answers: ExamAnswers;
+    startedAt: number;
+    submittedAt: number;
+    // The timer ran out and the answers were submitted automatically.
+    timedOut: boolean;
+    results: Record<string, QuestionResult>;
+    essayGrades?: Record<string, EssayGrade>;
+    earnedPoints: number;
+    // Points of the questions that could be graded, automatically or against a rubric.
+    gradedPoints: number;
+    totalPoints: number;
+    // Set when a teacher graded paper answers and released the result to the student.
+    studentName?: string;
+    releasedAt?: number;
+}
+
+interface LibraryItemBase {
     id: string;
     name: string;
-    type: LibraryItemType;
-    content: any; // string for markdown, object for summary
     timestamp: number;
-}
\ No newline at end of file
+    // Prompt template that produced the content, e.g. `exam@1` (see services/prompts).
+    promptVersion?: string;
+}
+
+// Exams saved before the structured model hold their markdown as a string.
+export type LibraryItem = LibraryItemBase & (
+    | { type: LibraryItemType.EXAM | LibraryItemType.REVIEW_EXERCISES; content: Exam | string }
+    | { type: LibraryItemType.SUMMARY; content: { mindMap: MindMapNode } }
+    | { type: LibraryItemType.SIMILAR_EXERCISES; content: string }
+    | { type: LibraryItemType.EXAM_ATTEMPT; content: ExamAttempt }
+);
+
+// What `addToLibrary` takes: an item without `id` and `timestamp`, still discriminated by `type`.
+export type NewLibraryItem = LibraryItem extends infer Item ? Item extends LibraryItem ? Omit<Item, 'id' | 'timestamp'> : never : never;